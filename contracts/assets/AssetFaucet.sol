@@ -0,0 +1,53 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.25;
+
+import "./interfaces/IAssetFaucet.sol";
+import "./interfaces/IAssetToken.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+
+/// @title AssetFaucet contract
+/// @notice The faucet that hands out the limited amount of every asset token per account per window.
+/// The faucet must have the asset's minter role
+contract AssetFaucet is IAssetFaucet, Ownable {
+    /// @notice The limits of the assets: asset => drip
+    mapping(address => Drip) public override drips;
+    /// @notice The timestamps of the last claims: asset => account => timestamp
+    mapping(address => mapping(address => uint256)) public override lastClaims;
+
+    /// @dev Constructor: sets the owner that configures the limits
+    /// @param owner The address of the owner
+    constructor(address owner) Ownable(owner) {}
+
+    /// @notice Sets the limit of the asset. The zero amount removes the asset from the faucet
+    /// @param asset The address of the asset token
+    /// @param amount The amount handed out per claim
+    /// @param window The period between the claims of the same account
+    function setDrip(address asset, uint256 amount, uint256 window) external override onlyOwner {
+        if (asset == address(0)) revert ZeroAddress();
+        drips[asset] = Drip(amount, window);
+        emit DripConfigured(asset, amount, window);
+    }
+
+    /// @notice Mints the limited amount of the asset to `msg.sender` once per window
+    /// @param asset The address of the asset token
+    function claim(address asset) external override {
+        Drip memory drip = drips[asset];
+        if (drip.amount == 0) revert UnsupportedAsset();
+        uint256 next = nextClaimAt(asset, _msgSender());
+        if (block.timestamp < next) revert ClaimTooEarly(next);
+
+        lastClaims[asset][_msgSender()] = block.timestamp;
+        IAssetToken(asset).mint(_msgSender(), drip.amount);
+        emit Claimed(asset, _msgSender(), drip.amount);
+    }
+
+    /// @notice Receives the timestamp since the account can claim the asset
+    /// @param asset The address of the asset token
+    /// @param account The address of the account
+    /// @return The timestamp of the next claim (zero if the account has never claimed the asset)
+    function nextClaimAt(address asset, address account) public view override returns (uint256) {
+        uint256 lastClaim = lastClaims[asset][account];
+        if (lastClaim == 0) return 0;
+        return lastClaim + drips[asset].window;
+    }
+}
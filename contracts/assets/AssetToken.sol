@@ -0,0 +1,49 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.25;
+
+import "./interfaces/IAssetToken.sol";
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/// @title AssetToken contract
+/// @notice The test token that stands in for a real asset in the donation and staking flows.
+/// Every asset is deployed with its own name, symbol and decimals, the tokens are minted only by the minters
+contract AssetToken is IAssetToken, ERC20, AccessControl {
+    /// @notice The role that can mint the tokens (the admin and the faucet)
+    bytes32 public constant override MINTER_ROLE = keccak256("MINTER_ROLE");
+
+    /// @dev The decimals of the asset
+    uint8 private immutable _decimals;
+
+    /// @dev Constructor: sets the asset's metadata and grants the admin and minter roles to the admin
+    /// @param name The name of the asset
+    /// @param symbol The symbol of the asset
+    /// @param decimals_ The decimals of the asset
+    /// @param initialSupply The amount minted to the admin
+    /// @param admin The address of the admin
+    constructor(
+        string memory name,
+        string memory symbol,
+        uint8 decimals_,
+        uint256 initialSupply,
+        address admin
+    ) ERC20(name, symbol) {
+        _decimals = decimals_;
+        _grantRole(DEFAULT_ADMIN_ROLE, admin);
+        _grantRole(MINTER_ROLE, admin);
+        _mint(admin, initialSupply);
+    }
+
+    /// @notice Mints the tokens to the account
+    /// @param account The address of the account
+    /// @param amount The amount to mint
+    function mint(address account, uint256 amount) external override onlyRole(MINTER_ROLE) {
+        _mint(account, amount);
+    }
+
+    /// @notice Returns the decimals of the asset
+    /// @return The decimals value
+    function decimals() public view override(ERC20, IERC20Metadata) returns (uint8) {
+        return _decimals;
+    }
+}
@@ -0,0 +1,61 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.25;
+
+/// @title IAssetFaucet interface
+/// @notice The interface to the faucet that hands out the limited amounts of the asset tokens
+interface IAssetFaucet {
+    /// @notice The structure keeps the faucet's limit of the asset
+    /// @param amount The amount handed out per claim (zero if the asset isn't supported)
+    /// @param window The period between the claims of the same account
+    struct Drip {
+        uint256 amount;
+        uint256 window;
+    }
+
+    /// @dev The event is triggered whenever the limit of the asset is set
+    /// @param asset The address of the asset token
+    /// @param amount The amount handed out per claim
+    /// @param window The period between the claims of the same account
+    event DripConfigured(address indexed asset, uint256 amount, uint256 window);
+    /// @dev The event is triggered whenever the account claims the asset
+    /// @param asset The address of the asset token
+    /// @param account The address of the account
+    /// @param amount The claimed amount
+    event Claimed(address indexed asset, address indexed account, uint256 amount);
+
+    /// @dev The custom error is triggered when the zero's address is used
+    error ZeroAddress();
+    /// @dev The custom error is triggered when the asset isn't supported by the faucet
+    error UnsupportedAsset();
+    /// @dev The custom error is triggered when the account claims the asset before the window is passed
+    /// @param nextClaimAt The timestamp since the account can claim the asset again
+    error ClaimTooEarly(uint256 nextClaimAt);
+
+    /// @notice Sets the limit of the asset. The zero amount removes the asset from the faucet
+    /// @param asset The address of the asset token
+    /// @param amount The amount handed out per claim
+    /// @param window The period between the claims of the same account
+    function setDrip(address asset, uint256 amount, uint256 window) external;
+
+    /// @notice Mints the limited amount of the asset to `msg.sender` once per window
+    /// @param asset The address of the asset token
+    function claim(address asset) external;
+
+    /// @notice Receives the faucet's limit of the asset
+    /// @param asset The address of the asset token
+    /// @return amount The amount handed out per claim
+    /// @return window The period between the claims of the same account
+    function drips(address asset) external view returns (uint256 amount, uint256 window);
+
+    /// @notice Receives the timestamp of the last claim of the account
+    /// @param asset The address of the asset token
+    /// @param account The address of the account
+    /// @return The timestamp of the last claim
+    function lastClaims(address asset, address account) external view returns (uint256);
+
+    /// @notice Receives the timestamp since the account can claim the asset
+    /// @param asset The address of the asset token
+    /// @param account The address of the account
+    /// @return The timestamp of the next claim
+    function nextClaimAt(address asset, address account) external view returns (uint256);
+}
@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.25;
+
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+
+/// @title IAssetToken interface
+/// @notice The interface to the test token of the asset (BTC, ETH, SOL, ...) that is minted only by the minters
+interface IAssetToken is IERC20Metadata {
+    /// @notice Receives the role that can mint the tokens
+    /// @return The identifier of the minter role
+    function MINTER_ROLE() external view returns (bytes32);
+
+    /// @notice Mints the tokens to the account
+    /// @param account The address of the account
+    /// @param amount The amount to mint
+    function mint(address account, uint256 amount) external;
+}
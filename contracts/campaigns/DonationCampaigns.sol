@@ -0,0 +1,279 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.25;
+
+import "./interfaces/IDonationCampaigns.sol";
+import "../registration/interfaces/IRegistration.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/NoncesUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/cryptography/EIP712Upgradeable.sol";
+import "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+
+/// @title DonationCampaigns smart contract
+/// @notice The SC that keeps the donation campaigns of the registered CoinBox members.
+/// Campaigns are raised in CoinBoxToken or in one of the supported asset tokens.
+/// The donations can be signed by the donors and submitted by a relayer
+contract DonationCampaigns is
+    IDonationCampaigns,
+    OwnableUpgradeable,
+    EIP712Upgradeable,
+    NoncesUpgradeable
+{
+    using SafeERC20 for IERC20;
+
+    /// @notice The typehash of the donation signed by the donor
+    bytes32 public constant DONATE_TYPEHASH = keccak256(
+        "Donate(address donor,uint256 campaignId,uint256 amount,uint256 nonce,uint256 deadline)"
+    );
+
+    /// @notice The address of the Registration contract
+    IRegistration public registration;
+    /// @notice The amount of created campaigns. It is used as id for the next campaign
+    uint256 public campaignsCount;
+
+    /// @notice The mapping that keeps the data of campaigns
+    mapping(uint256 => Campaign) public campaigns;
+    /// @notice The mapping that keeps the donated amount by the donor to the certain campaign
+    mapping(uint256 => mapping(address => uint256)) public donations;
+    /// @notice The mapping with the tokens that can be used in the new campaigns
+    mapping(address => bool) public supportedTokens;
+
+    /// @dev The modifier checks if the campaign with the input id exists
+    /// @param campaignId The id of the campaign
+    modifier existingCampaign(uint256 campaignId) {
+        if (campaignId >= campaignsCount) revert UnknownCampaign();
+        _;
+    }
+
+    /// @notice Initialization
+    /// @dev Sets the registration contract, the EIP-712 domain of the signed donations
+    /// and allows CoinBoxToken and assets for campaigns
+    /// @param _registration The address of the Registration contract
+    /// @param coinBoxToken The address of the CoinBoxToken contract
+    /// @param assets The addresses of the asset tokens (BTC, ETH, SOL, BNB, TON)
+    function initialize(
+        address _registration,
+        address coinBoxToken,
+        address[] calldata assets
+    ) external initializer {
+        if (_registration == address(0)) revert ZeroAddress();
+        __Ownable_init(_msgSender());
+        __EIP712_init("CoinBox Donations", "1");
+
+        registration = IRegistration(_registration);
+        _setSupportedToken(coinBoxToken, true);
+        for (uint256 i; i < assets.length; ) {
+            _setSupportedToken(assets[i], true);
+            i++;
+        }
+    }
+
+    /// @notice Allows or disallows the token for the new campaigns
+    /// @dev The existing campaigns aren't affected
+    /// @param token The address of the token
+    /// @param supported The boolean value if the token can be used
+    function setSupportedToken(address token, bool supported) external onlyOwner {
+        _setSupportedToken(token, supported);
+    }
+
+    /// @notice Opens the new donation campaign by the registered member (`msg.sender`)
+    /// @param token The address of the token in which the campaign is raised
+    /// @param beneficiary The address that receives the raised funds on success
+    /// @param goal The amount of tokens that should be raised
+    /// @param deadline The timestamp when the campaign is finished
+    /// @param ipfsHash The possible ipfs hash that keeps the description on the special host (back-end part)
+    /// @return campaignId The id of the created campaign
+    function createCampaign(
+        address token,
+        address beneficiary,
+        uint256 goal,
+        uint256 deadline,
+        bytes32 ipfsHash
+    ) external override returns (uint256 campaignId) {
+        if (!registration.isActiveMember(_msgSender())) revert UnregisteredAccount();
+        if (!supportedTokens[token]) revert UnsupportedToken();
+        if (beneficiary == address(0)) revert ZeroAddress();
+        if (goal == 0) revert InvalidAmount();
+        if (deadline <= block.timestamp) revert InvalidDeadline();
+
+        campaignId = campaignsCount++;
+        campaigns[campaignId] = Campaign({
+            creator: _msgSender(),
+            beneficiary: beneficiary,
+            token: token,
+            goal: goal,
+            raised: 0,
+            deadline: deadline,
+            ipfsHash: ipfsHash,
+            status: CampaignStatus.Active
+        });
+
+        emit CampaignCreated(
+            campaignId, _msgSender(), beneficiary, token, goal, deadline, ipfsHash
+        );
+    }
+
+    /// @notice Donates tokens to the active campaign
+    /// @param campaignId The id of the campaign
+    /// @param amount The amount of tokens to donate
+    function donate(uint256 campaignId, uint256 amount)
+        external
+        override
+        existingCampaign(campaignId)
+    {
+        _donate(campaignId, _msgSender(), amount);
+    }
+
+    /// @notice Donates tokens of the donor who signed the donation. The transaction is submitted by a relayer
+    /// @dev The tokens are pulled from the donor, so the donor approves them before (e.g. with `permit`)
+    /// @param campaignId The id of the campaign
+    /// @param donor The address of the donor who signed the donation
+    /// @param amount The amount of tokens to donate
+    /// @param deadline The timestamp until the signature is valid
+    /// @param signature The EIP-712 signature of the donor (EOA or EIP-1271 contract)
+    function donateBySig(
+        uint256 campaignId,
+        address donor,
+        uint256 amount,
+        uint256 deadline,
+        bytes calldata signature
+    ) external override existingCampaign(campaignId) {
+        if (block.timestamp > deadline) revert ExpiredSignature(deadline);
+        bytes32 structHash = keccak256(
+            abi.encode(DONATE_TYPEHASH, donor, campaignId, amount, _useNonce(donor), deadline)
+        );
+        if (!SignatureChecker.isValidSignatureNow(donor, _hashTypedDataV4(structHash), signature))
+            revert InvalidSignature();
+
+        _donate(campaignId, donor, amount);
+    }
+
+    /// @notice Pays out the raised funds to the beneficiary once the goal is reached
+    /// @dev Can be called by the creator or the beneficiary of the campaign
+    /// @param campaignId The id of the campaign
+    function claimFunds(uint256 campaignId)
+        external
+        override
+        existingCampaign(campaignId)
+    {
+        Campaign storage campaign = campaigns[campaignId];
+        if (
+            _msgSender() != campaign.creator &&
+            _msgSender() != campaign.beneficiary
+        ) revert InvalidPermission();
+        if (campaign.status != CampaignStatus.Active) revert InactiveCampaign();
+        if (campaign.raised < campaign.goal) revert GoalNotReached();
+
+        campaign.status = CampaignStatus.Successful;
+        IERC20(campaign.token).safeTransfer(campaign.beneficiary, campaign.raised);
+
+        emit FundsClaimed(campaignId, campaign.beneficiary, campaign.raised);
+    }
+
+    /// @notice Returns the donation of `msg.sender` from the failed or cancelled campaign
+    /// @param campaignId The id of the campaign
+    function refund(uint256 campaignId)
+        external
+        override
+        existingCampaign(campaignId)
+    {
+        Campaign storage campaign = campaigns[campaignId];
+        if (campaign.status != CampaignStatus.Cancelled && !_isFailed(campaign))
+            revert RefundUnavailable();
+
+        uint256 amount = donations[campaignId][_msgSender()];
+        if (amount == 0) revert InvalidAmount();
+
+        donations[campaignId][_msgSender()] = 0;
+        campaign.raised -= amount;
+        IERC20(campaign.token).safeTransfer(_msgSender(), amount);
+
+        emit Refunded(campaignId, _msgSender(), amount);
+    }
+
+    /// @notice Cancels the active campaign by its creator. Donors can take back their donations
+    /// @param campaignId The id of the campaign
+    function cancelCampaign(uint256 campaignId)
+        external
+        override
+        existingCampaign(campaignId)
+    {
+        Campaign storage campaign = campaigns[campaignId];
+        if (_msgSender() != campaign.creator) revert InvalidPermission();
+        if (campaign.status != CampaignStatus.Active) revert InactiveCampaign();
+
+        campaign.status = CampaignStatus.Cancelled;
+        emit CampaignCancelled(campaignId);
+    }
+
+    /// @notice Receives the data of the campaign
+    /// @param campaignId The id of the campaign
+    /// @return The structure that keeps the data of the campaign
+    function getCampaign(uint256 campaignId)
+        external
+        view
+        override
+        existingCampaign(campaignId)
+        returns (Campaign memory)
+    {
+        return campaigns[campaignId];
+    }
+
+    /// @notice Receives the info if the campaign is failed (deadline is expired and the goal isn't reached)
+    /// @param campaignId The id of the campaign
+    /// @return The boolean value if the campaign is failed
+    function isFailed(uint256 campaignId)
+        external
+        view
+        override
+        existingCampaign(campaignId)
+        returns (bool)
+    {
+        return _isFailed(campaigns[campaignId]);
+    }
+
+    /// @dev Allows or disallows the token for the new campaigns
+    /// @param token The address of the token
+    /// @param supported The boolean value if the token can be used
+    function _setSupportedToken(address token, bool supported) private {
+        if (token == address(0)) revert ZeroAddress();
+        supportedTokens[token] = supported;
+        emit SupportedToken(token, supported);
+    }
+
+    /// @dev Pulls the donation from the donor to the active campaign.
+    /// The received amount is counted by the balance difference,
+    /// because CoinBoxToken takes the fee while transfers
+    /// @param campaignId The id of the campaign
+    /// @param donor The address of the donor
+    /// @param amount The amount of tokens to donate
+    function _donate(uint256 campaignId, address donor, uint256 amount) private {
+        if (amount == 0) revert InvalidAmount();
+        Campaign storage campaign = campaigns[campaignId];
+        if (
+            campaign.status != CampaignStatus.Active ||
+            block.timestamp > campaign.deadline
+        ) revert InactiveCampaign();
+
+        IERC20 token = IERC20(campaign.token);
+        uint256 balanceBefore = token.balanceOf(address(this));
+        token.safeTransferFrom(donor, address(this), amount);
+        uint256 received = token.balanceOf(address(this)) - balanceBefore;
+        if (received == 0) revert InvalidAmount();
+
+        campaign.raised += received;
+        donations[campaignId][donor] += received;
+
+        emit Donated(campaignId, donor, received, campaign.raised);
+    }
+
+    /// @dev Checks if the active campaign is expired without reaching the goal
+    /// @param campaign The storage pointer to the campaign
+    /// @return The boolean value if the campaign is failed
+    function _isFailed(Campaign storage campaign) private view returns (bool) {
+        return
+            campaign.status == CampaignStatus.Active &&
+            block.timestamp > campaign.deadline &&
+            campaign.raised < campaign.goal;
+    }
+}
@@ -0,0 +1,170 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.25;
+
+/// @title IDonationCampaigns interface
+/// @notice The interface to SC that responsibles for donation campaigns of the CoinBox members
+interface IDonationCampaigns {
+    /// @notice The possible states of the campaign
+    /// @dev The failed state isn't stored: an active campaign with expired deadline and unreached goal is failed
+    enum CampaignStatus {
+        Active,
+        Successful,
+        Cancelled
+    }
+
+    /// @notice The structure keeps the data of the donation campaign
+    /// @param creator The address of the registered member who opened the campaign
+    /// @param beneficiary The address that receives the raised funds on success
+    /// @param token The address of the token in which the campaign is raised
+    /// @param goal The amount of tokens that should be raised
+    /// @param raised The amount of tokens that are already raised
+    /// @param deadline The timestamp when the campaign is finished
+    /// @param ipfsHash The possible ipfs hash that keeps the description on the special host (back-end part)
+    /// @param status The current status of the campaign
+    struct Campaign {
+        address creator;
+        address beneficiary;
+        address token;
+        uint256 goal;
+        uint256 raised;
+        uint256 deadline;
+        bytes32 ipfsHash;
+        CampaignStatus status;
+    }
+
+    /// @dev The event is triggered whenever a member opens the new campaign
+    /// @param campaignId The id of the campaign
+    /// @param creator The address of the member who opened the campaign
+    /// @param beneficiary The address that receives the raised funds
+    /// @param token The address of the token in which the campaign is raised
+    /// @param goal The amount of tokens that should be raised
+    /// @param deadline The timestamp when the campaign is finished
+    /// @param ipfsHash The possible ipfs hash that keeps the description
+    event CampaignCreated(
+        uint256 indexed campaignId,
+        address indexed creator,
+        address indexed beneficiary,
+        address token,
+        uint256 goal,
+        uint256 deadline,
+        bytes32 ipfsHash
+    );
+    /// @dev The event is triggered whenever a donor gives tokens to the campaign
+    /// @param campaignId The id of the campaign
+    /// @param donor The address of the donor
+    /// @param amount The amount of tokens that was received by the campaign
+    /// @param raised The amount of tokens raised by the campaign after the donation
+    event Donated(
+        uint256 indexed campaignId,
+        address indexed donor,
+        uint256 amount,
+        uint256 raised
+    );
+    /// @dev The event is triggered whenever the raised funds are paid out to the beneficiary
+    /// @param campaignId The id of the campaign
+    /// @param beneficiary The address that received the funds
+    /// @param amount The amount of paid out tokens
+    event FundsClaimed(
+        uint256 indexed campaignId,
+        address indexed beneficiary,
+        uint256 amount
+    );
+    /// @dev The event is triggered whenever a donor takes back the donation from the failed or cancelled campaign
+    /// @param campaignId The id of the campaign
+    /// @param donor The address of the donor
+    /// @param amount The amount of refunded tokens
+    event Refunded(
+        uint256 indexed campaignId,
+        address indexed donor,
+        uint256 amount
+    );
+    /// @dev The event is triggered whenever the creator cancels the campaign
+    /// @param campaignId The id of the campaign
+    event CampaignCancelled(uint256 indexed campaignId);
+    /// @dev The event is triggered whenever an owner allows or disallows the token for campaigns
+    /// @param token The address of the token
+    /// @param supported The boolean value if the token can be used in the new campaigns
+    event SupportedToken(address indexed token, bool supported);
+
+    /// @dev The custom error is triggered when the input address is zero's
+    error ZeroAddress();
+    /// @dev The custom error is triggered when the input amount is zero
+    error InvalidAmount();
+    /// @dev The custom error is triggered when the set deadline is already expired
+    error InvalidDeadline();
+    /// @dev The custom error is triggered when the token isn't allowed for campaigns
+    error UnsupportedToken();
+    /// @dev The custom error is triggered when the caller isn't the active registered member
+    error UnregisteredAccount();
+    /// @dev The custom error is triggered when the campaign with the input id doesn't exist
+    error UnknownCampaign();
+    /// @dev The custom error is triggered when the campaign doesn't accept donations or payouts anymore
+    error InactiveCampaign();
+    /// @dev The custom error is triggered when the goal of the campaign isn't reached
+    error GoalNotReached();
+    /// @dev The custom error is triggered when the refund isn't available for the campaign
+    error RefundUnavailable();
+    /// @dev The custom error is triggered when the caller has not access to the campaign
+    error InvalidPermission();
+    /// @dev The custom error is triggered when the signature of the donation isn't valid
+    error InvalidSignature();
+    /// @dev The custom error is triggered when the signature of the donation is expired
+    /// @param deadline The deadline of the signature
+    error ExpiredSignature(uint256 deadline);
+
+    /// @notice Opens the new donation campaign by the registered member (`msg.sender`)
+    /// @param token The address of the token in which the campaign is raised
+    /// @param beneficiary The address that receives the raised funds on success
+    /// @param goal The amount of tokens that should be raised
+    /// @param deadline The timestamp when the campaign is finished
+    /// @param ipfsHash The possible ipfs hash that keeps the description on the special host (back-end part)
+    /// @return campaignId The id of the created campaign
+    function createCampaign(
+        address token,
+        address beneficiary,
+        uint256 goal,
+        uint256 deadline,
+        bytes32 ipfsHash
+    ) external returns (uint256 campaignId);
+
+    /// @notice Donates tokens to the active campaign
+    /// @param campaignId The id of the campaign
+    /// @param amount The amount of tokens to donate
+    function donate(uint256 campaignId, uint256 amount) external;
+
+    /// @notice Donates tokens of the donor who signed the donation. The transaction is submitted by a relayer
+    /// @param campaignId The id of the campaign
+    /// @param donor The address of the donor who signed the donation and approved the tokens (e.g. with `permit`)
+    /// @param amount The amount of tokens to donate
+    /// @param deadline The timestamp until the signature is valid
+    /// @param signature The EIP-712 signature of the donor (EOA or EIP-1271 contract)
+    function donateBySig(
+        uint256 campaignId,
+        address donor,
+        uint256 amount,
+        uint256 deadline,
+        bytes calldata signature
+    ) external;
+
+    /// @notice Pays out the raised funds to the beneficiary once the goal is reached
+    /// @param campaignId The id of the campaign
+    function claimFunds(uint256 campaignId) external;
+
+    /// @notice Returns the donation of `msg.sender` from the failed or cancelled campaign
+    /// @param campaignId The id of the campaign
+    function refund(uint256 campaignId) external;
+
+    /// @notice Cancels the active campaign by its creator. Donors can take back their donations
+    /// @param campaignId The id of the campaign
+    function cancelCampaign(uint256 campaignId) external;
+
+    /// @notice Receives the data of the campaign
+    /// @param campaignId The id of the campaign
+    /// @return The structure that keeps the data of the campaign
+    function getCampaign(uint256 campaignId) external view returns (Campaign memory);
+
+    /// @notice Receives the info if the campaign is failed (deadline is expired and the goal isn't reached)
+    /// @param campaignId The id of the campaign
+    /// @return The boolean value if the campaign is failed
+    function isFailed(uint256 campaignId) external view returns (bool);
+}
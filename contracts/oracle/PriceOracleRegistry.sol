@@ -0,0 +1,282 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.25;
+
+import "./interfaces/IAggregatorV3.sol";
+import "./interfaces/IPriceOracleRegistry.sol";
+import "./lib/UniswapV2OracleLibrary.sol";
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+
+/// @title PriceOracleRegistry contract
+/// @notice The registry prices every asset (the asset tokens, WETH, CoinBoxToken) in one unit,
+/// the unit of the aggregators (e.g. USD). The asset is priced by the Chainlink-style aggregator
+/// or by the TWAP of the Uniswap V2 pair multiplied by the price of the pair's other token.
+/// The fallback source is used if the primary one is stale or invalid
+contract PriceOracleRegistry is IPriceOracleRegistry, OwnableUpgradeable {
+    /// @notice The decimals of every price of the registry
+    uint8 public constant override PRICE_DECIMALS = 18;
+    /// @notice The min period of the TWAP
+    uint256 public constant override TWAP_PERIOD = 30 minutes;
+    /// @notice The max period of the TWAP, the observation is restarted if it isn't updated for longer
+    uint256 public constant override MAX_TWAP_WINDOW = 2 hours;
+    /// @dev The max depth of the pairs' chain while pricing the other token of the pair
+    uint256 private constant _MAX_DEPTH = 2;
+
+    /// @dev The primary sources of the assets
+    mapping(address => Source) private _primarySources;
+    /// @dev The fallback sources of the assets
+    mapping(address => Source) private _fallbackSources;
+    /// @dev The TWAP observations: asset => pair => observation
+    mapping(address => mapping(address => Observation)) private _observations;
+
+    /// @notice Initialization
+    /// @param owner The address of the owner that sets the sources
+    function initialize(address owner) external initializer {
+        __Ownable_init(owner);
+    }
+
+    /// @notice Sets the price sources of the asset and takes the first observations of the pair sources
+    /// @param asset The address of the asset
+    /// @param primary The primary source
+    /// @param fallbackSource The source that is used if the primary one is stale or invalid (may be none)
+    function setAssetSources(
+        address asset,
+        Source calldata primary,
+        Source calldata fallbackSource
+    ) external override onlyOwner {
+        if (asset == address(0)) revert ZeroAddress();
+        if (primary.sourceType == SourceType.None) revert InvalidSource();
+        _validateSource(asset, primary);
+        _validateSource(asset, fallbackSource);
+
+        _primarySources[asset] = primary;
+        _fallbackSources[asset] = fallbackSource;
+        _updateTwap(asset, primary);
+        _updateTwap(asset, fallbackSource);
+        emit AssetSources(asset, primary, fallbackSource);
+    }
+
+    /// @notice Removes the asset from the registry
+    /// @param asset The address of the asset
+    function removeAsset(address asset) external override onlyOwner {
+        if (_primarySources[asset].sourceType == SourceType.None) revert InvalidSource();
+        delete _primarySources[asset];
+        delete _fallbackSources[asset];
+        emit AssetRemoved(asset);
+    }
+
+    /// @notice Updates the TWAP observations of the asset's pair sources once per `TWAP_PERIOD`.
+    /// Can be called by anyone (e.g. a keeper)
+    /// @param asset The address of the asset
+    function update(address asset) external override {
+        _updateTwap(asset, _primarySources[asset]);
+        _updateTwap(asset, _fallbackSources[asset]);
+    }
+
+    /// @notice Receives the price sources of the asset
+    /// @param asset The address of the asset
+    /// @return primary The primary source
+    /// @return fallbackSource The fallback source
+    function getAssetSources(address asset)
+        external
+        view
+        override
+        returns (Source memory primary, Source memory fallbackSource)
+    {
+        return (_primarySources[asset], _fallbackSources[asset]);
+    }
+
+    /// @notice Receives the TWAP observation of the asset in the pair
+    /// @param asset The address of the asset
+    /// @param pair The address of the pair
+    /// @return The observation
+    function getObservation(address asset, address pair) external view override returns (Observation memory) {
+        return _observations[asset][pair];
+    }
+
+    /// @notice Receives the price of the whole asset token
+    /// @dev Reverts with `PriceUnavailable` if neither source has a fresh and valid price
+    /// @param asset The address of the asset
+    /// @return price The price with `PRICE_DECIMALS` decimals
+    function getPrice(address asset) public view override returns (uint256 price) {
+        bool available;
+        (price, available) = _tryGetPrice(asset, 0);
+        if (!available) revert PriceUnavailable(asset);
+    }
+
+    /// @notice Receives the price of the whole asset token without reverting
+    /// @param asset The address of the asset
+    /// @return price The price with `PRICE_DECIMALS` decimals (zero if unavailable)
+    /// @return available The boolean value if the price is known
+    function tryGetPrice(address asset) external view override returns (uint256 price, bool available) {
+        return _tryGetPrice(asset, 0);
+    }
+
+    /// @notice Receives the value of the amount of the asset
+    /// @param asset The address of the asset
+    /// @param amount The amount in the asset's decimals
+    /// @return The value with `PRICE_DECIMALS` decimals
+    function getValue(address asset, uint256 amount) external view override returns (uint256) {
+        return Math.mulDiv(amount, getPrice(asset), 10**IERC20Metadata(asset).decimals());
+    }
+
+    /// @dev Checks that the source can price the asset
+    /// @param asset The address of the asset
+    /// @param source The source
+    function _validateSource(address asset, Source calldata source) private view {
+        if (source.sourceType == SourceType.None) {
+            if (source.source != address(0)) revert InvalidSource();
+            return;
+        }
+        if (source.source == address(0)) revert ZeroAddress();
+        if (source.maxDelay == 0) revert InvalidSource();
+        if (
+            source.sourceType == SourceType.UniswapV2Twap &&
+            IUniswapV2Pair(source.source).token0() != asset &&
+            IUniswapV2Pair(source.source).token1() != asset
+        ) revert InvalidSource();
+    }
+
+    /// @dev Updates the TWAP observation of the asset if the source is the pair and `TWAP_PERIOD` is passed.
+    /// The first observation is taken after the liquidity is added. If more than `MAX_TWAP_WINDOW` is passed,
+    /// the observation is restarted: the old average isn't refreshed and becomes stale by `maxDelay`
+    /// @param asset The address of the asset
+    /// @param source The source
+    function _updateTwap(address asset, Source memory source) private {
+        if (source.sourceType != SourceType.UniswapV2Twap) return;
+        Observation storage observation = _observations[asset][source.source];
+        uint256 elapsed = block.timestamp - observation.timestamp;
+        if (observation.timestamp != 0 && elapsed < TWAP_PERIOD) return;
+        (uint256 priceCumulative, bool hasLiquidity) = UniswapV2OracleLibrary.currentCumulativePrice(
+            source.source,
+            asset
+        );
+        if (!hasLiquidity) return;
+        if (observation.timestamp != 0 && elapsed <= MAX_TWAP_WINDOW) {
+            unchecked {
+                observation.priceAverage = (priceCumulative - observation.priceCumulative) / elapsed;
+            }
+            observation.updatedAt = block.timestamp;
+            emit TwapUpdated(asset, source.source, observation.priceAverage);
+        }
+        observation.priceCumulative = priceCumulative;
+        observation.timestamp = block.timestamp;
+    }
+
+    /// @dev Receives the price of the asset from the primary source or from the fallback one
+    /// @param asset The address of the asset
+    /// @param depth The depth of the pairs' chain
+    /// @return price The price with `PRICE_DECIMALS` decimals
+    /// @return available The boolean value if the price is known
+    function _tryGetPrice(address asset, uint256 depth) private view returns (uint256 price, bool available) {
+        if (depth > _MAX_DEPTH) return (0, false);
+        (price, available) = _tryGetSourcePrice(asset, _primarySources[asset], depth);
+        if (!available) (price, available) = _tryGetSourcePrice(asset, _fallbackSources[asset], depth);
+    }
+
+    /// @dev Receives the price of the asset from the source
+    /// @param asset The address of the asset
+    /// @param source The source
+    /// @param depth The depth of the pairs' chain
+    /// @return price The price with `PRICE_DECIMALS` decimals
+    /// @return available The boolean value if the price is fresh and valid
+    function _tryGetSourcePrice(
+        address asset,
+        Source memory source,
+        uint256 depth
+    ) private view returns (uint256 price, bool available) {
+        if (source.sourceType == SourceType.Aggregator) {
+            return _tryGetAggregatorPrice(source);
+        }
+        if (source.sourceType == SourceType.UniswapV2Twap) {
+            return _tryGetTwapPrice(asset, source, depth);
+        }
+    }
+
+    /// @dev Receives the price from the aggregator if the answer is positive and not older than `maxDelay`.
+    /// The price is unavailable if any call to the aggregator reverts
+    /// @param source The source
+    /// @return price The price with `PRICE_DECIMALS` decimals
+    /// @return available The boolean value if the price is fresh and valid
+    function _tryGetAggregatorPrice(Source memory source) private view returns (uint256 price, bool available) {
+        IAggregatorV3 aggregator = IAggregatorV3(source.source);
+        try aggregator.latestRoundData() returns (
+            uint80 roundId,
+            int256 answer,
+            uint256,
+            uint256 updatedAt,
+            uint80 answeredInRound
+        ) {
+            if (
+                answer <= 0 ||
+                updatedAt == 0 ||
+                updatedAt > block.timestamp ||
+                block.timestamp - updatedAt > source.maxDelay ||
+                answeredInRound < roundId
+            ) return (0, false);
+
+            try aggregator.decimals() returns (uint8 decimals) {
+                price = decimals <= PRICE_DECIMALS
+                    ? uint256(answer) * 10**(PRICE_DECIMALS - decimals)
+                    : uint256(answer) / 10**(decimals - PRICE_DECIMALS);
+                available = price != 0;
+            } catch {}
+        } catch {}
+    }
+
+    /// @dev Receives the price from the TWAP of the pair if the TWAP isn't older than `maxDelay`.
+    /// The TWAP in the pair's other token is multiplied by the price of that token from the registry.
+    /// The price is unavailable if the pair's or the tokens' calls revert
+    /// @param asset The address of the asset
+    /// @param source The source
+    /// @param depth The depth of the pairs' chain
+    /// @return price The price with `PRICE_DECIMALS` decimals
+    /// @return available The boolean value if the price is fresh and valid
+    function _tryGetTwapPrice(
+        address asset,
+        Source memory source,
+        uint256 depth
+    ) private view returns (uint256 price, bool available) {
+        Observation memory observation = _observations[asset][source.source];
+        if (observation.updatedAt == 0 || block.timestamp - observation.updatedAt > source.maxDelay) {
+            return (0, false);
+        }
+
+        (address quote, bool paired) = _tryGetQuoteToken(source.source, asset);
+        if (!paired) return (0, false);
+        (uint256 quotePrice, bool quoteAvailable) = _tryGetPrice(quote, depth + 1);
+        (uint8 assetDecimals, bool assetDecimalsAvailable) = _tryGetDecimals(asset);
+        (uint8 quoteDecimals, bool quoteDecimalsAvailable) = _tryGetDecimals(quote);
+        if (!quoteAvailable || !assetDecimalsAvailable || !quoteDecimalsAvailable) return (0, false);
+
+        // the average price of the whole asset in the smallest units of the quote token
+        uint256 priceInQuote = Math.mulDiv(observation.priceAverage, 10**assetDecimals, 1 << 112);
+        price = Math.mulDiv(priceInQuote, quotePrice, 10**quoteDecimals);
+        available = price != 0;
+    }
+
+    /// @dev Receives the other token of the pair without reverting
+    /// @param pair The address of the pair
+    /// @param asset The address of the asset
+    /// @return quote The address of the pair's other token
+    /// @return available The boolean value if the pair's calls succeed
+    function _tryGetQuoteToken(address pair, address asset) private view returns (address quote, bool available) {
+        try IUniswapV2Pair(pair).token0() returns (address token0) {
+            if (token0 != asset) return (token0, true);
+            try IUniswapV2Pair(pair).token1() returns (address token1) {
+                return (token1, true);
+            } catch {}
+        } catch {}
+    }
+
+    /// @dev Receives the decimals of the token without reverting
+    /// @param token The address of the token
+    /// @return decimals The decimals value
+    /// @return available The boolean value if the call succeeds
+    function _tryGetDecimals(address token) private view returns (uint8 decimals, bool available) {
+        try IERC20Metadata(token).decimals() returns (uint8 value) {
+            return (value, true);
+        } catch {}
+    }
+}
@@ -0,0 +1,35 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.25;
+
+/// @title IAggregatorV3 interface
+/// @notice The interface to the Chainlink-style price feed (AggregatorV3Interface)
+interface IAggregatorV3 {
+    /// @notice Receives the decimals of the answer
+    /// @return The decimals value
+    function decimals() external view returns (uint8);
+
+    /// @notice Receives the description of the feed (e.g. "BTC / USD")
+    /// @return The description
+    function description() external view returns (string memory);
+
+    /// @notice Receives the version of the feed
+    /// @return The version
+    function version() external view returns (uint256);
+
+    /// @notice Receives the data of the latest round
+    /// @return roundId The identifier of the round
+    /// @return answer The price
+    /// @return startedAt The timestamp when the round started
+    /// @return updatedAt The timestamp when the answer was updated
+    /// @return answeredInRound The round in which the answer was computed
+    function latestRoundData()
+        external
+        view
+        returns (
+            uint80 roundId,
+            int256 answer,
+            uint256 startedAt,
+            uint256 updatedAt,
+            uint80 answeredInRound
+        );
+}
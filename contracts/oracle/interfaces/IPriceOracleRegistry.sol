@@ -0,0 +1,116 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.25;
+
+/// @title IPriceOracleRegistry interface
+/// @notice The interface to the registry that prices every asset in one unit (the unit of the aggregators, e.g. USD)
+interface IPriceOracleRegistry {
+    /// @notice The types of the price sources
+    /// @param None The source isn't set
+    /// @param Aggregator The Chainlink-style aggregator that quotes the asset in the registry's unit
+    /// @param UniswapV2Twap The TWAP of the Uniswap V2 pair, the other token of the pair is priced by the registry
+    enum SourceType {
+        None,
+        Aggregator,
+        UniswapV2Twap
+    }
+
+    /// @notice The structure describes the price source of the asset
+    /// @param sourceType The type of the source
+    /// @param source The address of the aggregator or the pair
+    /// @param maxDelay The max age of the answer (the aggregator's heartbeat) or of the TWAP
+    struct Source {
+        SourceType sourceType;
+        address source;
+        uint256 maxDelay;
+    }
+
+    /// @notice The structure keeps the TWAP observation of the asset in the pair
+    /// @param priceCumulative The cumulative price of the asset at the last update
+    /// @param timestamp The timestamp of the last update
+    /// @param priceAverage The average price (UQ112x112) between the last two updates (within `MAX_TWAP_WINDOW`)
+    /// @param updatedAt The timestamp when the average price was updated (zero until the first period passes)
+    struct Observation {
+        uint256 priceCumulative;
+        uint256 timestamp;
+        uint256 priceAverage;
+        uint256 updatedAt;
+    }
+
+    /// @dev The event is triggered whenever the price sources of the asset are set
+    /// @param asset The address of the asset
+    /// @param primary The primary source
+    /// @param fallbackSource The source that is used if the primary one is stale or invalid
+    event AssetSources(address indexed asset, Source primary, Source fallbackSource);
+    /// @dev The event is triggered whenever the asset is removed from the registry
+    /// @param asset The address of the asset
+    event AssetRemoved(address indexed asset);
+    /// @dev The event is triggered whenever the TWAP of the asset in the pair is updated
+    /// @param asset The address of the asset
+    /// @param pair The address of the pair
+    /// @param priceAverage The new average price (UQ112x112)
+    event TwapUpdated(address indexed asset, address indexed pair, uint256 priceAverage);
+
+    /// @dev The custom error is triggered when the zero's address is used
+    error ZeroAddress();
+    /// @dev The custom error is triggered when the source isn't valid for the asset
+    error InvalidSource();
+    /// @dev The custom error is triggered when neither source of the asset has a fresh and valid price
+    /// @param asset The address of the asset
+    error PriceUnavailable(address asset);
+
+    /// @notice Receives the decimals of every price of the registry
+    /// @return The decimals value
+    function PRICE_DECIMALS() external view returns (uint8);
+
+    /// @notice Receives the min period of the TWAP
+    /// @return The period in seconds
+    function TWAP_PERIOD() external view returns (uint256);
+
+    /// @notice Receives the max period of the TWAP
+    /// @return The period in seconds
+    function MAX_TWAP_WINDOW() external view returns (uint256);
+
+    /// @notice Sets the price sources of the asset
+    /// @param asset The address of the asset
+    /// @param primary The primary source
+    /// @param fallbackSource The source that is used if the primary one is stale or invalid (may be none)
+    function setAssetSources(address asset, Source calldata primary, Source calldata fallbackSource) external;
+
+    /// @notice Removes the asset from the registry
+    /// @param asset The address of the asset
+    function removeAsset(address asset) external;
+
+    /// @notice Updates the TWAP observations of the asset's pair sources once per `TWAP_PERIOD`
+    /// @param asset The address of the asset
+    function update(address asset) external;
+
+    /// @notice Receives the price sources of the asset
+    /// @param asset The address of the asset
+    /// @return primary The primary source
+    /// @return fallbackSource The fallback source
+    function getAssetSources(address asset) external view returns (Source memory primary, Source memory fallbackSource);
+
+    /// @notice Receives the TWAP observation of the asset in the pair
+    /// @param asset The address of the asset
+    /// @param pair The address of the pair
+    /// @return The observation
+    function getObservation(address asset, address pair) external view returns (Observation memory);
+
+    /// @notice Receives the price of the whole asset token
+    /// @dev Reverts with `PriceUnavailable` if neither source has a fresh and valid price
+    /// @param asset The address of the asset
+    /// @return The price with `PRICE_DECIMALS` decimals
+    function getPrice(address asset) external view returns (uint256);
+
+    /// @notice Receives the price of the whole asset token without reverting
+    /// @param asset The address of the asset
+    /// @return price The price with `PRICE_DECIMALS` decimals (zero if unavailable)
+    /// @return available The boolean value if the price is known
+    function tryGetPrice(address asset) external view returns (uint256 price, bool available);
+
+    /// @notice Receives the value of the amount of the asset
+    /// @param asset The address of the asset
+    /// @param amount The amount in the asset's decimals
+    /// @return The value with `PRICE_DECIMALS` decimals
+    function getValue(address asset, uint256 amount) external view returns (uint256);
+}
@@ -0,0 +1,34 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.25;
+
+import "../../token/interfaces/IUniswapV2Pair.sol";
+
+/// @title UniswapV2OracleLibrary
+/// @notice The helper that computes the current cumulative price of the Uniswap V2 pair
+/// including the time since the pair's last update (the same as the Uniswap's oracle library)
+library UniswapV2OracleLibrary {
+    /// @dev Receives the current cumulative price of the token in the other token of the pair
+    /// @param pair The address of the pair
+    /// @param token The address of the priced token
+    /// @return priceCumulative The cumulative price (UQ112x112 * seconds)
+    /// @return hasLiquidity The boolean value if the pair has the reserves
+    function currentCumulativePrice(address pair, address token)
+        internal
+        view
+        returns (uint256 priceCumulative, bool hasLiquidity)
+    {
+        bool isToken0 = IUniswapV2Pair(pair).token0() == token;
+        priceCumulative = isToken0
+            ? IUniswapV2Pair(pair).price0CumulativeLast()
+            : IUniswapV2Pair(pair).price1CumulativeLast();
+        (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast) = IUniswapV2Pair(pair).getReserves();
+        hasLiquidity = reserve0 != 0 && reserve1 != 0;
+        if (!hasLiquidity) return (priceCumulative, false);
+        unchecked {
+            uint32 timeElapsed = uint32(block.timestamp) - blockTimestampLast;
+            priceCumulative += isToken0
+                ? ((uint256(reserve1) << 112) / reserve0) * timeElapsed
+                : ((uint256(reserve0) << 112) / reserve1) * timeElapsed;
+        }
+    }
+}
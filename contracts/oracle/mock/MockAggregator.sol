@@ -0,0 +1,86 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.25;
+
+import "../interfaces/IAggregatorV3.sol";
+
+/// @title MockAggregator contract
+/// @notice The Chainlink-style price feed with the answer set manually, is used for the local tests and networks
+contract MockAggregator is IAggregatorV3 {
+    /// @dev The decimals of the answer
+    uint8 private immutable _decimals;
+    /// @notice The description of the feed
+    string public override description;
+    /// @notice The version of the feed
+    uint256 public constant override version = 4;
+
+    /// @dev The identifier of the latest round
+    uint80 private _roundId;
+    /// @dev The latest answer
+    int256 private _answer;
+    /// @dev The timestamp when the latest answer was updated
+    uint256 private _updatedAt;
+    /// @notice The boolean value if `decimals` reverts (e.g. to emulate a broken feed)
+    bool public decimalsReverting;
+
+    /// @dev The custom error is triggered when `decimals` is called on the broken feed
+    error BrokenFeed();
+
+    /// @dev Constructor: sets the decimals, the description and the initial answer
+    /// @param decimals_ The decimals of the answer
+    /// @param description_ The description of the feed
+    /// @param initialAnswer The initial answer
+    constructor(uint8 decimals_, string memory description_, int256 initialAnswer) {
+        _decimals = decimals_;
+        description = description_;
+        setAnswer(initialAnswer);
+    }
+
+    /// @notice Sets the new answer in the new round at the current timestamp
+    /// @param answer The new answer
+    function setAnswer(int256 answer) public {
+        setRoundData(answer, block.timestamp);
+    }
+
+    /// @notice Sets the new answer in the new round at the inputted timestamp (e.g. to emulate a stale feed)
+    /// @param answer The new answer
+    /// @param updatedAt The timestamp of the answer
+    function setRoundData(int256 answer, uint256 updatedAt) public {
+        _roundId++;
+        _answer = answer;
+        _updatedAt = updatedAt;
+    }
+
+    /// @notice Makes `decimals` revert or work again
+    /// @param reverting The boolean value if `decimals` reverts
+    function setDecimalsReverting(bool reverting) external {
+        decimalsReverting = reverting;
+    }
+
+    /// @notice Receives the decimals of the answer
+    /// @return The decimals value
+    function decimals() external view override returns (uint8) {
+        if (decimalsReverting) revert BrokenFeed();
+        return _decimals;
+    }
+
+    /// @notice Receives the data of the latest round
+    /// @return roundId The identifier of the round
+    /// @return answer The price
+    /// @return startedAt The timestamp when the round started
+    /// @return updatedAt The timestamp when the answer was updated
+    /// @return answeredInRound The round in which the answer was computed
+    function latestRoundData()
+        external
+        view
+        override
+        returns (
+            uint80 roundId,
+            int256 answer,
+            uint256 startedAt,
+            uint256 updatedAt,
+            uint80 answeredInRound
+        )
+    {
+        return (_roundId, _answer, _updatedAt, _updatedAt, _roundId);
+    }
+}
@@ -4,42 +4,89 @@ pragma solidity 0.8.25;
 import "./interfaces/IRegistration.sol";
 import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
-import "@openzeppelin/contracts/utils/Strings.sol";
+import "@openzeppelin/contracts-upgradeable/utils/NoncesUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/cryptography/EIP712Upgradeable.sol";
+import "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
 
 /// @title Registration smart contract
-/// @notice The SC that responsibles for registration process of the CoinBox participants
-contract Registration is IRegistration, OwnableUpgradeable, AccessControlUpgradeable {
-    using Strings for string;
+/// @notice The SC that responsibles for registration process of the CoinBox participants.
+/// Members are identified by their wallets: actions are authorized by `msg.sender` or an EIP-712 signature
+contract Registration is
+    IRegistration,
+    OwnableUpgradeable,
+    AccessControlUpgradeable,
+    EIP712Upgradeable,
+    NoncesUpgradeable
+{
+    using EnumerableSet for EnumerableSet.AddressSet;
+
+    /// @notice The role that can suspend, reinstate and remove members
+    bytes32 public constant MODERATOR_ROLE = keccak256("MODERATOR_ROLE");
+    /// @notice The role that grants the verified organisation status after off-chain KYC
+    bytes32 public constant VERIFIER_ROLE = keccak256("VERIFIER_ROLE");
+    /// @notice The typehash of the registration message signed by the account
+    bytes32 public constant REGISTER_TYPEHASH = keccak256(
+        "Register(address account,string image,string username,bytes32 ipfsHash,uint256 nonce,uint256 deadline)"
+    );
+    /// @notice The typehash of the update message signed by the account
+    bytes32 public constant UPDATE_DATA_TYPEHASH = keccak256(
+        "UpdateData(address account,string image,string username,bytes32 ipfsHash,uint256 nonce,uint256 deadline)"
+    );
 
     /// @notice The mapping that keeps the personal data of registered members
-    mapping(string => Member) public members;
+    mapping(address => Member) public members;
     /// @notice The mapping that keeps the information if member is registered
-    mapping(string => bool) public registeredMembers;
+    mapping(address => bool) public override registeredMembers;
+    /// @notice The mapping that keeps the owner of the lowercased username hash
+    mapping(bytes32 => address) public usernameOwners;
+    /// @dev The set of registered members that is used for enumeration
+    EnumerableSet.AddressSet private _membersSet;
+    /// @dev Reserved storage slots for the variables of the future versions, the state is 50 slots in total
+    uint256[45] private __gap;
 
     /// @notice Initialization
     /// @dev Grants the admin role for the owner (msg.sender)
     function initialize() external initializer {
         __AccessControl_init();
         __Ownable_init(_msgSender());
+        __EIP712_init("CoinBox Registration", "1");
+        __Nonces_init();
         _grantRole(DEFAULT_ADMIN_ROLE, _msgSender());
     }
 
-    /// @notice Registration of the new CoinBox member
+    /// @notice Registration of `msg.sender` as the new CoinBox member
     /// @param image The set profile image
     /// @param username The set username of participant
-    /// @param accountETH The account's address ETH
-    /// @param email The set email of member
-    /// @param password The saved hash of password for login option
     /// @param ipfsHash The possible ipfs hash that keeps data on the special host (back-end part)
     function registerMember(
         string calldata image,
         string calldata username,
-        address accountETH,
-        string calldata email,
-        bytes32 password,
         bytes32 ipfsHash
     ) external override {
-        _register(image, username, accountETH, email, password, ipfsHash);
+        _register(image, username, _msgSender(), ipfsHash);
+    }
+
+    /// @notice Registration of the new CoinBox member authorized by the EIP-712 signature of the account
+    /// @dev Can be submitted by anyone (e.g. back-end), so the account doesn't need ETH for gas
+    /// @param image The set profile image
+    /// @param username The set username of participant
+    /// @param accountETH The account's address ETH that signed the registration
+    /// @param ipfsHash The possible ipfs hash that keeps data on the special host (back-end part)
+    /// @param deadline The timestamp until the signature is valid
+    /// @param signature The EIP-712 signature of the `Register` message
+    function registerMemberBySig(
+        string calldata image,
+        string calldata username,
+        address accountETH,
+        bytes32 ipfsHash,
+        uint256 deadline,
+        bytes calldata signature
+    ) external override {
+        _verifySignature(
+            REGISTER_TYPEHASH, image, username, accountETH, ipfsHash, deadline, signature
+        );
+        _register(image, username, accountETH, ipfsHash);
     }
 
     /// @notice Registration of the new CoinBox members (batch option) by the admin
@@ -47,140 +94,379 @@ contract Registration is IRegistration, OwnableUpgradeable, AccessControlUpgrade
     /// @param images The set profile images
     /// @param usernames The set usernames of participants
     /// @param accountsETH The accounts' addresses ETH
-    /// @param emails The set emails of members
-    /// @param passwords The saved hashes of passwords for login option
     /// @param ipfsHashes The possible ipfs hashes that keeps data on the special host (back-end part)
     function registerMembersBatch(
         string[] calldata images,
         string[] calldata usernames,
         address[] calldata accountsETH,
-        string[] calldata emails,
-        bytes32[] calldata passwords,
         bytes32[] calldata ipfsHashes
     ) external override onlyRole(DEFAULT_ADMIN_ROLE) {
         require(
             images.length == usernames.length &&
             images.length == accountsETH.length &&
-            images.length == emails.length &&
-            images.length == passwords.length &&
             images.length == ipfsHashes.length,
             "Parameters length are mismatch"
         );
 
         for(uint i; i < images.length; ) {
             _register(
-                images[i], 
-                usernames[i], 
-                accountsETH[i], 
-                emails[i],
-                passwords[i], 
+                images[i],
+                usernames[i],
+                accountsETH[i],
                 ipfsHashes[i]
-            );  
+            );
             i++;
         }
     }
 
-    /// @notice Possibility to update the personal data of existed CoinBox member
+    /// @notice Registration of the new CoinBox members (batch option) by the admin that skips the duplicate rows
+    /// @dev The length of arrays should be equal. The invalid rows (zero's account, empty username) revert the batch
+    /// @param images The set profile images
+    /// @param usernames The set usernames of participants
+    /// @param accountsETH The accounts' addresses ETH
+    /// @param ipfsHashes The possible ipfs hashes that keeps data on the special host (back-end part)
+    /// @return skippedRows The indexes of the skipped rows
+    function registerMembersBatchSkipDuplicates(
+        string[] calldata images,
+        string[] calldata usernames,
+        address[] calldata accountsETH,
+        bytes32[] calldata ipfsHashes
+    ) external override onlyRole(DEFAULT_ADMIN_ROLE) returns (uint256[] memory skippedRows) {
+        require(
+            images.length == usernames.length &&
+            images.length == accountsETH.length &&
+            images.length == ipfsHashes.length,
+            "Parameters length are mismatch"
+        );
+
+        skippedRows = new uint256[](images.length);
+        uint256 skipped;
+        for(uint i; i < images.length; ) {
+            SkipReason reason = _getSkipReason(usernames[i], accountsETH[i]);
+            if(reason == SkipReason.None) {
+                _register(images[i], usernames[i], accountsETH[i], ipfsHashes[i]);
+            } else {
+                skippedRows[skipped++] = i;
+                emit SkippedMember(i, accountsETH[i], reason);
+            }
+            i++;
+        }
+        assembly {
+            mstore(skippedRows, skipped)
+        }
+    }
+
+    /// @notice Possibility to update the personal data of `msg.sender`
     /// @param image The set profile image
     /// @param username The set username of participant
-    /// @param accountETH The account's address ETH
-    /// @param email The set email of member
-    /// @param password The saved hash of password for login option
     /// @param ipfsHash The possible ipfs hash that keeps data on the special host (back-end part)
     function updateData(
         string calldata image,
         string calldata username,
-        address accountETH,
-        string calldata email,
-        bytes32 password,
         bytes32 ipfsHash
     ) external override {
-        if(!registeredMembers[email]) revert UnregisteredAccount();
-        _updateData(image, username, accountETH, email, password, ipfsHash);
+        _updateData(image, username, _msgSender(), ipfsHash);
+    }
+
+    /// @notice Possibility to update the personal data authorized by the EIP-712 signature of the account
+    /// @param image The set profile image
+    /// @param username The set username of participant
+    /// @param accountETH The account's address ETH that signed the update
+    /// @param ipfsHash The possible ipfs hash that keeps data on the special host (back-end part)
+    /// @param deadline The timestamp until the signature is valid
+    /// @param signature The EIP-712 signature of the `UpdateData` message
+    function updateDataBySig(
+        string calldata image,
+        string calldata username,
+        address accountETH,
+        bytes32 ipfsHash,
+        uint256 deadline,
+        bytes calldata signature
+    ) external override {
+        _verifySignature(
+            UPDATE_DATA_TYPEHASH, image, username, accountETH, ipfsHash, deadline, signature
+        );
+        _updateData(image, username, accountETH, ipfsHash);
+    }
+
+    /// @notice Suspends the active member
+    /// @dev Available only for the moderator role
+    /// @param accountETH The account's address ETH
+    /// @param reason The reason code of the suspension
+    function suspendMember(address accountETH, bytes32 reason) external override onlyRole(MODERATOR_ROLE) {
+        _requireStatus(accountETH, MemberStatus.Active);
+        _setStatus(accountETH, MemberStatus.Suspended, reason);
+    }
+
+    /// @notice Reinstates the suspended member
+    /// @dev Available only for the moderator role
+    /// @param accountETH The account's address ETH
+    /// @param reason The reason code of the reinstatement
+    function reinstateMember(address accountETH, bytes32 reason) external override onlyRole(MODERATOR_ROLE) {
+        _requireStatus(accountETH, MemberStatus.Suspended);
+        _setStatus(accountETH, MemberStatus.Active, reason);
+    }
+
+    /// @notice Removes the member, the account can't sign up again
+    /// @dev Available only for the moderator role. The personal data is cleared
+    /// @param accountETH The account's address ETH
+    /// @param reason The reason code of the removal
+    function removeMember(address accountETH, bytes32 reason) external override onlyRole(MODERATOR_ROLE) {
+        if(!registeredMembers[accountETH]) revert UnregisteredAccount();
+
+        Member storage member = members[accountETH];
+        delete usernameOwners[_usernameKey(member.username)];
+        _membersSet.remove(accountETH);
+        delete member.image;
+        delete member.username;
+        delete member.ipfsHash;
+        delete member.verifiedOrganisation;
+        registeredMembers[accountETH] = false;
+        _setStatus(accountETH, MemberStatus.Removed, reason);
+    }
+
+    /// @notice Grants or revokes the verified organisation status of the member
+    /// @dev Available only for the verifier role after off-chain KYC
+    /// @param accountETH The account's address ETH
+    /// @param verified The new value of the verified organisation status
+    /// @param reason The reason code of the change
+    function setVerifiedOrganisation(
+        address accountETH,
+        bool verified,
+        bytes32 reason
+    ) external override onlyRole(VERIFIER_ROLE) {
+        if(!registeredMembers[accountETH]) revert UnregisteredAccount();
+
+        members[accountETH].verifiedOrganisation = verified;
+        emit OrganisationVerificationUpdated(accountETH, verified, reason, _msgSender());
+    }
+
+    /// @notice Possibility to verify if the account is the active member and has signed the hash (e.g. login challenge)
+    /// @dev Supports EOA and ERC-1271 contract signatures
+    /// @param accountETH The account's address ETH
+    /// @param hash The signed hash
+    /// @param signature The signature of the hash
+    /// @return verificate The boolean value if an account is the active member and the signature is valid
+    /// @return status The moderation status of the account
+    /// @return verifiedOrganisation The boolean value if an account is the verified organisation
+    function verificateMember(
+        address accountETH,
+        bytes32 hash,
+        bytes calldata signature
+    ) external view override returns (bool verificate, MemberStatus status, bool verifiedOrganisation) {
+        Member storage member = members[accountETH];
+        status = member.status;
+        verifiedOrganisation = member.verifiedOrganisation;
+        verificate = status == MemberStatus.Active &&
+            SignatureChecker.isValidSignatureNow(accountETH, hash, signature);
     }
 
-    /// @notice Possibility to verify if the inputted address is existed in the registration system
-    /// @param email The email of member
-    /// @param pass The saved hash of password for checking
-    /// @return verificate The boolean value if an account is existed
-    function verificateMember(string calldata email, bytes32 pass) external view override returns(bool verificate) {
-        verificate = registeredMembers[email] && pass == members[email].password;
+    /// @notice Receives the info if the account is the active member
+    /// @param accountETH The account's address ETH
+    /// @return The boolean value if an account is registered and isn't suspended
+    function isActiveMember(address accountETH) external view override returns (bool) {
+        return members[accountETH].status == MemberStatus.Active;
     }
 
-    /// @notice Receives the personal data re the inputted account (through email)
-    /// @param email The email of account
+    /// @notice Receives the personal data re the inputted account
+    /// @param accountETH The account's address ETH
     /// @return The structure that keeps the personal data of certain users
-    function getMemberData(string calldata email) external view override returns (Member memory) {
-        return members[email];
+    function getMemberData(address accountETH) external view override returns (Member memory) {
+        return members[accountETH];
+    }
+
+    /// @notice Receives the account that owns the username (case-insensitive)
+    /// @param username The username of participant
+    /// @return The account's address ETH or zero's address if the username is free
+    function getAccountByUsername(string calldata username) public view override returns (address) {
+        return usernameOwners[_usernameKey(username)];
+    }
+
+    /// @notice Receives the personal data re the inputted username (case-insensitive)
+    /// @param username The username of participant
+    /// @return The structure that keeps the personal data of certain users
+    function getMemberByUsername(string calldata username) external view override returns (Member memory) {
+        return members[getAccountByUsername(username)];
+    }
+
+    /// @notice Receives the amount of registered members (active or suspended)
+    /// @return The amount of members
+    function membersCount() external view override returns (uint256) {
+        return _membersSet.length();
+    }
+
+    /// @notice Receives the registered members page by page
+    /// @dev The order of members can be changed after a removal
+    /// @param offset The index of the first member in the page
+    /// @param limit The max amount of members in the page
+    /// @return page The structures that keep the personal data of members
+    function getMembers(uint256 offset, uint256 limit) external view override returns (Member[] memory page) {
+        uint256 total = _membersSet.length();
+        if(offset >= total) return page;
+
+        uint256 size = total - offset < limit ? total - offset : limit;
+        page = new Member[](size);
+        for(uint i; i < size; ) {
+            page[i] = members[_membersSet.at(offset + i)];
+            i++;
+        }
+    }
+
+    /// @notice Returns the EIP-712 domain separator used for the signatures
+    /// @return The domain separator of the contract
+    function DOMAIN_SEPARATOR() external view returns (bytes32) {
+        return _domainSeparatorV4();
     }
 
     /// @dev Registration of the new CoinBox member with verification the inputted data
     /// @param image The set profile image
     /// @param username The set username of participant
     /// @param accountETH The account's address ETH
-    /// @param email The set email of member
-    /// @param password The saved hash of password for login option
     /// @param ipfsHash The possible ipfs hash that keeps data on the special host (back-end part)
     function _register(
         string calldata image,
         string calldata username,
         address accountETH,
-        string calldata email,
-        bytes32 password,
         bytes32 ipfsHash
     ) private {
-        if(Strings.equal(email, "")) revert InvalidEmail();
-        if(registeredMembers[email]) revert AlreadyRegisteredAccount();
-        if(password == bytes32(0)) revert InvalidPassword();
+        if(accountETH == address(0)) revert InvalidAccount();
+        if(registeredMembers[accountETH]) revert AlreadyRegisteredAccount();
+        if(members[accountETH].status == MemberStatus.Removed) revert RemovedAccount();
+        _claimUsername(username, accountETH);
 
-        members[email] = (
+        members[accountETH] = (
             Member({
                 image: image,
                 username: username,
                 accountETH: accountETH,
-                email: email,
-                password: password,
                 registrationDate: block.timestamp,
-                ipfsHash: ipfsHash
+                ipfsHash: ipfsHash,
+                status: MemberStatus.Active,
+                verifiedOrganisation: false
             })
         );
-        
-        registeredMembers[email] = true;
+
+        registeredMembers[accountETH] = true;
+        _membersSet.add(accountETH);
         emit RegisteredMember(
-            image, username, accountETH, email, password, members[email].registrationDate, ipfsHash
+            image, username, accountETH, block.timestamp, ipfsHash
         );
     }
 
-    /// @dev Possibility to update the personal data of existed CoinBox member. The email is constant
+    /// @dev Possibility to update the personal data of existed CoinBox member. The account is constant
     /// @param image The set profile image
     /// @param username The set username of participant
     /// @param accountETH The account's address ETH
-    /// @param email The set email of member
-    /// @param password The saved hash of password for login option
     /// @param ipfsHash The possible ipfs hash that keeps data on the special host (back-end part)
     function _updateData(
         string calldata image,
         string calldata username,
         address accountETH,
-        string calldata email,
-        bytes32 password,
         bytes32 ipfsHash
     ) private {
+        _requireStatus(accountETH, MemberStatus.Active);
+
+        Member storage member = members[accountETH];
+        bytes32 oldKey = _usernameKey(member.username);
+        if(oldKey != _usernameKey(username)) {
+            delete usernameOwners[oldKey];
+            _claimUsername(username, accountETH);
+        }
+        member.image = image;
+        member.username = username;
+        member.ipfsHash = ipfsHash;
 
-        members[email] = (
-            Member({
-                image: image,
-                username: username,
-                accountETH: accountETH,
-                email: email,
-                password: password,
-                registrationDate: members[email].registrationDate,
-                ipfsHash: ipfsHash
-            })
-        );
-        
         emit UpdatedMemberData(
-            image, username, accountETH, password, block.timestamp, ipfsHash
+            image, username, accountETH, block.timestamp, ipfsHash
+        );
+    }
+
+    /// @dev Returns the reason why the registration of the account with the username is a duplicate
+    /// @param username The set username of participant
+    /// @param accountETH The account's address ETH
+    /// @return The reason or `None` if the account can be registered
+    function _getSkipReason(string calldata username, address accountETH) private view returns (SkipReason) {
+        if(registeredMembers[accountETH]) return SkipReason.RegisteredAccount;
+        if(members[accountETH].status == MemberStatus.Removed) return SkipReason.RemovedAccount;
+        address usernameOwner = usernameOwners[_usernameKey(username)];
+        if(usernameOwner != address(0) && usernameOwner != accountETH) return SkipReason.UsernameTaken;
+        return SkipReason.None;
+    }
+
+    /// @dev Reserves the username (case-insensitive) for the account
+    /// @param username The username of participant
+    /// @param accountETH The account's address ETH
+    function _claimUsername(string calldata username, address accountETH) private {
+        if(bytes(username).length == 0) revert InvalidUsername();
+        bytes32 key = _usernameKey(username);
+        address usernameOwner = usernameOwners[key];
+        if(usernameOwner != address(0) && usernameOwner != accountETH) revert UsernameTaken(username);
+        usernameOwners[key] = accountETH;
+    }
+
+    /// @dev Changes the moderation status of the member
+    /// @param accountETH The account's address ETH
+    /// @param status The new status of member
+    /// @param reason The reason code of the change
+    function _setStatus(address accountETH, MemberStatus status, bytes32 reason) private {
+        members[accountETH].status = status;
+        emit MemberStatusUpdated(accountETH, status, reason, _msgSender());
+    }
+
+    /// @dev Checks that the member has the expected status
+    /// @param accountETH The account's address ETH
+    /// @param expected The expected status of member
+    function _requireStatus(address accountETH, MemberStatus expected) private view {
+        if(!registeredMembers[accountETH]) revert UnregisteredAccount();
+        MemberStatus status = members[accountETH].status;
+        if(status != expected) revert InvalidMemberStatus(status);
+    }
+
+    /// @dev Calculates the case-insensitive key of the username (ASCII letters are lowercased)
+    /// @param username The username of participant
+    /// @return The hash of the lowercased username
+    function _usernameKey(string memory username) private pure returns (bytes32) {
+        bytes memory source = bytes(username);
+        bytes memory result = new bytes(source.length);
+        for(uint i; i < source.length; ) {
+            bytes1 char = source[i];
+            result[i] = (char >= 0x41 && char <= 0x5A) ? bytes1(uint8(char) + 32) : char;
+            i++;
+        }
+        return keccak256(result);
+    }
+
+    /// @dev Verifies the EIP-712 signature of the account and consumes its nonce
+    /// @param typehash The typehash of the signed message
+    /// @param image The set profile image
+    /// @param username The set username of participant
+    /// @param accountETH The account's address ETH that should sign the message
+    /// @param ipfsHash The possible ipfs hash that keeps data on the special host (back-end part)
+    /// @param deadline The timestamp until the signature is valid
+    /// @param signature The signature of the message
+    function _verifySignature(
+        bytes32 typehash,
+        string calldata image,
+        string calldata username,
+        address accountETH,
+        bytes32 ipfsHash,
+        uint256 deadline,
+        bytes calldata signature
+    ) private {
+        if(block.timestamp > deadline) revert ExpiredSignature(deadline);
+
+        bytes32 structHash = keccak256(
+            abi.encode(
+                typehash,
+                accountETH,
+                keccak256(bytes(image)),
+                keccak256(bytes(username)),
+                ipfsHash,
+                _useNonce(accountETH),
+                deadline
+            )
         );
+        if(!SignatureChecker.isValidSignatureNow(accountETH, _hashTypedDataV4(structHash), signature))
+            revert InvalidSignature();
     }
 }
@@ -4,124 +4,272 @@ pragma solidity 0.8.25;
 /// @title IRegistration interface
 /// @notice The interface to SC that responsibles for registration process
 interface IRegistration {
-    /// @notice The structure keeps the personal data of CoinBox participant
-    /// @dev The `email` field uses as unique value (db)
+    /// @notice The moderation status of CoinBox participant
+    /// @dev `None` - the account has never been registered, `Active` - the member can use the platform,
+    /// `Suspended` - the member is temporarily blocked, `Removed` - the member is banned and can't sign up again
+    enum MemberStatus {
+        None,
+        Active,
+        Suspended,
+        Removed
+    }
+
+    /// @notice The reason why the batch registration skips the row
+    /// @dev `RegisteredAccount` - the account is already a member, `RemovedAccount` - the account was removed
+    /// by a moderator, `UsernameTaken` - the username (case-insensitive) belongs to another member
+    enum SkipReason {
+        None,
+        RegisteredAccount,
+        RemovedAccount,
+        UsernameTaken
+    }
+
+    /// @notice The structure keeps the public data of CoinBox participant
+    /// @dev The `accountETH` field uses as unique value. Emails and other personal data
+    /// are kept off-chain behind the `ipfsHash` pointer
     /// @param image The set profile image
     /// @param username The set username of participant
     /// @param accountETH The account's address ETH
-    /// @param email The set email of member
-    /// @param password The saved hash of password for login option
     /// @param registrationDate The set `block.timestamp` value while registration process
     /// @param ipfsHash The possible ipfs hash that keeps data on the special host (back-end part)
+    /// @param status The moderation status of participant
+    /// @param verifiedOrganisation The flag if participant is the verified organisation (passed off-chain KYC)
     struct Member {
         string image;
         string username;
         address accountETH;
-        string email;
-        bytes32 password;
         uint256 registrationDate;
         bytes32 ipfsHash;
+        MemberStatus status;
+        bool verifiedOrganisation;
     }
 
     /// @dev The event is triggered whenever an user of CoinBox is registered
     /// @param image The set profile image
     /// @param username The set username of participant
     /// @param account The account's address ETH
-    /// @param email The set email of member
-    /// @param pass The saved hash of password for login option
     /// @param registeredDate The set `block.timestamp` value while registration process
     /// @param ipfs The possible ipfs hash that keeps data on the special host (back-end part)
     event RegisteredMember(
         string image,
         string username,
         address indexed account,
-        string email,
-        bytes32 pass,
         uint256 registeredDate,
         bytes32 ipfs
     );
-    /// @dev The event is triggered whenever an user of CoinBox is registered
+    /// @dev The event is triggered whenever an user of CoinBox updates the personal data
     /// @param image The set profile image
     /// @param username The set username of participant
     /// @param account The account's address ETH
-    /// @param pass The saved hash of password for login option
-    /// @param registeredDate The set `block.timestamp` value while registration process
+    /// @param updatedDate The set `block.timestamp` value while update process
     /// @param ipfs The possible ipfs hash that keeps data on the special host (back-end part)
     event UpdatedMemberData(
         string image,
         string username,
         address indexed account,
-        bytes32 pass,
-        uint256 registeredDate,
+        uint256 updatedDate,
         bytes32 ipfs
     );
+    /// @dev The event is triggered whenever the batch registration skips the duplicate row
+    /// @param row The index of the row in the batch
+    /// @param account The account's address ETH of the row
+    /// @param reason The reason of the skip
+    event SkippedMember(uint256 indexed row, address indexed account, SkipReason reason);
+    /// @dev The event is triggered whenever a moderator changes the status of member
+    /// @param account The account's address ETH
+    /// @param status The new status of member
+    /// @param reason The reason code of the change (e.g. "SPAM", "FRAUD")
+    /// @param moderator The moderator's address
+    event MemberStatusUpdated(
+        address indexed account,
+        MemberStatus status,
+        bytes32 indexed reason,
+        address indexed moderator
+    );
+    /// @dev The event is triggered whenever a verifier grants or revokes the verified organisation status
+    /// @param account The account's address ETH
+    /// @param verified The new value of the verified organisation status
+    /// @param reason The reason code of the change (e.g. "KYC_PASSED", "KYC_EXPIRED")
+    /// @param verifier The verifier's address
+    event OrganisationVerificationUpdated(
+        address indexed account,
+        bool verified,
+        bytes32 indexed reason,
+        address indexed verifier
+    );
 
-    /// @dev The custom error is triggered when the input email is empty 
-    error InvalidEmail();
-    /// @dev The custom error is triggered when the input password is empty 
-    error InvalidPassword();
+    /// @dev The custom error is triggered when the input account is zero's address
+    error InvalidAccount();
     /// @dev The custom error is triggered when the certain account is unregistered in the system
     error UnregisteredAccount();
     /// @dev The custom error is triggered when the certain account is already registered in the system
     error AlreadyRegisteredAccount();
+    /// @dev The custom error is triggered when the signature isn't signed by the account
+    error InvalidSignature();
+    /// @dev The custom error is triggered when the signature's deadline is expired
+    error ExpiredSignature(uint256 deadline);
+    /// @dev The custom error is triggered when the username is empty
+    error InvalidUsername();
+    /// @dev The custom error is triggered when the username (case-insensitive) belongs to another member
+    error UsernameTaken(string username);
+    /// @dev The custom error is triggered when the account was removed by a moderator
+    error RemovedAccount();
+    /// @dev The custom error is triggered when the member's status doesn't allow the action
+    error InvalidMemberStatus(MemberStatus status);
 
-    /// @notice Registration of the new CoinBox member
+    /// @notice Registration of `msg.sender` as the new CoinBox member
     /// @param image The set profile image
     /// @param username The set username of participant
-    /// @param accountETH The account's address ETH
-    /// @param email The set email of member
-    /// @param password The saved hash of password for login option
     /// @param ipfsHash The possible ipfs hash that keeps data on the special host (back-end part)
     function registerMember(
         string calldata image,
         string calldata username,
-        address accountETH,
-        string calldata email,
-        bytes32 password,
         bytes32 ipfsHash
     ) external;
 
+    /// @notice Registration of the new CoinBox member authorized by the EIP-712 signature of the account
+    /// @dev Can be submitted by anyone (e.g. back-end), so the account doesn't need ETH for gas
+    /// @param image The set profile image
+    /// @param username The set username of participant
+    /// @param accountETH The account's address ETH that signed the registration
+    /// @param ipfsHash The possible ipfs hash that keeps data on the special host (back-end part)
+    /// @param deadline The timestamp until the signature is valid
+    /// @param signature The EIP-712 signature of the `Register` message
+    function registerMemberBySig(
+        string calldata image,
+        string calldata username,
+        address accountETH,
+        bytes32 ipfsHash,
+        uint256 deadline,
+        bytes calldata signature
+    ) external;
+
     /// @notice Registration of the new CoinBox members (batch option)
     /// @dev The length of arrays should be equal
     /// @param images The set profile images
     /// @param usernames The set usernames of participants
     /// @param accountsETH The accounts' addresses ETH
-    /// @param emails The set emails of members
-    /// @param passwords The saved hashes of passwords for login option
     /// @param ipfsHashes The possible ipfs hashes that keeps data on the special host (back-end part)
     function registerMembersBatch(
         string[] calldata images,
         string[] calldata usernames,
         address[] calldata accountsETH,
-        string[] calldata emails,
-        bytes32[] calldata passwords,
         bytes32[] calldata ipfsHashes
     ) external;
 
-    /// @notice Possibility to update the personal data of existed CoinBox member
+    /// @notice Registration of the new CoinBox members (batch option) that skips the duplicate rows
+    /// instead of reverting the batch
+    /// @dev The length of arrays should be equal. The rows of the already registered or removed accounts and
+    /// the taken usernames (also by the previous rows) are skipped with the `SkippedMember` event
+    /// @param images The set profile images
+    /// @param usernames The set usernames of participants
+    /// @param accountsETH The accounts' addresses ETH
+    /// @param ipfsHashes The possible ipfs hashes that keeps data on the special host (back-end part)
+    /// @return skippedRows The indexes of the skipped rows
+    function registerMembersBatchSkipDuplicates(
+        string[] calldata images,
+        string[] calldata usernames,
+        address[] calldata accountsETH,
+        bytes32[] calldata ipfsHashes
+    ) external returns (uint256[] memory skippedRows);
+
+    /// @notice Possibility to update the personal data of `msg.sender`
     /// @param image The set profile image
     /// @param username The set username of participant
-    /// @param accountETH The account's address ETH
-    /// @param email The set email of member
-    /// @param password The saved hash of password for login option
     /// @param ipfsHash The possible ipfs hash that keeps data on the special host (back-end part)
     function updateData(
         string calldata image,
         string calldata username,
-        address accountETH,
-        string calldata email,
-        bytes32 password,
         bytes32 ipfsHash
     ) external;
 
-    /// @notice Possibility to verify if the inputted address is existed in the registration system
-    /// @param email The email of member
-    /// @param pass The saved hash of password for checking
-    /// @return verificate The boolean value if an account is existed
-    function verificateMember(string calldata email, bytes32 pass) external view returns(bool verificate);
+    /// @notice Possibility to update the personal data authorized by the EIP-712 signature of the account
+    /// @param image The set profile image
+    /// @param username The set username of participant
+    /// @param accountETH The account's address ETH that signed the update
+    /// @param ipfsHash The possible ipfs hash that keeps data on the special host (back-end part)
+    /// @param deadline The timestamp until the signature is valid
+    /// @param signature The EIP-712 signature of the `UpdateData` message
+    function updateDataBySig(
+        string calldata image,
+        string calldata username,
+        address accountETH,
+        bytes32 ipfsHash,
+        uint256 deadline,
+        bytes calldata signature
+    ) external;
+
+    /// @notice Suspends the active member
+    /// @dev Available only for the moderator role
+    /// @param accountETH The account's address ETH
+    /// @param reason The reason code of the suspension
+    function suspendMember(address accountETH, bytes32 reason) external;
+
+    /// @notice Reinstates the suspended member
+    /// @dev Available only for the moderator role
+    /// @param accountETH The account's address ETH
+    /// @param reason The reason code of the reinstatement
+    function reinstateMember(address accountETH, bytes32 reason) external;
+
+    /// @notice Removes the member, the account can't sign up again
+    /// @dev Available only for the moderator role. The personal data is cleared
+    /// @param accountETH The account's address ETH
+    /// @param reason The reason code of the removal
+    function removeMember(address accountETH, bytes32 reason) external;
 
-    /// @notice Receives the personal data re the inputted account (through email)
-    /// @param email The email of account
+    /// @notice Grants or revokes the verified organisation status of the member
+    /// @dev Available only for the verifier role after off-chain KYC
+    /// @param accountETH The account's address ETH
+    /// @param verified The new value of the verified organisation status
+    /// @param reason The reason code of the change
+    function setVerifiedOrganisation(address accountETH, bool verified, bytes32 reason) external;
+
+    /// @notice Possibility to verify if the account is the active member and has signed the hash (e.g. login challenge)
+    /// @dev Supports EOA and ERC-1271 contract signatures
+    /// @param accountETH The account's address ETH
+    /// @param hash The signed hash
+    /// @param signature The signature of the hash
+    /// @return verificate The boolean value if an account is the active member and the signature is valid
+    /// @return status The moderation status of the account
+    /// @return verifiedOrganisation The boolean value if an account is the verified organisation
+    function verificateMember(
+        address accountETH,
+        bytes32 hash,
+        bytes calldata signature
+    ) external view returns (bool verificate, MemberStatus status, bool verifiedOrganisation);
+
+    /// @notice Receives the info if the account is registered (active or suspended)
+    /// @param accountETH The account's address ETH
+    /// @return The boolean value if an account is registered
+    function registeredMembers(address accountETH) external view returns (bool);
+
+    /// @notice Receives the info if the account is the active member
+    /// @param accountETH The account's address ETH
+    /// @return The boolean value if an account is registered and isn't suspended
+    function isActiveMember(address accountETH) external view returns (bool);
+
+    /// @notice Receives the personal data re the inputted account
+    /// @param accountETH The account's address ETH
     /// @return The structure that keeps the personal data of certain users
-    function getMemberData(string calldata email) external view returns (Member memory);
-}
\ No newline at end of file
+    function getMemberData(address accountETH) external view returns (Member memory);
+
+    /// @notice Receives the account that owns the username (case-insensitive)
+    /// @param username The username of participant
+    /// @return The account's address ETH or zero's address if the username is free
+    function getAccountByUsername(string calldata username) external view returns (address);
+
+    /// @notice Receives the personal data re the inputted username (case-insensitive)
+    /// @param username The username of participant
+    /// @return The structure that keeps the personal data of certain users
+    function getMemberByUsername(string calldata username) external view returns (Member memory);
+
+    /// @notice Receives the amount of registered members (active or suspended)
+    /// @return The amount of members
+    function membersCount() external view returns (uint256);
+
+    /// @notice Receives the registered members page by page
+    /// @param offset The index of the first member in the page
+    /// @param limit The max amount of members in the page
+    /// @return page The structures that keep the personal data of members
+    function getMembers(uint256 offset, uint256 limit) external view returns (Member[] memory page);
+}
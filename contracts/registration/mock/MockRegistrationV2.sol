@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.25;
+
+import "../Registration.sol";
+
+/// @title MockRegistrationV2 contract
+/// @notice The next version of Registration with the appended state, is used to test the proxy upgrades
+contract MockRegistrationV2 is Registration {
+    /// @notice The version of the implementation
+    uint256 public constant VERSION = 2;
+
+    /// @notice The amount of the members registered before the upgrade
+    uint256 public migratedMembers;
+
+    /// @notice The migration called through `upgradeAndCall`: counts the registered members
+    function initializeV2() external reinitializer(2) {
+        migratedMembers = this.membersCount();
+    }
+}
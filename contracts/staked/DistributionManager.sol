@@ -11,6 +11,21 @@ contract DistributionManager is IDistributionManager, Initializable {
 
   /// @notice The value of precision for calculates in formulas
   uint256 public constant PRECISION = 18;
+  /// @notice The max amount of the queued epochs per distribution
+  uint256 public constant MAX_QUEUED_EPOCHS = 10;
+
+  /// @custom:storage-location erc7201:coinbox.storage.DistributionManager
+  /// @dev The namespaced storage keeps the layout of the inheriting contracts unchanged
+  /// @param epochs The epochs of the distributions (the started and the queued ones)
+  /// @param nextEpochs The index of the first epoch that isn't applied to the distribution yet
+  struct DistributionManagerStorage {
+    mapping(address => Epoch[]) epochs;
+    mapping(address => uint256) nextEpochs;
+  }
+
+  /// @dev keccak256(abi.encode(uint256(keccak256("coinbox.storage.DistributionManager")) - 1)) & ~bytes32(uint256(0xff))
+  bytes32 private constant DistributionManagerStorageLocation =
+    0x9058f78f23442da1bb1f48f030f4829c7987264e24273f33feb5cdbacd7a4300;
   
   /// @notice The value of distribution end
   /// @dev It is used for save the calculated distribution end
@@ -28,6 +43,17 @@ contract DistributionManager is IDistributionManager, Initializable {
   error InvalidAddress();
   /// @dev The custom error is triggered when the set distribution duration is zero 
   error InvalidDuration();
+  /// @dev The custom error is triggered when the epoch starts in the past, after the distribution end
+  /// or before the already queued epoch
+  error InvalidEpoch();
+  /// @dev The custom error is triggered when the distribution has the max amount of the queued epochs
+  error TooManyEpochs();
+
+  /// @dev Allows the call only for the emission manager
+  modifier onlyEmissionManager() {
+    require(msg.sender == EMISSION_MANAGER, "ONLY_EMISSION_MANAGER");
+    _;
+  }
 
   /// @notice Initialize function: sets emission manager and distribution end.
   /// Called by the proxy contract
@@ -49,9 +75,8 @@ contract DistributionManager is IDistributionManager, Initializable {
   function configureAssets(DistributionTypes.AssetConfigInput[] calldata assetsConfigInput)
     external
     override
+    onlyEmissionManager
   {
-    require(msg.sender == EMISSION_MANAGER, "ONLY_EMISSION_MANAGER");
-
     for (uint256 i; i < assetsConfigInput.length;) {
       AssetData storage assetConfig = assets[assetsConfigInput[i].underlyingAsset];
 
@@ -72,6 +97,102 @@ contract DistributionManager is IDistributionManager, Initializable {
     }
   }
 
+  /// @notice Extends the end of all distributions. If the distribution is already finished,
+  /// the period between the previous end and the extension isn't rewarded
+  /// @param distributionEnd The new value of the distribution end
+  function extendDistribution(uint256 distributionEnd) external override onlyEmissionManager {
+    uint256 previousEnd = DISTRIBUTION_END;
+    if (distributionEnd <= previousEnd || distributionEnd <= block.timestamp) revert InvalidDuration();
+
+    if (block.timestamp > previousEnd) {
+      _updateAllAssetsState();
+    }
+    DISTRIBUTION_END = distributionEnd;
+
+    emit DistributionExtended(previousEnd, distributionEnd);
+  }
+
+  /// @notice Queues the future epoch with the new emission for a distribution
+  /// @param asset The address of the reference asset of the distribution
+  /// @param emissionPerSecond The value of emissions per second during the epoch
+  /// @param startTimestamp The moment the epoch starts, later than the already queued epochs
+  function queueEpoch(
+    address asset,
+    uint128 emissionPerSecond,
+    uint128 startTimestamp
+  ) external override onlyEmissionManager {
+    if (startTimestamp <= block.timestamp || startTimestamp >= DISTRIBUTION_END) revert InvalidEpoch();
+
+    DistributionManagerStorage storage $ = _getDistributionManagerStorage();
+    Epoch[] storage epochs = $.epochs[asset];
+    uint256 queued = epochs.length - $.nextEpochs[asset];
+    if (queued != 0 && epochs[epochs.length - 1].startTimestamp >= startTimestamp) revert InvalidEpoch();
+    if (queued >= MAX_QUEUED_EPOCHS) revert TooManyEpochs();
+
+    epochs.push(Epoch({ emissionPerSecond: emissionPerSecond, startTimestamp: startTimestamp }));
+
+    emit EpochQueued(asset, emissionPerSecond, startTimestamp);
+  }
+
+  /// @notice Cancels the epochs of a distribution that haven't started yet
+  /// @param asset The address of the reference asset of the distribution
+  function cancelEpochs(address asset) external override onlyEmissionManager {
+    DistributionManagerStorage storage $ = _getDistributionManagerStorage();
+    Epoch[] storage epochs = $.epochs[asset];
+    uint256 nextEpoch = $.nextEpochs[asset];
+
+    while (epochs.length > nextEpoch && epochs[epochs.length - 1].startTimestamp > block.timestamp) {
+      epochs.pop();
+    }
+
+    emit EpochsCancelled(asset);
+  }
+
+  /// @notice Returns the current and the next epoch of a distribution
+  /// @param asset The address of the reference asset of the distribution
+  /// @return current The current epoch (`startTimestamp` is zero if no queued epoch has started yet)
+  /// @return next The next queued epoch (zero values if nothing is queued)
+  function getAssetEpochs(address asset)
+    external
+    view
+    override
+    returns (Epoch memory current, Epoch memory next)
+  {
+    Epoch[] storage epochs = _getDistributionManagerStorage().epochs[asset];
+    (, uint128 emissionPerSecond, uint256 nextEpoch) = _previewAssetState(asset, assets[asset], 0);
+
+    current.emissionPerSecond = emissionPerSecond;
+    if (nextEpoch != 0) {
+      current.startTimestamp = epochs[nextEpoch - 1].startTimestamp;
+    }
+    if (nextEpoch < epochs.length) {
+      next = epochs[nextEpoch];
+    }
+  }
+
+  /// @notice Returns the rewards that a distribution emits from the moment until the distribution end,
+  /// taking into account the queued epochs
+  /// @param asset The address of the reference asset of the distribution
+  /// @return emissions The amount of reward tokens
+  function getEmissionsUntilEnd(address asset) external view override returns (uint256 emissions) {
+    uint256 distributionEnd = DISTRIBUTION_END;
+    if (block.timestamp >= distributionEnd) return 0;
+
+    Epoch[] storage epochs = _getDistributionManagerStorage().epochs[asset];
+    (, uint128 emissionPerSecond, uint256 nextEpoch) = _previewAssetState(asset, assets[asset], 0);
+    uint256 fromTimestamp = block.timestamp;
+
+    while (nextEpoch < epochs.length) {
+      Epoch memory epoch = epochs[nextEpoch];
+      emissions += emissionPerSecond * (epoch.startTimestamp - fromTimestamp);
+      emissionPerSecond = epoch.emissionPerSecond;
+      fromTimestamp = epoch.startTimestamp;
+      nextEpoch++;
+    }
+
+    emissions += emissionPerSecond * (distributionEnd - fromTimestamp);
+  }
+
   /// @notice Returns the data of an user on a distribution
   /// @param user The address of the user
   /// @param asset The address of the reference asset of the distribution
@@ -97,8 +218,20 @@ contract DistributionManager is IDistributionManager, Initializable {
       return oldIndex;
     }
 
-    uint256 newIndex =
-      _getAssetIndex(oldIndex, assetConfig.emissionPerSecond, lastUpdateTimestamp, totalStaked);
+    (uint256 newIndex, uint128 emissionPerSecond, uint256 nextEpoch) =
+      _previewAssetState(underlyingAsset, assetConfig, totalStaked);
+
+    DistributionManagerStorage storage $ = _getDistributionManagerStorage();
+    uint256 firstEpoch = $.nextEpochs[underlyingAsset];
+    if (nextEpoch != firstEpoch) {
+      Epoch[] storage epochs = $.epochs[underlyingAsset];
+      for (uint256 i = firstEpoch; i < nextEpoch;) {
+        emit EpochStarted(underlyingAsset, epochs[i].emissionPerSecond, epochs[i].startTimestamp);
+        i++;
+      }
+      $.nextEpochs[underlyingAsset] = nextEpoch;
+      assetConfig.emissionPerSecond = emissionPerSecond;
+    }
 
     if (newIndex != oldIndex) {
       assetConfig.index = newIndex;
@@ -178,13 +311,8 @@ contract DistributionManager is IDistributionManager, Initializable {
 
     for (uint256 i; i < stakes.length;) {
       AssetData storage assetConfig = assets[stakes[i].underlyingAsset];
-      uint256 assetIndex =
-        _getAssetIndex(
-          assetConfig.index,
-          assetConfig.emissionPerSecond,
-          assetConfig.lastUpdateTimestamp,
-          stakes[i].totalStaked
-        );
+      (uint256 assetIndex, , ) =
+        _previewAssetState(stakes[i].underlyingAsset, assetConfig, stakes[i].totalStaked);
 
       accruedRewards = accruedRewards + (
         _getRewards(stakes[i].stakedByUser, assetIndex, assetConfig.users[user])
@@ -195,30 +323,64 @@ contract DistributionManager is IDistributionManager, Initializable {
     return accruedRewards;
   }
 
+  /// @dev Calculates the state of a distribution at the moment, applying the queued epochs
+  /// which have started since the last update
+  /// @param asset The address of the reference asset of the distribution
+  /// @param assetConfig The storage pointer to the distribution's config
+  /// @param totalStaked The current total of staked assets for this distribution
+  /// @return index The distribution index at the moment
+  /// @return emissionPerSecond The emission per second at the moment
+  /// @return nextEpoch The index of the first epoch that hasn't started yet
+  function _previewAssetState(
+    address asset,
+    AssetData storage assetConfig,
+    uint256 totalStaked
+  ) internal view returns (uint256 index, uint128 emissionPerSecond, uint256 nextEpoch) {
+    DistributionManagerStorage storage $ = _getDistributionManagerStorage();
+    Epoch[] storage epochs = $.epochs[asset];
+
+    index = assetConfig.index;
+    emissionPerSecond = assetConfig.emissionPerSecond;
+    uint256 lastUpdateTimestamp = assetConfig.lastUpdateTimestamp;
+    nextEpoch = $.nextEpochs[asset];
+
+    while (nextEpoch < epochs.length && epochs[nextEpoch].startTimestamp <= block.timestamp) {
+      Epoch memory epoch = epochs[nextEpoch];
+      index = _getAssetIndex(index, emissionPerSecond, lastUpdateTimestamp, epoch.startTimestamp, totalStaked);
+      emissionPerSecond = epoch.emissionPerSecond;
+      lastUpdateTimestamp = epoch.startTimestamp;
+      nextEpoch++;
+    }
+
+    index = _getAssetIndex(index, emissionPerSecond, lastUpdateTimestamp, block.timestamp, totalStaked);
+  }
+
   /// @dev Calculates the next value of an specific distribution index with validations
   /// @param currentIndex The current index of the distribution
   /// @param emissionPerSecond The total rewards distributed per second per asset unit on the distribution
-  /// @param lastUpdateTimestamp The last moment this distribution was updated
+  /// @param fromTimestamp The last moment this distribution was updated
+  /// @param toTimestamp The moment until the index is calculated
   /// @param totalBalance The tokens considered for the distribution
   /// @return The new index
   function _getAssetIndex(
     uint256 currentIndex,
     uint256 emissionPerSecond,
-    uint128 lastUpdateTimestamp,
+    uint256 fromTimestamp,
+    uint256 toTimestamp,
     uint256 totalBalance
   ) internal view returns (uint256) {
     if (
       emissionPerSecond == 0 ||
       totalBalance == 0 ||
-      lastUpdateTimestamp == block.timestamp ||
-      lastUpdateTimestamp >= DISTRIBUTION_END
+      fromTimestamp >= toTimestamp ||
+      fromTimestamp >= DISTRIBUTION_END
     ) {
       return currentIndex;
     }
 
     uint256 currentTimestamp =
-      block.timestamp > DISTRIBUTION_END ? DISTRIBUTION_END : block.timestamp;
-    uint256 timeDelta = currentTimestamp - lastUpdateTimestamp;
+      toTimestamp > DISTRIBUTION_END ? DISTRIBUTION_END : toTimestamp;
+    uint256 timeDelta = currentTimestamp - fromTimestamp;
     return (emissionPerSecond * timeDelta * 10**PRECISION / totalBalance) + currentIndex;
   }
 
@@ -234,4 +396,17 @@ contract DistributionManager is IDistributionManager, Initializable {
   ) internal pure returns (uint256) {
     return principalUserBalance * (reserveIndex - userIndex) / 10**PRECISION;
   }
-}
\ No newline at end of file
+
+  /// @dev Updates the state of all distributions until the moment. Called before the distribution end
+  /// is extended after the distribution is finished, so the pause isn't rewarded.
+  /// The inheriting contract overrides it with its distributions
+  function _updateAllAssetsState() internal virtual {}
+
+  /// @dev Returns the pointer to the namespaced storage of the distribution manager
+  /// @return $ The storage pointer
+  function _getDistributionManagerStorage() private pure returns (DistributionManagerStorage storage $) {
+    assembly {
+      $.slot := DistributionManagerStorageLocation
+    }
+  }
+}
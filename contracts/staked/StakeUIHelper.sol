@@ -3,7 +3,9 @@ pragma solidity 0.8.25;
 
 import "./interfaces/IStakeUIHelper.sol";
 import "./interfaces/IStakingHelper.sol";
-import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "../token/interfaces/IUniswapV2Router02.sol";
+import "../oracle/interfaces/IPriceOracleRegistry.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
 
 /// @title StakeUIHelper contract
 /// @notice The contract for get the user's info about tokens
@@ -13,6 +15,12 @@ contract StakeUIHelper is IStakeUIHelper {
     address public immutable WETH;
     /// @notice The address of the Staking contract
     IStakingHelper public immutable STAKED_WETH;
+    /// @notice The Uniswap V2 router that is used to price the staked and reward tokens in WETH
+    /// if the registry has no price
+    IUniswapV2Router02 public immutable ROUTER;
+    /// @notice The price oracle registry that is used to price the staked and reward tokens first
+    /// (zero if the prices are read only from the router)
+    IPriceOracleRegistry public immutable ORACLE;
 
     /// @dev The value of the year in seconds
     uint256 internal constant SECONDS_PER_YEAR = 365 days;
@@ -22,12 +30,16 @@ contract StakeUIHelper is IStakeUIHelper {
     /// @dev Constructor: initialize contract
     /// @param weth The address of the WETH token
     /// @param stkWeth The address of the CBStaking contract
-    constructor(address weth, address stkWeth) {
-        if(weth == address(0) || stkWeth == address(0)) 
+    /// @param router The address of the Uniswap V2 router (the same as CoinBoxToken uses)
+    /// @param oracle The address of the price oracle registry (may be zero)
+    constructor(address weth, address stkWeth, address router, address oracle) {
+        if(weth == address(0) || stkWeth == address(0) || router == address(0)) 
             revert ("InvalidAddress");
         
         WETH = weth;
         STAKED_WETH = IStakingHelper(stkWeth);
+        ROUTER = IUniswapV2Router02(router);
+        ORACLE = IPriceOracleRegistry(oracle);
     }
 
     /// @notice Receives all user's info about staked tokens
@@ -39,17 +51,122 @@ contract StakeUIHelper is IStakeUIHelper {
         override
         returns (AssetUIData memory)
     {
-        AssetUIData memory data = _getStakedAssetData(
-            STAKED_WETH,
-            WETH,
-            user
-        );
-
-        data.stakeApy = _calculateApy(
-            data.distributionPerSecond,
-            data.stakeTokenTotalSupply
-        );
-        return data;
+        return _getWethUIData(user);
+    }
+
+    /// @notice Receives the info about staked WETH tokens for every inputted user
+    /// @param users The addresses of the users for get users' data
+    /// @return data The list of users' data in the same order
+    function getUsersUIData(address[] calldata users)
+        external
+        view
+        override
+        returns (AssetUIData[] memory data)
+    {
+        data = new AssetUIData[](users.length);
+        for (uint256 i; i < users.length; ) {
+            data[i] = _getWethUIData(users[i]);
+            i++;
+        }
+    }
+
+    /// @notice Receives the protocol-wide data: total staked and the rewards vault against the emissions
+    /// @return data The protocol-wide data
+    function getGlobalUIData() external view override returns (GlobalUIData memory data) {
+        data.totalStaked = STAKED_WETH.totalSupply();
+        data.distributionEnd = STAKED_WETH.DISTRIBUTION_END();
+
+        IERC20 rewardToken = IERC20(STAKED_WETH.REWARD_TOKEN());
+        address rewardsVault = STAKED_WETH.REWARDS_VAULT();
+        uint256 balance = rewardToken.balanceOf(rewardsVault);
+        uint256 allowance = rewardToken.allowance(rewardsVault, address(STAKED_WETH));
+        data.rewardsVaultBalance = balance < allowance ? balance : allowance;
+
+        data.emissionsUntilEnd = STAKED_WETH.getEmissionsUntilEnd(address(STAKED_WETH));
+        address[] memory poolAssets = STAKED_WETH.getPoolAssets();
+        for (uint256 i; i < poolAssets.length; ) {
+            data.emissionsUntilEnd += STAKED_WETH.getEmissionsUntilEnd(
+                STAKED_WETH.pools(poolAssets[i]).receiptToken
+            );
+            i++;
+        }
+
+        if (data.emissionsUntilEnd > data.rewardsVaultBalance) {
+            data.rewardsShortfall = data.emissionsUntilEnd - data.rewardsVaultBalance;
+        }
+    }
+
+    /// @notice Counts the WETH stakers, the stakers in cooldown and in the unstake window among the inputted users
+    /// @param users The addresses of the users
+    /// @return summary The summary of the inputted users
+    function getStakersSummary(address[] calldata users)
+        external
+        view
+        override
+        returns (StakersSummary memory summary)
+    {
+        uint256 cooldownSeconds = STAKED_WETH.COOLDOWN_SECONDS();
+        uint256 unstakeWindow = STAKED_WETH.UNSTAKE_WINDOW();
+
+        for (uint256 i; i < users.length; ) {
+            uint256 balance = STAKED_WETH.balanceOf(users[i]);
+            if (balance != 0) {
+                summary.stakers++;
+                summary.stakedByStakers += balance;
+
+                uint256 cooldownStart = STAKED_WETH.stakersCooldowns(users[i]);
+                if (cooldownStart != 0) {
+                    uint256 cooldownEnd = cooldownStart + cooldownSeconds;
+                    if (block.timestamp <= cooldownEnd) {
+                        summary.inCooldown++;
+                    } else if (block.timestamp - cooldownEnd <= unstakeWindow) {
+                        summary.inUnstakeWindow++;
+                    }
+                }
+            }
+            i++;
+        }
+    }
+
+    /// @notice Receives all user's info about every staking pool: WETH first, then the asset pools
+    /// @param user The address of the user for get user's data
+    /// @return data User's data about values of the staked tokens in every pool and the rewards to claim.
+    /// The rewards of all pools are accrued together, so they are reported once and not per pool
+    function getPoolsUIData(address user)
+        external
+        view
+        override
+        returns (PoolsUIData memory data)
+    {
+        address[] memory poolAssets = STAKED_WETH.getPoolAssets();
+        data.pools = new AssetUIData[](poolAssets.length + 1);
+        data.pools[0] = _getStakedAssetData(STAKED_WETH, WETH, user);
+
+        for (uint256 i; i < poolAssets.length; ) {
+            data.pools[i + 1] = _getPoolAssetData(poolAssets[i], user);
+            i++;
+        }
+
+        for (uint256 i; i < data.pools.length; ) {
+            _setApyData(data.pools[i]);
+            i++;
+        }
+
+        if (user != address(0)) {
+            data.userIncentivesToClaim = STAKED_WETH.getTotalRewardsBalance(user);
+        }
+    }
+
+    /// @dev Receives all user's info about staked WETH tokens with the APY and the rewards to claim
+    /// @param user The address of the user for get user's data
+    /// @return data User's data about values of the staked WETH tokens
+    function _getWethUIData(address user) internal view returns (AssetUIData memory data) {
+        data = _getStakedAssetData(STAKED_WETH, WETH, user);
+        _setApyData(data);
+
+        if (user != address(0)) {
+            data.userIncentivesToClaim = STAKED_WETH.getTotalRewardsBalance(user);
+        }
     }
 
     /// @dev Receives all user's staked asset data
@@ -64,15 +181,12 @@ contract StakeUIHelper is IStakeUIHelper {
     ) internal view returns (AssetUIData memory) {
         AssetUIData memory data;
 
+        data.underlyingToken = underlyingToken;
+        data.stakeToken = address(stakeToken);
         data.stakeTokenTotalSupply = stakeToken.totalSupply();
         data.stakeCooldownSeconds = stakeToken.COOLDOWN_SECONDS();
         data.stakeUnstakeWindow = stakeToken.UNSTAKE_WINDOW();
-        data.distributionEnd = stakeToken.DISTRIBUTION_END();
-        if (block.timestamp < data.distributionEnd) {
-            data.distributionPerSecond = stakeToken
-                .assets(address(stakeToken))
-                .emissionPerSecond;
-        }
+        _setEpochsData(data, stakeToken, address(stakeToken));
 
         if (user != address(0)) {
             data.generalStakedAmountByUser = stakeToken.stakedAmount(user);
@@ -80,23 +194,137 @@ contract StakeUIHelper is IStakeUIHelper {
                 user
             );
             data.stakeTokenUserBalance = stakeToken.balanceOf(user);
-            data.userIncentivesToClaim = stakeToken.getTotalRewardsBalance(
-                user
-            );
             data.userCooldown = stakeToken.stakersCooldowns(user);
         }
         return data;
     }
 
+    /// @dev Receives all user's data of the asset staking pool
+    /// @param asset The address of the staked asset token
+    /// @param user The address of the user for get user's data
+    /// @return User's data about values of the staked tokens and time frame
+    function _getPoolAssetData(
+        address asset,
+        address user
+    ) internal view returns (AssetUIData memory) {
+        AssetUIData memory data;
+        IStakingHelper.Pool memory pool = STAKED_WETH.pools(asset);
+        IERC20 receiptToken = IERC20(pool.receiptToken);
+
+        data.underlyingToken = asset;
+        data.stakeToken = pool.receiptToken;
+        data.stakeTokenTotalSupply = receiptToken.totalSupply();
+        data.stakeCooldownSeconds = pool.cooldownSeconds;
+        data.stakeUnstakeWindow = pool.unstakeWindow;
+        _setEpochsData(data, STAKED_WETH, pool.receiptToken);
+
+        if (user != address(0)) {
+            data.generalStakedAmountByUser = STAKED_WETH.poolStakedAmount(asset, user);
+            data.underlyingTokenUserBalance = IERC20(asset).balanceOf(user);
+            data.stakeTokenUserBalance = receiptToken.balanceOf(user);
+            data.userCooldown = STAKED_WETH.poolCooldowns(asset, user);
+        }
+        return data;
+    }
+
+    /// @dev Sets the distribution end, the current emission and the current and next epochs of the pool
+    /// @param data The pool's data for UI
+    /// @param stakeToken The address of the staking contract
+    /// @param distribution The address of the reference asset of the pool's distribution
+    function _setEpochsData(
+        AssetUIData memory data,
+        IStakingHelper stakeToken,
+        address distribution
+    ) internal view {
+        data.distributionEnd = stakeToken.DISTRIBUTION_END();
+        (IStakingHelper.Epoch memory current, IStakingHelper.Epoch memory next) =
+            stakeToken.getAssetEpochs(distribution);
+
+        if (block.timestamp < data.distributionEnd) {
+            data.distributionPerSecond = current.emissionPerSecond;
+        }
+
+        data.currentEpoch.emissionPerSecond = current.emissionPerSecond;
+        data.currentEpoch.startTimestamp = current.startTimestamp;
+        data.currentEpoch.endTimestamp = data.distributionEnd;
+        if (next.startTimestamp != 0) {
+            data.currentEpoch.endTimestamp = next.startTimestamp;
+            data.nextEpoch = EpochUIData({
+                emissionPerSecond: next.emissionPerSecond,
+                startTimestamp: next.startTimestamp,
+                endTimestamp: data.distributionEnd
+            });
+        }
+    }
+
+    /// @dev Sets the prices of the staked and reward tokens and the APY of the pool.
+    /// The APY is zero (with `priceAvailable` = false) if any price or decimals are unknown or nothing is staked
+    /// @param data The pool's data for UI
+    function _setApyData(AssetUIData memory data) internal view {
+        address rewardToken = STAKED_WETH.REWARD_TOKEN();
+        bool stakedPriced;
+        bool rewardPriced;
+        (data.stakedTokenPriceInWeth, stakedPriced) = _getPriceInWeth(data.underlyingToken);
+        (data.rewardTokenPriceInWeth, rewardPriced) = _getPriceInWeth(rewardToken);
+        (uint8 stakedDecimals, bool stakedDecimalsAvailable) = _tryGetDecimals(data.underlyingToken);
+        (uint8 rewardDecimals, bool rewardDecimalsAvailable) = _tryGetDecimals(rewardToken);
+        data.priceAvailable = stakedPriced && rewardPriced && stakedDecimalsAvailable && rewardDecimalsAvailable;
+
+        if (data.priceAvailable && data.stakeTokenTotalSupply != 0) {
+            data.stakeApy = _calculateApy(
+                data.distributionPerSecond * data.rewardTokenPriceInWeth / 10**rewardDecimals,
+                data.stakeTokenTotalSupply * data.stakedTokenPriceInWeth / 10**stakedDecimals
+            );
+        }
+    }
+
+    /// @dev Receives the price of the whole token in WETH from the price oracle registry
+    /// or from the Uniswap V2 router if the registry has no price of the token or WETH
+    /// @param token The address of the token
+    /// @return price The amount of WETH for one token (18 decimals)
+    /// @return available The boolean value if the price is known (the pair exists and has liquidity
+    /// and the token has the decimals)
+    function _getPriceInWeth(address token) internal view returns (uint256 price, bool available) {
+        if (token == WETH) return (1 ether, true);
+
+        if (address(ORACLE) != address(0)) {
+            (uint256 tokenPrice, bool tokenPriced) = ORACLE.tryGetPrice(token);
+            (uint256 wethPrice, bool wethPriced) = ORACLE.tryGetPrice(WETH);
+            if (tokenPriced && wethPriced) return (tokenPrice * 1 ether / wethPrice, true);
+        }
+
+        (uint8 decimals, bool decimalsAvailable) = _tryGetDecimals(token);
+        if (!decimalsAvailable) return (0, false);
+
+        address[] memory path = new address[](2);
+        path[0] = token;
+        path[1] = WETH;
+        try ROUTER.getAmountsOut(10**decimals, path) returns (uint256[] memory amounts) {
+            price = amounts[1];
+            available = price != 0;
+        } catch {}
+    }
+
+    /// @dev Receives the decimals of the token without reverting
+    /// @param token The address of the token
+    /// @return decimals The decimals value
+    /// @return available The boolean value if the call succeeds
+    function _tryGetDecimals(address token) internal view returns (uint8 decimals, bool available) {
+        try IERC20Metadata(token).decimals() returns (uint8 value) {
+            return (value, true);
+        } catch {}
+    }
+
     /// @dev Receives the result from calculation APY
-    /// @param distributionPerSecond The value of the distribution tokens per seconds
-    /// @param stakeTokenTotalSupply The value of the token's total supply
+    /// @param rewardsValuePerSecond The value of the distributed rewards per second in WETH
+    /// @param stakedValue The value of the staked tokens in WETH
     /// @return The calculated APY
     function _calculateApy(
-        uint256 distributionPerSecond,
-        uint256 stakeTokenTotalSupply
+        uint256 rewardsValuePerSecond,
+        uint256 stakedValue
     ) internal pure returns (uint256) {
+        if (stakedValue == 0) return 0;
         return
-            distributionPerSecond * SECONDS_PER_YEAR * PRECISION / stakeTokenTotalSupply;
+            rewardsValuePerSecond * SECONDS_PER_YEAR * PRECISION / stakedValue;
     }
 }
\ No newline at end of file
@@ -0,0 +1,73 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.25;
+
+import "./interfaces/IStaking.sol";
+import "./interfaces/IStakedAssetToken.sol";
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+
+/// @title StakedAssetToken contract
+/// @notice The receipt token of the asset staking pool. It is minted and burned 1:1 by the staking contract,
+/// transfers are reported to the staking contract to keep the rewards and cooldowns of both parties
+contract StakedAssetToken is IStakedAssetToken, ERC20 {
+  /// @notice The address of the staking contract that manages the pool
+  address public immutable STAKING;
+  /// @notice The address of the staked asset token
+  address public immutable UNDERLYING_ASSET;
+
+  /// @dev The decimals of the staked asset token
+  uint8 private immutable _decimals;
+
+  /// @dev Allows the call only for the staking contract
+  modifier onlyStaking() {
+    if (msg.sender != STAKING) revert OnlyStaking();
+    _;
+  }
+
+  /// @dev Constructor: sets the staking contract and the staked asset
+  /// @param name The name of the receipt token
+  /// @param symbol The symbol of the receipt token
+  /// @param staking The address of the staking contract
+  /// @param underlyingAsset The address of the staked asset token
+  constructor(
+    string memory name,
+    string memory symbol,
+    address staking,
+    address underlyingAsset
+  ) ERC20(name, symbol) {
+    STAKING = staking;
+    UNDERLYING_ASSET = underlyingAsset;
+    _decimals = IERC20Metadata(underlyingAsset).decimals();
+  }
+
+  /// @notice Mints the receipt tokens while staking
+  /// @param account The address of the staker
+  /// @param amount The amount to mint
+  function mint(address account, uint256 amount) external override onlyStaking {
+    _mint(account, amount);
+  }
+
+  /// @notice Burns the receipt tokens while redeem
+  /// @param account The address of the staker
+  /// @param amount The amount to burn
+  function burn(address account, uint256 amount) external override onlyStaking {
+    _burn(account, amount);
+  }
+
+  /// @notice Returns the decimals of the staked asset token
+  /// @return The decimals value
+  function decimals() public view override returns (uint8) {
+    return _decimals;
+  }
+
+  /// @dev Reports transfers (not mints or burns) to the staking contract before balances are changed
+  /// @param from The address to transfer from
+  /// @param to The address to transfer to
+  /// @param value The amount to transfer
+  function _update(address from, address to, uint256 value) internal override {
+    if (from != address(0) && to != address(0)) {
+      IStaking(STAKING).handleReceiptTransfer(from, to, value);
+    }
+    super._update(from, to, value);
+  }
+}
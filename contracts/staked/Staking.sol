@@ -2,14 +2,17 @@
 pragma solidity 0.8.25;
 
 import "./interfaces/IStaking.sol";
+import "./interfaces/IStakedAssetToken.sol";
 import "./DistributionManager.sol";
+import "../token/interfaces/IUniswapV2Router02.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/token/ERC20/ERC20Upgradeable.sol";
 
 /// @title Staking contract
 /// @notice The contract to stake WETH tokens, tokenize the position and get rewards (CoinBoxToken), 
-/// inheriting from a distribution manager contract
+/// inheriting from a distribution manager contract. The asset tokens are staked in the separate pools
+/// with own receipt tokens, emissions and cooldowns, all pools share the same rewards vault
 contract Staking is IStaking, DistributionManager, ERC20Upgradeable, OwnableUpgradeable {
   using SafeERC20 for IERC20;
 
@@ -40,8 +43,41 @@ contract Staking is IStaking, DistributionManager, ERC20Upgradeable, OwnableUpgr
   /// @dev It is used for saving data about user's cooldown seconds
   mapping(address => uint256) public stakersCooldowns;
 
+  /// @notice The boolean value keeps the info if the emergency mode is enabled.
+  /// While it is enabled new stakes are disabled and stakers can redeem without the cooldown
+  bool public emergencyMode;
+
+  /// @notice Keeps the staking pools by the staked asset token
+  mapping(address => Pool) public pools;
+  /// @notice Keeps the staked asset token by the receipt token of the pool
+  mapping(address => address) public receiptAssets;
+  /// @notice Keeps the data re staked amount by the certain user in the asset staking pool
+  mapping(address => mapping(address => uint256)) public poolStakedAmount;
+  /// @notice Keeps the information about available cooldown seconds for an user in the asset staking pool
+  mapping(address => mapping(address => uint256)) public poolCooldowns;
+  /// @dev The list of the staked asset tokens that have pools
+  address[] internal _poolAssets;
+  /// @notice The router that swaps the rewards to WETH in `claimAndRestake`
+  address public SWAP_ROUTER;
+  /// @notice Keeps the claimers approved by the staker to claim the rewards on its behalf
+  mapping(address => mapping(address => bool)) public approvedClaimers;
+  /// @dev Reserved storage slots for the variables of the future versions (50 slots with the ones above)
+  uint256[34] private __gap;
+
   /// @dev The custom error is triggered when the amount is zero 
   error InvalidAmount();
+  /// @dev The custom error is triggered when the action isn't available in the emergency mode
+  error EmergencyMode();
+  /// @dev The custom error is triggered when the pool for the asset doesn't exist
+  error UnknownPool();
+  /// @dev The custom error is triggered when the pool for the asset is already added
+  error PoolAlreadyExists();
+  /// @dev The custom error is triggered when the receipt token isn't managed by this contract
+  error InvalidReceiptToken();
+  /// @dev The custom error is triggered when the swap of the rewards returns less WETH than the min amount
+  error InsufficientOutputAmount();
+  /// @dev The custom error is triggered when the claimer isn't approved by the staker
+  error UnauthorizedClaimer();
 
   /// @dev Initialize function: sets config's data for the staking contract.
   /// Called by the proxy contract
@@ -84,6 +120,7 @@ contract Staking is IStaking, DistributionManager, ERC20Upgradeable, OwnableUpgr
   /// @param amount The amount to stake
   function stake(uint256 amount) external override {
     if(amount == 0) revert InvalidAmount();
+    if(emergencyMode) revert EmergencyMode();
     uint256 balanceOfUser = balanceOf(msg.sender);
 
     uint256 accruedRewards =
@@ -112,64 +149,288 @@ contract Staking is IStaking, DistributionManager, ERC20Upgradeable, OwnableUpgr
     emit Cooldown(msg.sender);
   }
 
-  /// @dev Claims an `amount` of `REWARD_TOKEN`
-  /// @param amount The amount to claim
-  function claimRewards(uint256 amount) external override {
+  /// @notice Claims an `amount` of `REWARD_TOKEN` of `msg.sender` to the address `to` at any time.
+  /// The cooldown applies only to the redeem of the staked tokens
+  /// @param to The address to send the rewards to
+  /// @param amount The amount to claim, all rewards if it is above them
+  /// @return The claimed amount
+  function claimRewards(address to, uint256 amount) external override returns (uint256) {
+    return _claimRewardsTo(msg.sender, to, amount);
+  }
+
+  /// @notice Claims an `amount` of `REWARD_TOKEN` of the staker `from` to the address `to`
+  /// by the claimer approved by the staker (e.g. a helper contract)
+  /// @param from The address of the staker
+  /// @param to The address to send the rewards to
+  /// @param amount The amount to claim, all rewards if it is above them
+  /// @return The claimed amount
+  function claimRewardsOnBehalf(address from, address to, uint256 amount) external override returns (uint256) {
+    if(!approvedClaimers[from][msg.sender]) revert UnauthorizedClaimer();
+    return _claimRewardsTo(from, to, amount);
+  }
+
+  /// @notice Approves or revokes the claimer of the rewards of `msg.sender`
+  /// @param claimer The address of the claimer
+  /// @param approved The boolean value if the claimer is approved
+  function setClaimer(address claimer, bool approved) external override {
+    if(claimer == address(0)) revert InvalidAddress();
+    approvedClaimers[msg.sender][claimer] = approved;
+    emit ClaimerUpdated(msg.sender, claimer, approved);
+  }
+
+  /// @notice Redeems the staked tokens of `msg.sender` to the address `to`.
+  /// It can be called only in the unstake window after the cooldown period
+  /// @dev Burns stkWETH 1:1 and settles the accrued rewards before changing the balance
+  /// @param to The address to send the staked tokens to
+  /// @param amount The amount to redeem
+  function redeem(address to, uint256 amount) external override {
+    if(to == address(0)) revert InvalidAddress();
     if(amount == 0) revert InvalidAmount();
 
-    uint256 cooldownStartTimestamp = stakersCooldowns[msg.sender];
+    _validateCooldown(stakersCooldowns[msg.sender], COOLDOWN_SECONDS, UNSTAKE_WINDOW);
 
-    require(
-      block.timestamp > cooldownStartTimestamp + COOLDOWN_SECONDS,
-      'INSUFFICIENT_COOLDOWN'
-    );
-    require(
-      block.timestamp - cooldownStartTimestamp + COOLDOWN_SECONDS <= UNSTAKE_WINDOW,
-      'UNSTAKE_WINDOW_FINISHED'
-    );
-    
-    uint256 newTotalRewards =
-      _updateCurrentUnclaimedRewards(msg.sender, balanceOf(msg.sender), true);
-    uint256 amountToClaim = (amount > newTotalRewards) ? newTotalRewards : amount;
-    
-    stakerRewardsToClaim[msg.sender] = newTotalRewards - amountToClaim;
+    uint256 balanceOfMessageSender = balanceOf(msg.sender);
+    uint256 amountToRedeem = (amount > balanceOfMessageSender) ? balanceOfMessageSender : amount;
+    if(amountToRedeem == 0) revert InvalidAmount();
+
+    _updateCurrentUnclaimedRewards(msg.sender, balanceOfMessageSender, true);
 
-    IERC20(REWARD_TOKEN).safeTransferFrom(REWARDS_VAULT, msg.sender, amountToClaim);
+    _burn(msg.sender, amountToRedeem);
 
-    if (stakerRewardsToClaim[msg.sender] == 0) {
+    if (balanceOfMessageSender - amountToRedeem == 0) {
       stakersCooldowns[msg.sender] = 0;
     }
+    // stkWETH is transferable, so the recorded stake can be lower than the redeemed amount
+    uint256 staked = stakedAmount[msg.sender];
+    stakedAmount[msg.sender] = (amountToRedeem > staked) ? 0 : staked - amountToRedeem;
 
-    emit RewardsClaimed(msg.sender, amountToClaim);
+    IERC20(STAKED_TOKEN).safeTransfer(to, amountToRedeem);
+
+    emit Redeem(msg.sender, to, amountToRedeem);
   }
 
-  /// @notice Redeems the staked tokens by an owner
+  /// @notice Claims all rewards of `msg.sender` over the WETH and asset pools, swaps them to WETH and stakes it.
+  /// The cooldown is weighted with the restaked amount as in `stake`
+  /// @dev The rewards are pulled from the vault to this contract and swapped with the fee-on-transfer-safe
+  /// router function, the staked amount is the received WETH. Both transfers of CoinBoxToken may take a fee
+  /// @param minWethOut The min amount of WETH to receive from the swap
+  /// @return amountOut The restaked amount of WETH
+  function claimAndRestake(uint256 minWethOut) external override returns (uint256 amountOut) {
+    if(minWethOut == 0) revert InvalidAmount();
+    if(emergencyMode) revert EmergencyMode();
+    if(SWAP_ROUTER == address(0)) revert InvalidAddress();
+    uint256 balanceOfUser = balanceOf(msg.sender);
+
+    uint256 rewards = _updateAllUnclaimedRewards(msg.sender);
+    if(rewards == 0) revert InvalidAmount();
+    stakerRewardsToClaim[msg.sender] = 0;
+
+    IERC20 rewardToken = IERC20(REWARD_TOKEN);
+    uint256 rewardBalance = rewardToken.balanceOf(address(this));
+    rewardToken.safeTransferFrom(REWARDS_VAULT, address(this), rewards);
+    uint256 received = rewardToken.balanceOf(address(this)) - rewardBalance;
+    emit RewardsClaimed(msg.sender, address(this), rewards);
+
+    address[] memory path = new address[](2);
+    path[0] = REWARD_TOKEN;
+    path[1] = STAKED_TOKEN;
+    uint256 wethBalance = IERC20(STAKED_TOKEN).balanceOf(address(this));
+    rewardToken.forceApprove(SWAP_ROUTER, received);
+    IUniswapV2Router02(SWAP_ROUTER).swapExactTokensForTokensSupportingFeeOnTransferTokens(
+      received, minWethOut, path, address(this), block.timestamp
+    );
+    amountOut = IERC20(STAKED_TOKEN).balanceOf(address(this)) - wethBalance;
+    if(amountOut < minWethOut) revert InsufficientOutputAmount();
+
+    stakersCooldowns[msg.sender] = getNextCooldownTimestamp(0, amountOut, msg.sender, balanceOfUser);
+    _mint(msg.sender, amountOut);
+    stakedAmount[msg.sender] += amountOut;
+
+    emit Staked(msg.sender, amountOut);
+    emit RewardsRestaked(msg.sender, rewards, amountOut);
+  }
+
+  /// @notice Sets the router of `claimAndRestake` by an owner
+  /// @param router The address of the Uniswap V2 router
+  function setSwapRouter(address router) external override onlyOwner {
+    if(router == address(0)) revert InvalidAddress();
+    SWAP_ROUTER = router;
+    emit SwapRouterUpdated(router);
+  }
+
+  /// @notice Adds the staking pool for the asset by an owner. The emission is configured
+  /// by the emission manager with the receipt token's address as the underlying asset
+  /// @param receiptToken The address of the receipt token which is managed by this contract
+  /// @param cooldownSeconds The cooldown seconds of the pool
+  /// @param unstakeWindow The seconds available to redeem once the cooldown period is fulfilled
+  function addPool(
+    address receiptToken,
+    uint256 cooldownSeconds,
+    uint256 unstakeWindow
+  ) external override onlyOwner {
+    if(receiptToken == address(0)) revert InvalidAddress();
+    if(IStakedAssetToken(receiptToken).STAKING() != address(this)) revert InvalidReceiptToken();
+
+    address asset = IStakedAssetToken(receiptToken).UNDERLYING_ASSET();
+    if(asset == address(0) || asset == STAKED_TOKEN) revert InvalidAddress();
+    if(pools[asset].receiptToken != address(0)) revert PoolAlreadyExists();
+
+    pools[asset].receiptToken = receiptToken;
+    receiptAssets[receiptToken] = asset;
+    _poolAssets.push(asset);
+    emit PoolAdded(asset, receiptToken);
+
+    _setPoolConfig(asset, cooldownSeconds, unstakeWindow);
+  }
+
+  /// @notice Updates the cooldown config of the asset staking pool by an owner
+  /// @param asset The address of the staked asset token
+  /// @param cooldownSeconds The cooldown seconds of the pool
+  /// @param unstakeWindow The seconds available to redeem once the cooldown period is fulfilled
+  function setPoolConfig(
+    address asset,
+    uint256 cooldownSeconds,
+    uint256 unstakeWindow
+  ) external override onlyOwner {
+    if(pools[asset].receiptToken == address(0)) revert UnknownPool();
+    _setPoolConfig(asset, cooldownSeconds, unstakeWindow);
+  }
+
+  /// @notice Stakes the asset tokens to the pool by the `msg.sender`
+  /// @param asset The address of the staked asset token
+  /// @param amount The amount to stake
+  function stakeAsset(address asset, uint256 amount) external override {
+    if(amount == 0) revert InvalidAmount();
+    if(emergencyMode) revert EmergencyMode();
+    Pool memory pool = _getPool(asset);
+    uint256 balanceOfUser = IERC20(pool.receiptToken).balanceOf(msg.sender);
+
+    _updatePoolUnclaimedRewards(msg.sender, pool.receiptToken, balanceOfUser);
+
+    poolCooldowns[asset][msg.sender] = _getNextCooldownTimestamp(
+      0, amount, poolCooldowns[asset][msg.sender], balanceOfUser, pool.cooldownSeconds, pool.unstakeWindow
+    );
+
+    IStakedAssetToken(pool.receiptToken).mint(msg.sender, amount);
+    IERC20(asset).safeTransferFrom(msg.sender, address(this), amount);
+    poolStakedAmount[asset][msg.sender] += amount;
+
+    emit PoolStaked(asset, msg.sender, amount);
+  }
+
+  /// @notice Activates the cooldown period to unstake from the asset staking pool
+  /// @param asset The address of the staked asset token
+  function cooldownAsset(address asset) external override {
+    Pool memory pool = _getPool(asset);
+    require(IERC20(pool.receiptToken).balanceOf(msg.sender) != 0, "INVALID_BALANCE_ON_COOLDOWN");
+    poolCooldowns[asset][msg.sender] = block.timestamp;
+
+    emit PoolCooldown(asset, msg.sender);
+  }
+
+  /// @notice Redeems the staked asset tokens of `msg.sender` to the address `to`.
+  /// It can be called only in the unstake window of the pool after the cooldown period
+  /// @param asset The address of the staked asset token
+  /// @param to The address to send the staked tokens to
   /// @param amount The amount to redeem
-  function redeem(uint256 amount) external override onlyOwner {
+  function redeemAsset(address asset, address to, uint256 amount) external override {
+    if(to == address(0)) revert InvalidAddress();
+    if(amount == 0) revert InvalidAmount();
+    Pool memory pool = _getPool(asset);
+
+    _validateCooldown(poolCooldowns[asset][msg.sender], pool.cooldownSeconds, pool.unstakeWindow);
+
+    uint256 balanceOfMessageSender = IERC20(pool.receiptToken).balanceOf(msg.sender);
+    uint256 amountToRedeem = (amount > balanceOfMessageSender) ? balanceOfMessageSender : amount;
+    if(amountToRedeem == 0) revert InvalidAmount();
+
+    _updatePoolUnclaimedRewards(msg.sender, pool.receiptToken, balanceOfMessageSender);
+
+    IStakedAssetToken(pool.receiptToken).burn(msg.sender, amountToRedeem);
+
+    if (balanceOfMessageSender - amountToRedeem == 0) {
+      poolCooldowns[asset][msg.sender] = 0;
+    }
+    // receipt tokens are transferable, so the recorded stake can be lower than the redeemed amount
+    uint256 staked = poolStakedAmount[asset][msg.sender];
+    poolStakedAmount[asset][msg.sender] = (amountToRedeem > staked) ? 0 : staked - amountToRedeem;
+
+    IERC20(asset).safeTransfer(to, amountToRedeem);
+
+    emit PoolRedeem(asset, msg.sender, to, amountToRedeem);
+  }
+
+  /// @notice Settles the rewards and the cooldowns of both parties while the receipt token's transfer
+  /// @dev Callable only by the receipt tokens of the pools before balances are changed
+  /// @param from The address to transfer from
+  /// @param to The address to transfer to
+  /// @param amount The amount to transfer
+  function handleReceiptTransfer(address from, address to, uint256 amount) external override {
+    address asset = receiptAssets[msg.sender];
+    if(asset == address(0)) revert InvalidReceiptToken();
+    if(amount == 0) revert InvalidAmount();
+    Pool memory pool = pools[asset];
+
+    uint256 balanceOfFrom = IERC20(msg.sender).balanceOf(from);
+    _updatePoolUnclaimedRewards(from, msg.sender, balanceOfFrom);
+
+    if (from != to) {
+      uint256 balanceOfTo = IERC20(msg.sender).balanceOf(to);
+      _updatePoolUnclaimedRewards(to, msg.sender, balanceOfTo);
+
+      uint256 previousSenderCooldown = poolCooldowns[asset][from];
+      poolCooldowns[asset][to] = _getNextCooldownTimestamp(
+        previousSenderCooldown,
+        amount,
+        poolCooldowns[asset][to],
+        balanceOfTo,
+        pool.cooldownSeconds,
+        pool.unstakeWindow
+      );
+      if (balanceOfFrom == amount && previousSenderCooldown != 0) {
+        poolCooldowns[asset][from] = 0;
+      }
+    }
+  }
+
+  /// @notice Enables or disables the emergency mode by an owner
+  /// @param enabled The boolean value if the emergency mode is enabled
+  function setEmergencyMode(bool enabled) external override onlyOwner {
+    emergencyMode = enabled;
+    emit EmergencyModeUpdated(enabled);
+  }
+
+  /// @notice Withdraws the staked tokens by an owner. Only the surplus above the stakers' principal
+  /// (e.g. tokens sent to the SC by mistake) can be withdrawn, also in the emergency mode,
+  /// where the stakers redeem their principal without the cooldown
+  /// @param recipient The address whose receives the amount
+  /// @param amount The amount to withdraw
+  function emergencyWithdraw(address recipient, uint256 amount) external override onlyOwner {
+    if(recipient == address(0)) revert InvalidAddress();
     if(amount == 0) revert InvalidAmount();
 
     uint256 balanceOfStaking = IERC20(STAKED_TOKEN).balanceOf(address(this));
-    uint256 amountToRedeem = (amount > balanceOfStaking) ? balanceOfStaking : amount;
+    uint256 principal = totalSupply();
+    uint256 available = (balanceOfStaking > principal) ? balanceOfStaking - principal : 0;
+    uint256 amountToWithdraw = (amount > available) ? available : amount;
+    if(amountToWithdraw == 0) revert InvalidAmount();
+
+    IERC20(STAKED_TOKEN).safeTransfer(recipient, amountToWithdraw);
 
-    IERC20(STAKED_TOKEN).safeTransfer(msg.sender, amountToRedeem);
+    emit EmergencyWithdraw(recipient, amountToWithdraw);
+  }
 
-    emit Redeem(msg.sender, amountToRedeem);
+  /// @notice Receives the list of the staked assets that have pools
+  /// @return The list of the staked asset tokens
+  function getPoolAssets() external view override returns (address[] memory) {
+    return _poolAssets;
   }
 
-  /// @notice Returns the total rewards pending to claim by an staker
+  /// @notice Returns the total rewards pending to claim by an staker over the WETH and asset pools
   /// @param staker The staker address
   /// @return The rewards
   function getTotalRewardsBalance(address staker) external view override returns (uint256) {
-    DistributionTypes.UserStakeInput[] memory userStakeInputs =
-      new DistributionTypes.UserStakeInput[](1);
-    
-    userStakeInputs[0] = DistributionTypes.UserStakeInput({
-      underlyingAsset: address(this),
-      stakedByUser: balanceOf(staker),
-      totalStaked: totalSupply()
-    });
-    
-    return stakerRewardsToClaim[staker] + _getUnclaimedRewards(staker, userStakeInputs);
+    return stakerRewardsToClaim[staker] + _getUnclaimedRewards(staker, _getUserStakes(staker));
   }
 
   /// @dev Calculates the how is gonna be a new cooldown timestamp depending on the sender/receiver situation
@@ -190,11 +451,37 @@ contract Staking is IStaking, DistributionManager, ERC20Upgradeable, OwnableUpgr
     address toAddress,
     uint256 toBalance
   ) public view returns (uint256) {
-    uint256 toCooldownTimestamp = stakersCooldowns[toAddress];
+    return _getNextCooldownTimestamp(
+      fromCooldownTimestamp,
+      amountToReceive,
+      stakersCooldowns[toAddress],
+      toBalance,
+      COOLDOWN_SECONDS,
+      UNSTAKE_WINDOW
+    );
+  }
+
+  /// @dev Calculates the next cooldown timestamp of the recipient with the pool's cooldown config.
+  /// See `getNextCooldownTimestamp` for the rules
+  /// @param fromCooldownTimestamp The cooldown timestamp of the sender
+  /// @param amountToReceive The amount
+  /// @param toCooldownTimestamp The current cooldown timestamp of the recipient
+  /// @param toBalance The current balance of the receiver
+  /// @param cooldownSeconds The cooldown seconds of the pool
+  /// @param unstakeWindow The unstake window of the pool
+  /// @return The new cooldown timestamp
+  function _getNextCooldownTimestamp(
+    uint256 fromCooldownTimestamp,
+    uint256 amountToReceive,
+    uint256 toCooldownTimestamp,
+    uint256 toBalance,
+    uint256 cooldownSeconds,
+    uint256 unstakeWindow
+  ) internal view returns (uint256) {
     if (toCooldownTimestamp == 0) return 0;
 
     uint256 minimalValidCooldownTimestamp =
-      block.timestamp - COOLDOWN_SECONDS - UNSTAKE_WINDOW;
+      block.timestamp - cooldownSeconds - unstakeWindow;
 
     if (minimalValidCooldownTimestamp > toCooldownTimestamp) {
       toCooldownTimestamp = 0;
@@ -276,4 +563,139 @@ contract Staking is IStaking, DistributionManager, ERC20Upgradeable, OwnableUpgr
 
     return unclaimedRewards;
   }
-}
\ No newline at end of file
+
+  /// @dev Updates the user's state in the asset staking pool and keeps the accrued rewards
+  /// @param user The address of the user
+  /// @param receiptToken The address of the pool's receipt token
+  /// @param userBalance The current balance of the receipt tokens of the user
+  function _updatePoolUnclaimedRewards(
+    address user,
+    address receiptToken,
+    uint256 userBalance
+  ) internal {
+    uint256 accruedRewards = _updateUserAssetInternal(
+      user, receiptToken, userBalance, IERC20(receiptToken).totalSupply()
+    );
+
+    if (accruedRewards != 0) {
+      stakerRewardsToClaim[user] += accruedRewards;
+      emit RewardsAccrued(user, accruedRewards);
+    }
+  }
+
+  /// @dev Updates the user's state over the WETH and asset pools
+  /// @param user The address of the user
+  /// @return The unclaimed rewards of the user
+  function _updateAllUnclaimedRewards(address user) internal returns (uint256) {
+    uint256 accruedRewards = _claimRewards(user, _getUserStakes(user));
+    uint256 unclaimedRewards = stakerRewardsToClaim[user] + accruedRewards;
+
+    if (accruedRewards != 0) {
+      stakerRewardsToClaim[user] = unclaimedRewards;
+      emit RewardsAccrued(user, accruedRewards);
+    }
+
+    return unclaimedRewards;
+  }
+
+  /// @dev Settles the rewards of the staker over the WETH and asset pools and sends the `amount` from the vault
+  /// @param from The address of the staker
+  /// @param to The address to send the rewards to
+  /// @param amount The amount to claim, all rewards if it is above them
+  /// @return amountToClaim The claimed amount
+  function _claimRewardsTo(address from, address to, uint256 amount) internal returns (uint256 amountToClaim) {
+    if(to == address(0)) revert InvalidAddress();
+    if(amount == 0) revert InvalidAmount();
+
+    uint256 newTotalRewards = _updateAllUnclaimedRewards(from);
+    amountToClaim = (amount > newTotalRewards) ? newTotalRewards : amount;
+    if(amountToClaim == 0) revert InvalidAmount();
+
+    stakerRewardsToClaim[from] = newTotalRewards - amountToClaim;
+    IERC20(REWARD_TOKEN).safeTransferFrom(REWARDS_VAULT, to, amountToClaim);
+
+    emit RewardsClaimed(from, to, amountToClaim);
+  }
+
+  /// @dev Collects the user's stakes over the WETH and asset pools for the distribution manager
+  /// @param user The address of the user
+  /// @return stakes The list of the user's stakes
+  function _getUserStakes(address user)
+    internal
+    view
+    returns (DistributionTypes.UserStakeInput[] memory stakes)
+  {
+    uint256 poolsCount = _poolAssets.length;
+    stakes = new DistributionTypes.UserStakeInput[](poolsCount + 1);
+
+    stakes[0] = DistributionTypes.UserStakeInput({
+      underlyingAsset: address(this),
+      stakedByUser: balanceOf(user),
+      totalStaked: totalSupply()
+    });
+
+    for (uint256 i; i < poolsCount;) {
+      address receiptToken = pools[_poolAssets[i]].receiptToken;
+      stakes[i + 1] = DistributionTypes.UserStakeInput({
+        underlyingAsset: receiptToken,
+        stakedByUser: IERC20(receiptToken).balanceOf(user),
+        totalStaked: IERC20(receiptToken).totalSupply()
+      });
+      i++;
+    }
+  }
+
+  /// @dev Updates the state of the WETH and asset distributions before the distribution end is extended
+  function _updateAllAssetsState() internal override {
+    _updateAssetStateInternal(address(this), assets[address(this)], totalSupply());
+
+    for (uint256 i; i < _poolAssets.length;) {
+      address receiptToken = pools[_poolAssets[i]].receiptToken;
+      _updateAssetStateInternal(receiptToken, assets[receiptToken], IERC20(receiptToken).totalSupply());
+      i++;
+    }
+  }
+
+  /// @dev Receives the pool of the asset
+  /// @param asset The address of the staked asset token
+  /// @return pool The pool's config
+  function _getPool(address asset) internal view returns (Pool memory pool) {
+    pool = pools[asset];
+    if(pool.receiptToken == address(0)) revert UnknownPool();
+  }
+
+  /// @dev Sets the cooldown config of the asset staking pool
+  /// @param asset The address of the staked asset token
+  /// @param cooldownSeconds The cooldown seconds of the pool
+  /// @param unstakeWindow The seconds available to redeem once the cooldown period is fulfilled
+  function _setPoolConfig(address asset, uint256 cooldownSeconds, uint256 unstakeWindow) internal {
+    if(cooldownSeconds == 0 || unstakeWindow == 0) revert InvalidAmount();
+
+    pools[asset].cooldownSeconds = cooldownSeconds;
+    pools[asset].unstakeWindow = unstakeWindow;
+    emit PoolConfigUpdated(asset, cooldownSeconds, unstakeWindow);
+  }
+
+  /// @dev Checks that the redeem is called in the unstake window after the cooldown period.
+  /// Skipped in the emergency mode
+  /// @param cooldownStartTimestamp The cooldown timestamp of the staker
+  /// @param cooldownSeconds The cooldown seconds of the pool
+  /// @param unstakeWindow The unstake window of the pool
+  function _validateCooldown(
+    uint256 cooldownStartTimestamp,
+    uint256 cooldownSeconds,
+    uint256 unstakeWindow
+  ) internal view {
+    if (emergencyMode) return;
+
+    require(
+      cooldownStartTimestamp != 0 &&
+      block.timestamp > cooldownStartTimestamp + cooldownSeconds,
+      'INSUFFICIENT_COOLDOWN'
+    );
+    require(
+      block.timestamp - (cooldownStartTimestamp + cooldownSeconds) <= unstakeWindow,
+      'UNSTAKE_WINDOW_FINISHED'
+    );
+  }
+}
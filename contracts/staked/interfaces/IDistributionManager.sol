@@ -19,6 +19,15 @@ interface IDistributionManager {
     mapping(address => uint256) users;
   }
 
+  /// @notice The structure which describes the reward epoch of a distribution
+  /// @dev The epoch lasts until the start of the next epoch or the distribution end
+  /// @param emissionPerSecond The value of emissions per second during the epoch
+  /// @param startTimestamp The moment the epoch starts
+  struct Epoch {
+    uint128 emissionPerSecond;
+    uint128 startTimestamp;
+  }
+
   /// @notice It is generated when configures the distribution of rewards
   /// @param asset The asset's address for configures
   /// @param emission The value of the emissions per second
@@ -35,11 +44,58 @@ interface IDistributionManager {
   /// @param index The updated distribution index for the user
   event UserIndexUpdated(address indexed user, address indexed asset, uint256 index);
 
+  /// @notice It is generated when the emission manager extends the distribution
+  /// @param previousEnd The previous value of the distribution end
+  /// @param distributionEnd The new value of the distribution end
+  event DistributionExtended(uint256 previousEnd, uint256 distributionEnd);
+
+  /// @notice It is generated when the emission manager queues the future epoch of a distribution
+  /// @param asset The address of the reference asset of the distribution
+  /// @param emissionPerSecond The value of emissions per second during the epoch
+  /// @param startTimestamp The moment the epoch starts
+  event EpochQueued(address indexed asset, uint256 emissionPerSecond, uint256 startTimestamp);
+
+  /// @notice It is generated when the queued epoch is applied to a distribution
+  /// @param asset The address of the reference asset of the distribution
+  /// @param emissionPerSecond The value of emissions per second during the epoch
+  /// @param startTimestamp The moment the epoch started
+  event EpochStarted(address indexed asset, uint256 emissionPerSecond, uint256 startTimestamp);
+
+  /// @notice It is generated when the emission manager cancels the queued epochs of a distribution
+  /// @param asset The address of the reference asset of the distribution
+  event EpochsCancelled(address indexed asset);
+
   /// @notice Configures the distribution of rewards for a list of assets
   /// @param assetsConfigInput The list of configurations to apply
   function configureAssets(DistributionTypes.AssetConfigInput[] calldata assetsConfigInput)
     external;
 
+  /// @notice Extends the end of all distributions
+  /// @param distributionEnd The new value of the distribution end
+  function extendDistribution(uint256 distributionEnd) external;
+
+  /// @notice Queues the future epoch with the new emission for a distribution
+  /// @param asset The address of the reference asset of the distribution
+  /// @param emissionPerSecond The value of emissions per second during the epoch
+  /// @param startTimestamp The moment the epoch starts, later than the already queued epochs
+  function queueEpoch(address asset, uint128 emissionPerSecond, uint128 startTimestamp) external;
+
+  /// @notice Cancels the epochs of a distribution that haven't started yet
+  /// @param asset The address of the reference asset of the distribution
+  function cancelEpochs(address asset) external;
+
+  /// @notice Returns the current and the next epoch of a distribution
+  /// @param asset The address of the reference asset of the distribution
+  /// @return current The current epoch (`startTimestamp` is zero if no queued epoch has started yet)
+  /// @return next The next queued epoch (zero values if nothing is queued)
+  function getAssetEpochs(address asset) external view returns (Epoch memory current, Epoch memory next);
+
+  /// @notice Returns the rewards that a distribution emits from the moment until the distribution end,
+  /// taking into account the queued epochs
+  /// @param asset The address of the reference asset of the distribution
+  /// @return The amount of reward tokens
+  function getEmissionsUntilEnd(address asset) external view returns (uint256);
+
   /// @notice Returns the data of an user on a distribution
   /// @param user The address of the user
   /// @param asset The address of the reference asset of the distribution
@@ -4,19 +4,65 @@ pragma solidity 0.8.25;
 /// @title IStakeUIHelper interface
 /// @notice The designed interface for contract to get the user's info about tokens
 interface IStakeUIHelper {
+  /// @notice The structure which describes the reward epoch for UI
+  /// @param emissionPerSecond The value of emissions per second during the epoch
+  /// @param startTimestamp The moment the epoch starts (zero for the initial emission)
+  /// @param endTimestamp The moment the epoch ends: the start of the next epoch or the distribution end
+  struct EpochUIData {
+    uint256 emissionPerSecond;
+    uint256 startTimestamp;
+    uint256 endTimestamp;
+  }
+
+  /// @notice The structure which describes the protocol-wide data for UI
+  /// @param totalStaked The total staked WETH
+  /// @param distributionEnd The value of the end distribution from staking
+  /// @param rewardsVaultBalance The reward tokens available to pull from the rewards vault (min of balance and allowance)
+  /// @param emissionsUntilEnd The rewards that all pools emit from the moment until the distribution end
+  /// @param rewardsShortfall The amount of emissions that isn't covered by the rewards vault
+  struct GlobalUIData {
+    uint256 totalStaked;
+    uint256 distributionEnd;
+    uint256 rewardsVaultBalance;
+    uint256 emissionsUntilEnd;
+    uint256 rewardsShortfall;
+  }
+
+  /// @notice The structure which describes the WETH stakers among the inputted users
+  /// @param stakers The amount of users with the staked balance
+  /// @param inCooldown The amount of stakers whose cooldown is running
+  /// @param inUnstakeWindow The amount of stakers who can redeem now
+  /// @param stakedByStakers The staked balance of the inputted users
+  struct StakersSummary {
+    uint256 stakers;
+    uint256 inCooldown;
+    uint256 inUnstakeWindow;
+    uint256 stakedByStakers;
+  }
+
   /// @notice The structure which describes general and user's data for UI
   /// @dev It is used for saving general and user's data for UI
   /// @param stakeTokenTotalSupply The total supply from staking contract
   /// @param stakeCooldownSeconds The value of cooldown seconds from staking
   /// @param stakeUnstakeWindow The value of unstake window from staking
-  /// @param stakeApy The value of the calculated APY
+  /// @param stakeApy The value of the APY: rewards' value per year against the staked value (10 000 - 100%)
   /// @param distributionPerSecond The value of the distribution per second
   /// @param distributionEnd The value of the end distribution from staking
   /// @param stakeTokenUserBalance The user's balance on the staking contract
   /// @param generalStakedAmountByUser The general staked amount by a certain user
   /// @param underlyingTokenUserBalance The user's balance on the token contract
   /// @param userCooldown The value of cooldown seconds for user
-  /// @param userIncentivesToClaim The value of user's rewards for claim
+  /// @param userIncentivesToClaim The value of user's rewards for claim from all distributions
+  /// (zero in the pools of `PoolsUIData`, which reports the rewards once)
+  /// @param underlyingToken The address of the staked token
+  /// @param stakeToken The address of the receipt token
+  /// @param stakedTokenPriceInWeth The price of the whole staked token in WETH that is used for APY
+  /// (from the price oracle registry or the router)
+  /// @param rewardTokenPriceInWeth The price of the whole reward token in WETH that is used for APY
+  /// (from the price oracle registry or the router)
+  /// @param priceAvailable The boolean value if both prices are known, otherwise the APY is zero
+  /// @param currentEpoch The current reward epoch of the pool
+  /// @param nextEpoch The next queued reward epoch of the pool (zero values if nothing is queued)
   struct AssetUIData {
     uint256 stakeTokenTotalSupply;
     uint256 stakeCooldownSeconds;
@@ -29,10 +75,45 @@ interface IStakeUIHelper {
     uint256 underlyingTokenUserBalance;
     uint256 userCooldown;
     uint256 userIncentivesToClaim;
+    address underlyingToken;
+    address stakeToken;
+    EpochUIData currentEpoch;
+    EpochUIData nextEpoch;
+    uint256 stakedTokenPriceInWeth;
+    uint256 rewardTokenPriceInWeth;
+    bool priceAvailable;
+  }
+
+  /// @notice The structure which describes user's data of every staking pool for UI
+  /// @param pools The data of every pool: WETH first, then the asset pools
+  /// @param userIncentivesToClaim The value of user's rewards for claim, accrued by all pools together
+  struct PoolsUIData {
+    AssetUIData[] pools;
+    uint256 userIncentivesToClaim;
   }
 
   /// @dev Shows all user's info about staked WETH tokens
   /// @param user The address of the user for get user's data
   /// @return The user's data about values of the staked WETH tokens
   function getUserUIData(address user) external view returns (AssetUIData memory);
+
+  /// @dev Shows the info about staked WETH tokens for every inputted user
+  /// @param users The addresses of the users for get users' data
+  /// @return The list of users' data in the same order
+  function getUsersUIData(address[] calldata users) external view returns (AssetUIData[] memory);
+
+  /// @dev Shows the protocol-wide data: total staked and the rewards vault against the emissions
+  /// @return The protocol-wide data
+  function getGlobalUIData() external view returns (GlobalUIData memory);
+
+  /// @dev Counts the WETH stakers, the stakers in cooldown and in the unstake window among the inputted users.
+  /// The users are paged off-chain, e.g. by the `Staked` events
+  /// @param users The addresses of the users
+  /// @return The summary of the inputted users
+  function getStakersSummary(address[] calldata users) external view returns (StakersSummary memory);
+
+  /// @dev Shows all user's info about every staking pool: WETH first, then the asset pools
+  /// @param user The address of the user for get user's data
+  /// @return The user's data about values of the staked tokens in every pool and the rewards to claim
+  function getPoolsUIData(address user) external view returns (PoolsUIData memory);
 }
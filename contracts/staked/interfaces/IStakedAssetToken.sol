@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.25;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
+/// @title IStakedAssetToken interface
+/// @notice The interface to the receipt token of the asset staking pool (e.g. stkBTC)
+interface IStakedAssetToken is IERC20 {
+  /// @dev The custom error is triggered when the caller isn't the staking contract
+  error OnlyStaking();
+
+  /// @notice Receives the address of the staking contract that manages the pool
+  /// @return The address of the staking contract
+  function STAKING() external view returns (address);
+
+  /// @notice Receives the address of the staked asset token
+  /// @return The address of the staked asset token
+  function UNDERLYING_ASSET() external view returns (address);
+
+  /// @notice Mints the receipt tokens while staking
+  /// @param account The address of the staker
+  /// @param amount The amount to mint
+  function mint(address account, uint256 amount) external;
+
+  /// @notice Burns the receipt tokens while redeem
+  /// @param account The address of the staker
+  /// @param amount The amount to burn
+  function burn(address account, uint256 amount) external;
+}
@@ -4,6 +4,17 @@ pragma solidity 0.8.25;
 /// @title IStaking interface
 /// @notice The interface to SC that responsible for staking CBT tokens, tokenize the position and get rewards
 interface IStaking {
+  /// @notice The structure which describes the asset staking pool
+  /// @dev The receipt token's address is used as the distribution key in the distribution manager
+  /// @param receiptToken The address of the receipt token (e.g. stkBTC)
+  /// @param cooldownSeconds The cooldown seconds of the pool
+  /// @param unstakeWindow The seconds available to redeem once the cooldown period is fulfilled
+  struct Pool {
+    address receiptToken;
+    uint256 cooldownSeconds;
+    uint256 unstakeWindow;
+  }
+
   /// @notice This event is triggered whenether an user stakes tokens
   /// @param from The address from whose balance tokens will be sent and the staking is being executed
   /// @param amount The amount to stake
@@ -14,19 +25,75 @@ interface IStaking {
   /// @param amount The reward's amount for user
   event RewardsAccrued(address indexed user, uint256 amount);
 
-  /// @notice This event is triggered whenether an user claims rewards
+  /// @notice This event is triggered whenether the rewards of an user are claimed
+  /// @param from The address of the staker whose rewards are claimed
   /// @param to The address to claim rewards to
   /// @param amount The reward's amount for claim
-  event RewardsClaimed(address indexed to, uint256 amount);
+  event RewardsClaimed(address indexed from, address indexed to, uint256 amount);
+
+  /// @notice It is generated when a staker approves or revokes the claimer of its rewards
+  /// @param user The address of the staker
+  /// @param claimer The address of the claimer
+  /// @param approved The boolean value if the claimer is approved
+  event ClaimerUpdated(address indexed user, address indexed claimer, bool approved);
 
   /// @notice It is generated when an user activates the cooldown period to redeem
   /// @param user The user's address for activate
   event Cooldown(address indexed user);
 
-  /// @notice It is generated when an owner redeems the staked tokens from the SC
+  /// @notice It is generated when a staker redeems the staked tokens after the cooldown
+  /// @param from The address of the staker whose stkWETH are burned
+  /// @param to The address whose receives the staked tokens
+  /// @param amount The redeemed amount of the staked tokens
+  event Redeem(address indexed from, address indexed to, uint256 amount);
+
+  /// @notice It is generated when an owner enables or disables the emergency mode
+  /// @param enabled The boolean value if the emergency mode is enabled
+  event EmergencyModeUpdated(bool enabled);
+
+  /// @notice It is generated when an owner withdraws the staked tokens through the emergency path
   /// @param recipient The address whose receives the amount
-  /// @param amountToRedeem The amount to redeem the tokens from the SC
-  event Redeem(address indexed recipient, uint256 amountToRedeem);
+  /// @param amount The withdrawn amount of the staked tokens
+  event EmergencyWithdraw(address indexed recipient, uint256 amount);
+
+  /// @notice It is generated when an owner adds the asset staking pool
+  /// @param asset The address of the staked asset token
+  /// @param receiptToken The address of the receipt token
+  event PoolAdded(address indexed asset, address indexed receiptToken);
+
+  /// @notice It is generated when an owner updates the cooldown config of the asset staking pool
+  /// @param asset The address of the staked asset token
+  /// @param cooldownSeconds The cooldown seconds of the pool
+  /// @param unstakeWindow The seconds available to redeem once the cooldown period is fulfilled
+  event PoolConfigUpdated(address indexed asset, uint256 cooldownSeconds, uint256 unstakeWindow);
+
+  /// @notice It is generated when an user stakes tokens to the asset staking pool
+  /// @param asset The address of the staked asset token
+  /// @param from The address of the staker
+  /// @param amount The staked amount
+  event PoolStaked(address indexed asset, address indexed from, uint256 amount);
+
+  /// @notice It is generated when an user activates the cooldown period in the asset staking pool
+  /// @param asset The address of the staked asset token
+  /// @param user The user's address for activate
+  event PoolCooldown(address indexed asset, address indexed user);
+
+  /// @notice It is generated when a staker swaps the claimed rewards to WETH and stakes it
+  /// @param user The address of the staker
+  /// @param rewards The claimed amount of the reward tokens
+  /// @param amount The staked amount of WETH
+  event RewardsRestaked(address indexed user, uint256 rewards, uint256 amount);
+
+  /// @notice It is generated when an owner sets the router of the restake
+  /// @param router The address of the router
+  event SwapRouterUpdated(address indexed router);
+
+  /// @notice It is generated when a staker redeems the staked tokens from the asset staking pool
+  /// @param asset The address of the staked asset token
+  /// @param from The address of the staker whose receipt tokens are burned
+  /// @param to The address whose receives the staked tokens
+  /// @param amount The redeemed amount
+  event PoolRedeem(address indexed asset, address indexed from, address indexed to, uint256 amount);
 
   /// @notice Stakes WETH tokens by the `msg.sender`
   /// @param amount The amount to stake
@@ -36,13 +103,88 @@ interface IStaking {
   /// It can't be called if the user is not in staking
   function cooldown() external;
 
-  /// @notice Claims an `amount` of `REWARD_TOKEN` to the address `to`
-  /// @param amount Amount to stake
-  function claimRewards(uint256 amount) external;
-  
-  /// @notice Redeems the staked tokens by an owner
+  /// @notice Claims an `amount` of `REWARD_TOKEN` to the address `to` at any time
+  /// @param to The address to send the rewards to
+  /// @param amount The amount to claim, all rewards if it is above them
+  /// @return The claimed amount
+  function claimRewards(address to, uint256 amount) external returns (uint256);
+
+  /// @notice Claims an `amount` of `REWARD_TOKEN` of the staker `from` to the address `to` by the approved claimer
+  /// @param from The address of the staker
+  /// @param to The address to send the rewards to
+  /// @param amount The amount to claim, all rewards if it is above them
+  /// @return The claimed amount
+  function claimRewardsOnBehalf(address from, address to, uint256 amount) external returns (uint256);
+
+  /// @notice Approves or revokes the claimer of the rewards of `msg.sender`
+  /// @param claimer The address of the claimer
+  /// @param approved The boolean value if the claimer is approved
+  function setClaimer(address claimer, bool approved) external;
+
+  /// @notice Redeems the staked tokens of `msg.sender` to the address `to`
+  /// It can be called only in the unstake window after the cooldown period
+  /// @param to The address to send the staked tokens to
   /// @param amount The amount to redeem
-  function redeem(uint256 amount) external;
+  function redeem(address to, uint256 amount) external;
+
+  /// @notice Claims all rewards of `msg.sender`, swaps them to WETH and stakes it
+  /// @param minWethOut The min amount of WETH to receive from the swap
+  /// @return The restaked amount of WETH
+  function claimAndRestake(uint256 minWethOut) external returns (uint256);
+
+  /// @notice Sets the router of `claimAndRestake` by an owner
+  /// @param router The address of the Uniswap V2 router
+  function setSwapRouter(address router) external;
+
+  /// @notice Enables or disables the emergency mode by an owner
+  /// @param enabled The boolean value if the emergency mode is enabled
+  function setEmergencyMode(bool enabled) external;
+
+  /// @notice Withdraws the staked tokens by an owner. Only the surplus above the stakers' principal
+  /// can be withdrawn, also in the emergency mode
+  /// @param recipient The address whose receives the amount
+  /// @param amount The amount to withdraw
+  function emergencyWithdraw(address recipient, uint256 amount) external;
+
+  /// @notice Adds the staking pool for the asset by an owner. The emission is configured
+  /// by the emission manager with the receipt token's address as the underlying asset
+  /// @param receiptToken The address of the receipt token which is managed by this contract
+  /// @param cooldownSeconds The cooldown seconds of the pool
+  /// @param unstakeWindow The seconds available to redeem once the cooldown period is fulfilled
+  function addPool(address receiptToken, uint256 cooldownSeconds, uint256 unstakeWindow) external;
+
+  /// @notice Updates the cooldown config of the asset staking pool by an owner
+  /// @param asset The address of the staked asset token
+  /// @param cooldownSeconds The cooldown seconds of the pool
+  /// @param unstakeWindow The seconds available to redeem once the cooldown period is fulfilled
+  function setPoolConfig(address asset, uint256 cooldownSeconds, uint256 unstakeWindow) external;
+
+  /// @notice Stakes the asset tokens to the pool by the `msg.sender`
+  /// @param asset The address of the staked asset token
+  /// @param amount The amount to stake
+  function stakeAsset(address asset, uint256 amount) external;
+
+  /// @notice Activates the cooldown period to unstake from the asset staking pool
+  /// @param asset The address of the staked asset token
+  function cooldownAsset(address asset) external;
+
+  /// @notice Redeems the staked asset tokens of `msg.sender` to the address `to`.
+  /// It can be called only in the unstake window of the pool after the cooldown period
+  /// @param asset The address of the staked asset token
+  /// @param to The address to send the staked tokens to
+  /// @param amount The amount to redeem
+  function redeemAsset(address asset, address to, uint256 amount) external;
+
+  /// @notice Settles the rewards and the cooldowns of both parties while the receipt token's transfer
+  /// @dev Callable only by the receipt tokens of the pools before balances are changed
+  /// @param from The address to transfer from
+  /// @param to The address to transfer to
+  /// @param amount The amount to transfer
+  function handleReceiptTransfer(address from, address to, uint256 amount) external;
+
+  /// @notice Receives the list of the staked assets that have pools
+  /// @return The list of the staked asset tokens
+  function getPoolAssets() external view returns (address[] memory);
 
   /// @dev Return the total rewards pending to claim by an staker
   /// @param staker The staker address
@@ -16,10 +16,36 @@ interface IStakingHelper {
     uint256 index;
   }
 
+  /// @notice The structure which describes the asset staking pool
+  /// @param receiptToken The address of the receipt token
+  /// @param cooldownSeconds The cooldown seconds of the pool
+  /// @param unstakeWindow The seconds available to redeem once the cooldown period is fulfilled
+  struct Pool {
+    address receiptToken;
+    uint256 cooldownSeconds;
+    uint256 unstakeWindow;
+  }
+
+  /// @notice The structure which describes the reward epoch of a distribution
+  /// @param emissionPerSecond The value of emissions per second during the epoch
+  /// @param startTimestamp The moment the epoch starts
+  struct Epoch {
+    uint128 emissionPerSecond;
+    uint128 startTimestamp;
+  }
+
   /// @notice Shows the value of the total supply in the contract
   /// @return The value of the total supply
   function totalSupply() external view returns (uint256);
 
+  /// @notice Receives the token's address for rewards (CoinBoxToken)
+  /// @return The address of the reward token
+  function REWARD_TOKEN() external view returns (address);
+
+  /// @notice Receives the address to pull from the rewards
+  /// @return The address of the rewards vault
+  function REWARDS_VAULT() external view returns (address);
+
   /// @notice Receives the general cooldown period to redeem
   /// @return The value of the available seconds to redeem
   function COOLDOWN_SECONDS() external view returns (uint256);
@@ -56,4 +82,36 @@ interface IStakingHelper {
   /// @param user The address of user for receive correct data
   /// @return The value of staked amount
   function stakedAmount(address user) external view returns (uint256);
-}
\ No newline at end of file
+
+  /// @notice Receives the list of the staked assets that have pools
+  /// @return The list of the staked asset tokens
+  function getPoolAssets() external view returns (address[] memory);
+
+  /// @notice Shows the config of the asset staking pool
+  /// @param asset The address of the staked asset token
+  /// @return The structure with pool's config
+  function pools(address asset) external view returns (Pool memory);
+
+  /// @notice Receives the staked amount by a certain user in the asset staking pool
+  /// @param asset The address of the staked asset token
+  /// @param user The address of user for receive correct data
+  /// @return The value of staked amount
+  function poolStakedAmount(address asset, address user) external view returns (uint256);
+
+  /// @notice Shows the cooldown timestamp of the user in the asset staking pool
+  /// @param asset The address of the staked asset token
+  /// @param user The address of the user
+  /// @return The value of the cooldown timestamp
+  function poolCooldowns(address asset, address user) external view returns (uint256);
+
+  /// @notice Returns the current and the next epoch of a distribution
+  /// @param asset The address of the reference asset of the distribution
+  /// @return current The current epoch
+  /// @return next The next queued epoch (zero values if nothing is queued)
+  function getAssetEpochs(address asset) external view returns (Epoch memory current, Epoch memory next);
+
+  /// @notice Returns the rewards that a distribution emits from the moment until the distribution end
+  /// @param asset The address of the reference asset of the distribution
+  /// @return The amount of reward tokens
+  function getEmissionsUntilEnd(address asset) external view returns (uint256);
+}
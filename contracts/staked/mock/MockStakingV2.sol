@@ -0,0 +1,20 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.25;
+
+import "../Staking.sol";
+
+/// @title MockStakingV2 contract
+/// @notice The next version of Staking with the appended state, is used to test the proxy upgrades
+contract MockStakingV2 is Staking {
+  /// @notice The version of the implementation
+  uint256 public constant VERSION = 2;
+
+  /// @notice The max amount staked by the user, set by the migration
+  uint256 public maxStakePerUser;
+
+  /// @notice The migration called through `upgradeAndCall`
+  /// @param maxStake The max amount staked by the user
+  function initializeV2(uint256 maxStake) external reinitializer(2) {
+    maxStakePerUser = maxStake;
+  }
+}
@@ -0,0 +1,605 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.25;
+
+import "../lib/DistributionTypes.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/token/ERC20/ERC20Upgradeable.sol";
+
+// The deployed version of Staking with its DistributionManager and interfaces, renamed with the V1 suffix
+
+/// @title IDistributionManagerV1 interface
+/// @notice The interface for the smart contract to manage multiple staking distributions
+interface IDistributionManagerV1 {
+  /// @notice The structure which describes asset data
+  /// @dev It is used for saving data about the asset config
+  /// @param emissionPerSecond The value of emissions per second
+  /// @param lastUpdateTimestamp The last moment distribution was updated
+  /// @param index The current index of the distribution
+  /// @param users The mapping that returns the index of an user on a distribution
+  struct AssetData {
+    uint128 emissionPerSecond;
+    uint128 lastUpdateTimestamp;
+    uint256 index;
+    mapping(address => uint256) users;
+  }
+
+  /// @notice It is generated when configures the distribution of rewards
+  /// @param asset The asset's address for configures
+  /// @param emission The value of the emissions per second
+  event AssetConfigUpdated(address indexed asset, uint256 emission);
+
+  /// @notice It is generated when the asset's index was updated
+  /// @param asset The asset's address for update index
+  /// @param index The updated distribution index
+  event AssetIndexUpdated(address indexed asset, uint256 index);
+
+  /// @notice It is generated when the user's index was updated
+  /// @param user The address of the user for update index
+  /// @param asset The address of the reference asset of the distribution
+  /// @param index The updated distribution index for the user
+  event UserIndexUpdated(address indexed user, address indexed asset, uint256 index);
+
+  /// @notice Configures the distribution of rewards for a list of assets
+  /// @param assetsConfigInput The list of configurations to apply
+  function configureAssets(DistributionTypes.AssetConfigInput[] calldata assetsConfigInput)
+    external;
+
+  /// @notice Returns the data of an user on a distribution
+  /// @param user The address of the user
+  /// @param asset The address of the reference asset of the distribution
+  /// @return The new index
+  function getUserAssetData(address user, address asset) external view returns (uint256);
+}
+
+/// @title IStakingV1 interface
+/// @notice The interface to SC that responsible for staking CBT tokens, tokenize the position and get rewards
+interface IStakingV1 {
+  /// @notice This event is triggered whenether an user stakes tokens
+  /// @param from The address from whose balance tokens will be sent and the staking is being executed
+  /// @param amount The amount to stake
+  event Staked(address indexed from, uint256 amount);
+
+  /// @notice It is generated when accrued rewards for an user
+  /// @param user The user's address for accrued rewards
+  /// @param amount The reward's amount for user
+  event RewardsAccrued(address indexed user, uint256 amount);
+
+  /// @notice This event is triggered whenether an user claims rewards
+  /// @param to The address to claim rewards to
+  /// @param amount The reward's amount for claim
+  event RewardsClaimed(address indexed to, uint256 amount);
+
+  /// @notice It is generated when an user activates the cooldown period to redeem
+  /// @param user The user's address for activate
+  event Cooldown(address indexed user);
+
+  /// @notice It is generated when an owner redeems the staked tokens from the SC
+  /// @param recipient The address whose receives the amount
+  /// @param amountToRedeem The amount to redeem the tokens from the SC
+  event Redeem(address indexed recipient, uint256 amountToRedeem);
+
+  /// @notice Stakes WETH tokens by the `msg.sender`
+  /// @param amount The amount to stake
+  function stake(uint256 amount) external;
+
+  /// @notice Activates the cooldown period to unstake
+  /// It can't be called if the user is not in staking
+  function cooldown() external;
+
+  /// @notice Claims an `amount` of `REWARD_TOKEN` to the address `to`
+  /// @param amount Amount to stake
+  function claimRewards(uint256 amount) external;
+  
+  /// @notice Redeems the staked tokens by an owner
+  /// @param amount The amount to redeem
+  function redeem(uint256 amount) external;
+
+  /// @dev Return the total rewards pending to claim by an staker
+  /// @param staker The staker address
+  /// @return The rewards
+  function getTotalRewardsBalance(address staker) external view returns (uint256);
+}
+
+/// @title DistributionManagerV1 smart contract
+/// @notice The accounting contract to manage multiple staking distributions
+contract DistributionManagerV1 is IDistributionManagerV1, Initializable {
+
+  /// @notice The value of precision for calculates in formulas
+  uint256 public constant PRECISION = 18;
+  
+  /// @notice The value of distribution end
+  /// @dev It is used for save the calculated distribution end
+  /// now + distribution duration
+  uint256 public DISTRIBUTION_END;
+  
+  /// @notice The address of emission manager
+  address public EMISSION_MANAGER;
+
+  /// @notice Keeps the information about the user's assets
+  /// @dev It is used for saving data about the asset config for the user
+  mapping(address => AssetData) public assets;
+
+  /// @dev The custom error is triggered when the input address of manager is zero 
+  error InvalidAddress();
+  /// @dev The custom error is triggered when the set distribution duration is zero 
+  error InvalidDuration();
+
+  /// @notice Initialize function: sets emission manager and distribution end.
+  /// Called by the proxy contract
+  /// @param emissionManager The address of emission manager
+  /// @param distributionDuration The value of distribution duration for calculate end
+  function __DistributionManager_init(address emissionManager, uint256 distributionDuration)
+    public
+    initializer
+  {
+    if(emissionManager == address(0)) revert InvalidAddress();
+    if(distributionDuration == 0) revert InvalidDuration();
+    
+    DISTRIBUTION_END = block.timestamp + distributionDuration;
+    EMISSION_MANAGER = emissionManager;
+  }
+
+  /// @notice Configures the distribution of rewards for a list of assets
+  /// @param assetsConfigInput The list of configurations to apply
+  function configureAssets(DistributionTypes.AssetConfigInput[] calldata assetsConfigInput)
+    external
+    override
+  {
+    require(msg.sender == EMISSION_MANAGER, "ONLY_EMISSION_MANAGER");
+
+    for (uint256 i; i < assetsConfigInput.length;) {
+      AssetData storage assetConfig = assets[assetsConfigInput[i].underlyingAsset];
+
+      _updateAssetStateInternal(
+        assetsConfigInput[i].underlyingAsset,
+        assetConfig,
+        assetsConfigInput[i].totalStaked
+      );
+
+      assetConfig.emissionPerSecond = assetsConfigInput[i].emissionPerSecond;
+
+      emit AssetConfigUpdated(
+        assetsConfigInput[i].underlyingAsset,
+        assetsConfigInput[i].emissionPerSecond
+      );
+
+      i++;
+    }
+  }
+
+  /// @notice Returns the data of an user on a distribution
+  /// @param user The address of the user
+  /// @param asset The address of the reference asset of the distribution
+  /// @return The new index
+  function getUserAssetData(address user, address asset) external view override returns (uint256) {
+    return assets[asset].users[user];
+  }
+
+  /// @dev Updates the state of one distribution, mainly rewards index and timestamp
+  /// @param underlyingAsset The address used as key in the distribution
+  /// @param assetConfig The storage pointer to the distribution's config
+  /// @param totalStaked The current total of staked assets for this distribution
+  /// @return The new distribution index
+  function _updateAssetStateInternal(
+    address underlyingAsset,
+    AssetData storage assetConfig,
+    uint256 totalStaked
+  ) internal returns (uint256) {
+    uint256 oldIndex = assetConfig.index;
+    uint128 lastUpdateTimestamp = assetConfig.lastUpdateTimestamp;
+
+    if (block.timestamp == lastUpdateTimestamp) {
+      return oldIndex;
+    }
+
+    uint256 newIndex =
+      _getAssetIndex(oldIndex, assetConfig.emissionPerSecond, lastUpdateTimestamp, totalStaked);
+
+    if (newIndex != oldIndex) {
+      assetConfig.index = newIndex;
+      emit AssetIndexUpdated(underlyingAsset, newIndex);
+    }
+
+    assetConfig.lastUpdateTimestamp = uint128(block.timestamp);
+
+    return newIndex;
+  }
+
+  /// @dev Updates the state of an user in a distribution
+  /// @param user The user's address
+  /// @param asset The address of the reference asset of the distribution
+  /// @param stakedByUser The amount of tokens staked by the user in the distribution at the moment
+  /// @param totalStaked The total tokens staked in the distribution
+  /// @return The accrued rewards for the user until the moment
+  function _updateUserAssetInternal(
+    address user,
+    address asset,
+    uint256 stakedByUser,
+    uint256 totalStaked
+  ) internal returns (uint256) {
+    AssetData storage assetData = assets[asset];
+    uint256 userIndex = assetData.users[user];
+    uint256 accruedRewards;
+
+    uint256 newIndex = _updateAssetStateInternal(asset, assetData, totalStaked);
+
+    if (userIndex != newIndex) {
+      if (stakedByUser != 0) {
+        accruedRewards = _getRewards(stakedByUser, newIndex, userIndex);
+      }
+
+      assetData.users[user] = newIndex;
+      emit UserIndexUpdated(user, asset, newIndex);
+    }
+
+    return accruedRewards;
+  }
+
+  /// @dev Used by "frontend" stake contracts to update the data of an user when claiming rewards from there
+  /// @param user The address of the user
+  /// @param stakes The list of structs of the user data related with his stake
+  /// @return The accrued rewards for the user until the moment
+  function _claimRewards(address user, DistributionTypes.UserStakeInput[] memory stakes)
+    internal
+    returns (uint256)
+  {
+    uint256 accruedRewards;
+
+    for (uint256 i; i < stakes.length;) {
+      accruedRewards = accruedRewards + (
+        _updateUserAssetInternal(
+          user,
+          stakes[i].underlyingAsset,
+          stakes[i].stakedByUser,
+          stakes[i].totalStaked
+        )
+      );
+      i++;
+    }
+
+    return accruedRewards;
+  }
+
+  /// @dev Returns the accrued rewards for an user over a list of distribution
+  /// @param user The address of the user
+  /// @param stakes The list of structs of the user data related with his stake
+  /// @return The accrued rewards for the user until the moment
+  function _getUnclaimedRewards(address user, DistributionTypes.UserStakeInput[] memory stakes)
+    internal
+    view
+    returns (uint256)
+  {
+    uint256 accruedRewards;
+
+    for (uint256 i; i < stakes.length;) {
+      AssetData storage assetConfig = assets[stakes[i].underlyingAsset];
+      uint256 assetIndex =
+        _getAssetIndex(
+          assetConfig.index,
+          assetConfig.emissionPerSecond,
+          assetConfig.lastUpdateTimestamp,
+          stakes[i].totalStaked
+        );
+
+      accruedRewards = accruedRewards + (
+        _getRewards(stakes[i].stakedByUser, assetIndex, assetConfig.users[user])
+      );
+
+      i++;
+    }
+    return accruedRewards;
+  }
+
+  /// @dev Calculates the next value of an specific distribution index with validations
+  /// @param currentIndex The current index of the distribution
+  /// @param emissionPerSecond The total rewards distributed per second per asset unit on the distribution
+  /// @param lastUpdateTimestamp The last moment this distribution was updated
+  /// @param totalBalance The tokens considered for the distribution
+  /// @return The new index
+  function _getAssetIndex(
+    uint256 currentIndex,
+    uint256 emissionPerSecond,
+    uint128 lastUpdateTimestamp,
+    uint256 totalBalance
+  ) internal view returns (uint256) {
+    if (
+      emissionPerSecond == 0 ||
+      totalBalance == 0 ||
+      lastUpdateTimestamp == block.timestamp ||
+      lastUpdateTimestamp >= DISTRIBUTION_END
+    ) {
+      return currentIndex;
+    }
+
+    uint256 currentTimestamp =
+      block.timestamp > DISTRIBUTION_END ? DISTRIBUTION_END : block.timestamp;
+    uint256 timeDelta = currentTimestamp - lastUpdateTimestamp;
+    return (emissionPerSecond * timeDelta * 10**PRECISION / totalBalance) + currentIndex;
+  }
+
+  /// @dev Internal function for calculation of the user's rewards on a distribution
+  /// @param principalUserBalance The amount staked by the user on a distribution
+  /// @param reserveIndex The current index of the distribution
+  /// @param userIndex The index stored for the user, representation his staking moment
+  /// @return The rewards
+  function _getRewards(
+    uint256 principalUserBalance,
+    uint256 reserveIndex,
+    uint256 userIndex
+  ) internal pure returns (uint256) {
+    return principalUserBalance * (reserveIndex - userIndex) / 10**PRECISION;
+  }
+}
+
+/// @title StakingV1 contract
+/// @notice The deployed version of Staking, kept unchanged to test the upgrades of the deployed proxy
+/// and as the reference of its storage layout
+contract StakingV1 is IStakingV1, DistributionManagerV1, ERC20Upgradeable, OwnableUpgradeable {
+  using SafeERC20 for IERC20;
+
+  /// @dev The name of the staking contract
+  string internal constant NAME = 'Donate staking';
+  /// @dev The symbol of the staking contract
+  string internal constant SYMBOL = 'stkWETH';
+
+  /// @notice The token's address for stakes (WETH)
+  address public STAKED_TOKEN;
+  /// @notice The token's address for rewards (CoinBoxToken)
+  address public REWARD_TOKEN;
+  /// @notice The address to pull from the rewards
+  /// @dev Needs to have approved this contract
+  address public REWARDS_VAULT;
+  /// @notice The general value of cooldown seconds for staking
+  uint256 public COOLDOWN_SECONDS;
+  /// @notice The seconds available to redeem once the cooldown period is fulfilled
+  uint256 public UNSTAKE_WINDOW;
+
+  /// @notice Keeps the information about available rewards for the user
+  /// @dev It is used for saving data about user's rewards
+  mapping(address => uint256) public stakerRewardsToClaim;
+  /// @notice Keeps the data re staked amount by the certain user
+  /// @dev This information uses for illustrate the role of user in staking
+  mapping(address => uint256) public stakedAmount;
+  /// @notice Keeps the information about available cooldown seconds for an user
+  /// @dev It is used for saving data about user's cooldown seconds
+  mapping(address => uint256) public stakersCooldowns;
+
+  /// @dev The custom error is triggered when the amount is zero 
+  error InvalidAmount();
+
+  /// @dev Initialize function: sets config's data for the staking contract.
+  /// Called by the proxy contract
+  /// @param stakedToken The token's address for stakes (WETH)
+  /// @param rewardToken The token's address for rewards (CoinBoxToken)
+  /// @param cooldownSeconds The value of cooldown seconds for staking
+  /// @param unstakeWindow The value of unstake window for staking
+  /// @param rewardsVault The vault's address from which reward tokens will be sent
+  /// @param emissionManager The address of emission manager
+  /// @param distributionDuration The value of distribution duration for calculate end
+  function initialize(
+    address stakedToken,
+    address rewardToken,
+    uint256 cooldownSeconds,
+    uint256 unstakeWindow,
+    address rewardsVault,
+    address emissionManager,
+    uint128 distributionDuration
+  ) external initializer {
+    if(
+        stakedToken == address(0) || 
+        rewardToken == address(0) || 
+        rewardsVault == address(0)
+    ) revert InvalidAddress();
+    if(cooldownSeconds == 0 || unstakeWindow == 0) 
+        revert InvalidAmount();
+
+    __ERC20_init(NAME, SYMBOL);
+    __Ownable_init(msg.sender);
+    __DistributionManager_init(emissionManager, distributionDuration);
+
+    STAKED_TOKEN = stakedToken;
+    REWARD_TOKEN = rewardToken;
+    COOLDOWN_SECONDS = cooldownSeconds;
+    UNSTAKE_WINDOW = unstakeWindow;
+    REWARDS_VAULT = rewardsVault;
+  }
+
+  /// @notice Stakes WETH tokens by the `msg.sender`
+  /// @param amount The amount to stake
+  function stake(uint256 amount) external override {
+    if(amount == 0) revert InvalidAmount();
+    uint256 balanceOfUser = balanceOf(msg.sender);
+
+    uint256 accruedRewards =
+      _updateUserAssetInternal(msg.sender, address(this), balanceOfUser, totalSupply());
+    if (accruedRewards != 0) {
+      emit RewardsAccrued(msg.sender, accruedRewards);
+      stakerRewardsToClaim[msg.sender] += accruedRewards;
+    }
+
+    stakersCooldowns[msg.sender] = getNextCooldownTimestamp(0, amount, msg.sender, balanceOfUser);
+
+    _mint(msg.sender, amount);
+    IERC20(STAKED_TOKEN).safeTransferFrom(msg.sender, address(this), amount);
+    stakedAmount[msg.sender] += amount;
+
+    emit Staked(msg.sender, amount);
+  }
+
+  /// @notice Activates the cooldown period to unstake.
+  /// It can't be called if the user is not staking
+  function cooldown() external override {
+    require(balanceOf(msg.sender) != 0, "INVALID_BALANCE_ON_COOLDOWN");
+    //solium-disable-next-line
+    stakersCooldowns[msg.sender] = block.timestamp;
+
+    emit Cooldown(msg.sender);
+  }
+
+  /// @dev Claims an `amount` of `REWARD_TOKEN`
+  /// @param amount The amount to claim
+  function claimRewards(uint256 amount) external override {
+    if(amount == 0) revert InvalidAmount();
+
+    uint256 cooldownStartTimestamp = stakersCooldowns[msg.sender];
+
+    require(
+      block.timestamp > cooldownStartTimestamp + COOLDOWN_SECONDS,
+      'INSUFFICIENT_COOLDOWN'
+    );
+    require(
+      block.timestamp - cooldownStartTimestamp + COOLDOWN_SECONDS <= UNSTAKE_WINDOW,
+      'UNSTAKE_WINDOW_FINISHED'
+    );
+    
+    uint256 newTotalRewards =
+      _updateCurrentUnclaimedRewards(msg.sender, balanceOf(msg.sender), true);
+    uint256 amountToClaim = (amount > newTotalRewards) ? newTotalRewards : amount;
+    
+    stakerRewardsToClaim[msg.sender] = newTotalRewards - amountToClaim;
+
+    IERC20(REWARD_TOKEN).safeTransferFrom(REWARDS_VAULT, msg.sender, amountToClaim);
+
+    if (stakerRewardsToClaim[msg.sender] == 0) {
+      stakersCooldowns[msg.sender] = 0;
+    }
+
+    emit RewardsClaimed(msg.sender, amountToClaim);
+  }
+
+  /// @notice Redeems the staked tokens by an owner
+  /// @param amount The amount to redeem
+  function redeem(uint256 amount) external override onlyOwner {
+    if(amount == 0) revert InvalidAmount();
+
+    uint256 balanceOfStaking = IERC20(STAKED_TOKEN).balanceOf(address(this));
+    uint256 amountToRedeem = (amount > balanceOfStaking) ? balanceOfStaking : amount;
+
+    IERC20(STAKED_TOKEN).safeTransfer(msg.sender, amountToRedeem);
+
+    emit Redeem(msg.sender, amountToRedeem);
+  }
+
+  /// @notice Returns the total rewards pending to claim by an staker
+  /// @param staker The staker address
+  /// @return The rewards
+  function getTotalRewardsBalance(address staker) external view override returns (uint256) {
+    DistributionTypes.UserStakeInput[] memory userStakeInputs =
+      new DistributionTypes.UserStakeInput[](1);
+    
+    userStakeInputs[0] = DistributionTypes.UserStakeInput({
+      underlyingAsset: address(this),
+      stakedByUser: balanceOf(staker),
+      totalStaked: totalSupply()
+    });
+    
+    return stakerRewardsToClaim[staker] + _getUnclaimedRewards(staker, userStakeInputs);
+  }
+
+  /// @dev Calculates the how is gonna be a new cooldown timestamp depending on the sender/receiver situation
+  ///  - If the timestamp of the sender is "better" or the timestamp of the recipient is 0, we take the one of the recipient
+  ///  - Weighted average of from/to cooldown timestamps if:
+  ///    # The sender doesn't have the cooldown activated (timestamp 0).
+  ///    # The sender timestamp is expired
+  ///    # The sender has a "worse" timestamp
+  ///  - If the receiver's cooldown timestamp expired (too old), the next is 0
+  /// @param fromCooldownTimestamp The cooldown timestamp of the sender
+  /// @param amountToReceive The amount
+  /// @param toAddress The address of the recipient
+  /// @param toBalance The current balance of the receiver
+  /// @return The new cooldown timestamp
+  function getNextCooldownTimestamp(
+    uint256 fromCooldownTimestamp,
+    uint256 amountToReceive,
+    address toAddress,
+    uint256 toBalance
+  ) public view returns (uint256) {
+    uint256 toCooldownTimestamp = stakersCooldowns[toAddress];
+    if (toCooldownTimestamp == 0) return 0;
+
+    uint256 minimalValidCooldownTimestamp =
+      block.timestamp - COOLDOWN_SECONDS - UNSTAKE_WINDOW;
+
+    if (minimalValidCooldownTimestamp > toCooldownTimestamp) {
+      toCooldownTimestamp = 0;
+    } else {
+      fromCooldownTimestamp =
+        (minimalValidCooldownTimestamp > fromCooldownTimestamp)
+          ? block.timestamp
+          : fromCooldownTimestamp;
+
+      if (fromCooldownTimestamp < toCooldownTimestamp) {
+        return toCooldownTimestamp;
+      } else {
+        toCooldownTimestamp = (
+          amountToReceive * fromCooldownTimestamp + (toBalance * toCooldownTimestamp)
+        ) / (amountToReceive + toBalance);
+      }
+    }
+
+    return toCooldownTimestamp;
+  }
+
+  /// @dev Internal ERC20 _transfer of the tokenized staked tokens
+  /// @param from The address to transfer from
+  /// @param to The address to transfer to
+  /// @param amount The amount to transfer
+  function _transfer(
+    address from,
+    address to,
+    uint256 amount
+  ) internal override {
+    if(from == address(0) || to == address(0)) revert InvalidAddress();
+    if(amount == 0) revert InvalidAmount();
+    
+    uint256 balanceOfFrom = balanceOf(from);
+    // Sender
+    _updateCurrentUnclaimedRewards(from, balanceOfFrom, true);
+
+    // Recipient
+    if (from != to) {
+      uint256 balanceOfTo = balanceOf(to);
+      _updateCurrentUnclaimedRewards(to, balanceOfTo, true);
+
+      uint256 previousSenderCooldown = stakersCooldowns[from];
+      stakersCooldowns[to] = getNextCooldownTimestamp(
+        previousSenderCooldown,
+        amount,
+        to,
+        balanceOfTo
+      );
+      // if cooldown was set and whole balance of sender was transferred - clear cooldown
+      if (balanceOfFrom == amount && previousSenderCooldown != 0) {
+        stakersCooldowns[from] = 0;
+      }
+    }
+
+    super._transfer(from, to, amount);
+  }
+
+  /// @dev Updates the user's state related with his accrued rewards
+  /// @param user The address of the user
+  /// @param userBalance The current balance of the user
+  /// @param updateStorage Boolean flag used to update or not the `stakerRewardsToClaim` of the user
+  /// @return The unclaimed rewards that were added to the total accrued
+  function _updateCurrentUnclaimedRewards(
+    address user,
+    uint256 userBalance,
+    bool updateStorage
+  ) internal returns (uint256) {
+    uint256 accruedRewards =
+      _updateUserAssetInternal(user, address(this), userBalance, totalSupply());
+    uint256 unclaimedRewards = stakerRewardsToClaim[user] + accruedRewards;
+
+    if (accruedRewards != 0) {
+      if (updateStorage) {
+        stakerRewardsToClaim[user] = unclaimedRewards;
+      }
+      emit RewardsAccrued(user, accruedRewards);
+    }
+
+    return unclaimedRewards;
+  }
+}
@@ -1,14 +1,22 @@
 // SPDX-License-Identifier: MIT
 pragma solidity 0.8.25;
 
-import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/access/Ownable2StepUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/token/ERC20/ERC20Upgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/token/ERC20/extensions/ERC20PermitUpgradeable.sol";
+import "@openzeppelin/contracts/utils/Address.sol";
+import "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
 import "./interfaces/IUniswapV2Factory.sol";
+import "./interfaces/IUniswapV2Pair.sol";
 import "./interfaces/IUniswapV2Router02.sol";
+import "../oracle/lib/UniswapV2OracleLibrary.sol";
 
 /// @title The smart contract CoinBoxToken that describes the personal reflection token
 ///         based on the ERC-20 standard
-contract CoinBoxToken is ERC20Upgradeable, OwnableUpgradeable {
+/// @notice The ownership is transferred in two steps. The changes of the fee, the router, the max tx amount
+///         and the exclusion lists are queued by the owner and executed after the timelock delay.
+///         Supports EIP-2612 `permit` and the transfers signed by the holder and submitted by a relayer
+contract CoinBoxToken is ERC20Upgradeable, ERC20PermitUpgradeable, Ownable2StepUpgradeable {
 
     /// @notice The structure keeps the values of the fee. The fee are used while operations
     /// @param _liquidityFee The liquidity value of fee
@@ -18,11 +26,75 @@ contract CoinBoxToken is ERC20Upgradeable, OwnableUpgradeable {
         uint256 _taxFee;
     }
 
+    /// @notice The structure keeps the fee schedule applied to the transfer
+    /// @param _liquidityFee The liquidity value of fee
+    /// @param _taxFee The tax value of fee
+    /// @param _charityFee The charity value of fee that is sent to the charity wallet
+    struct FeeSchedule {
+        uint256 _liquidityFee;
+        uint256 _taxFee;
+        uint256 _charityFee;
+    }
+
+    /// @dev The structure keeps the calculated Transfer and Reflection values of the transfer
+    /// @param rAmount The value of reflection tokens
+    /// @param rTransferAmount The value of reflection transfer amount
+    /// @param rFee The value of reflection fees
+    /// @param tTransferAmount The value of transfer amount
+    /// @param tFee The value of transfer fees
+    /// @param tLiquidity The value of transfer liquidity
+    /// @param tCharity The value of transfer charity
+    struct TransferValues {
+        uint256 rAmount;
+        uint256 rTransferAmount;
+        uint256 rFee;
+        uint256 tTransferAmount;
+        uint256 tFee;
+        uint256 tLiquidity;
+        uint256 tCharity;
+    }
+
+    /// @notice The structure keeps the preview of the transfer
+    /// @param tax The value of the tax fee reflected to the holders
+    /// @param liquidity The value of the liquidity fee sent to the contract
+    /// @param charity The value of the charity fee sent to the charity wallet
+    /// @param received The value that the recipient receives
+    /// @param fees The fee schedule applied to the transfer (zero if the fee isn't taken)
+    /// @param isSwap The boolean value if the swap fee is applied (the pair is the sender or the recipient)
+    /// @param takeFee The boolean value if the fee is taken (neither account is excluded from fee)
+    struct TransferPreview {
+        uint256 tax;
+        uint256 liquidity;
+        uint256 charity;
+        uint256 received;
+        FeeSchedule fees;
+        bool isSwap;
+        bool takeFee;
+    }
+
     /// @dev The max possible value that can be saved in the `uint256` type
     uint256 private constant _MAX = type(uint256).max;
     /// @dev The total possible value of tokens: 600m
     uint256 private constant _T_Total = 600 * 10**6 * 10**18;
 
+    /// @notice The typehash of the transfer signed by the holder (shares the nonces with `permit`)
+    bytes32 public constant TRANSFER_TYPEHASH = keccak256(
+        "Transfer(address from,address to,uint256 amount,uint256 nonce,uint256 deadline)"
+    );
+
+    /// @notice The min value of the timelock delay
+    uint256 public constant MIN_TIMELOCK_DELAY = 1 days;
+    /// @notice The max value of the timelock delay
+    uint256 public constant MAX_TIMELOCK_DELAY = 30 days;
+    /// @notice The period after the timelock delay while the queued change can be executed
+    uint256 public constant GRACE_PERIOD = 14 days;
+    /// @notice The min period of the time-weighted average price that is used as the reference price of liquify
+    uint256 public constant TWAP_PERIOD = 30 minutes;
+    /// @notice The max value of the slippage: 50%
+    uint256 public constant MAX_SLIPPAGE = 5_000;
+    /// @dev The value of the precision of the slippage: 10 000 - 100%
+    uint256 private constant _SLIPPAGE_PRECISION = 10_000;
+
     /// @notice The router address of uniswap V2
     IUniswapV2Router02 public uniswapV2Router;
     /// @notice The pair address: WETH & CoinBoxToken
@@ -54,9 +126,11 @@ contract CoinBoxToken is ERC20Upgradeable, OwnableUpgradeable {
     /// @dev The variable keeps total amount of the token's fee collected through transfers
     uint256 private _tFeeTotal;
 
-    /// @dev The saved address of previous token's owner
+    /// @dev Deprecated: the saved address of previous token's owner of the removed `lock` function.
+    /// Is cleared by `initializeV2`
     address private _previousOwner;
-    /// @dev The value of time for locking SC
+    /// @dev Deprecated: the value of time for locking SC of the removed `lock` function.
+    /// Is cleared by `initializeV2`
     uint256 private _lockTime;
 
     /// @dev The excluded accounts from the rewards
@@ -73,6 +147,53 @@ contract CoinBoxToken is ERC20Upgradeable, OwnableUpgradeable {
     /// @dev The mapping with the addresses which are excluded from rewards
     mapping(address => bool) private _isExcluded;
 
+    /// @dev The charity fee of the swaps. The charity fees are kept apart from `FeeValues`,
+    /// whose size is fixed by the deployed layout
+    uint256 private _swapCharityFee;
+    /// @dev The charity fee of the transfers
+    uint256 private _transferCharityFee;
+    /// @dev The previous value of the swap charity fee while the fee is removed
+    uint256 private _previousSwapCharityFee;
+    /// @dev The previous value of the transfer charity fee while the fee is removed
+    uint256 private _previousTransferCharityFee;
+
+    /// @notice The donation wallet or campaign contract that receives the charity fee.
+    /// The wallet is always excluded from rewards
+    address public charityWallet;
+    /// @dev The variable keeps total amount of the tokens sent to the charity wallets
+    uint256 private _tCharityTotal;
+
+    /// @notice The delay between queueing and executing the change
+    uint256 public timelockDelay;
+    /// @notice The timestamps since the queued changes can be executed: keccak256 of the change's call data => eta
+    mapping(bytes32 => uint256) public queuedChanges;
+
+    /// @notice The max slippage of the swap and the liquidity against the reference price (10 000 - 100%)
+    uint256 public maxSlippage;
+    /// @notice The address that receives the LP tokens of liquify (e.g. a lock contract)
+    address public liquidityRecipient;
+    /// @notice The time-weighted average price of the token in WETH (UQ112x112). Zero until the first period
+    uint256 public twapPrice;
+    /// @dev The cumulative price of the token in WETH at the last TWAP update
+    uint256 private _priceCumulativeLast;
+    /// @dev The timestamp of the last TWAP update
+    uint256 private _twapTimestampLast;
+
+    /// @dev The sum of the reflection balances of the excluded accounts
+    uint256 private _rExcludedTotal;
+    /// @dev The sum of the token balances of the excluded accounts
+    uint256 private _tExcludedTotal;
+    /// @dev The position of the excluded account in `_excluded` plus one (zero if the account isn't excluded)
+    mapping(address => uint256) private _excludedIndex;
+    /// @dev The tokens received by the account minus the tokens sent or burnt, without the reflections
+    mapping(address => uint256) private _principal;
+    /// @dev Whether the principal of the account is tracked. The holders of the upgraded proxy are tracked
+    /// since their first transfer after the upgrade, with the balance they held before it
+    mapping(address => bool) private _principalTracked;
+    /// @dev Reserved storage slots, the future versions declare the new variables by taking them from the gap.
+    /// The contract's own state is 100 slots in total
+    uint256[59] private __gap;
+
     /// @dev The event is triggered whenever an owner sets threshold value
     /// @param threshold The value of threshold for approve to swap
     event Threshold(uint256 threshold);
@@ -88,6 +209,23 @@ contract CoinBoxToken is ERC20Upgradeable, OwnableUpgradeable {
         uint256 ethReceived,
         uint256 tokensIntoLiquidity
     );
+    /// @dev The event is triggered whenever the swap of liquify fails. Liquify is skipped, the transfer goes on
+    /// @param tokensToSwap The value of tokens that should be swapped
+    /// @param minEthOut The min amount of ETH derived from the reference price and the max slippage
+    event SwapAndLiquifyFailed(uint256 tokensToSwap, uint256 minEthOut);
+    /// @dev The event is triggered whenever adding the liquidity of liquify fails. ETH stays on the contract
+    /// @param tokenAmount The amount of tokens that should be added
+    /// @param ethAmount The amount of ETH that should be added
+    event AddLiquidityFailed(uint256 tokenAmount, uint256 ethAmount);
+    /// @dev The event is triggered whenever the time-weighted average price is updated
+    /// @param twapPrice The new time-weighted average price of the token in WETH (UQ112x112)
+    event TwapUpdated(uint256 twapPrice);
+    /// @dev The event is triggered whenever the max slippage is set
+    /// @param maxSlippage The new value of the max slippage
+    event MaxSlippage(uint256 maxSlippage);
+    /// @dev The event is triggered whenever the LP recipient is set
+    /// @param recipient The new address of the LP recipient
+    event LiquidityRecipient(address indexed recipient);
     /// @dev The event is triggered whenever an account want to burn the reflection tokens
     /// @param sender The address of account who call function to burn tokens
     /// @param rAmount The leftovers of reflection tokens on the account's balance after burning
@@ -140,6 +278,39 @@ contract CoinBoxToken is ERC20Upgradeable, OwnableUpgradeable {
     /// @param liquidityFee The set new value of liquidity fee
     /// @param taxFee The set new value of tax fee
     event SwapFeePercents(uint256 liquidityFee, uint256 taxFee);
+    /// @dev The event is triggered whenever the owner sets swap and transfer charity fee percent
+    /// @param swapCharityFee The set new value of swap charity fee
+    /// @param transferCharityFee The set new value of transfer charity fee
+    event CharityFeePercents(uint256 swapCharityFee, uint256 transferCharityFee);
+    /// @dev The event is triggered whenever the owner sets the charity wallet
+    /// @param charityWallet The address of the new charity wallet
+    event CharityWalletUpdated(address indexed charityWallet);
+    /// @dev The event is triggered whenever the charity fee is taken while transfer operation
+    /// @param sender The address of token's sender who paid the fee
+    /// @param charityWallet The address of the charity wallet
+    /// @param tCharity The amount of tokens sent to the charity wallet
+    /// @param tCharityTotal The total amount of tokens sent to the charity wallets
+    event TakeCharity(
+        address indexed sender,
+        address indexed charityWallet,
+        uint256 tCharity,
+        uint256 tCharityTotal
+    );
+    /// @dev The event is triggered whenever the owner queues the change
+    /// @param id The identifier of the change: keccak256 of the call data
+    /// @param data The call data of the timelocked function
+    /// @param eta The timestamp since the change can be executed
+    event ChangeQueued(bytes32 indexed id, bytes data, uint256 eta);
+    /// @dev The event is triggered whenever the owner cancels the queued change
+    /// @param id The identifier of the change
+    event ChangeCancelled(bytes32 indexed id);
+    /// @dev The event is triggered whenever the owner executes the queued change
+    /// @param id The identifier of the change
+    /// @param data The call data of the executed function
+    event ChangeExecuted(bytes32 indexed id, bytes data);
+    /// @dev The event is triggered whenever the timelock delay is set
+    /// @param delay The set new value of the timelock delay
+    event TimelockDelay(uint256 delay);
     /// @dev The event is triggered whenever the owner sets max tx percent
     /// @param maxTxAmount The value of max tx percent (<= 100)
     event MaxTxPercent(uint256 maxTxAmount);
@@ -203,6 +374,17 @@ contract CoinBoxToken is ERC20Upgradeable, OwnableUpgradeable {
         uint256 rOwnedSender,
         uint256 rOwnedRecipient
     );
+    /// @dev The event is triggered whenever a relayer submits the transfer signed by the holder
+    /// @param from The address of token's sender who signed the transfer
+    /// @param to The address of token's recipient
+    /// @param amount The amount of tokens before fee
+    /// @param relayer The address of account that submitted the transfer
+    event RelayedTransfer(
+        address indexed from,
+        address indexed to,
+        uint256 amount,
+        address indexed relayer
+    );
     /// @dev The event is triggered whenever an owner want to withdraw the leftovers of native currency
     /// @param recipient The owner's address for receiving ETH
     /// @param amount The amount of leftovers ETH that was withdrawn
@@ -243,10 +425,26 @@ contract CoinBoxToken is ERC20Upgradeable, OwnableUpgradeable {
     error InvalidToken();
     /// @dev The custom error is triggered when the expected amount exceeds the current balance's state
     error InsufficientBalance();
-    /// @dev The custom error is triggered when an account has not access to unlock the SC
-    error InvalidPermission();
-    /// @dev The custom error is triggered when the locking period is not expired yet
+    /// @dev The custom error is triggered when the timelock delay of the change is not expired yet
     error LockedContract();
+    /// @dev The custom error is triggered when the timelocked function is called not through `executeChange`
+    error OnlyTimelock();
+    /// @dev The custom error is triggered when the queued call data isn't a timelocked function
+    error InvalidChange();
+    /// @dev The custom error is triggered when the same change is already queued
+    error QueuedChange();
+    /// @dev The custom error is triggered when the change isn't queued
+    error UnknownChange();
+    /// @dev The custom error is triggered when the grace period of the queued change is expired
+    error ExpiredChange();
+    /// @dev The custom error is triggered when the signature of the transfer isn't valid
+    error InvalidSignature();
+    /// @dev The custom error is triggered when the signature of the transfer is expired
+    /// @param deadline The deadline of the signature
+    error ExpiredSignature(uint256 deadline);
+    /// @dev The custom error is triggered when the account can not be the charity wallet
+    /// or the charity wallet is going to be included in rewards
+    error InvalidCharityWallet();
 
     /// @dev The modifier is appointmented for correct execution swap and liquify operation
     modifier lockTheSwap() {
@@ -255,6 +453,12 @@ contract CoinBoxToken is ERC20Upgradeable, OwnableUpgradeable {
         _inSwapAndLiquify = false;
     }
 
+    /// @dev The modifier is appointmented for the functions that are executed only through the timelock
+    modifier onlyTimelock() {
+        if (_msgSender() != address(this)) revert OnlyTimelock();
+        _;
+    }
+
     /// @dev The modifier is appointmented for сhecking the input address for a zero value
     /// @param account The address of account for checking
     modifier checkZeroAddress(address account) {
@@ -273,7 +477,8 @@ contract CoinBoxToken is ERC20Upgradeable, OwnableUpgradeable {
     /// @dev Sets the address of router, creates an uniswap pair
     /// and excludes from fee an owner and CoinBoxToken contract addresses.
     /// Sets default Buy/Sell and any router interactions fee as _liquidityFee = 5%, _taxFee = 0%
-    /// Sets default Transfer fee as _liquidityFee = 2%, _taxfee = 0%
+    /// Sets default Transfer fee as _liquidityFee = 2%, _taxfee = 0%.
+    /// Sets the timelock delay as `MIN_TIMELOCK_DELAY`, the max slippage as 5% and the owner as the LP recipient
     /// @param _router The address of router for initialize
     /// @param _owner The address of owner. This address will receive all tokens and ownership
     function initialize(address _router, address _owner)
@@ -295,9 +500,16 @@ contract CoinBoxToken is ERC20Upgradeable, OwnableUpgradeable {
         
         _rTotal = _MAX - (_MAX % _T_Total);
         _rOwned[_owner] = _rTotal;
+        _principal[_owner] = _T_Total;
+        _principalTracked[_owner] = true;
+        _setTimelockDelay(MIN_TIMELOCK_DELAY);
+        _setMaxSlippage(500);
+        _setLiquidityRecipient(_owner);
         
         __ERC20_init("CoinBox Token", "CBT");
+        __ERC20Permit_init("CoinBox Token");
         __Ownable_init(_owner);
+        __Ownable2Step_init();
         
         IUniswapV2Router02 _uniswapV2Router = IUniswapV2Router02(_router);
         uniswapV2Pair = IUniswapV2Factory(_uniswapV2Router.factory())
@@ -310,6 +522,120 @@ contract CoinBoxToken is ERC20Upgradeable, OwnableUpgradeable {
         emit Transfer(address(0), _owner, _T_Total);
     }
 
+    /// @notice Migrates the contract from the removed `lock`/`unlock` to the timelocked administration
+    /// @dev Should be called with the upgrade (`upgradeAndCall`). Returns the ownership of the locked contract
+    /// to the previous owner: the fee, router and exclusion setters are timelocked now anyway.
+    /// Sets `MIN_TIMELOCK_DELAY`, the max slippage and the LP recipient if they aren't set yet,
+    /// the EIP-712 domain of `permit` and the totals of the excluded accounts. The principals of the existing
+    /// holders are seeded with their balances on their first transfer
+    function initializeV2() external reinitializer(2) {
+        uint256 rExcludedTotal;
+        uint256 tExcludedTotal;
+        for (uint256 i; i < _excluded.length;) {
+            address account = _excluded[i];
+            _excludedIndex[account] = i + 1;
+            rExcludedTotal += _rOwned[account];
+            tExcludedTotal += _tOwned[account];
+            unchecked {
+                i++;
+            }
+        }
+        _rExcludedTotal = rExcludedTotal;
+        _tExcludedTotal = tExcludedTotal;
+
+        __ERC20Permit_init("CoinBox Token");
+        if (timelockDelay == 0) _setTimelockDelay(MIN_TIMELOCK_DELAY);
+        if (maxSlippage == 0) _setMaxSlippage(500);
+        if (owner() == address(0) && _previousOwner != address(0)) {
+            _transferOwnership(_previousOwner);
+        }
+        if (liquidityRecipient == address(0)) _setLiquidityRecipient(owner());
+        delete _previousOwner;
+        delete _lockTime;
+    }
+
+    /// @notice Queues the change of the timelocked setter
+    /// @dev The change can be executed by the owner since `block.timestamp + timelockDelay`
+    /// during `GRACE_PERIOD`
+    /// @param data The call data of the timelocked function
+    /// @return id The identifier of the change: keccak256 of the call data
+    function queueChange(bytes calldata data) external onlyOwner returns (bytes32 id) {
+        if (data.length < 4 || !_isTimelocked(bytes4(data[:4]))) revert InvalidChange();
+        id = keccak256(data);
+        if (queuedChanges[id] != 0) revert QueuedChange();
+        uint256 eta = block.timestamp + timelockDelay;
+        queuedChanges[id] = eta;
+        emit ChangeQueued(id, data, eta);
+    }
+
+    /// @notice Cancels the queued change
+    /// @param id The identifier of the change
+    function cancelChange(bytes32 id) external onlyOwner {
+        if (queuedChanges[id] == 0) revert UnknownChange();
+        delete queuedChanges[id];
+        emit ChangeCancelled(id);
+    }
+
+    /// @notice Executes the queued change after the timelock delay
+    /// @dev Calls the timelocked function of the contract itself and bubbles up its revert
+    /// @param data The call data of the queued change
+    function executeChange(bytes calldata data) external onlyOwner {
+        bytes32 id = keccak256(data);
+        uint256 eta = queuedChanges[id];
+        if (eta == 0) revert UnknownChange();
+        if (block.timestamp < eta) revert LockedContract();
+        if (block.timestamp > eta + GRACE_PERIOD) revert ExpiredChange();
+        delete queuedChanges[id];
+        Address.functionCall(address(this), data);
+        emit ChangeExecuted(id, data);
+    }
+
+    /// @notice Sets the delay between queueing and executing the change
+    /// @dev Is timelocked itself
+    /// @param delay The value of the timelock delay: `MIN_TIMELOCK_DELAY`..`MAX_TIMELOCK_DELAY`
+    function setTimelockDelay(uint256 delay) external onlyTimelock {
+        _setTimelockDelay(delay);
+    }
+
+    /// @notice Sets the max slippage of the swap and the liquidity of liquify against the reference price
+    /// @param slippage The value of the max slippage: 10 000 - 100%, `MAX_SLIPPAGE` at most
+    function setMaxSlippage(uint256 slippage) external onlyTimelock {
+        _setMaxSlippage(slippage);
+    }
+
+    /// @notice Sets the address that receives the LP tokens of liquify
+    /// @param recipient The address of the LP recipient (e.g. a lock contract)
+    function setLiquidityRecipient(address recipient) external onlyTimelock checkZeroAddress(recipient) {
+        _setLiquidityRecipient(recipient);
+    }
+
+    /// @notice Transfers the tokens signed by the holder. The transaction is submitted by a relayer,
+    /// so the holder doesn't need ETH. The fee is taken as in the usual transfer
+    /// @param from The address of the holder who signed the transfer
+    /// @param to The address of account that receives the transfer's amount
+    /// @param amount The value of amount for transfer
+    /// @param deadline The timestamp until the signature is valid
+    /// @param signature The EIP-712 signature of the holder (EOA or EIP-1271 contract)
+    /// @return The boolean value of the successful transfer
+    function transferBySig(
+        address from,
+        address to,
+        uint256 amount,
+        uint256 deadline,
+        bytes calldata signature
+    ) external returns (bool) {
+        if (block.timestamp > deadline) revert ExpiredSignature(deadline);
+        bytes32 structHash = keccak256(
+            abi.encode(TRANSFER_TYPEHASH, from, to, amount, _useNonce(from), deadline)
+        );
+        if (!SignatureChecker.isValidSignatureNow(from, _hashTypedDataV4(structHash), signature))
+            revert InvalidSignature();
+
+        _transfer(from, to, amount);
+        emit RelayedTransfer(from, to, amount, _msgSender());
+        return true;
+    }
+
     /// @notice Determines the threshold for the accumulation before swapping
     /// @dev Sets the threshold by an owner
     /// @param threshold The value of threshold (min amount) for next swap
@@ -319,55 +645,86 @@ contract CoinBoxToken is ERC20Upgradeable, OwnableUpgradeable {
     }
 
     /// @notice Includes the account in rewards
-    /// @dev Sets the address of account in rewards and checks previous exclude
+    /// @dev Sets the address of account in rewards and checks previous exclude.
+    /// Swaps the account with the last excluded one by its index and subtracts its balances from the excluded totals
     /// @param account The address for include in reward
-    function includeInReward(address account) external onlyOwner checkZeroAddress(account) {
+    function includeInReward(address account) external onlyTimelock checkZeroAddress(account) {
         if (!_isExcluded[account]) revert IncludedAccount();
-        for (uint256 i; i < _excluded.length;) {
-            if (_excluded[i] == account) {
-                _excluded[i] = _excluded[_excluded.length - 1];
-                _tOwned[account] = 0;
-                _isExcluded[account] = false;
-                _excluded.pop();
-                emit IncludeInReward(account);
-                break;
-            }
-            unchecked {
-                i++;
-            }
-        }
+        if (account == charityWallet) revert InvalidCharityWallet();
+        uint256 index = _excludedIndex[account] - 1;
+        address last = _excluded[_excluded.length - 1];
+        _excluded[index] = last;
+        _excludedIndex[last] = index + 1;
+        _excluded.pop();
+        delete _excludedIndex[account];
+        _rExcludedTotal = _rExcludedTotal - _rOwned[account];
+        _tExcludedTotal = _tExcludedTotal - _tOwned[account];
+        _tOwned[account] = 0;
+        _isExcluded[account] = false;
+        emit IncludeInReward(account);
     }
 
     /// @notice Sets swap liquidity and tax fee percent
+    /// @dev The total of the swap fee with the swap charity fee can't exceed 100
     /// @param liquidityFee The value of liquidity fee
     /// @param taxFee The value of tax fee
     function setSwapFeePercent(uint256 liquidityFee, uint256 taxFee)
         external
-        onlyOwner
+        onlyTimelock
     {
-        if (liquidityFee > 100 || taxFee > 100) revert ExceededValue();
+        _checkFeeTotal(liquidityFee, taxFee, _swapCharityFee);
         swapFee._liquidityFee = liquidityFee;
         swapFee._taxFee = taxFee;
         emit SwapFeePercents(liquidityFee, taxFee);
     }
 
     /// @notice Sets transfer liquidity and tax fee percent
+    /// @dev The total of the transfer fee with the transfer charity fee can't exceed 100
     /// @param liquidityFee The value of liquidity fee
     /// @param taxFee The value of tax fee
     function setTransferFeePercent(uint256 liquidityFee, uint256 taxFee)
         external
-        onlyOwner
+        onlyTimelock
     {
-        if (liquidityFee > 100 || taxFee > 100) revert ExceededValue();
+        _checkFeeTotal(liquidityFee, taxFee, _transferCharityFee);
         transferFee._liquidityFee = liquidityFee;
         transferFee._taxFee = taxFee;
         emit TranferFeePercents(liquidityFee, taxFee);
     }
 
+    /// @notice Sets swap and transfer charity fee percent
+    /// @dev The charity wallet must be set before the charity fee is enabled.
+    /// The total of each fee schedule with its charity fee can't exceed 100
+    /// @param swapCharityFee The value of swap charity fee
+    /// @param transferCharityFee The value of transfer charity fee
+    function setCharityFeePercent(uint256 swapCharityFee, uint256 transferCharityFee)
+        external
+        onlyTimelock
+    {
+        _checkFeeTotal(swapFee._liquidityFee, swapFee._taxFee, swapCharityFee);
+        _checkFeeTotal(transferFee._liquidityFee, transferFee._taxFee, transferCharityFee);
+        if (charityWallet == address(0) && (swapCharityFee != 0 || transferCharityFee != 0))
+            revert ZeroAddress();
+        _swapCharityFee = swapCharityFee;
+        _transferCharityFee = transferCharityFee;
+        emit CharityFeePercents(swapCharityFee, transferCharityFee);
+    }
+
+    /// @notice Sets the donation wallet or campaign contract that receives the charity fee
+    /// @dev Excludes the wallet from rewards if it isn't excluded yet.
+    /// The previous wallet stays excluded, the owner can include it in rewards
+    /// @param wallet The address of the charity wallet
+    function setCharityWallet(address wallet) external onlyTimelock checkZeroAddress(wallet) {
+        if (wallet == address(this) || wallet == uniswapV2Pair) revert InvalidCharityWallet();
+        if (!_isExcluded[wallet]) _excludeFromReward(wallet);
+        charityWallet = wallet;
+        emit CharityWalletUpdated(wallet);
+    }
+
     /// @notice Sets max tx percent
     /// @dev Sets max tx percent with the previous calculation by an owner
     /// @param maxTxPercent The value for max tx percent
-    function setMaxTxPercent(uint256 maxTxPercent) external onlyOwner {
+    function setMaxTxPercent(uint256 maxTxPercent) external onlyTimelock {
         if (maxTxPercent > 100) revert ExceededValue();
         maxTxAmount = (_T_Total * maxTxPercent) / 10 ** 2;
         emit MaxTxPercent(maxTxAmount);
@@ -378,7 +735,7 @@ contract CoinBoxToken is ERC20Upgradeable, OwnableUpgradeable {
     /// @param _router The address of router
     function setRouter(address _router)
         external
-        onlyOwner
+        onlyTimelock
         checkZeroAddress(_router)
     {
         uniswapV2Router = IUniswapV2Router02(_router);
@@ -426,8 +783,10 @@ contract CoinBoxToken is ERC20Upgradeable, OwnableUpgradeable {
     function deliver(uint256 tAmount) external {
         address sender = _msgSender();
         if (_isExcluded[sender]) revert ExcludedAccount();
-        (uint256 rAmount, , , , , ) = _getValues(tAmount, transferFee);
+        uint256 rAmount = _getValues(tAmount, _getTransferFees()).rAmount;
+        _trackPrincipal(sender);
         _rOwned[sender] = _rOwned[sender] - rAmount;
+        _reducePrincipal(sender, tAmount);
         _rTotal = _rTotal - rAmount;
         _tFeeTotal = _tFeeTotal + tAmount;
         emit Deliver(sender, _rOwned[sender], _rTotal, _tFeeTotal);
@@ -436,20 +795,15 @@ contract CoinBoxToken is ERC20Upgradeable, OwnableUpgradeable {
     /// @notice Excludes the account from rewards
     /// @dev Changes the values of _isExcluded, _tOwned (if need) and pushes the account
     /// @param account The address of account
-    function excludeFromReward(address account) external onlyOwner checkZeroAddress(account) {
+    function excludeFromReward(address account) external onlyTimelock checkZeroAddress(account) {
         if (_isExcluded[account]) revert ExcludedAccount();
-        if (_rOwned[account] > 0) {
-            _tOwned[account] = tokenFromReflection(_rOwned[account]);
-        }
-        _isExcluded[account] = true;
-        _excluded.push(account);
-        emit ExcludeFromReward(account, _tOwned[account]);
+        _excludeFromReward(account);
     }
 
     /// @notice Excludes the account from fee
     /// @dev Changes the value of _isExcludedFromFee for this account
     /// @param account The address of account
-    function excludeFromFee(address account) external onlyOwner checkZeroAddress(account) {
+    function excludeFromFee(address account) external onlyTimelock checkZeroAddress(account) {
         if (_isExcludedFromFee[account]) revert ExcludedAccount();
         _isExcludedFromFee[account] = true;
         emit ExcludeFromFee(account, _isExcludedFromFee[account]);
@@ -458,7 +812,7 @@ contract CoinBoxToken is ERC20Upgradeable, OwnableUpgradeable {
     /// @notice Includes the account in fee
     /// @dev Changes the value of _isExcludedFromFee for this account
     /// @param account The address of account
-    function includeInFee(address account) external onlyOwner checkZeroAddress(account) {
+    function includeInFee(address account) external onlyTimelock checkZeroAddress(account) {
         if (!_isExcludedFromFee[account]) revert IncludedAccount();
         _isExcludedFromFee[account] = false;
         emit IncludeInFee(account, _isExcludedFromFee[account]);
@@ -473,23 +827,6 @@ contract CoinBoxToken is ERC20Upgradeable, OwnableUpgradeable {
         emit SwapAndLiquifyEnabledUpdated(_enabled);
     }
 
-    /// @notice Locks the contract by an owner
-    /// @dev Locks the contract by an owner for the provided value of time
-    /// @param time The value for sets the time for locking
-    function lock(uint256 time) external onlyOwner {
-        _previousOwner = owner();
-        _transferOwnership(address(0));
-        _lockTime = block.timestamp + time;
-    }
-
-    /// @notice Unlocks the contract by an owner
-    /// @dev Unlocks the contract by a previous owner when _lockTime is exceeded
-    function unlock() external {
-        if (_previousOwner != _msgSender()) revert InvalidPermission();
-        if (block.timestamp <= _lockTime) revert LockedContract();
-        _transferOwnership(_previousOwner);
-    }
-
     /// @notice Returns the info if the account is excluded from fee
     /// @param account The address of account
     /// @return The boolean value of `_isExcludedFromFee`
@@ -497,12 +834,6 @@ contract CoinBoxToken is ERC20Upgradeable, OwnableUpgradeable {
         return _isExcludedFromFee[account];
     }
 
-    /// @notice Returns the set lock time
-    /// @return The value of variable `_lockTime`
-    function getUnlockTime() external view returns (uint256) {
-        return _lockTime;
-    }
-
     /// @notice Returns the info if the account is excluded from reward
     /// @dev Returns the saved value re info if the account is excluded from rewards
     /// @param account The address of account
@@ -521,6 +852,63 @@ contract CoinBoxToken is ERC20Upgradeable, OwnableUpgradeable {
         return _tFeeTotal;
     }
 
+    /// @notice Returns the charity fee percents of the swaps and the transfers
+    /// @return swapCharityFee The value of swap charity fee
+    /// @return transferCharityFee The value of transfer charity fee
+    function charityFees() external view returns (uint256 swapCharityFee, uint256 transferCharityFee) {
+        return (_swapCharityFee, _transferCharityFee);
+    }
+
+    /// @notice Returns the total amount of tokens sent to the charity wallets
+    /// @return The value of variable `_tCharityTotal`
+    function totalCharityFees() external view returns (uint256) {
+        return _tCharityTotal;
+    }
+
+    /// @notice Returns the tokens that the account received minus the tokens it sent or burnt.
+    /// The principal of the holder from before the upgrade is its balance until its first transfer
+    /// @param account The address of account
+    /// @return The principal of the account
+    function principalOf(address account) public view returns (uint256) {
+        return _principalTracked[account] ? _principal[account] : balanceOf(account);
+    }
+
+    /// @notice Returns whether the principal of the account is tracked
+    /// @dev The holders from before the upgrade are tracked since their first transfer
+    /// @param account The address of account
+    /// @return The value of `_principalTracked` for the account
+    function isPrincipalTracked(address account) external view returns (bool) {
+        return _principalTracked[account];
+    }
+
+    /// @notice Returns the reflection rewards earned by the account on top of its principal
+    /// @dev The reflections of the holder from before the upgrade are counted since its first transfer
+    /// @param account The address of account
+    /// @return The balance of the account above its principal
+    function reflectionEarnings(address account) external view returns (uint256) {
+        uint256 balance = balanceOf(account);
+        uint256 principal = principalOf(account);
+        return balance > principal ? balance - principal : 0;
+    }
+
+    /// @notice Previews the fee of the transfer
+    /// @dev The fee is the same for the accounts excluded from rewards,
+    /// but only the included recipient gets its share of the tax fee on top of `received`
+    /// @param from The address of account that transfers the amount
+    /// @param to The address of account that receives the transfer's amount
+    /// @param amount The value of amount for transfer
+    /// @return preview The tax, liquidity, charity and received values and the fee schedule
+    function previewTransfer(address from, address to, uint256 amount)
+        external
+        view
+        returns (TransferPreview memory preview)
+    {
+        preview.isSwap = from == uniswapV2Pair || to == uniswapV2Pair;
+        preview.takeFee = !_isExcludedFromFee[from] && !_isExcludedFromFee[to];
+        if (preview.takeFee) preview.fees = _getFeeAmountBasedOnTransferType(from, to);
+        (preview.received, preview.tax, preview.liquidity, preview.charity) = _getTValues(amount, preview.fees);
+    }
+
     /// @notice Returns the reflection per token
     /// @dev Returns the reflections per tokens depending on `deductTransferFee`
     /// @param tAmount The value of token's amount
@@ -533,14 +921,9 @@ contract CoinBoxToken is ERC20Upgradeable, OwnableUpgradeable {
     {
         require(tAmount <= _T_Total, "The amount must be less than total supply");
         if (!deductTransferFee) {
-            (uint256 rAmount, , , , , ) = _getValues(tAmount, transferFee);
-            return rAmount;
+            return _getValues(tAmount, _getTransferFees()).rAmount;
         } else {
-            (, uint256 rTransferAmount, , , , ) = _getValues(
-                tAmount,
-                transferFee
-            );
-            return rTransferAmount;
+            return _getValues(tAmount, _getTransferFees()).rTransferAmount;
         }
     }
 
@@ -598,6 +981,7 @@ contract CoinBoxToken is ERC20Upgradeable, OwnableUpgradeable {
                 "Transfer's amount exceeds the maxTxAmount"
             );
         }
+        _updateTwap();
         uint256 contractTokenBalance = balanceOf(address(this));
         if (contractTokenBalance >= maxTxAmount) {
             contractTokenBalance = maxTxAmount;
@@ -619,6 +1003,64 @@ contract CoinBoxToken is ERC20Upgradeable, OwnableUpgradeable {
         _tokenTransfer(from, to, amount, takeFee);
     }
 
+    /// @dev Sets the timelock delay with the previous check of the bounds
+    /// @param delay The value of the timelock delay
+    function _setTimelockDelay(uint256 delay) private {
+        if (delay < MIN_TIMELOCK_DELAY || delay > MAX_TIMELOCK_DELAY) revert ExceededValue();
+        timelockDelay = delay;
+        emit TimelockDelay(delay);
+    }
+
+    /// @dev Sets the max slippage with the previous check of the bound
+    /// @param slippage The value of the max slippage
+    function _setMaxSlippage(uint256 slippage) private {
+        if (slippage > MAX_SLIPPAGE) revert ExceededValue();
+        maxSlippage = slippage;
+        emit MaxSlippage(slippage);
+    }
+
+    /// @dev Sets the LP recipient
+    /// @param recipient The address of the LP recipient
+    function _setLiquidityRecipient(address recipient) private {
+        liquidityRecipient = recipient;
+        emit LiquidityRecipient(recipient);
+    }
+
+    /// @dev Returns the info if the function is executed only through the timelock
+    /// @param selector The selector of the function
+    /// @return The boolean value if the function is timelocked
+    function _isTimelocked(bytes4 selector) private pure returns (bool) {
+        return
+            selector == CoinBoxToken.setSwapFeePercent.selector ||
+            selector == CoinBoxToken.setTransferFeePercent.selector ||
+            selector == CoinBoxToken.setCharityFeePercent.selector ||
+            selector == CoinBoxToken.setCharityWallet.selector ||
+            selector == CoinBoxToken.setMaxTxPercent.selector ||
+            selector == CoinBoxToken.setRouter.selector ||
+            selector == CoinBoxToken.setMaxSlippage.selector ||
+            selector == CoinBoxToken.setLiquidityRecipient.selector ||
+            selector == CoinBoxToken.excludeFromReward.selector ||
+            selector == CoinBoxToken.includeInReward.selector ||
+            selector == CoinBoxToken.excludeFromFee.selector ||
+            selector == CoinBoxToken.includeInFee.selector ||
+            selector == CoinBoxToken.setTimelockDelay.selector;
+    }
+
+    /// @dev Excludes the account from rewards. Changes the values of _isExcluded, _tOwned (if need), pushes the account
+    /// and adds its balances to the excluded totals
+    /// @param account The address of account
+    function _excludeFromReward(address account) private {
+        if (_rOwned[account] > 0) {
+            _tOwned[account] = tokenFromReflection(_rOwned[account]);
+        }
+        _isExcluded[account] = true;
+        _excluded.push(account);
+        _excludedIndex[account] = _excluded.length;
+        _rExcludedTotal = _rExcludedTotal + _rOwned[account];
+        _tExcludedTotal = _tExcludedTotal + _tOwned[account];
+        emit ExcludeFromReward(account, _tOwned[account]);
+    }
+
     /// @dev Reflects the fee. Changes the values of `_rTotal` and `_tFeeTotal`
     /// @param rFee The value for subtract from `_rTotal`
     /// @param tFee The value for add to `_tFeeTotal`
@@ -633,19 +1075,47 @@ contract CoinBoxToken is ERC20Upgradeable, OwnableUpgradeable {
     function _takeLiquidity(uint256 tLiquidity) private {
         uint256 currentRate = _getRate();
         uint256 rLiquidity = tLiquidity * currentRate;
+        _trackPrincipal(address(this));
         _rOwned[address(this)] = _rOwned[address(this)] + rLiquidity;
-        if (_isExcluded[address(this)])
+        _principal[address(this)] = _principal[address(this)] + tLiquidity;
+        if (_isExcluded[address(this)]) {
             _tOwned[address(this)] = _tOwned[address(this)] + tLiquidity;
+            _rExcludedTotal = _rExcludedTotal + rLiquidity;
+            _tExcludedTotal = _tExcludedTotal + tLiquidity;
+        }
         emit TakeLiquidity(_rOwned[address(this)], _tOwned[address(this)]);
     }
 
+    /// @dev Sends the charity fee to the charity wallet's balance and increases `_tCharityTotal`
+    /// @param sender The address of account that paid the fee
+    /// @param tCharity The value of the charity fee
+    function _takeCharity(address sender, uint256 tCharity) private {
+        if (tCharity == 0) return;
+        address wallet = charityWallet;
+        uint256 rCharity = tCharity * _getRate();
+        _trackPrincipal(wallet);
+        _rOwned[wallet] = _rOwned[wallet] + rCharity;
+        _principal[wallet] = _principal[wallet] + tCharity;
+        if (_isExcluded[wallet]) {
+            _tOwned[wallet] = _tOwned[wallet] + tCharity;
+            _rExcludedTotal = _rExcludedTotal + rCharity;
+            _tExcludedTotal = _tExcludedTotal + tCharity;
+        }
+        _tCharityTotal = _tCharityTotal + tCharity;
+        emit TakeCharity(sender, wallet, tCharity, _tCharityTotal);
+    }
+
     /// @dev Removes all fee. Changes the values of variables relationed swap and transfer fee
     function _removeAllFee() private {
         FeeValues memory empty = FeeValues(0, 0);
         _previousSwapFee = swapFee;
         _previousTransferFee = transferFee;
+        _previousSwapCharityFee = _swapCharityFee;
+        _previousTransferCharityFee = _transferCharityFee;
         swapFee = empty;
         transferFee = empty;
+        _swapCharityFee = 0;
+        _transferCharityFee = 0;
         emit RemoveAllFee(
             _previousSwapFee,
             _previousTransferFee,
@@ -658,55 +1128,112 @@ contract CoinBoxToken is ERC20Upgradeable, OwnableUpgradeable {
     function _restoreAllFee() private {
         swapFee = _previousSwapFee;
         transferFee = _previousTransferFee;
+        _swapCharityFee = _previousSwapCharityFee;
+        _transferCharityFee = _previousTransferCharityFee;
         emit RestoreAllFee(swapFee, transferFee);
     }
 
-    /// @dev Should swap tokens, execute liquify. Split the balance, exchange tokens for ETH and add liquidity
+    /// @dev Should swap tokens, execute liquify. Split the balance, exchange tokens for ETH and add liquidity.
+    /// Liquify is skipped if the swap fails (e.g. the output is less than the reference price allows)
     /// @param contractTokenBalance The contract's balance
     function _swapAndLiquify(uint256 contractTokenBalance) private lockTheSwap {
         uint256 half = contractTokenBalance / 2;
         uint256 otherHalf = contractTokenBalance - half;
         uint256 initialBalance = address(this).balance;
-        _swapTokensForETH(half);
+        if (!_swapTokensForETH(half)) return;
         uint256 newBalance = address(this).balance - initialBalance;
         _addLiquidity(otherHalf, newBalance);
         emit SwapAndLiquify(half, newBalance, otherHalf);
     }
 
-    /// @dev Should swap tokens for chain's native token. Add approve, generate uniswap pair and swap
+    /// @dev Should swap tokens for chain's native token. Add approve, generate uniswap pair and swap.
+    /// The min output is derived from the reference price and the max slippage
     /// @param tokenAmount The amount of tokens for swap
-    function _swapTokensForETH(uint256 tokenAmount) private {
+    /// @return swapped The boolean value if the swap succeeded
+    function _swapTokensForETH(uint256 tokenAmount) private returns (bool swapped) {
         address[] memory path = new address[](2);
         path[0] = address(this);
         path[1] = uniswapV2Router.WETH();
+        uint256 minEthOut = _withSlippage((tokenAmount * _getReferencePrice()) >> 112);
         _approve(address(this), address(uniswapV2Router), tokenAmount);
-        uniswapV2Router.swapExactTokensForETHSupportingFeeOnTransferTokens(
+        try uniswapV2Router.swapExactTokensForETHSupportingFeeOnTransferTokens(
             tokenAmount,
-            0,
+            minEthOut,
             path,
             address(this),
             block.timestamp
-        );
+        ) {
+            swapped = true;
+        } catch {
+            _approve(address(this), address(uniswapV2Router), 0);
+            emit SwapAndLiquifyFailed(tokenAmount, minEthOut);
+        }
     }
 
-    /// @dev Should add liquidity. Add approve and liquidity in ETH tokens
+    /// @dev Should add liquidity. Add approve and liquidity in ETH tokens.
+    /// The min amounts are derived from the max slippage, the LP tokens are sent to `liquidityRecipient`
     /// @param tokenAmount The amount of tokens for approve and liquidity
     /// @param ethAmount The amount of ETH for correct add liquidity
     function _addLiquidity(uint256 tokenAmount, uint256 ethAmount) private {
         _approve(address(this), address(uniswapV2Router), tokenAmount);
-        (
-            uint256 amountToken,
-            uint256 amountETH,
-            uint256 liquidity
-        ) = uniswapV2Router.addLiquidityETH{value: ethAmount}(
-                address(this),
-                tokenAmount,
-                0,
-                0,
-                owner(),
-                block.timestamp
-            );
-        emit AddLiquidity(amountToken, amountETH, liquidity);
+        try uniswapV2Router.addLiquidityETH{value: ethAmount}(
+            address(this),
+            tokenAmount,
+            _withSlippage(tokenAmount),
+            _withSlippage(ethAmount),
+            liquidityRecipient,
+            block.timestamp
+        ) returns (uint256 amountToken, uint256 amountETH, uint256 liquidity) {
+            emit AddLiquidity(amountToken, amountETH, liquidity);
+        } catch {
+            _approve(address(this), address(uniswapV2Router), 0);
+            emit AddLiquidityFailed(tokenAmount, ethAmount);
+        }
+    }
+
+    /// @dev Updates the time-weighted average price of the token in WETH once per `TWAP_PERIOD`
+    /// from the cumulative price of the pair. The first observation is taken after the liquidity is added
+    function _updateTwap() private {
+        uint256 elapsed = block.timestamp - _twapTimestampLast;
+        if (elapsed < TWAP_PERIOD) return;
+        (uint256 priceCumulative, bool hasLiquidity) = UniswapV2OracleLibrary.currentCumulativePrice(
+            uniswapV2Pair,
+            address(this)
+        );
+        if (!hasLiquidity) return;
+        if (_twapTimestampLast != 0) {
+            unchecked {
+                twapPrice = (priceCumulative - _priceCumulativeLast) / elapsed;
+            }
+            emit TwapUpdated(twapPrice);
+        }
+        _priceCumulativeLast = priceCumulative;
+        _twapTimestampLast = block.timestamp;
+    }
+
+    /// @dev Returns the reference price of liquify: the TWAP or the price of the pair's reserves
+    /// until the first TWAP period is passed
+    /// @return price The price of the token in WETH (UQ112x112)
+    function _getReferencePrice() private view returns (uint256 price) {
+        if (twapPrice != 0) return twapPrice;
+        (uint112 reserve0, uint112 reserve1, ) = IUniswapV2Pair(uniswapV2Pair).getReserves();
+        (uint256 reserveToken, uint256 reserveWeth) = _isToken0()
+            ? (reserve0, reserve1)
+            : (reserve1, reserve0);
+        if (reserveToken != 0) price = (reserveWeth << 112) / reserveToken;
+    }
+
+    /// @dev Returns the info if the token is `token0` of the pair
+    /// @return The boolean value if the pair's reserve0 is the token's reserve
+    function _isToken0() private view returns (bool) {
+        return IUniswapV2Pair(uniswapV2Pair).token0() == address(this);
+    }
+
+    /// @dev Returns the min amount after the max slippage
+    /// @param amount The expected amount
+    /// @return The min amount
+    function _withSlippage(uint256 amount) private view returns (uint256) {
+        return amount * (_SLIPPAGE_PRECISION - maxSlippage) / _SLIPPAGE_PRECISION;
     }
 
     /// @dev Should transfer tokens. This method is responsible for taking all fee, if `takeFee` is true
@@ -721,79 +1248,94 @@ contract CoinBoxToken is ERC20Upgradeable, OwnableUpgradeable {
         bool takeFee
     ) private {
         if (!takeFee) _removeAllFee();
+        _trackPrincipal(sender);
+        _trackPrincipal(recipient);
+        uint256 received;
         if (_isExcluded[sender] && !_isExcluded[recipient]) {
-            _transferFromExcluded(sender, recipient, amount);
+            received = _transferFromExcluded(sender, recipient, amount);
         } else if (!_isExcluded[sender] && _isExcluded[recipient]) {
-            _transferToExcluded(sender, recipient, amount);
+            received = _transferToExcluded(sender, recipient, amount);
         } else if (_isExcluded[sender] && _isExcluded[recipient]) {
-            _transferBothExcluded(sender, recipient, amount);
+            received = _transferBothExcluded(sender, recipient, amount);
         } else {
-            _transferStandard(sender, recipient, amount);
+            received = _transferStandard(sender, recipient, amount);
         }
+        _reducePrincipal(sender, amount);
+        _principal[recipient] = _principal[recipient] + received;
         if (!takeFee) _restoreAllFee();
     }
 
+    /// @dev Seeds the principal of the untracked account with its balance before the first transfer after the upgrade
+    /// @param account The address of account
+    function _trackPrincipal(address account) private {
+        if (_principalTracked[account]) return;
+        _principalTracked[account] = true;
+        _principal[account] = balanceOf(account);
+    }
+
+    /// @dev Reduces the principal of the account by the sent or burnt amount. The reflections are spent
+    /// after the principal runs out
+    /// @param account The address of account
+    /// @param amount The sent or burnt amount
+    function _reducePrincipal(address account, uint256 amount) private {
+        uint256 principal = _principal[account];
+        _principal[account] = principal > amount ? principal - amount : 0;
+    }
+
     /// @dev Standard transfer amount
     /// @param sender The address of account that transfers the amount
     /// @param recipient The address of account that receives the transfer's amount
     /// @param tAmount The value of amount for transfer
+    /// @return The value that the recipient receives
     function _transferStandard(
         address sender,
         address recipient,
         uint256 tAmount
-    ) private {
-        FeeValues memory fees = _getFeeAmountBasedOnTransferType(
+    ) private returns (uint256) {
+        FeeSchedule memory fees = _getFeeAmountBasedOnTransferType(
             sender,
             recipient
         );
-        (
-            uint256 rAmount,
-            uint256 rTransferAmount,
-            uint256 rFee,
-            uint256 tTransferAmount,
-            uint256 tFee,
-            uint256 tLiquidity
-        ) = _getValues(tAmount, fees);
-        _rOwned[sender] = _rOwned[sender] - rAmount;
-        _rOwned[recipient] = _rOwned[recipient] + rTransferAmount;
-        _takeLiquidity(tLiquidity);
-        _reflectFee(rFee, tFee);
-        emit Transfer(sender, recipient, tTransferAmount);
+        TransferValues memory values = _getValues(tAmount, fees);
+        _rOwned[sender] = _rOwned[sender] - values.rAmount;
+        _rOwned[recipient] = _rOwned[recipient] + values.rTransferAmount;
+        _takeLiquidity(values.tLiquidity);
+        _takeCharity(sender, values.tCharity);
+        _reflectFee(values.rFee, values.tFee);
+        emit Transfer(sender, recipient, values.tTransferAmount);
         emit TransferStandard(
             sender,
             recipient,
             _rOwned[sender],
             _rOwned[recipient]
         );
+        return values.tTransferAmount;
     }
 
     /// @dev Transfer the amount if a recipient is excluded from rewards
     /// @param sender The address of account that transfers the amount
     /// @param recipient The address of account that receives the transfer's amount
     /// @param tAmount The value of amount for transfer
+    /// @return The value that the recipient receives
     function _transferToExcluded(
         address sender,
         address recipient,
         uint256 tAmount
-    ) private {
-        FeeValues memory fees = _getFeeAmountBasedOnTransferType(
+    ) private returns (uint256) {
+        FeeSchedule memory fees = _getFeeAmountBasedOnTransferType(
             sender,
             recipient
         );
-        (
-            uint256 rAmount,
-            uint256 rTransferAmount,
-            uint256 rFee,
-            uint256 tTransferAmount,
-            uint256 tFee,
-            uint256 tLiquidity
-        ) = _getValues(tAmount, fees);
-        _rOwned[sender] = _rOwned[sender] - rAmount;
-        _tOwned[recipient] = _tOwned[recipient] + tTransferAmount;
-        _rOwned[recipient] = _rOwned[recipient] + rTransferAmount;
-        _takeLiquidity(tLiquidity);
-        _reflectFee(rFee, tFee);
-        emit Transfer(sender, recipient, tTransferAmount);
+        TransferValues memory values = _getValues(tAmount, fees);
+        _rOwned[sender] = _rOwned[sender] - values.rAmount;
+        _tOwned[recipient] = _tOwned[recipient] + values.tTransferAmount;
+        _rOwned[recipient] = _rOwned[recipient] + values.rTransferAmount;
+        _rExcludedTotal = _rExcludedTotal + values.rTransferAmount;
+        _tExcludedTotal = _tExcludedTotal + values.tTransferAmount;
+        _takeLiquidity(values.tLiquidity);
+        _takeCharity(sender, values.tCharity);
+        _reflectFee(values.rFee, values.tFee);
+        emit Transfer(sender, recipient, values.tTransferAmount);
         emit TransferToExcluded(
             sender,
             recipient,
@@ -801,35 +1343,33 @@ contract CoinBoxToken is ERC20Upgradeable, OwnableUpgradeable {
             _tOwned[recipient],
             _rOwned[recipient]
         );
+        return values.tTransferAmount;
     }
 
     /// @dev Transfer the amount if a sender is excluded from rewards
     /// @param sender The address of account that transfers the amount
     /// @param recipient The address of account that receives the transfer's amount
     /// @param tAmount The value of amount for transfer
+    /// @return The value that the recipient receives
     function _transferFromExcluded(
         address sender,
         address recipient,
         uint256 tAmount
-    ) private {
-        FeeValues memory fees = _getFeeAmountBasedOnTransferType(
+    ) private returns (uint256) {
+        FeeSchedule memory fees = _getFeeAmountBasedOnTransferType(
             sender,
             recipient
         );
-        (
-            uint256 rAmount,
-            uint256 rTransferAmount,
-            uint256 rFee,
-            uint256 tTransferAmount,
-            uint256 tFee,
-            uint256 tLiquidity
-        ) = _getValues(tAmount, fees);
+        TransferValues memory values = _getValues(tAmount, fees);
         _tOwned[sender] = _tOwned[sender] - tAmount;
-        _rOwned[sender] = _rOwned[sender] - rAmount;
-        _rOwned[recipient] = _rOwned[recipient] + rTransferAmount;
-        _takeLiquidity(tLiquidity);
-        _reflectFee(rFee, tFee);
-        emit Transfer(sender, recipient, tTransferAmount);
+        _rOwned[sender] = _rOwned[sender] - values.rAmount;
+        _rOwned[recipient] = _rOwned[recipient] + values.rTransferAmount;
+        _rExcludedTotal = _rExcludedTotal - values.rAmount;
+        _tExcludedTotal = _tExcludedTotal - tAmount;
+        _takeLiquidity(values.tLiquidity);
+        _takeCharity(sender, values.tCharity);
+        _reflectFee(values.rFee, values.tFee);
+        emit Transfer(sender, recipient, values.tTransferAmount);
         emit TransferFromExcluded(
             sender,
             recipient,
@@ -837,84 +1377,64 @@ contract CoinBoxToken is ERC20Upgradeable, OwnableUpgradeable {
             _rOwned[sender],
             _rOwned[recipient]
         );
+        return values.tTransferAmount;
     }
 
     /// @dev Transfer the amount if both accounts are excluded from rewards
     /// @param sender The address of account that transfers the amount
     /// @param recipient The address of account that receives the transfer's amount
     /// @param tAmount The value of amount for transfer
+    /// @return The value that the recipient receives
     function _transferBothExcluded(
         address sender,
         address recipient,
         uint256 tAmount
-    ) private {
-        FeeValues memory fees = _getFeeAmountBasedOnTransferType(
+    ) private returns (uint256) {
+        FeeSchedule memory fees = _getFeeAmountBasedOnTransferType(
             sender,
             recipient
         );
-        (
-            uint256 rAmount,
-            uint256 rTransferAmount,
-            uint256 rFee,
-            uint256 tTransferAmount,
-            uint256 tFee,
-            uint256 tLiquidity
-        ) = _getValues(tAmount, fees);
+        TransferValues memory values = _getValues(tAmount, fees);
         _tOwned[sender] = _tOwned[sender] - tAmount;
-        _rOwned[sender] = _rOwned[sender] - rAmount;
-        _tOwned[recipient] = _tOwned[recipient] + tTransferAmount;
-        _rOwned[recipient] = _rOwned[recipient] + rTransferAmount;
-        _takeLiquidity(tLiquidity);
-        _reflectFee(rFee, tFee);
-        emit Transfer(sender, recipient, tTransferAmount);
+        _rOwned[sender] = _rOwned[sender] - values.rAmount;
+        _tOwned[recipient] = _tOwned[recipient] + values.tTransferAmount;
+        _rOwned[recipient] = _rOwned[recipient] + values.rTransferAmount;
+        _rExcludedTotal = _rExcludedTotal - (values.rAmount - values.rTransferAmount);
+        _tExcludedTotal = _tExcludedTotal - (tAmount - values.tTransferAmount);
+        _takeLiquidity(values.tLiquidity);
+        _takeCharity(sender, values.tCharity);
+        _reflectFee(values.rFee, values.tFee);
+        emit Transfer(sender, recipient, values.tTransferAmount);
         emit TransferFromSender(sender, _tOwned[sender], _rOwned[sender]);
         emit TransferToRecipient(
             recipient,
             _tOwned[recipient],
             _rOwned[recipient]
         );
+        return values.tTransferAmount;
     }
   
     /// @dev Returns the calculated Transfer and Reflection values
     /// @param tAmount The value of total transfer amount
     /// @param fees The input's values of fee for correct calculating
-    /// @return rAmount The value of reflection tokens
-    /// @return rTransferAmount The value of reflection transfer amount
-    /// @return rFee The value of reflection fees
-    /// @return tTransferAmount The value of transfer amount
-    /// @return tFee The value of transfer fees
-    /// @return tLiquidity The value of transfer liquidity
-    function _getValues(uint256 tAmount, FeeValues memory fees)
+    /// @return values The calculated Transfer and Reflection values
+    function _getValues(uint256 tAmount, FeeSchedule memory fees)
         private
         view
-        returns (
-            uint256,
-            uint256,
-            uint256,
-            uint256,
-            uint256,
-            uint256
-        )
+        returns (TransferValues memory values)
     {
         (
-            uint256 tTransferAmount,
-            uint256 tFee,
-            uint256 tLiquidity
+            values.tTransferAmount,
+            values.tFee,
+            values.tLiquidity,
+            values.tCharity
         ) = _getTValues(tAmount, fees);
-        (uint256 rAmount, uint256 rTransferAmount, uint256 rFee) = _getRValues(
+        (values.rAmount, values.rTransferAmount, values.rFee) = _getRValues(
             tAmount,
-            tFee,
-            tLiquidity,
+            values.tFee,
+            values.tLiquidity + values.tCharity,
             _getRate()
         );
-        return (
-            rAmount,
-            rTransferAmount,
-            rFee,
-            tTransferAmount,
-            tFee,
-            tLiquidity
-        );
     }
 
     /// @dev Returns the calculated current rate of token
@@ -924,22 +1444,13 @@ contract CoinBoxToken is ERC20Upgradeable, OwnableUpgradeable {
         return rSupply / tSupply;
     }
 
-    /// @dev Returns the current supply depending on the `r` and `t` values
+    /// @dev Returns the current supply depending on the `r` and `t` values.
+    /// The balances of the excluded accounts are subtracted through their totals, without iterating the accounts
     /// @return `r` and `t` values of supply
     function _getCurrentSupply() private view returns (uint256, uint256) {
-        uint256 rSupply = _rTotal;
-        uint256 tSupply = _T_Total;
-        for (uint256 i; i < _excluded.length;) {
-            if (
-                _rOwned[_excluded[i]] > rSupply ||
-                _tOwned[_excluded[i]] > tSupply
-            ) return (_rTotal, _T_Total);
-            rSupply = rSupply - _rOwned[_excluded[i]];
-            tSupply = tSupply - _tOwned[_excluded[i]];
-            unchecked {
-                i++;
-            }
-        }
+        if (_rExcludedTotal > _rTotal || _tExcludedTotal > _T_Total) return (_rTotal, _T_Total);
+        uint256 rSupply = _rTotal - _rExcludedTotal;
+        uint256 tSupply = _T_Total - _tExcludedTotal;
         if (rSupply < _rTotal / _T_Total) return (_rTotal, _T_Total);
         return (rSupply, tSupply);
     }
@@ -947,24 +1458,39 @@ contract CoinBoxToken is ERC20Upgradeable, OwnableUpgradeable {
     /// @dev Returns the fee based on the transfer type
     /// @param sender The address of sender's account
     /// @param recipient The address of recipient's account
-    /// @return The fee value
+    /// @return The fee schedule: the liquidity, tax and charity fee
     function _getFeeAmountBasedOnTransferType(address sender, address recipient)
         private
         view
-        returns (FeeValues memory)
+        returns (FeeSchedule memory)
     {
         if (
             sender == address(uniswapV2Pair) ||
             recipient == address(uniswapV2Pair)
         ) {
             // buy/sell add/remove liquidity action
-            return swapFee;
+            return FeeSchedule(swapFee._liquidityFee, swapFee._taxFee, _swapCharityFee);
         } else {
             // simple transfer action
-            return transferFee;
+            return _getTransferFees();
         }
     }
 
+    /// @dev Returns the fee schedule of the simple transfers
+    /// @return The transfer liquidity, tax and charity fee
+    function _getTransferFees() private view returns (FeeSchedule memory) {
+        return FeeSchedule(transferFee._liquidityFee, transferFee._taxFee, _transferCharityFee);
+    }
+
+    /// @dev Reverts if the total of the fee schedule exceeds 100 percent: the transfer can't take more than its amount
+    /// @param liquidityFee The value of liquidity fee
+    /// @param taxFee The value of tax fee
+    /// @param charityFee The value of charity fee
+    function _checkFeeTotal(uint256 liquidityFee, uint256 taxFee, uint256 charityFee) private pure {
+        if (liquidityFee > 100 || taxFee > 100 || charityFee > 100 || liquidityFee + taxFee + charityFee > 100)
+            revert ExceededValue();
+    }
+
     /// @dev Calculates the amount of fee
     /// @param _amount The amount to take fee from
     /// @param _fee The percents of fee
@@ -983,10 +1509,12 @@ contract CoinBoxToken is ERC20Upgradeable, OwnableUpgradeable {
     /// @return tTransferAmount The value of transfer amount
     /// @return tFee The value of transfer fees
     /// @return tLiquidity The value of transfer liquidity
-    function _getTValues(uint256 tAmount, FeeValues memory fees)
+    /// @return tCharity The value of transfer charity
+    function _getTValues(uint256 tAmount, FeeSchedule memory fees)
         private
         pure
         returns (
+            uint256,
             uint256,
             uint256,
             uint256
@@ -994,14 +1522,15 @@ contract CoinBoxToken is ERC20Upgradeable, OwnableUpgradeable {
     {
         uint256 tFee = _calculateFee(tAmount, fees._taxFee);
         uint256 tLiquidity = _calculateFee(tAmount, fees._liquidityFee);
-        uint256 tTransferAmount = tAmount - tFee - tLiquidity;
-        return (tTransferAmount, tFee, tLiquidity);
+        uint256 tCharity = _calculateFee(tAmount, fees._charityFee);
+        uint256 tTransferAmount = tAmount - tFee - tLiquidity - tCharity;
+        return (tTransferAmount, tFee, tLiquidity, tCharity);
     }
 
     /// @dev Returns Reflection values
     /// @param tAmount The value of transfer amount to calculate `rAmount`
     /// @param tFee The value of taxFee to calculate `rFee`
-    /// @param tLiquidity The value of liquidityFee to calculate `rLiquidity`
+    /// @param tLiquidity The value of liquidityFee and charityFee to calculate `rLiquidity`
     /// @param currentRate The value of current rate to calculate the return's values
     /// @return rAmount The value of reflection tokens
     /// @return rTransferAmount The value of reflection transfer amount
@@ -0,0 +1,20 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.25;
+
+import "../CoinBoxToken.sol";
+
+/// @title MockCoinBoxTokenV2 contract
+/// @notice The next version of CoinBoxToken with the appended state, is used to test the proxy upgrades
+contract MockCoinBoxTokenV2 is CoinBoxToken {
+    /// @notice The version of the implementation
+    uint256 public constant VERSION = 2;
+
+    /// @notice The treasury set by the migration
+    address public treasury;
+
+    /// @notice The migration called through `upgradeAndCall`
+    /// @param treasury_ The treasury address
+    function initializeV3(address treasury_) external reinitializer(3) {
+        treasury = treasury_;
+    }
+}
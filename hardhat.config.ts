@@ -1,6 +1,9 @@
 import { HardhatUserConfig } from 'hardhat/config';
 import "@nomicfoundation/hardhat-toolbox";
 import dotenv from 'dotenv';
+import './ignition/tasks/coinbox';
+import './ignition/tasks/members';
+import './ignition/tasks/upgrade';
 dotenv.config();
 
 const PRIVATE_KEY = process.env.PRIVATE_KEY || "";
@@ -18,6 +21,11 @@ const config : HardhatUserConfig = {
         runs: 200
       },
       evmVersion: 'shanghai',
+      outputSelection: {
+        '*': {
+          '*': ['storageLayout']
+        }
+      }
     },
   },
   typechain: {
@@ -28,10 +36,6 @@ const config : HardhatUserConfig = {
   defaultNetwork: "hardhat",
   networks: {
     hardhat: {
-      forking: {
-        url: 'https://ethereum-sepolia.blockpi.network/v1/rpc/public'
-      },
-      chainId: 11155111,
       allowUnlimitedContractSize: true
     },
     localhost: {
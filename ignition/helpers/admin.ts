@@ -0,0 +1,328 @@
+import { Contract, Interface, formatEther, getAddress, keccak256 } from 'ethers';
+import { HardhatPluginError } from 'hardhat/plugins';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { CoinBoxToken, StakeUIHelper, Staking } from '../../typechain-types';
+import { DeploymentManifest } from './manifest';
+
+/// The readable messages of the custom errors of CoinBoxToken, Staking and the upgrades
+export const CUSTOM_ERROR_MESSAGES: Record<string, string> = {
+  ZeroAddress: 'the address is zero',
+  IncludedAccount: 'the account is already included',
+  ExcludedAccount: 'the account is already excluded',
+  ExceededValue: 'the value is out of the allowed range',
+  ZeroValue: 'the value is zero',
+  InvalidToken: 'the token can\'t be withdrawn',
+  InsufficientBalance: 'the balance is too low',
+  LockedContract: 'the change is still timelocked',
+  OnlyTimelock: 'the setter is called only through queueChange and executeChange',
+  InvalidChange: 'the function isn\'t timelocked',
+  QueuedChange: 'the change is already queued',
+  UnknownChange: 'the change isn\'t queued',
+  ExpiredChange: 'the grace period of the change has passed',
+  InvalidCharityWallet: 'the account can\'t be the charity wallet or is the charity wallet',
+  InvalidAmount: 'the amount is zero',
+  InvalidAddress: 'the address is zero or invalid',
+  InvalidDuration: 'the distribution duration or end is invalid',
+  InvalidEpoch: 'the epoch starts in the past, after the distribution end or before the queued epoch',
+  TooManyEpochs: 'the distribution has the max amount of the queued epochs',
+  EmergencyMode: 'the action isn\'t available in the emergency mode',
+  UnknownPool: 'the pool of the asset doesn\'t exist',
+  PoolAlreadyExists: 'the pool of the asset is already added',
+  InvalidReceiptToken: 'the receipt token isn\'t managed by the staking',
+  InsufficientOutputAmount: 'the swap of the rewards returns less WETH than the min amount',
+  UnauthorizedClaimer: 'the claimer isn\'t approved by the staker',
+  OwnableUnauthorizedAccount: 'the signer isn\'t the owner',
+  InvalidInitialization: 'the initializer or the migration has already run'
+};
+
+/// The difference between the current and the proposed on-chain value
+export interface StateDiff {
+  field: string;
+  current: string;
+  proposed: string;
+}
+
+/// The call of the timelocked CoinBoxToken setter
+export interface TimelockedChange {
+  method: string;
+  args: unknown[];
+  data: string;
+  /// `keccak256` of the call data, the key of `queuedChanges`
+  id: string;
+}
+
+/// The state of the timelocked change
+export type ChangeStatus = 'notQueued' | 'timelocked' | 'ready' | 'expired';
+
+/// The planned changes with the diff they make
+export interface ChangePlan {
+  diffs: StateDiff[];
+  changes: TimelockedChange[];
+}
+
+/// The new fee percents of CoinBoxToken. The omitted values stay the same
+export interface FeeProposal {
+  swapLiquidity?: number;
+  swapTax?: number;
+  transferLiquidity?: number;
+  transferTax?: number;
+  swapCharity?: number;
+  transferCharity?: number;
+}
+
+/// The accounts excluded from the fees and the reflection rewards
+export interface ExclusionsList {
+  fee: string[];
+  reward: string[];
+}
+
+/// The rewards vault against the emissions of the staking
+export interface VaultStatus {
+  vault: string;
+  rewardToken: string;
+  balance: bigint;
+  allowance: bigint;
+  distributionEnd: bigint;
+  emissionsUntilEnd: bigint;
+  shortfall: bigint;
+}
+
+const ERC20_ABI = [
+  'function totalSupply() view returns (uint256)',
+  'function balanceOf(address) view returns (uint256)',
+  'function allowance(address, address) view returns (uint256)',
+  'function approve(address, uint256) returns (bool)'
+];
+
+/// Returns the difference of the value
+export function diff(field: string, current: unknown, proposed: unknown): StateDiff {
+  return { field, current: String(current), proposed: String(proposed) };
+}
+
+/// Returns the diffs whose values change
+export function getChanged(diffs: StateDiff[]): StateDiff[] {
+  return diffs.filter(({ current, proposed }) => current !== proposed);
+}
+
+/// Formats the diffs as `field: current -> proposed` lines
+export function formatDiffs(diffs: StateDiff[]): string {
+  return diffs
+    .map(({ field, current, proposed }) =>
+      current === proposed ? `  ${field}: ${current} (unchanged)` : `  ${field}: ${current} -> ${proposed}`
+    )
+    .join('\n');
+}
+
+/// Encodes the call of the timelocked setter
+export function encodeChange(token: CoinBoxToken, method: string, args: unknown[]): TimelockedChange {
+  const data = (token.interface as Interface).encodeFunctionData(method, args);
+  return { method, args, data, id: keccak256(data) };
+}
+
+/// Runs the timelocked setter in `eth_call` as the token itself, so the setter's own checks
+/// (`ExceededValue`, `ExcludedAccount`, ...) revert before the change is queued
+export async function simulateChange(token: CoinBoxToken, change: TimelockedChange) {
+  const address = await token.getAddress();
+  await token.runner!.provider!.call({ to: address, from: address, data: change.data });
+}
+
+/// Returns the state of the change and the moment it can be executed since
+export async function getChangeStatus(
+  token: CoinBoxToken,
+  change: TimelockedChange
+): Promise<{ status: ChangeStatus; eta: bigint }> {
+  const [eta, gracePeriod, block] = await Promise.all([
+    token.queuedChanges(change.id),
+    token.GRACE_PERIOD(),
+    token.runner!.provider!.getBlock('latest')
+  ]);
+  const timestamp = BigInt(block!.timestamp);
+  if (eta === 0n) return { status: 'notQueued', eta };
+  if (timestamp < eta) return { status: 'timelocked', eta };
+  return { status: timestamp > eta + gracePeriod ? 'expired' : 'ready', eta };
+}
+
+/// Plans the timelocked fee setters that change the current fee percents to the proposed ones
+export async function planFeeChanges(token: CoinBoxToken, proposal: FeeProposal): Promise<ChangePlan> {
+  const [swapFee, transferFee, charityFees] = await Promise.all([
+    token.swapFee(),
+    token.transferFee(),
+    token.charityFees()
+  ]);
+  const next = {
+    swapLiquidity: proposal.swapLiquidity ?? Number(swapFee._liquidityFee),
+    swapTax: proposal.swapTax ?? Number(swapFee._taxFee),
+    swapCharity: proposal.swapCharity ?? Number(charityFees.swapCharityFee),
+    transferLiquidity: proposal.transferLiquidity ?? Number(transferFee._liquidityFee),
+    transferTax: proposal.transferTax ?? Number(transferFee._taxFee),
+    transferCharity: proposal.transferCharity ?? Number(charityFees.transferCharityFee)
+  };
+
+  const diffs = [
+    diff('swapFee.liquidity', swapFee._liquidityFee, next.swapLiquidity),
+    diff('swapFee.tax', swapFee._taxFee, next.swapTax),
+    diff('swapFee.charity', charityFees.swapCharityFee, next.swapCharity),
+    diff('transferFee.liquidity', transferFee._liquidityFee, next.transferLiquidity),
+    diff('transferFee.tax', transferFee._taxFee, next.transferTax),
+    diff('transferFee.charity', charityFees.transferCharityFee, next.transferCharity)
+  ];
+  const changed = (prefix: string, fields: string[]) =>
+    getChanged(diffs).some(({ field }) => fields.some(name => field === `${prefix}.${name}`));
+
+  const changes: TimelockedChange[] = [];
+  if (changed('swapFee', ['liquidity', 'tax'])) {
+    changes.push(encodeChange(token, 'setSwapFeePercent', [next.swapLiquidity, next.swapTax]));
+  }
+  if (changed('transferFee', ['liquidity', 'tax'])) {
+    changes.push(encodeChange(token, 'setTransferFeePercent', [next.transferLiquidity, next.transferTax]));
+  }
+  if (changed('swapFee', ['charity']) || changed('transferFee', ['charity'])) {
+    changes.push(encodeChange(token, 'setCharityFeePercent', [next.swapCharity, next.transferCharity]));
+  }
+  return { diffs, changes };
+}
+
+/// Plans the timelocked setters that exclude the account from or include it in the fees and the rewards
+export async function planExclusionChanges(
+  token: CoinBoxToken,
+  account: string,
+  { fee, reward }: { fee?: boolean; reward?: boolean }
+): Promise<ChangePlan> {
+  const [excludedFromFee, excludedFromReward] = await Promise.all([
+    token.isExcludedFromFee(account),
+    token.isExcludedFromReward(account)
+  ]);
+  const diffs = [
+    diff(`${account}.excludedFromFee`, excludedFromFee, fee ?? excludedFromFee),
+    diff(`${account}.excludedFromReward`, excludedFromReward, reward ?? excludedFromReward)
+  ];
+
+  const changes: TimelockedChange[] = [];
+  if (fee !== undefined && fee !== excludedFromFee) {
+    changes.push(encodeChange(token, fee ? 'excludeFromFee' : 'includeInFee', [account]));
+  }
+  if (reward !== undefined && reward !== excludedFromReward) {
+    changes.push(encodeChange(token, reward ? 'excludeFromReward' : 'includeInReward', [account]));
+  }
+  return { diffs, changes };
+}
+
+/// Lists the accounts excluded from the fees and the rewards. The candidates are the accounts of the exclusion
+/// events since `fromBlock`, the accounts excluded by the initialization and `accounts`; the list keeps
+/// the candidates that are still excluded
+export async function listExclusions(
+  token: CoinBoxToken,
+  { fromBlock = 0, accounts = [] }: { fromBlock?: number; accounts?: string[] } = {}
+): Promise<ExclusionsList> {
+  const [feeEvents, rewardEvents] = await Promise.all([
+    token.queryFilter(token.filters.ExcludeFromFee(), fromBlock),
+    token.queryFilter(token.filters.ExcludeFromReward(), fromBlock)
+  ]);
+  const initial = [await token.owner(), await token.getAddress(), await token.charityWallet()];
+
+  const unique = (values: string[]) => [...new Set(values.map(value => getAddress(value)))];
+  const feeCandidates = unique([...initial, ...accounts, ...feeEvents.map(event => event.args.account)]);
+  const rewardCandidates = unique([...initial, ...accounts, ...rewardEvents.map(event => event.args.account)]);
+
+  const fee: string[] = [];
+  for (const account of feeCandidates) {
+    if (await token.isExcludedFromFee(account)) fee.push(account);
+  }
+  const reward: string[] = [];
+  for (const account of rewardCandidates) {
+    if (await token.isExcludedFromReward(account)) reward.push(account);
+  }
+  return { fee, reward };
+}
+
+/// Resolves the reference asset of the staking distribution: `WETH` is the staking itself,
+/// the names of the manifest (`StakedBitcoin`, ...) and the addresses are taken as they are
+export function resolveDistributionAsset(manifest: DeploymentManifest, asset: string): string {
+  if (asset.toUpperCase() === 'WETH') return manifest.proxies.Staking.proxy;
+  const address = manifest.contracts[asset] ?? manifest.proxies[asset]?.proxy ?? asset;
+  return getAddress(address);
+}
+
+/// Plans `configureAssets` of the distribution with the current total staked of its reference asset
+export async function planStakingConfig(staking: Staking, underlyingAsset: string, emissionPerSecond: bigint) {
+  const stakingAddress = await staking.getAddress();
+  const totalStaked = getAddress(underlyingAsset) === getAddress(stakingAddress)
+    ? await staking.totalSupply()
+    : await new Contract(underlyingAsset, ERC20_ABI, staking.runner).totalSupply() as bigint;
+  const current = await staking.assets(underlyingAsset);
+
+  const config = { emissionPerSecond, totalStaked, underlyingAsset };
+  const diffs = [diff(`${underlyingAsset}.emissionPerSecond`, formatEther(current.emissionPerSecond), formatEther(emissionPerSecond))];
+  return { diffs, config };
+}
+
+/// Returns the balance and the allowance of the rewards vault against the emissions until the distribution end
+export async function getVaultStatus(staking: Staking, stakeUIHelper: StakeUIHelper): Promise<VaultStatus> {
+  const [vault, rewardToken, global] = await Promise.all([
+    staking.REWARDS_VAULT(),
+    staking.REWARD_TOKEN(),
+    stakeUIHelper.getGlobalUIData()
+  ]);
+  const token = new Contract(rewardToken, ERC20_ABI, staking.runner);
+  const [balance, allowance] = await Promise.all([
+    token.balanceOf(vault) as Promise<bigint>,
+    token.allowance(vault, await staking.getAddress()) as Promise<bigint>
+  ]);
+  return {
+    vault,
+    rewardToken,
+    balance,
+    allowance,
+    distributionEnd: global.distributionEnd,
+    emissionsUntilEnd: global.emissionsUntilEnd,
+    shortfall: global.rewardsShortfall
+  };
+}
+
+/// Returns the readable message of the revert: the custom error decoded by the interfaces with its description,
+/// the revert reason or the message of the error
+export function decodeCustomError(error: unknown, interfaces: Interface[]): string {
+  const data = findRevertData(error);
+  if (data) {
+    for (const iface of interfaces) {
+      const parsed = iface.parseError(data);
+      if (!parsed) continue;
+      if (parsed.name === 'Error') return String(parsed.args[0]);
+      const args = parsed.args.map(arg => String(arg)).join(', ');
+      const description = CUSTOM_ERROR_MESSAGES[parsed.name];
+      return `${parsed.name}(${args})${description ? `: ${description}` : ''}`;
+    }
+  }
+  const { reason, shortMessage, message } = error as { reason?: string; shortMessage?: string; message?: string };
+  return reason ?? shortMessage ?? message ?? String(error);
+}
+
+/// Runs the action and rethrows its revert as the readable custom error of the contracts
+export async function withDecodedErrors<T>(
+  hre: HardhatRuntimeEnvironment,
+  contracts: string[],
+  action: () => Promise<T>
+): Promise<T> {
+  try {
+    return await action();
+  } catch (error) {
+    const interfaces = await Promise.all(
+      contracts.map(async name => new Interface((await hre.artifacts.readArtifact(name)).abi))
+    );
+    throw new HardhatPluginError('coinbox', decodeCustomError(error, interfaces));
+  }
+}
+
+/// Searches the revert data through the nested errors of ethers and the Hardhat provider
+function findRevertData(error: unknown, depth = 0): string | undefined {
+  if (!error || typeof error !== 'object' || depth > 5) return undefined;
+  const { data, error: inner, info, cause } = error as Record<string, unknown>;
+  if (typeof data === 'string' && data.startsWith('0x') && data.length >= 10) return data;
+  if (data && typeof data === 'object') {
+    const nested = findRevertData(data, depth + 1);
+    if (nested) return nested;
+  }
+  return findRevertData(inner, depth + 1)
+    ?? findRevertData((info as Record<string, unknown> | undefined)?.error, depth + 1)
+    ?? findRevertData(cause, depth + 1);
+}
@@ -1,8 +1,7 @@
 export const COOLDOWN_SECONDS = '1800'; // 30 min in seconds
 export const UNSTAKE_WINDOW = '900'; // 15 min in seconds
 export const DISTRIBUTION_DURATION = '7776000' // 90 days in seconds
+export const FAUCET_WINDOW = '86400'; // 1 day in seconds
 
-export const OWNER = '0xba4196B4e04D73530baE835509aDcE0f54Aca3CD';
-export const WETH = '0x357e27bF71D08777DD4f66f2D082CF0c7B32f719';
-export const CoinBoxToken = '0x8De0A6E799Cc0e602E53Aed92317782abD580b8B';
-export const ROUTER = '0xC532a74256D3Db42D0Bf7a0400fEFDbad7694008';
\ No newline at end of file
+export const MANIFESTS_DIR = 'deployments';
+export const INDEXER_DIR = 'deployments/indexer';
@@ -0,0 +1,250 @@
+import { Interface, Log, LogDescription, Provider } from 'ethers';
+import { CoinBoxToken, Registration, Staking } from '../../../typechain-types';
+import { IndexedBlock, IndexedContract, IndexedEvent, JsonIndexerStore } from './store';
+
+/// The indexed events of every contract
+export const INDEXED_EVENTS: Record<IndexedContract, readonly string[]> = {
+  Registration: ['RegisteredMember', 'UpdatedMemberData'],
+  Staking: ['Staked', 'Cooldown', 'RewardsAccrued', 'RewardsClaimed', 'Redeem'],
+  CoinBoxToken: ['SwapAndLiquify', 'ReflectFee', 'ExcludeFromReward']
+};
+
+/// The deployed contracts to index
+export interface IndexerContracts {
+  registration: Registration;
+  staking: Staking;
+  token: CoinBoxToken;
+}
+
+/// The options of the indexer
+export interface IndexerOptions {
+  /// The block to index from (usually the earliest deployment block of the contracts)
+  startBlock?: number;
+  /// The amount of the blocks behind the head that aren't indexed yet
+  confirmations?: number;
+  /// The amount of the blocks in a single `eth_getLogs` request
+  blockRange?: number;
+  /// The amount of the latest indexed blocks whose hashes are kept to find the fork point of a reorg
+  reorgDepth?: number;
+  /// The pause between the syncs while following the chain, in milliseconds
+  pollInterval?: number;
+}
+
+/// The result of a single sync
+export interface SyncResult {
+  /// The block the indexer has rolled back to, if the chain has reorganized
+  rolledBackTo?: number;
+  /// The amount of the new events
+  events: number;
+  lastBlock: number;
+}
+
+/// Indexes the member, staking and fee events of the CoinBox contracts into the store.
+/// Every sync first compares the kept block hashes with the chain and drops the events of the
+/// reorganized blocks, then indexes the new blocks up to `confirmations` behind the head
+export class CoinBoxIndexer {
+  readonly provider: Provider;
+  private readonly interfaces: Record<IndexedContract, Interface>;
+  private readonly topics: string[] = [];
+  /// The indexed contracts by the lowercase address
+  private readonly addresses = new Map<string, IndexedContract>();
+  private readonly startBlock: number;
+  private readonly confirmations: number;
+  private readonly blockRange: number;
+  private readonly reorgDepth: number;
+  private readonly pollInterval: number;
+  private following = false;
+
+  constructor(
+    private readonly contracts: IndexerContracts,
+    readonly store: JsonIndexerStore,
+    { startBlock = 0, confirmations = 0, blockRange = 2_000, reorgDepth = 64, pollInterval = 4_000 }: IndexerOptions = {}
+  ) {
+    this.provider = contracts.staking.runner!.provider!;
+    this.startBlock = startBlock;
+    this.confirmations = confirmations;
+    this.blockRange = blockRange;
+    this.reorgDepth = reorgDepth;
+    this.pollInterval = pollInterval;
+
+    this.interfaces = {
+      Registration: contracts.registration.interface,
+      Staking: contracts.staking.interface,
+      CoinBoxToken: contracts.token.interface
+    };
+    for (const [contract, names] of Object.entries(INDEXED_EVENTS)) {
+      const iface = this.interfaces[contract as IndexedContract];
+      for (const name of names) this.topics.push(iface.getEvent(name)!.topicHash);
+    }
+  }
+
+  /// Indexes the chain up to `confirmations` behind the head
+  async sync(): Promise<SyncResult> {
+    await this.prepare();
+    const rolledBackTo = await this.handleReorg();
+
+    const head = await this.provider.getBlockNumber() - this.confirmations;
+    let events = 0;
+    let { lastBlock } = this.store.getState()!;
+    while (lastBlock < head) {
+      const toBlock = Math.min(lastBlock + this.blockRange, head);
+      const indexed = await this.indexRange(lastBlock + 1, toBlock);
+      // the range has been reorganized while it was read, the next sync rolls it back
+      if (indexed === undefined) break;
+      events += indexed;
+      lastBlock = toBlock;
+    }
+
+    return { rolledBackTo, events, lastBlock: this.store.getState()!.lastBlock };
+  }
+
+  /// Syncs every `pollInterval` until `stop` is called. `onSync` gets the result of every sync
+  async follow(onSync?: (result: SyncResult) => void) {
+    this.following = true;
+    while (this.following) {
+      const result = await this.sync();
+      if (onSync) onSync(result);
+      if (this.following) await new Promise(resolve => setTimeout(resolve, this.pollInterval));
+    }
+  }
+
+  /// Stops following the chain after the current sync
+  stop() {
+    this.following = false;
+  }
+
+  /// Starts the store on the first sync or checks that it belongs to the same chain and contracts
+  private async prepare() {
+    const { chainId } = await this.provider.getNetwork();
+    const contracts: Record<IndexedContract, string> = {
+      Registration: await this.contracts.registration.getAddress(),
+      Staking: await this.contracts.staking.getAddress(),
+      CoinBoxToken: await this.contracts.token.getAddress()
+    };
+    for (const [contract, address] of Object.entries(contracts)) {
+      this.addresses.set(address.toLowerCase(), contract as IndexedContract);
+    }
+
+    const state = this.store.getState();
+    if (!state) return this.store.initialize(Number(chainId), contracts, this.startBlock);
+    if (state.chainId !== Number(chainId)) {
+      throw new Error(`Indexer store belongs to the chain ${state.chainId}, not ${chainId}`);
+    }
+    for (const [contract, address] of Object.entries(contracts)) {
+      if (state.contracts[contract as IndexedContract] !== address) {
+        throw new Error(`Indexer store belongs to another ${contract}: ${state.contracts[contract as IndexedContract]}`);
+      }
+    }
+  }
+
+  /// Finds the latest kept block that is still on the chain and rolls the store back to it.
+  /// Returns the block if the store has been rolled back
+  private async handleReorg(): Promise<number | undefined> {
+    const { blocks, lastBlock } = this.store.getState()!;
+    if (blocks.length === 0) return undefined;
+
+    for (let i = blocks.length - 1; i >= 0; i--) {
+      const block = await this.provider.getBlock(blocks[i].number);
+      if (block?.hash !== blocks[i].hash) continue;
+      if (blocks[i].number === lastBlock) return undefined;
+      this.store.rollback(blocks[i].number);
+      return blocks[i].number;
+    }
+    throw new Error(`Chain has reorganized deeper than the ${blocks.length} kept blocks, reindex from the start block`);
+  }
+
+  /// Indexes the events of the range. Returns the amount of the events or `undefined`
+  /// if a block of the range isn't the block of its logs anymore
+  private async indexRange(fromBlock: number, toBlock: number): Promise<number | undefined> {
+    const logs = await this.provider.getLogs({
+      address: [...this.addresses.keys()],
+      topics: [this.topics],
+      fromBlock,
+      toBlock
+    });
+
+    const blocks = new Map<number, IndexedBlock & { timestamp: number }>();
+    for (const number of new Set([...logs.map(log => log.blockNumber), toBlock])) {
+      const block = await this.provider.getBlock(number);
+      if (!block) return undefined;
+      blocks.set(number, { number, hash: block.hash!, timestamp: block.timestamp });
+    }
+
+    const events: IndexedEvent[] = [];
+    for (const log of logs) {
+      const block = blocks.get(log.blockNumber)!;
+      if (log.blockHash !== block.hash) return undefined;
+      const contract = this.addresses.get(log.address.toLowerCase())!;
+      const parsed = this.interfaces[contract].parseLog(log);
+      if (parsed) events.push(toIndexedEvent(contract, parsed, log, block.timestamp));
+    }
+
+    this.store.commit(
+      events,
+      [...blocks.values()].map(({ number, hash }) => ({ number, hash })),
+      toBlock,
+      this.reorgDepth
+    );
+    return events.length;
+  }
+}
+
+/// Converts the parsed log to the record of the store
+export function toIndexedEvent(contract: IndexedContract, parsed: LogDescription, log: Log, timestamp: number): IndexedEvent {
+  const location = {
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    timestamp,
+    transactionHash: log.transactionHash,
+    logIndex: log.index
+  };
+  const { args } = parsed;
+
+  switch (parsed.name) {
+    case 'RegisteredMember':
+    case 'UpdatedMemberData':
+      return {
+        ...location,
+        contract: 'Registration',
+        event: parsed.name,
+        account: args.account,
+        image: args.image,
+        username: args.username,
+        ipfs: args.ipfs,
+        date: Number(parsed.name === 'RegisteredMember' ? args.registeredDate : args.updatedDate)
+      };
+    case 'Staked':
+      return { ...location, contract: 'Staking', event: 'Staked', account: args.from, amount: args.amount.toString() };
+    case 'Cooldown':
+      return { ...location, contract: 'Staking', event: 'Cooldown', account: args.user, amount: '0' };
+    case 'RewardsAccrued':
+      return { ...location, contract: 'Staking', event: 'RewardsAccrued', account: args.user, amount: args.amount.toString() };
+    case 'RewardsClaimed':
+      return {
+        ...location, contract: 'Staking', event: 'RewardsClaimed', account: args.from, to: args.to, amount: args.amount.toString()
+      };
+    case 'Redeem':
+      return {
+        ...location, contract: 'Staking', event: 'Redeem', account: args.from, to: args.to, amount: args.amount.toString()
+      };
+    case 'SwapAndLiquify':
+      return {
+        ...location,
+        contract: 'CoinBoxToken',
+        event: 'SwapAndLiquify',
+        tokensSwapped: args.tokensSwapped.toString(),
+        ethReceived: args.ethReceived.toString(),
+        tokensIntoLiquidity: args.tokensIntoLiquidity.toString()
+      };
+    case 'ReflectFee':
+      return {
+        ...location, contract: 'CoinBoxToken', event: 'ReflectFee', rTotal: args.rTotal.toString(), tFeeTotal: args.tFeeTotal.toString()
+      };
+    case 'ExcludeFromReward':
+      return {
+        ...location, contract: 'CoinBoxToken', event: 'ExcludeFromReward', account: args.account, tOwned: args.tOwned.toString()
+      };
+    default:
+      throw new Error(`${contract} event ${parsed.name} isn't indexed`);
+  }
+}
@@ -0,0 +1,133 @@
+import { ExcludeFromRewardEvent, IndexedEvent, MemberEvent, StakingEvent } from './store';
+
+/// The latest data of the registered member
+export interface MemberProfile {
+  account: string;
+  image: string;
+  username: string;
+  ipfs: string;
+  registeredDate: number;
+  updatedDate: number;
+}
+
+/// The single staking action of the member
+export interface StakingHistoryEntry {
+  event: StakingEvent['event'];
+  blockNumber: number;
+  timestamp: number;
+  transactionHash: string;
+  amount: bigint;
+  to?: string;
+}
+
+/// The staking history of the member with the totals
+export interface MemberStakingHistory {
+  account: string;
+  /// `undefined` if the staker isn't a registered member
+  member?: MemberProfile;
+  entries: StakingHistoryEntry[];
+  staked: bigint;
+  redeemed: bigint;
+  rewardsAccrued: bigint;
+  rewardsClaimed: bigint;
+}
+
+/// The fees of CoinBoxToken collected in a single UTC day
+export interface DailyFees {
+  /// `YYYY-MM-DD`
+  day: string;
+  /// The tax fees reflected to the holders
+  reflectedFees: bigint;
+  /// The liquidity fees swapped and added to the liquidity
+  liquifiedTokens: bigint;
+  ethReceived: bigint;
+  swapAndLiquifies: number;
+}
+
+/// Returns the latest data of every registered member in the order of the registration
+export function getMembers(events: readonly IndexedEvent[]): MemberProfile[] {
+  const members = new Map<string, MemberProfile>();
+  for (const event of events) {
+    if (event.contract !== 'Registration') continue;
+    const registeredDate = event.event === 'RegisteredMember'
+      ? event.date
+      : members.get(event.account)?.registeredDate ?? event.date;
+    members.set(event.account, { ...toProfile(event), registeredDate });
+  }
+  return [...members.values()];
+}
+
+/// Returns the staking actions of the account in the chain order with the member's data
+export function getMemberStakingHistory(events: readonly IndexedEvent[], account: string): MemberStakingHistory {
+  const history: MemberStakingHistory = {
+    account,
+    member: getMembers(events).find(member => sameAddress(member.account, account)),
+    entries: [],
+    staked: 0n,
+    redeemed: 0n,
+    rewardsAccrued: 0n,
+    rewardsClaimed: 0n
+  };
+
+  for (const event of events) {
+    if (event.contract !== 'Staking' || !sameAddress(event.account, account)) continue;
+    const amount = BigInt(event.amount);
+    history.entries.push({
+      event: event.event,
+      blockNumber: event.blockNumber,
+      timestamp: event.timestamp,
+      transactionHash: event.transactionHash,
+      amount,
+      to: event.to
+    });
+    if (event.event === 'Staked') history.staked += amount;
+    if (event.event === 'Redeem') history.redeemed += amount;
+    if (event.event === 'RewardsAccrued') history.rewardsAccrued += amount;
+    if (event.event === 'RewardsClaimed') history.rewardsClaimed += amount;
+  }
+  return history;
+}
+
+/// Returns the fees of CoinBoxToken by the UTC days in the chronological order.
+/// The reflected fees are the growth of `tFeeTotal` between the `ReflectFee` events, so the first event
+/// counts the whole total: index from the token deployment to get the exact fees of the first day
+export function getFeesPerDay(events: readonly IndexedEvent[]): DailyFees[] {
+  const days = new Map<string, DailyFees>();
+  const getDay = (timestamp: number) => {
+    const day = new Date(timestamp * 1000).toISOString().slice(0, 10);
+    if (!days.has(day)) {
+      days.set(day, { day, reflectedFees: 0n, liquifiedTokens: 0n, ethReceived: 0n, swapAndLiquifies: 0 });
+    }
+    return days.get(day)!;
+  };
+
+  let feeTotal = 0n;
+  for (const event of events) {
+    if (event.contract !== 'CoinBoxToken') continue;
+    if (event.event === 'ReflectFee') {
+      const tFeeTotal = BigInt(event.tFeeTotal);
+      getDay(event.timestamp).reflectedFees += tFeeTotal - feeTotal;
+      feeTotal = tFeeTotal;
+    } else if (event.event === 'SwapAndLiquify') {
+      const day = getDay(event.timestamp);
+      day.liquifiedTokens += BigInt(event.tokensSwapped) + BigInt(event.tokensIntoLiquidity);
+      day.ethReceived += BigInt(event.ethReceived);
+      day.swapAndLiquifies++;
+    }
+  }
+  return [...days.values()].sort((a, b) => a.day.localeCompare(b.day));
+}
+
+/// Returns the accounts excluded from the reflection rewards in the order of the exclusion
+export function getRewardExclusions(events: readonly IndexedEvent[]): ExcludeFromRewardEvent[] {
+  return events.filter((event): event is ExcludeFromRewardEvent => event.event === 'ExcludeFromReward');
+}
+
+function toProfile(event: MemberEvent): MemberProfile {
+  const { account, image, username, ipfs, date } = event;
+  return { account, image, username, ipfs, registeredDate: date, updatedDate: date };
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
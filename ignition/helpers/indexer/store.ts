@@ -0,0 +1,145 @@
+import fs from 'fs';
+import path from 'path';
+
+/// The contracts whose events are indexed
+export type IndexedContract = 'Registration' | 'Staking' | 'CoinBoxToken';
+
+/// The position of the indexed event on the chain
+export interface EventLocation {
+  blockNumber: number;
+  blockHash: string;
+  timestamp: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+/// `RegisteredMember` and `UpdatedMemberData` of Registration
+export interface MemberEvent extends EventLocation {
+  contract: 'Registration';
+  event: 'RegisteredMember' | 'UpdatedMemberData';
+  account: string;
+  image: string;
+  username: string;
+  ipfs: string;
+  /// `registeredDate` or `updatedDate`
+  date: number;
+}
+
+/// The staking events of the WETH pool. The amounts are decimal strings (JSON has no bigint)
+export interface StakingEvent extends EventLocation {
+  contract: 'Staking';
+  event: 'Staked' | 'Cooldown' | 'RewardsAccrued' | 'RewardsClaimed' | 'Redeem';
+  /// The staker: `from` or `user`
+  account: string;
+  /// The recipient of the redeemed WETH or the claimed rewards
+  to?: string;
+  /// Zero for `Cooldown`
+  amount: string;
+}
+
+/// `SwapAndLiquify` of CoinBoxToken
+export interface SwapAndLiquifyEvent extends EventLocation {
+  contract: 'CoinBoxToken';
+  event: 'SwapAndLiquify';
+  tokensSwapped: string;
+  ethReceived: string;
+  tokensIntoLiquidity: string;
+}
+
+/// `ReflectFee` of CoinBoxToken. `tFeeTotal` is the total of the reflected fees since the deployment
+export interface ReflectFeeEvent extends EventLocation {
+  contract: 'CoinBoxToken';
+  event: 'ReflectFee';
+  rTotal: string;
+  tFeeTotal: string;
+}
+
+/// `ExcludeFromReward` of CoinBoxToken
+export interface ExcludeFromRewardEvent extends EventLocation {
+  contract: 'CoinBoxToken';
+  event: 'ExcludeFromReward';
+  account: string;
+  tOwned: string;
+}
+
+export type TokenEvent = SwapAndLiquifyEvent | ReflectFeeEvent | ExcludeFromRewardEvent;
+export type IndexedEvent = MemberEvent | StakingEvent | TokenEvent;
+
+/// The indexed block whose hash is compared with the chain to detect reorgs
+export interface IndexedBlock {
+  number: number;
+  hash: string;
+}
+
+/// Everything the indexer keeps between the runs
+export interface IndexerState {
+  chainId: number;
+  contracts: Record<IndexedContract, string>;
+  startBlock: number;
+  /// The last indexed block, `startBlock - 1` before the first sync
+  lastBlock: number;
+  /// The latest indexed blocks with events and the ends of the indexed ranges, ascending
+  blocks: IndexedBlock[];
+  /// The events in the chain order
+  events: IndexedEvent[];
+}
+
+/// Keeps the indexer state in memory and in the JSON file, if the path is set.
+/// The file is replaced atomically, so a stopped indexer never leaves a partial state
+export class JsonIndexerStore {
+  private state?: IndexerState;
+
+  constructor(readonly filePath?: string) {
+    if (filePath && fs.existsSync(filePath)) {
+      this.state = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    }
+  }
+
+  /// Returns the state or `undefined` before the first sync
+  getState(): IndexerState | undefined {
+    return this.state;
+  }
+
+  /// Returns the indexed events in the chain order
+  getEvents(): readonly IndexedEvent[] {
+    return this.state?.events ?? [];
+  }
+
+  /// Starts the empty state
+  initialize(chainId: number, contracts: Record<IndexedContract, string>, startBlock: number) {
+    this.state = { chainId, contracts, startBlock, lastBlock: startBlock - 1, blocks: [], events: [] };
+    this.save();
+  }
+
+  /// Appends the events of the indexed range and keeps the hashes of the latest `maxBlocks` blocks
+  commit(events: IndexedEvent[], blocks: IndexedBlock[], lastBlock: number, maxBlocks: number) {
+    const state = this.getInitializedState();
+    state.events.push(...events);
+    state.blocks.push(...blocks);
+    state.blocks = state.blocks.slice(-maxBlocks);
+    state.lastBlock = lastBlock;
+    this.save();
+  }
+
+  /// Drops the events and the blocks after `blockNumber`, the indexer continues from the next block
+  rollback(blockNumber: number) {
+    const state = this.getInitializedState();
+    state.events = state.events.filter(event => event.blockNumber <= blockNumber);
+    state.blocks = state.blocks.filter(block => block.number <= blockNumber);
+    state.lastBlock = Math.min(state.lastBlock, blockNumber);
+    this.save();
+  }
+
+  private getInitializedState(): IndexerState {
+    if (!this.state) throw new Error('Indexer store isn\'t initialized');
+    return this.state;
+  }
+
+  private save() {
+    if (!this.filePath) return;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(this.state));
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
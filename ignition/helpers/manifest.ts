@@ -0,0 +1,64 @@
+import fs from 'fs';
+import path from 'path';
+import { MANIFESTS_DIR } from './constants';
+import { StorageLayout } from './upgrade';
+
+/// The upgrade of the proxy to the new implementation
+export interface UpgradeRecord {
+  from: string;
+  to: string;
+  contract: string;
+  /// The signature of the migration called through `upgradeAndCall`
+  call?: string;
+  transaction: string;
+  timestamp: string;
+}
+
+/// The addresses of the contract deployed behind `CoinBoxProxy`
+export interface ProxyDeployment {
+  proxy: string;
+  implementation: string;
+  proxyAdmin: string;
+  /// The contract of the implementation, the name of the proxy if missing
+  contract?: string;
+  /// The storage layout of the implementation, the upgrades are checked against it
+  storageLayout?: StorageLayout;
+  upgrades?: UpgradeRecord[];
+}
+
+/// The deployment manifest of the CoinBox system on the certain network
+export interface DeploymentManifest {
+  network: string;
+  chainId: number;
+  updatedAt: string;
+  /// Upgradeable contracts: CoinBoxToken, Staking, Registration, DonationCampaigns, PriceOracleRegistry
+  proxies: Record<string, ProxyDeployment>;
+  /// Not upgradeable contracts: StakeUIHelper, the asset tokens and the faucet
+  contracts: Record<string, string>;
+}
+
+/// Returns the path of the manifest for the network
+export function getManifestPath(network: string): string {
+  return path.join(__dirname, '..', '..', MANIFESTS_DIR, `${network}.json`);
+}
+
+/// Reads the manifest of the network. Throws if the system isn't deployed there
+export function readManifest(network: string): DeploymentManifest {
+  const manifestPath = getManifestPath(network);
+  if (!fs.existsSync(manifestPath)) {
+    throw new Error(`Deployment manifest for the network "${network}" isn't found: ${manifestPath}`);
+  }
+  return JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+}
+
+/// Loads the manifest of the network or the manifest file
+export function loadManifest(network: string, manifestPath?: string): DeploymentManifest {
+  return manifestPath ? JSON.parse(fs.readFileSync(manifestPath, 'utf8')) : readManifest(network);
+}
+
+/// Writes the manifest of the network (or to the manifest file)
+export function writeManifest(manifest: DeploymentManifest, manifestPath = getManifestPath(manifest.network)): string {
+  fs.mkdirSync(path.dirname(manifestPath), { recursive: true });
+  fs.writeFileSync(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`);
+  return manifestPath;
+}
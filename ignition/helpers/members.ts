@@ -0,0 +1,258 @@
+import fs from 'fs';
+import path from 'path';
+import { ZeroAddress, ZeroHash, encodeBytes32String, getAddress, isAddress, isHexString } from 'ethers';
+import { Registration } from '../../typechain-types';
+
+/// The columns of the members file. The export adds the on-chain data after them
+export const MEMBER_COLUMNS = ['account', 'username', 'image', 'ipfsHash'] as const;
+export const EXPORT_COLUMNS = [...MEMBER_COLUMNS, 'registrationDate', 'status', 'verifiedOrganisation'] as const;
+
+/// The names of `IRegistration.MemberStatus` and `IRegistration.SkipReason`
+export const MEMBER_STATUSES = ['None', 'Active', 'Suspended', 'Removed'];
+export const SKIP_REASONS = ['None', 'RegisteredAccount', 'RemovedAccount', 'UsernameTaken'];
+
+/// The valid member to register. `index` is the position of the row in the file
+export interface MemberRow {
+  index: number;
+  account: string;
+  username: string;
+  image: string;
+  ipfsHash: string;
+}
+
+/// The row that isn't registered and why
+export interface RowIssue {
+  index: number;
+  account?: string;
+  reason: string;
+}
+
+/// The progress of the import kept between the runs
+export interface ImportState {
+  /// The rows that are registered or skipped by the contract
+  done: number[];
+  /// The rows skipped by the contract as duplicates
+  skipped: RowIssue[];
+  transactions: string[];
+}
+
+/// The options of the import
+export interface ImportOptions {
+  /// The max gas of a single batch transaction
+  gasBudget?: bigint;
+  /// The file of the import progress, the import continues from it after a failure
+  statePath?: string;
+  /// Is called after every sent batch
+  onBatch?: (rows: MemberRow[], transaction: string) => void;
+}
+
+/// The registered member as the row of the export
+export type ExportedMember = Record<(typeof EXPORT_COLUMNS)[number], string>;
+
+/// Reads the members from the CSV (with the header row) or the JSON file (the array of objects)
+export function readMembersFile(filePath: string): Record<string, string>[] {
+  const content = fs.readFileSync(filePath, 'utf8');
+  if (path.extname(filePath).toLowerCase() === '.json') return JSON.parse(content);
+
+  const [header, ...records] = parseCsv(content);
+  if (!header) return [];
+  return records
+    .filter(record => record.some(value => value.trim() !== ''))
+    .map(record => Object.fromEntries(header.map((column, i) => [column.trim(), record[i] ?? ''])));
+}
+
+/// Writes the members to the CSV or the JSON file by its extension
+export function writeMembersFile(filePath: string, members: ExportedMember[]) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  if (path.extname(filePath).toLowerCase() === '.json') {
+    return fs.writeFileSync(filePath, `${JSON.stringify(members, null, 2)}\n`);
+  }
+  fs.writeFileSync(filePath, toCsv([...EXPORT_COLUMNS], members.map(member => EXPORT_COLUMNS.map(column => member[column]))));
+}
+
+/// Validates the rows: the account is a non-zero address, the username isn't empty and the ipfs hash is
+/// bytes32 (or a text up to 31 bytes). The repeated accounts and usernames (case-insensitive) of the file are invalid
+export function validateMembers(records: Record<string, string>[]): { rows: MemberRow[]; invalid: RowIssue[] } {
+  const rows: MemberRow[] = [];
+  const invalid: RowIssue[] = [];
+  const accounts = new Set<string>();
+  const usernames = new Set<string>();
+
+  records.forEach((record, index) => {
+    const account = String(record.account ?? '').trim();
+    const username = String(record.username ?? '').trim();
+    const reject = (reason: string) => invalid.push({ index, account: account || undefined, reason });
+
+    if (!isAddress(account) || getAddress(account) === ZeroAddress) return reject('invalid account');
+    if (username === '') return reject('empty username');
+    const ipfsHash = toBytes32(String(record.ipfsHash ?? ''));
+    if (!ipfsHash) return reject('invalid ipfs hash');
+    if (accounts.has(getAddress(account))) return reject('duplicate account in the file');
+    if (usernames.has(username.toLowerCase())) return reject('duplicate username in the file');
+
+    accounts.add(getAddress(account));
+    usernames.add(username.toLowerCase());
+    rows.push({ index, account: getAddress(account), username, image: String(record.image ?? '').trim(), ipfsHash });
+  });
+  return { rows, invalid };
+}
+
+/// Splits off the rows that the contract would skip: the registered or removed accounts and the taken usernames
+export async function findDuplicates(
+  registration: Registration,
+  rows: MemberRow[]
+): Promise<{ rows: MemberRow[]; duplicates: RowIssue[] }> {
+  const fresh: MemberRow[] = [];
+  const duplicates: RowIssue[] = [];
+  for (const row of rows) {
+    const [registered, member, usernameOwner] = await Promise.all([
+      registration.registeredMembers(row.account),
+      registration.members(row.account),
+      registration.getAccountByUsername(row.username)
+    ]);
+    if (registered) duplicates.push({ index: row.index, account: row.account, reason: SKIP_REASONS[1] });
+    else if (Number(member.status) === 3) duplicates.push({ index: row.index, account: row.account, reason: SKIP_REASONS[2] });
+    else if (usernameOwner !== ZeroAddress && usernameOwner !== row.account) {
+      duplicates.push({ index: row.index, account: row.account, reason: SKIP_REASONS[3] });
+    } else fresh.push(row);
+  }
+  return { rows: fresh, duplicates };
+}
+
+/// Splits the rows into the batches whose estimated gas fits the budget. Every row is estimated as
+/// a single-row batch, the cost of the empty batch is counted once per batch
+export async function chunkByGas(registration: Registration, rows: MemberRow[], gasBudget: bigint): Promise<MemberRow[][]> {
+  const overhead = await registration.registerMembersBatchSkipDuplicates.estimateGas([], [], [], []);
+  const chunks: MemberRow[][] = [];
+  let chunk: MemberRow[] = [];
+  let chunkGas = overhead;
+
+  for (const row of rows) {
+    const rowGas = await registration.registerMembersBatchSkipDuplicates.estimateGas(...toBatchArgs([row])) - overhead;
+    if (overhead + rowGas > gasBudget) throw new Error(`Row ${row.index + 1} doesn't fit the gas budget ${gasBudget}`);
+    if (chunkGas + rowGas > gasBudget) {
+      chunks.push(chunk);
+      chunk = [];
+      chunkGas = overhead;
+    }
+    chunk.push(row);
+    chunkGas += rowGas;
+  }
+  if (chunk.length > 0) chunks.push(chunk);
+  return chunks;
+}
+
+/// Registers the rows through `registerMembersBatchSkipDuplicates` batch by batch. The progress is saved
+/// after every batch, so the import started again with the same state file continues after the failed batch
+export async function importMembers(
+  registration: Registration,
+  rows: MemberRow[],
+  { gasBudget = 8_000_000n, statePath, onBatch }: ImportOptions = {}
+): Promise<ImportState> {
+  const state = readImportState(statePath);
+  const done = new Set(state.done);
+  const pending = rows.filter(row => !done.has(row.index));
+
+  for (const batch of await chunkByGas(registration, pending, gasBudget)) {
+    const transaction = await registration.registerMembersBatchSkipDuplicates(...toBatchArgs(batch));
+    const receipt = await transaction.wait();
+
+    for (const log of receipt!.logs) {
+      const parsed = registration.interface.parseLog(log);
+      if (parsed?.name !== 'SkippedMember') continue;
+      const row = batch[Number(parsed.args.row)];
+      state.skipped.push({ index: row.index, account: row.account, reason: SKIP_REASONS[Number(parsed.args.reason)] });
+    }
+    state.done.push(...batch.map(row => row.index));
+    state.transactions.push(transaction.hash);
+    writeImportState(statePath, state);
+    if (onBatch) onBatch(batch, transaction.hash);
+  }
+  return state;
+}
+
+/// Reads all registered members page by page through `getMembers`
+export async function exportMembers(registration: Registration, pageSize = 100): Promise<ExportedMember[]> {
+  const blockTag = await registration.runner!.provider!.getBlockNumber();
+  const total = Number(await registration.membersCount({ blockTag }));
+  const members: ExportedMember[] = [];
+
+  for (let offset = 0; offset < total; offset += pageSize) {
+    const page = await registration.getMembers(offset, pageSize, { blockTag });
+    for (const member of page) {
+      members.push({
+        account: member.accountETH,
+        username: member.username,
+        image: member.image,
+        ipfsHash: member.ipfsHash,
+        registrationDate: member.registrationDate.toString(),
+        status: MEMBER_STATUSES[Number(member.status)],
+        verifiedOrganisation: String(member.verifiedOrganisation)
+      });
+    }
+  }
+  return members;
+}
+
+/// Parses the CSV with the quoted values (`"a, b"`, `""` as a quote) into the records
+export function parseCsv(content: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let value = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') quoted = false;
+      else value += char;
+    } else if (char === '"') quoted = true;
+    else if (char === ',') {
+      record.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      record.push(value);
+      records.push(record);
+      record = [];
+      value = '';
+    } else value += char;
+  }
+  if (value !== '' || record.length > 0) {
+    record.push(value);
+    records.push(record);
+  }
+  return records;
+}
+
+/// Formats the records as CSV with the header, quoting the values with commas, quotes and line breaks
+export function toCsv(header: string[], records: string[][]): string {
+  const quote = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  return [header, ...records].map(record => record.map(quote).join(',')).join('\n') + '\n';
+}
+
+function toBatchArgs(rows: MemberRow[]): [string[], string[], string[], string[]] {
+  return [rows.map(row => row.image), rows.map(row => row.username), rows.map(row => row.account), rows.map(row => row.ipfsHash)];
+}
+
+function toBytes32(value: string): string | undefined {
+  const trimmed = value.trim();
+  if (trimmed === '') return ZeroHash;
+  if (isHexString(trimmed, 32)) return trimmed;
+  if (trimmed.startsWith('0x') || Buffer.byteLength(trimmed) > 31) return undefined;
+  return encodeBytes32String(trimmed);
+}
+
+function readImportState(statePath?: string): ImportState {
+  if (statePath && fs.existsSync(statePath)) return JSON.parse(fs.readFileSync(statePath, 'utf8'));
+  return { done: [], skipped: [], transactions: [] };
+}
+
+function writeImportState(statePath: string | undefined, state: ImportState) {
+  if (!statePath) return;
+  fs.mkdirSync(path.dirname(statePath), { recursive: true });
+  fs.writeFileSync(statePath, `${JSON.stringify(state, null, 2)}\n`);
+}
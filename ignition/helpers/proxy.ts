@@ -0,0 +1,25 @@
+import { ArgumentType, IgnitionModuleBuilder } from '@nomicfoundation/ignition-core';
+
+/// Deploys the implementation behind `CoinBoxProxy` and initializes it in the proxy's constructor.
+/// The `ProxyAdmin` is auto-deployed by the proxy, its address is read from the `AdminChanged` event
+export function deployProxy<ContractNameT extends string>(
+  m: IgnitionModuleBuilder,
+  contractName: ContractNameT,
+  initializeArgs: ArgumentType[],
+  proxyAdminOwner: ArgumentType
+) {
+  const implementation = m.contract(contractName, [], { id: `${contractName}Impl` });
+  const initializeData = m.encodeFunctionCall(implementation, 'initialize', initializeArgs, {
+    id: `${contractName}Initialize`
+  });
+  const proxy = m.contract('CoinBoxProxy', [implementation, proxyAdminOwner, initializeData], {
+    id: `${contractName}Proxy`
+  });
+  const proxyAdminAddress = m.readEventArgument(proxy, 'AdminChanged', 'newAdmin', {
+    id: `${contractName}ProxyAdminAddress`
+  });
+  const proxyAdmin = m.contractAt('ProxyAdmin', proxyAdminAddress, { id: `${contractName}ProxyAdmin` });
+  const contract = m.contractAt(contractName, proxy, { id: contractName });
+
+  return { contract, implementation, proxy, proxyAdmin };
+}
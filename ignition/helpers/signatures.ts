@@ -0,0 +1,128 @@
+import { Signature, Signer, TypedDataDomain } from 'ethers';
+import { CoinBoxToken, DonationCampaigns } from '../../typechain-types';
+
+/// The signed EIP-2612 permit of CoinBoxToken
+export interface SignedPermit {
+  owner: string;
+  spender: string;
+  value: bigint;
+  deadline: bigint;
+  v: number;
+  r: string;
+  s: string;
+}
+
+/// The signed transfer of CoinBoxToken that is submitted with `transferBySig`
+export interface SignedTransfer {
+  from: string;
+  to: string;
+  amount: bigint;
+  deadline: bigint;
+  signature: string;
+}
+
+/// The signed donation that is submitted with `donateBySig`
+export interface SignedDonation {
+  campaignId: bigint;
+  donor: string;
+  amount: bigint;
+  deadline: bigint;
+  signature: string;
+}
+
+/// Reads the EIP-712 domain of the contract (ERC-5267)
+async function getDomain(contract: CoinBoxToken | DonationCampaigns): Promise<TypedDataDomain> {
+  const { name, version, chainId, verifyingContract } = await contract.eip712Domain();
+  return { name, version, chainId, verifyingContract };
+}
+
+/// Signs the EIP-2612 permit of CoinBoxToken.
+/// `permit` and `transferBySig` share the nonces, so pass `nonce` to sign both before submitting
+export async function signPermit(
+  token: CoinBoxToken,
+  owner: Signer,
+  spender: string,
+  value: bigint,
+  deadline: bigint,
+  nonce?: bigint
+): Promise<SignedPermit> {
+  const ownerAddress = await owner.getAddress();
+  const types = {
+    Permit: [
+      { name: 'owner', type: 'address' },
+      { name: 'spender', type: 'address' },
+      { name: 'value', type: 'uint256' },
+      { name: 'nonce', type: 'uint256' },
+      { name: 'deadline', type: 'uint256' }
+    ]
+  };
+  const message = {
+    owner: ownerAddress,
+    spender,
+    value,
+    nonce: nonce ?? await token.nonces(ownerAddress),
+    deadline
+  };
+  const { v, r, s } = Signature.from(await owner.signTypedData(await getDomain(token), types, message));
+  return { owner: ownerAddress, spender, value, deadline, v, r, s };
+}
+
+/// Signs the transfer of CoinBoxToken that a relayer submits with `transferBySig`
+export async function signTransfer(
+  token: CoinBoxToken,
+  from: Signer,
+  to: string,
+  amount: bigint,
+  deadline: bigint,
+  nonce?: bigint
+): Promise<SignedTransfer> {
+  const fromAddress = await from.getAddress();
+  const types = {
+    Transfer: [
+      { name: 'from', type: 'address' },
+      { name: 'to', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+      { name: 'nonce', type: 'uint256' },
+      { name: 'deadline', type: 'uint256' }
+    ]
+  };
+  const message = {
+    from: fromAddress,
+    to,
+    amount,
+    nonce: nonce ?? await token.nonces(fromAddress),
+    deadline
+  };
+  const signature = await from.signTypedData(await getDomain(token), types, message);
+  return { from: fromAddress, to, amount, deadline, signature };
+}
+
+/// Signs the donation that a relayer submits with `donateBySig`.
+/// The donor approves the tokens to the campaigns contract before, e.g. with `signPermit`
+export async function signDonation(
+  campaigns: DonationCampaigns,
+  donor: Signer,
+  campaignId: bigint,
+  amount: bigint,
+  deadline: bigint
+): Promise<SignedDonation> {
+  const donorAddress = await donor.getAddress();
+  const types = {
+    Donate: [
+      { name: 'donor', type: 'address' },
+      { name: 'campaignId', type: 'uint256' },
+      { name: 'amount', type: 'uint256' },
+      { name: 'nonce', type: 'uint256' },
+      { name: 'deadline', type: 'uint256' }
+    ]
+  };
+  const message = {
+    donor: donorAddress,
+    campaignId,
+    amount,
+    nonce: await campaigns.nonces(donorAddress),
+    deadline
+  };
+  const signature = await donor.signTypedData(await getDomain(campaigns), types, message);
+  return { campaignId, donor: donorAddress, amount, deadline, signature };
+}
@@ -0,0 +1,130 @@
+import { ZeroAddress } from 'ethers';
+import { StakeUIHelper, Staking } from '../../typechain-types';
+
+/// The state of the staker's cooldown
+export type CooldownState = 'none' | 'cooldown' | 'unstakeWindow' | 'expired';
+
+/// The staked WETH of a single staker
+export interface StakerReportRow {
+  account: string;
+  staked: bigint;
+  stakeTokenBalance: bigint;
+  rewardsToClaim: bigint;
+  cooldownStart: bigint;
+  cooldownState: CooldownState;
+}
+
+/// The complete report about the WETH stakers
+export interface StakersReport {
+  blockNumber: number;
+  timestamp: number;
+  totalStaked: bigint;
+  distributionEnd: bigint;
+  rewardsVaultBalance: bigint;
+  emissionsUntilEnd: bigint;
+  rewardsShortfall: bigint;
+  stakers: number;
+  inCooldown: number;
+  inUnstakeWindow: number;
+  rows: StakerReportRow[];
+}
+
+/// The options of the report
+export interface StakersReportOptions {
+  /// The amount of the accounts in a single view call
+  pageSize?: number;
+  /// The block to search the stakers from (usually the Staking deployment block)
+  fromBlock?: number;
+  /// The amount of the blocks in a single `eth_getLogs` request
+  blockRange?: number;
+}
+
+/// Collects every account that has ever received stkWETH (stakes and transfers) from the `Transfer` events
+export async function findStakeTokenHolders(
+  staking: Staking,
+  fromBlock: number,
+  toBlock: number,
+  blockRange: number
+): Promise<string[]> {
+  const accounts = new Set<string>();
+  for (let start = fromBlock; start <= toBlock; start += blockRange) {
+    const end = Math.min(start + blockRange - 1, toBlock);
+    const events = await staking.queryFilter(staking.filters.Transfer(), start, end);
+    for (const event of events) {
+      if (event.args.to !== ZeroAddress) accounts.add(event.args.to);
+    }
+  }
+  return [...accounts];
+}
+
+/// Builds the report about all WETH stakers at the latest block: pages the holders through
+/// `getUsersUIData` and `getStakersSummary` and adds the protocol-wide data of `getGlobalUIData`
+export async function buildStakersReport(
+  stakeUIHelper: StakeUIHelper,
+  staking: Staking,
+  { pageSize = 100, fromBlock = 0, blockRange = 10_000 }: StakersReportOptions = {}
+): Promise<StakersReport> {
+  const block = await staking.runner!.provider!.getBlock('latest');
+  if (!block) throw new Error('Latest block isn\'t available');
+  const blockTag = block.number;
+
+  const [global, cooldownSeconds, unstakeWindow] = await Promise.all([
+    stakeUIHelper.getGlobalUIData({ blockTag }),
+    staking.COOLDOWN_SECONDS({ blockTag }),
+    staking.UNSTAKE_WINDOW({ blockTag })
+  ]);
+  const holders = await findStakeTokenHolders(staking, fromBlock, blockTag, blockRange);
+
+  const report: StakersReport = {
+    blockNumber: block.number,
+    timestamp: block.timestamp,
+    totalStaked: global.totalStaked,
+    distributionEnd: global.distributionEnd,
+    rewardsVaultBalance: global.rewardsVaultBalance,
+    emissionsUntilEnd: global.emissionsUntilEnd,
+    rewardsShortfall: global.rewardsShortfall,
+    stakers: 0,
+    inCooldown: 0,
+    inUnstakeWindow: 0,
+    rows: []
+  };
+
+  for (let offset = 0; offset < holders.length; offset += pageSize) {
+    const page = holders.slice(offset, offset + pageSize);
+    const [usersData, summary] = await Promise.all([
+      stakeUIHelper.getUsersUIData(page, { blockTag }),
+      stakeUIHelper.getStakersSummary(page, { blockTag })
+    ]);
+
+    report.stakers += Number(summary.stakers);
+    report.inCooldown += Number(summary.inCooldown);
+    report.inUnstakeWindow += Number(summary.inUnstakeWindow);
+
+    usersData.forEach((data, i) => {
+      if (data.stakeTokenUserBalance === 0n) return;
+      report.rows.push({
+        account: page[i],
+        staked: data.generalStakedAmountByUser,
+        stakeTokenBalance: data.stakeTokenUserBalance,
+        rewardsToClaim: data.userIncentivesToClaim,
+        cooldownStart: data.userCooldown,
+        cooldownState: getCooldownState(data.userCooldown, cooldownSeconds, unstakeWindow, BigInt(block.timestamp))
+      });
+    });
+  }
+
+  return report;
+}
+
+/// Returns the state of the cooldown in the same way as `getStakersSummary` counts it
+export function getCooldownState(
+  cooldownStart: bigint,
+  cooldownSeconds: bigint,
+  unstakeWindow: bigint,
+  timestamp: bigint
+): CooldownState {
+  if (cooldownStart === 0n) return 'none';
+  const cooldownEnd = cooldownStart + cooldownSeconds;
+  if (timestamp <= cooldownEnd) return 'cooldown';
+  return timestamp - cooldownEnd <= unstakeWindow ? 'unstakeWindow' : 'expired';
+}
@@ -0,0 +1,264 @@
+import { ZeroAddress, dataSlice, getAddress } from 'ethers';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { DeploymentManifest, ProxyDeployment, UpgradeRecord } from './manifest';
+
+/// The ERC-1967 slots of the proxy admin and the implementation
+export const ADMIN_SLOT = '0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103';
+export const IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+
+/// The state variable of the solc storage layout
+export interface StorageEntry {
+  label: string;
+  slot: string;
+  offset: number;
+  type: string;
+  contract: string;
+}
+
+/// The type of the solc storage layout: `members` of the structs, `key`/`value` of the mappings, `base` of the arrays
+export interface StorageType {
+  label: string;
+  encoding: string;
+  numberOfBytes: string;
+  key?: string;
+  value?: string;
+  base?: string;
+  members?: StorageEntry[];
+}
+
+/// The storage layout of the contract as the compiler outputs it
+export interface StorageLayout {
+  storage: StorageEntry[];
+  types: Record<string, StorageType> | null;
+}
+
+/// The checked upgrade of the proxy
+export interface UpgradePlan {
+  name: string;
+  proxy: string;
+  /// The ProxyAdmin deployed by the proxy and its owner
+  proxyAdmin: string;
+  owner: string;
+  currentImplementation: string;
+  contract: string;
+  /// Where the deployed layout comes from: the manifest or the compiled reference contract
+  reference: string;
+  storageLayout: StorageLayout;
+  /// The incompatibilities of the layouts, the upgrade is refused if any
+  errors: string[];
+  /// The migration called through `upgradeAndCall`
+  call?: string;
+  data: string;
+}
+
+/// The options of the upgrade plan
+export interface UpgradeOptions {
+  /// The contract whose layout is deployed, overrides the layout of the manifest
+  reference?: string;
+  /// The function of the new implementation called right after the upgrade, e.g. `initializeV2(uint256)`
+  call?: string;
+  args?: unknown[];
+}
+
+/// Reads the storage layout of the compiled contract from its build info
+export async function getStorageLayout(hre: HardhatRuntimeEnvironment, contractName: string): Promise<StorageLayout> {
+  const artifact = await hre.artifacts.readArtifact(contractName);
+  const buildInfo = await hre.artifacts.getBuildInfo(`${artifact.sourceName}:${artifact.contractName}`);
+  const output = buildInfo?.output.contracts[artifact.sourceName][artifact.contractName] as { storageLayout?: StorageLayout };
+  if (!output?.storageLayout) {
+    throw new Error(`The storage layout of ${contractName} isn't compiled: enable the storageLayout output selection`);
+  }
+  return output.storageLayout;
+}
+
+/// Returns the address kept in the ERC-1967 slot of the proxy
+export async function readAddressSlot(hre: HardhatRuntimeEnvironment, proxy: string, slot: string): Promise<string> {
+  return getAddress(dataSlice(await hre.ethers.provider.getStorage(proxy, slot), 12));
+}
+
+/// Compares the storage layout of the new implementation with the deployed one. Every deployed variable must keep
+/// its slot, offset, name and a compatible type; the new variables are appended or take the slots of a `__gap`,
+/// which then has to end at the same slot. The structs may only be extended inside the mappings and the dynamic arrays
+export function compareStorageLayouts(original: StorageLayout, updated: StorageLayout): string[] {
+  const errors: string[] = [];
+  const originalTypes = original.types ?? {};
+  const updatedTypes = updated.types ?? {};
+
+  for (const entry of original.storage) {
+    if (isGap(entry)) {
+      errors.push(...compareGap(entry, originalTypes, updated.storage, updatedTypes));
+      continue;
+    }
+    const match = updated.storage.find(candidate => candidate.slot === entry.slot && candidate.offset === entry.offset);
+    if (!match) {
+      errors.push(`${entry.label} (slot ${entry.slot}) is deleted or moved`);
+      continue;
+    }
+    if (match.label !== entry.label) errors.push(`${entry.label} (slot ${entry.slot}) is replaced by ${match.label}`);
+    const typeError = compareTypes(originalTypes, entry.type, updatedTypes, match.type, false);
+    if (typeError) errors.push(`${entry.label} (slot ${entry.slot}): ${typeError}`);
+  }
+  return errors;
+}
+
+/// Checks the proxy and the storage layouts of the upgrade without sending anything. The deployed layout is the one
+/// recorded in the manifest or the one of the reference contract, the upgrade is refused without either
+export async function planUpgrade(
+  hre: HardhatRuntimeEnvironment,
+  manifest: DeploymentManifest,
+  name: string,
+  contract: string,
+  { reference, call, args = [] }: UpgradeOptions = {}
+): Promise<UpgradePlan> {
+  const deployment = getProxyDeployment(manifest, name);
+  const proxyAdmin = await readAddressSlot(hre, deployment.proxy, ADMIN_SLOT);
+  if (proxyAdmin === ZeroAddress) throw new Error(`${name} at ${deployment.proxy} isn't a transparent proxy`);
+  const owner = await (await hre.ethers.getContractAt('ProxyAdmin', proxyAdmin)).owner();
+
+  // the compiled source of the proxy may already be the new implementation, so its layout isn't the deployed one
+  if (!reference && !deployment.storageLayout) {
+    throw new Error(`The storage layout of ${name} isn't recorded in the manifest: pass the deployed contract as the reference`);
+  }
+  const original = reference ? await getStorageLayout(hre, reference) : deployment.storageLayout!;
+  const storageLayout = await getStorageLayout(hre, contract);
+  const { interface: contractInterface } = await hre.ethers.getContractFactory(contract);
+
+  return {
+    name,
+    proxy: deployment.proxy,
+    proxyAdmin,
+    owner,
+    currentImplementation: await readAddressSlot(hre, deployment.proxy, IMPLEMENTATION_SLOT),
+    contract,
+    reference: reference ?? 'manifest',
+    storageLayout,
+    errors: compareStorageLayouts(original, storageLayout),
+    call: call ? contractInterface.getFunction(call)!.format() : undefined,
+    data: call ? contractInterface.encodeFunctionData(call, args) : '0x'
+  };
+}
+
+/// Deploys the new implementation, upgrades the proxy through its ProxyAdmin with the migration call and records
+/// the implementation, its layout and the upgrade in the manifest. Refuses the incompatible layouts
+export async function upgradeProxy(
+  hre: HardhatRuntimeEnvironment,
+  manifest: DeploymentManifest,
+  plan: UpgradePlan
+): Promise<UpgradeRecord> {
+  if (plan.errors.length > 0) throw new Error(`The storage layout of ${plan.contract} is incompatible with ${plan.name}`);
+  const [signer] = await hre.ethers.getSigners();
+  if (signer.address !== plan.owner) {
+    throw new Error(`The signer ${signer.address} isn't the owner ${plan.owner} of the ProxyAdmin of ${plan.name}`);
+  }
+
+  const implementation = await hre.ethers.deployContract(plan.contract, signer);
+  await implementation.waitForDeployment();
+  const to = await implementation.getAddress();
+
+  const proxyAdmin = await hre.ethers.getContractAt('ProxyAdmin', plan.proxyAdmin, signer);
+  await proxyAdmin.upgradeAndCall.staticCall(plan.proxy, to, plan.data);
+  const transaction = await proxyAdmin.upgradeAndCall(plan.proxy, to, plan.data);
+  await transaction.wait();
+  if (await readAddressSlot(hre, plan.proxy, IMPLEMENTATION_SLOT) !== to) {
+    throw new Error(`The implementation of ${plan.name} isn't ${to} after the upgrade`);
+  }
+
+  const record: UpgradeRecord = {
+    from: plan.currentImplementation,
+    to,
+    contract: plan.contract,
+    call: plan.call,
+    transaction: transaction.hash,
+    timestamp: new Date().toISOString()
+  };
+  const deployment = getProxyDeployment(manifest, plan.name);
+  manifest.proxies[plan.name] = {
+    ...deployment,
+    implementation: to,
+    proxyAdmin: plan.proxyAdmin,
+    contract: plan.contract,
+    storageLayout: plan.storageLayout,
+    upgrades: [...(deployment.upgrades ?? []), record]
+  };
+  manifest.updatedAt = record.timestamp;
+  return record;
+}
+
+function getProxyDeployment(manifest: DeploymentManifest, name: string): ProxyDeployment {
+  const deployment = manifest.proxies[name];
+  if (!deployment) throw new Error(`${name} isn't a proxy of the manifest: ${Object.keys(manifest.proxies).join(', ')}`);
+  return deployment;
+}
+
+function isGap(entry: StorageEntry): boolean {
+  return entry.label === '__gap' || entry.label.startsWith('__gap_');
+}
+
+function slotsOf(entry: StorageEntry, types: Record<string, StorageType>): bigint {
+  return (BigInt(types[entry.type].numberOfBytes) + 31n) / 32n;
+}
+
+/// The new variables may take the slots of the gap, the rest of the gap has to end where the deployed one ends
+function compareGap(
+  gap: StorageEntry,
+  originalTypes: Record<string, StorageType>,
+  updated: StorageEntry[],
+  updatedTypes: Record<string, StorageType>
+): string[] {
+  const start = BigInt(gap.slot);
+  const end = start + slotsOf(gap, originalTypes);
+  const errors: string[] = [];
+
+  for (const entry of updated) {
+    const entryStart = BigInt(entry.slot);
+    const entryEnd = entryStart + slotsOf(entry, updatedTypes);
+    if (entryEnd <= start || entryStart >= end) continue;
+    if (entryStart < start) errors.push(`${entry.label} (slot ${entry.slot}) overlaps the gap of ${gap.contract} at slot ${gap.slot}`);
+    else if (isGap(entry) && entryEnd !== end) errors.push(`the gap at slot ${entry.slot} ends at slot ${entryEnd} instead of ${end}`);
+    else if (!isGap(entry) && entryEnd > end) errors.push(`${entry.label} (slot ${entry.slot}) overflows the gap ending at slot ${end}`);
+  }
+  return errors;
+}
+
+function compareTypes(
+  originalTypes: Record<string, StorageType>,
+  originalId: string,
+  updatedTypes: Record<string, StorageType>,
+  updatedId: string,
+  extendable: boolean
+): string | undefined {
+  const original = originalTypes[originalId];
+  const updated = updatedTypes[updatedId];
+  const changed = `${original.label} is changed to ${updated.label}`;
+  if (original.encoding !== updated.encoding) return changed;
+
+  if (original.encoding === 'mapping') {
+    if (originalTypes[original.key!].label !== updatedTypes[updated.key!].label) return changed;
+    return compareTypes(originalTypes, original.value!, updatedTypes, updated.value!, true);
+  }
+  if (original.encoding === 'dynamic_array' && original.base) {
+    return compareTypes(originalTypes, original.base, updatedTypes, updated.base!, true);
+  }
+  if (!extendable && original.numberOfBytes !== updated.numberOfBytes) {
+    return `${changed} (${original.numberOfBytes} bytes to ${updated.numberOfBytes})`;
+  }
+  if (original.members) {
+    if (!updated.members) return changed;
+    for (const member of original.members) {
+      const match = updated.members.find(candidate => candidate.slot === member.slot && candidate.offset === member.offset);
+      if (!match || match.label !== member.label) return `${original.label}.${member.label} is deleted, moved or renamed`;
+      const memberError = compareTypes(originalTypes, member.type, updatedTypes, match.type, false);
+      if (memberError) return `${original.label}.${member.label}: ${memberError}`;
+    }
+    return undefined;
+  }
+  if (original.base) return compareTypes(originalTypes, original.base, updatedTypes, updated.base!, false);
+  if (original.label !== updated.label && !(isAddressType(original) && isAddressType(updated))) return changed;
+  if (original.numberOfBytes !== updated.numberOfBytes) return changed;
+  return undefined;
+}
+
+/// The contract types are stored as the addresses
+function isAddressType(type: StorageType): boolean {
+  return type.label === 'address' || type.label.startsWith('contract ');
+}
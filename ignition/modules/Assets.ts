@@ -1,24 +1,42 @@
-import { ethers } from 'hardhat';
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+import { id, parseUnits } from 'ethers';
+import { FAUCET_WINDOW } from '../helpers/constants';
 
-async function main() {
-  console.log('Deploying process: Assets ------>');
-  
-  const BinanceCoin = await (await ethers.getContractFactory('BinanceCoin')).deploy();
-  const Bitcoin = await (await ethers.getContractFactory('Bitcoin')).deploy();
-  const Ethereum = await (await ethers.getContractFactory('Ethereum')).deploy();
-  const Solana = await (await ethers.getContractFactory('Solana')).deploy();
-  const Toncoin = await (await ethers.getContractFactory('Toncoin')).deploy();
-  
-  console.log('BinanceCoin address: %s', BinanceCoin.target);
-  console.log('Bitcoin address: %s', Bitcoin.target);
-  console.log('Ethereum address: %s', Ethereum.target);
-  console.log('Solana address: %s', Solana.target);
-  console.log('Toncoin address: %s', Toncoin.target);
-}
+/// The asset tokens: name, symbol, decimals and the amount handed out by the faucet per claim
+const ASSETS = {
+  binanceCoin: { id: 'BinanceCoin', name: 'Binance Coin', symbol: 'BNB', decimals: 18, drip: '1' },
+  bitcoin: { id: 'Bitcoin', name: 'Bitcoin', symbol: 'BTC', decimals: 8, drip: '0.01' },
+  ethereum: { id: 'Ethereum', name: 'Ethereum', symbol: 'ETH', decimals: 18, drip: '0.1' },
+  solana: { id: 'Solana', name: 'Solana', symbol: 'SOL', decimals: 9, drip: '10' },
+  toncoin: { id: 'Toncoin', name: 'Toncoin', symbol: 'TON', decimals: 9, drip: '100' }
+} as const;
 
-main()
-	.then(() => process.exit(0))
-	.catch(error => {
-		console.error(error);
-		process.exit(1);
-	});
+const INITIAL_SUPPLY = '1000000';
+
+/// Deploys every asset token and the faucet, grants the faucet the minter role of the assets
+/// and sets the faucet's limit of every asset
+export default buildModule('AssetsModule', (m) => {
+  const owner = m.getParameter('owner', m.getAccount(0));
+  const faucetWindow = m.getParameter('faucetWindow', FAUCET_WINDOW);
+
+  const assetFaucet = m.contract('AssetFaucet', [owner]);
+
+  const deployAsset = (asset: (typeof ASSETS)[keyof typeof ASSETS]) => {
+    const token = m.contract('AssetToken', [
+      asset.name, asset.symbol, asset.decimals, parseUnits(INITIAL_SUPPLY, asset.decimals), owner
+    ], { id: asset.id });
+    m.call(token, 'grantRole', [id('MINTER_ROLE'), assetFaucet], { id: `${asset.id}GrantMinter` });
+    m.call(assetFaucet, 'setDrip', [token, parseUnits(asset.drip, asset.decimals), faucetWindow], {
+      id: `${asset.id}SetDrip`
+    });
+    return token;
+  };
+
+  const binanceCoin = deployAsset(ASSETS.binanceCoin);
+  const bitcoin = deployAsset(ASSETS.bitcoin);
+  const ethereum = deployAsset(ASSETS.ethereum);
+  const solana = deployAsset(ASSETS.solana);
+  const toncoin = deployAsset(ASSETS.toncoin);
+
+  return { binanceCoin, bitcoin, ethereum, solana, toncoin, assetFaucet };
+});
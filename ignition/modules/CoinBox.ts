@@ -0,0 +1,24 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+import AssetsModule from './Assets';
+import CoinBoxTokenModule from './CoinBoxToken';
+import DonationCampaignsModule from './DonationCampaigns';
+import PriceOracleRegistryModule from './PriceOracleRegistry';
+import RegistrationModule from './Registration';
+import StakeUIHelperModule from './StakeUIHelper';
+import StakingModule from './Staking';
+import StakingPoolsModule from './StakingPools';
+
+/// The whole CoinBox system: token -> staking (with asset pools) -> price oracle registry -> UI helper
+/// -> registration -> campaigns
+export default buildModule('CoinBoxModule', (m) => {
+  const token = m.useModule(CoinBoxTokenModule);
+  const staking = m.useModule(StakingModule);
+  const pools = m.useModule(StakingPoolsModule);
+  const oracle = m.useModule(PriceOracleRegistryModule);
+  const { stakeUIHelper } = m.useModule(StakeUIHelperModule);
+  const registration = m.useModule(RegistrationModule);
+  const assets = m.useModule(AssetsModule);
+  const campaigns = m.useModule(DonationCampaignsModule);
+
+  return { ...token, ...staking, ...pools, ...oracle, stakeUIHelper, ...registration, ...assets, ...campaigns };
+});
@@ -0,0 +1,24 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+import { deployProxy } from '../helpers/proxy';
+import AssetsModule from './Assets';
+import CoinBoxTokenModule from './CoinBoxToken';
+import RegistrationModule from './Registration';
+
+export default buildModule('DonationCampaignsModule', (m) => {
+  const { coinBoxToken } = m.useModule(CoinBoxTokenModule);
+  const { registration } = m.useModule(RegistrationModule);
+  const { bitcoin, ethereum, solana, binanceCoin, toncoin } = m.useModule(AssetsModule);
+
+  const owner = m.getParameter('owner', m.getAccount(0));
+
+  const { contract, implementation, proxy, proxyAdmin } = deployProxy(m, 'DonationCampaigns', [
+    registration, coinBoxToken, [bitcoin, ethereum, solana, binanceCoin, toncoin]
+  ], owner);
+
+  return {
+    donationCampaigns: contract,
+    donationCampaignsImpl: implementation,
+    donationCampaignsProxy: proxy,
+    donationCampaignsProxyAdmin: proxyAdmin
+  };
+});
@@ -0,0 +1,17 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+import { deployProxy } from '../helpers/proxy';
+
+/// Deploys the price oracle registry behind the proxy.
+/// The sources of the assets are set later by the owner with `setAssetSources`
+export default buildModule('PriceOracleRegistryModule', (m) => {
+  const owner = m.getParameter('owner', m.getAccount(0));
+
+  const { contract, implementation, proxy, proxyAdmin } = deployProxy(m, 'PriceOracleRegistry', [owner], owner);
+
+  return {
+    priceOracleRegistry: contract,
+    priceOracleRegistryImpl: implementation,
+    priceOracleRegistryProxy: proxy,
+    priceOracleRegistryProxyAdmin: proxyAdmin
+  };
+});
@@ -1,22 +1,15 @@
-import { ethers } from 'hardhat';
-import { Registration } from '../../typechain-types';
-import { OWNER } from '../helpers/constants';
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+import { deployProxy } from '../helpers/proxy';
 
-async function main() {
-  console.log('Deploying process: Registration system ------>');
-  const RegistrationImpl = await (await ethers.getContractFactory('Registration')).deploy();
-  const RegistrationEncodedInitialize = RegistrationImpl.interface.encodeFunctionData('initialize', []);
-  const RegistrationProxy = await (await ethers.getContractFactory('CoinBoxProxy')).deploy(
-      RegistrationImpl.target , OWNER, RegistrationEncodedInitialize
-  );
-  const registry = RegistrationImpl.attach(RegistrationProxy.target) as Registration;
-  console.log('Registration implementation address: %s', RegistrationImpl.target);
-  console.log('Registration Proxy address: %s', registry.target);
-}
+export default buildModule('RegistrationModule', (m) => {
+  const owner = m.getParameter('owner', m.getAccount(0));
 
-main()
-	.then(() => process.exit(0))
-	.catch(error => {
-		console.error(error);
-		process.exit(1);
-	});
+  const { contract, implementation, proxy, proxyAdmin } = deployProxy(m, 'Registration', [], owner);
+
+  return {
+    registration: contract,
+    registrationImpl: implementation,
+    registrationProxy: proxy,
+    registrationProxyAdmin: proxyAdmin
+  };
+});
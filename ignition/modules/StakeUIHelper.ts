@@ -0,0 +1,16 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+import CoinBoxTokenModule from './CoinBoxToken';
+import PriceOracleRegistryModule from './PriceOracleRegistry';
+import StakingModule from './Staking';
+
+export default buildModule('StakeUIHelperModule', (m) => {
+  const { coinBoxToken } = m.useModule(CoinBoxTokenModule);
+  const { staking } = m.useModule(StakingModule);
+  const { priceOracleRegistry } = m.useModule(PriceOracleRegistryModule);
+  const weth = m.getParameter('weth');
+  const router = m.staticCall(coinBoxToken, 'uniswapV2Router');
+
+  const stakeUIHelper = m.contract('StakeUIHelper', [weth, staking, router, priceOracleRegistry]);
+
+  return { stakeUIHelper };
+});
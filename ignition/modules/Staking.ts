@@ -1,29 +1,29 @@
-import { ethers } from 'hardhat';
-import { Staking } from '../../typechain-types';
-import { COOLDOWN_SECONDS, CoinBoxToken, DISTRIBUTION_DURATION, OWNER, UNSTAKE_WINDOW, WETH } from '../helpers/constants';
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+import { COOLDOWN_SECONDS, DISTRIBUTION_DURATION, UNSTAKE_WINDOW } from '../helpers/constants';
+import { deployProxy } from '../helpers/proxy';
+import CoinBoxTokenModule from './CoinBoxToken';
 
-async function main() {
-  console.log('Deploying process: Staking system ------>');
-  const StakingImpl = await (await ethers.getContractFactory('Staking')).deploy();
+export default buildModule('StakingModule', (m) => {
+  const { coinBoxToken } = m.useModule(CoinBoxTokenModule);
 
-  const StakingEncodedInitialize = StakingImpl.interface.encodeFunctionData('initialize', [
-    WETH, CoinBoxToken, COOLDOWN_SECONDS, UNSTAKE_WINDOW, OWNER, OWNER, DISTRIBUTION_DURATION
-  ]);
-  const StakingProxy = await (await ethers.getContractFactory('CoinBoxProxy')).deploy(
-    StakingImpl.target , OWNER, StakingEncodedInitialize
-  );
-  const staking = StakingImpl.attach(StakingProxy) as Staking;
-  
-  console.log('Staking implementation address: %s', StakingImpl.target);
-  console.log('Staking Proxy address: %s', StakingProxy.target);
+  const owner = m.getParameter('owner', m.getAccount(0));
+  const weth = m.getParameter('weth');
+  const rewardsVault = m.getParameter('rewardsVault', m.getAccount(0));
+  const emissionManager = m.getParameter('emissionManager', m.getAccount(0));
+  const cooldownSeconds = m.getParameter('cooldownSeconds', COOLDOWN_SECONDS);
+  const unstakeWindow = m.getParameter('unstakeWindow', UNSTAKE_WINDOW);
+  const distributionDuration = m.getParameter('distributionDuration', DISTRIBUTION_DURATION);
 
-  const stakingUI = await (await ethers.getContractFactory('StakeUIHelper')).deploy(WETH, staking.target);
-  console.log('Staking UI Helper implementation address: %s', stakingUI.target);
-}
+  const { contract, implementation, proxy, proxyAdmin } = deployProxy(m, 'Staking', [
+    weth, coinBoxToken, cooldownSeconds, unstakeWindow, rewardsVault, emissionManager, distributionDuration
+  ], owner);
+  // the rewards are restaked through the router of the token's pair
+  m.call(contract, 'setSwapRouter', [m.staticCall(coinBoxToken, 'uniswapV2Router')]);
 
-main()
-	.then(() => process.exit(0))
-	.catch(error => {
-		console.error(error);
-		process.exit(1);
-	});
+  return {
+    staking: contract,
+    stakingImpl: implementation,
+    stakingProxy: proxy,
+    stakingProxyAdmin: proxyAdmin
+  };
+});
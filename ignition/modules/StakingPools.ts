@@ -0,0 +1,29 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+import { ArgumentType } from '@nomicfoundation/ignition-core';
+import { COOLDOWN_SECONDS, UNSTAKE_WINDOW } from '../helpers/constants';
+import AssetsModule from './Assets';
+import StakingModule from './Staking';
+
+/// Adds the staking pool with own receipt token for every asset token.
+/// The emissions of the pools are configured later by the emission manager
+export default buildModule('StakingPoolsModule', (m) => {
+  const { staking } = m.useModule(StakingModule);
+  const assets = m.useModule(AssetsModule);
+
+  const cooldownSeconds = m.getParameter('cooldownSeconds', COOLDOWN_SECONDS);
+  const unstakeWindow = m.getParameter('unstakeWindow', UNSTAKE_WINDOW);
+
+  const deployPool = (id: string, asset: ArgumentType, name: string, symbol: string) => {
+    const receiptToken = m.contract('StakedAssetToken', [name, symbol, staking, asset], { id });
+    m.call(staking, 'addPool', [receiptToken, cooldownSeconds, unstakeWindow], { id: `${id}AddPool` });
+    return receiptToken;
+  };
+
+  const stakedBinanceCoin = deployPool('StakedBinanceCoin', assets.binanceCoin, 'Staked Binance Coin', 'stkBNB');
+  const stakedBitcoin = deployPool('StakedBitcoin', assets.bitcoin, 'Staked Bitcoin', 'stkBTC');
+  const stakedEthereum = deployPool('StakedEthereum', assets.ethereum, 'Staked Ethereum', 'stkETH');
+  const stakedSolana = deployPool('StakedSolana', assets.solana, 'Staked Solana', 'stkSOL');
+  const stakedToncoin = deployPool('StakedToncoin', assets.toncoin, 'Staked Toncoin', 'stkTON');
+
+  return { stakedBinanceCoin, stakedBitcoin, stakedEthereum, stakedSolana, stakedToncoin };
+});
@@ -0,0 +1,87 @@
+import fs from 'fs';
+import path from 'path';
+import hre, { ethers, ignition, network } from 'hardhat';
+import CoinBoxModule from '../modules/CoinBox';
+import { DeploymentManifest, writeManifest } from '../helpers/manifest';
+import { getStorageLayout } from '../helpers/upgrade';
+
+/// Deploys the whole CoinBox system with the parameters of the network
+/// and writes the manifest of all proxy and implementation addresses with the storage layouts of the implementations
+async function main() {
+  console.log('Deploying process: CoinBox system on %s ------>', network.name);
+  const parametersPath = path.join(__dirname, '..', 'parameters', `${network.name}.json`);
+  const parameters = fs.existsSync(parametersPath) ? JSON.parse(fs.readFileSync(parametersPath, 'utf8')) : {};
+
+  const deployed = await ignition.deploy(CoinBoxModule, { parameters });
+
+  const manifest: DeploymentManifest = {
+    network: network.name,
+    chainId: Number((await ethers.provider.getNetwork()).chainId),
+    updatedAt: new Date().toISOString(),
+    proxies: {
+      CoinBoxToken: {
+        proxy: await deployed.coinBoxTokenProxy.getAddress(),
+        implementation: await deployed.coinBoxTokenImpl.getAddress(),
+        proxyAdmin: await deployed.coinBoxTokenProxyAdmin.getAddress()
+      },
+      Staking: {
+        proxy: await deployed.stakingProxy.getAddress(),
+        implementation: await deployed.stakingImpl.getAddress(),
+        proxyAdmin: await deployed.stakingProxyAdmin.getAddress()
+      },
+      Registration: {
+        proxy: await deployed.registrationProxy.getAddress(),
+        implementation: await deployed.registrationImpl.getAddress(),
+        proxyAdmin: await deployed.registrationProxyAdmin.getAddress()
+      },
+      DonationCampaigns: {
+        proxy: await deployed.donationCampaignsProxy.getAddress(),
+        implementation: await deployed.donationCampaignsImpl.getAddress(),
+        proxyAdmin: await deployed.donationCampaignsProxyAdmin.getAddress()
+      },
+      PriceOracleRegistry: {
+        proxy: await deployed.priceOracleRegistryProxy.getAddress(),
+        implementation: await deployed.priceOracleRegistryImpl.getAddress(),
+        proxyAdmin: await deployed.priceOracleRegistryProxyAdmin.getAddress()
+      }
+    },
+    contracts: {
+      StakeUIHelper: await deployed.stakeUIHelper.getAddress(),
+      BinanceCoin: await deployed.binanceCoin.getAddress(),
+      Bitcoin: await deployed.bitcoin.getAddress(),
+      Ethereum: await deployed.ethereum.getAddress(),
+      Solana: await deployed.solana.getAddress(),
+      Toncoin: await deployed.toncoin.getAddress(),
+      AssetFaucet: await deployed.assetFaucet.getAddress(),
+      StakedBinanceCoin: await deployed.stakedBinanceCoin.getAddress(),
+      StakedBitcoin: await deployed.stakedBitcoin.getAddress(),
+      StakedEthereum: await deployed.stakedEthereum.getAddress(),
+      StakedSolana: await deployed.stakedSolana.getAddress(),
+      StakedToncoin: await deployed.stakedToncoin.getAddress()
+    }
+  };
+
+  // the proxies are named after their contracts, the upgrades are checked against these layouts
+  for (const [name, deployment] of Object.entries(manifest.proxies)) {
+    deployment.contract = name;
+    deployment.storageLayout = await getStorageLayout(hre, name);
+  }
+
+  for (const [name, addresses] of Object.entries(manifest.proxies)) {
+    console.log('%s Proxy address: %s (implementation: %s)', name, addresses.proxy, addresses.implementation);
+  }
+  for (const [name, address] of Object.entries(manifest.contracts)) {
+    console.log('%s address: %s', name, address);
+  }
+
+  if (network.name !== 'hardhat') {
+    console.log('Deployment manifest: %s', writeManifest(manifest));
+  }
+}
+
+main()
+	.then(() => process.exit(0))
+	.catch(error => {
+		console.error(error);
+		process.exit(1);
+	});
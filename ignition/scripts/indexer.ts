@@ -0,0 +1,47 @@
+import path from 'path';
+import { ethers, network } from 'hardhat';
+import { INDEXER_DIR } from '../helpers/constants';
+import { readManifest } from '../helpers/manifest';
+import { CoinBoxIndexer, SyncResult } from '../helpers/indexer/indexer';
+import { getFeesPerDay } from '../helpers/indexer/queries';
+import { JsonIndexerStore } from '../helpers/indexer/store';
+
+/// Indexes the events of the deployed system into `deployments/indexer/<network>.json`.
+/// `INDEXER_FROM_BLOCK` is the block of the first deployment, `INDEXER_CONFIRMATIONS` keeps the indexer
+/// behind the head and `INDEXER_FOLLOW=true` keeps following the chain until the process is stopped
+async function main() {
+  const manifest = readManifest(network.name);
+  const indexer = new CoinBoxIndexer(
+    {
+      registration: await ethers.getContractAt('Registration', manifest.proxies.Registration.proxy),
+      staking: await ethers.getContractAt('Staking', manifest.proxies.Staking.proxy),
+      token: await ethers.getContractAt('CoinBoxToken', manifest.proxies.CoinBoxToken.proxy)
+    },
+    new JsonIndexerStore(path.join(__dirname, '..', '..', INDEXER_DIR, `${network.name}.json`)),
+    {
+      startBlock: Number(process.env.INDEXER_FROM_BLOCK ?? 0),
+      confirmations: Number(process.env.INDEXER_CONFIRMATIONS ?? 0)
+    }
+  );
+
+  const log = ({ rolledBackTo, events, lastBlock }: SyncResult) => {
+    if (rolledBackTo !== undefined) console.log(`Reorg: rolled back to the block ${rolledBackTo}`);
+    console.log(`Indexed ${events} events up to the block ${lastBlock}`);
+  };
+
+  if (process.env.INDEXER_FOLLOW === 'true') {
+    process.on('SIGINT', () => indexer.stop());
+    return indexer.follow(log);
+  }
+
+  log(await indexer.sync());
+  const fees = getFeesPerDay(indexer.store.getEvents());
+  console.log(JSON.stringify(fees, (_, value) => typeof value === 'bigint' ? value.toString() : value, 2));
+}
+
+main()
+	.then(() => process.exit(0))
+	.catch(error => {
+		console.error(error);
+		process.exit(1);
+	});
@@ -0,0 +1,23 @@
+import { ethers, network } from 'hardhat';
+import { readManifest } from '../helpers/manifest';
+import { buildStakersReport } from '../helpers/stakersReport';
+
+/// Prints the report about all WETH stakers of the deployed system as JSON.
+/// `REPORT_FROM_BLOCK` limits the search of the stakers (the Staking deployment block)
+async function main() {
+  const manifest = readManifest(network.name);
+  const staking = await ethers.getContractAt('Staking', manifest.proxies.Staking.proxy);
+  const stakeUIHelper = await ethers.getContractAt('StakeUIHelper', manifest.contracts.StakeUIHelper);
+
+  const report = await buildStakersReport(stakeUIHelper, staking, {
+    fromBlock: Number(process.env.REPORT_FROM_BLOCK ?? 0)
+  });
+  console.log(JSON.stringify(report, (_, value) => typeof value === 'bigint' ? value.toString() : value, 2));
+}
+
+main()
+	.then(() => process.exit(0))
+	.catch(error => {
+		console.error(error);
+		process.exit(1);
+	});
@@ -0,0 +1,166 @@
+import { formatEther, parseEther } from 'ethers';
+import { task, types } from 'hardhat/config';
+import { HardhatPluginError } from 'hardhat/plugins';
+import { CoinBoxToken } from '../../typechain-types';
+import { loadManifest } from '../helpers/manifest';
+import {
+  ChangePlan,
+  formatDiffs,
+  getChangeStatus,
+  getVaultStatus,
+  listExclusions,
+  planExclusionChanges,
+  planFeeChanges,
+  planStakingConfig,
+  resolveDistributionAsset,
+  simulateChange,
+  withDecodedErrors
+} from '../helpers/admin';
+
+/// The admin tasks of the deployed system. Every task reads the addresses from `deployments/<network>.json`
+/// (or `--manifest`), prints the diff of the current and the proposed state and changes nothing without
+/// `--queue`/`--execute`. The reverts are decoded into the custom errors of CoinBoxToken and Staking
+
+/// The contracts whose custom errors the admin tasks decode
+const ADMIN_CONTRACTS = ['CoinBoxToken', 'Staking'];
+
+/// Prints the plan of the timelocked changes and queues or executes them
+async function runTimelocked(token: CoinBoxToken, plan: ChangePlan, { queue, execute }: { queue: boolean; execute: boolean }) {
+  console.log(formatDiffs(plan.diffs));
+  if (plan.changes.length === 0) return console.log('Nothing to change');
+
+  for (const change of plan.changes) {
+    await simulateChange(token, change);
+    const { status, eta } = await getChangeStatus(token, change);
+    console.log(`${change.method}(${change.args.join(', ')}): ${status}${eta ? ` (eta ${eta})` : ''}, id ${change.id}`);
+
+    if (queue) {
+      if (status === 'expired') await (await token.cancelChange(change.id)).wait();
+      if (status === 'notQueued' || status === 'expired') {
+        await (await token.queueChange(change.data)).wait();
+        console.log(`  queued, executable in ${await token.timelockDelay()} seconds`);
+      }
+    } else if (execute) {
+      if (status !== 'ready') throw new Error(`${change.method} isn't ready to execute: ${status}`);
+      await (await token.executeChange(change.data)).wait();
+      console.log('  executed');
+    }
+  }
+  if (!queue && !execute) console.log('Dry run: pass --queue to queue the changes and --execute to execute them');
+}
+
+task('coinbox:fees:set', 'Sets the swap, transfer and charity fee percents of CoinBoxToken through the timelock')
+  .addOptionalParam('swapLiquidity', 'The liquidity fee of the swaps', undefined, types.int)
+  .addOptionalParam('swapTax', 'The tax fee of the swaps', undefined, types.int)
+  .addOptionalParam('swapCharity', 'The charity fee of the swaps', undefined, types.int)
+  .addOptionalParam('transferLiquidity', 'The liquidity fee of the transfers', undefined, types.int)
+  .addOptionalParam('transferTax', 'The tax fee of the transfers', undefined, types.int)
+  .addOptionalParam('transferCharity', 'The charity fee of the transfers', undefined, types.int)
+  .addOptionalParam('manifest', 'The path of the deployment manifest')
+  .addFlag('queue', 'Queues the changes')
+  .addFlag('execute', 'Executes the queued changes after the timelock delay')
+  .setAction(async (args, hre) => {
+    const manifest = loadManifest(hre.network.name, args.manifest);
+    const token = await hre.ethers.getContractAt('CoinBoxToken', manifest.proxies.CoinBoxToken.proxy);
+    return withDecodedErrors(hre, ADMIN_CONTRACTS, async () => {
+      const plan = await planFeeChanges(token, args);
+      await runTimelocked(token, plan, args);
+      return plan;
+    });
+  });
+
+task('coinbox:exclusions:list', 'Lists the accounts excluded from the fees and the rewards of CoinBoxToken')
+  .addOptionalParam('fromBlock', 'The block to search the exclusion events from', 0, types.int)
+  .addOptionalParam('accounts', 'The comma separated accounts to check besides the events')
+  .addOptionalParam('manifest', 'The path of the deployment manifest')
+  .setAction(async (args, hre) => {
+    const manifest = loadManifest(hre.network.name, args.manifest);
+    const token = await hre.ethers.getContractAt('CoinBoxToken', manifest.proxies.CoinBoxToken.proxy);
+    const exclusions = await listExclusions(token, {
+      fromBlock: args.fromBlock,
+      accounts: args.accounts ? args.accounts.split(',').map((account: string) => account.trim()) : []
+    });
+    console.log('Excluded from fee:\n' + exclusions.fee.map(account => `  ${account}`).join('\n'));
+    console.log('Excluded from reward:\n' + exclusions.reward.map(account => `  ${account}`).join('\n'));
+    return exclusions;
+  });
+
+task('coinbox:exclusions:set', 'Excludes the account from or includes it in the fees and the rewards through the timelock')
+  .addParam('account', 'The account')
+  .addOptionalParam('fee', 'Whether the account is excluded from the fees', undefined, types.boolean)
+  .addOptionalParam('reward', 'Whether the account is excluded from the rewards', undefined, types.boolean)
+  .addOptionalParam('manifest', 'The path of the deployment manifest')
+  .addFlag('queue', 'Queues the changes')
+  .addFlag('execute', 'Executes the queued changes after the timelock delay')
+  .setAction(async (args, hre) => {
+    const manifest = loadManifest(hre.network.name, args.manifest);
+    const token = await hre.ethers.getContractAt('CoinBoxToken', manifest.proxies.CoinBoxToken.proxy);
+    return withDecodedErrors(hre, ADMIN_CONTRACTS, async () => {
+      const plan = await planExclusionChanges(token, args.account, args);
+      await runTimelocked(token, plan, args);
+      return plan;
+    });
+  });
+
+task('coinbox:staking:configure', 'Sets the emission per second of the staking distribution')
+  .addOptionalParam('asset', 'WETH, the name of the receipt token in the manifest or the address', 'WETH')
+  .addParam('emission', 'The emission of the reward tokens per second, in tokens')
+  .addOptionalParam('manifest', 'The path of the deployment manifest')
+  .addFlag('execute', 'Sends configureAssets')
+  .setAction(async (args, hre) => {
+    const manifest = loadManifest(hre.network.name, args.manifest);
+    const staking = await hre.ethers.getContractAt('Staking', manifest.proxies.Staking.proxy);
+    return withDecodedErrors(hre, ADMIN_CONTRACTS, async () => {
+      const asset = resolveDistributionAsset(manifest, args.asset);
+      const plan = await planStakingConfig(staking, asset, parseEther(args.emission));
+      console.log(formatDiffs(plan.diffs));
+
+      await staking.configureAssets.staticCall([plan.config]);
+      if (args.execute) {
+        await (await staking.configureAssets([plan.config])).wait();
+        console.log('Configured');
+      } else {
+        console.log('Dry run: pass --execute to send configureAssets');
+      }
+      return plan;
+    });
+  });
+
+task('coinbox:vault:status', 'Shows the rewards vault against the emissions until the distribution end')
+  .addOptionalParam('manifest', 'The path of the deployment manifest')
+  .setAction(async (args, hre) => {
+    const manifest = loadManifest(hre.network.name, args.manifest);
+    const staking = await hre.ethers.getContractAt('Staking', manifest.proxies.Staking.proxy);
+    const stakeUIHelper = await hre.ethers.getContractAt('StakeUIHelper', manifest.contracts.StakeUIHelper);
+    const status = await getVaultStatus(staking, stakeUIHelper);
+
+    console.log(`Rewards vault: ${status.vault}`);
+    console.log(`  balance: ${formatEther(status.balance)}`);
+    console.log(`  allowance to the staking: ${formatEther(status.allowance)}`);
+    console.log(`  emissions until ${new Date(Number(status.distributionEnd) * 1000).toISOString()}: ${formatEther(status.emissionsUntilEnd)}`);
+    console.log(`  shortfall: ${formatEther(status.shortfall)}`);
+    return status;
+  });
+
+task('coinbox:vault:approve', 'Tops up the allowance of the rewards vault to the staking')
+  .addOptionalParam('amount', 'The allowance in tokens, the emissions until the distribution end by default')
+  .addOptionalParam('manifest', 'The path of the deployment manifest')
+  .addFlag('execute', 'Sends the approve from the vault')
+  .setAction(async (args, hre) => {
+    const manifest = loadManifest(hre.network.name, args.manifest);
+    const staking = await hre.ethers.getContractAt('Staking', manifest.proxies.Staking.proxy);
+    const stakeUIHelper = await hre.ethers.getContractAt('StakeUIHelper', manifest.contracts.StakeUIHelper);
+    const status = await getVaultStatus(staking, stakeUIHelper);
+    const amount = args.amount ? parseEther(args.amount) : status.emissionsUntilEnd;
+
+    console.log(formatDiffs([{ field: 'allowance', current: formatEther(status.allowance), proposed: formatEther(amount) }]));
+    if (!args.execute) return console.log('Dry run: pass --execute to approve');
+
+    const [signer] = await hre.ethers.getSigners();
+    if (signer.address !== status.vault) {
+      throw new HardhatPluginError('coinbox', `The signer ${signer.address} isn't the rewards vault ${status.vault}`);
+    }
+    const rewardToken = await hre.ethers.getContractAt('@openzeppelin/contracts/token/ERC20/IERC20.sol:IERC20', status.rewardToken, signer);
+    await withDecodedErrors(hre, ADMIN_CONTRACTS, async () => (await rewardToken.approve(staking.target, amount)).wait());
+    console.log('Approved');
+  });
@@ -0,0 +1,63 @@
+import { task, types } from 'hardhat/config';
+import { loadManifest } from '../helpers/manifest';
+import {
+  RowIssue,
+  chunkByGas,
+  exportMembers,
+  findDuplicates,
+  importMembers,
+  readMembersFile,
+  validateMembers,
+  writeMembersFile
+} from '../helpers/members';
+
+/// Prints the rows that aren't imported
+function printIssues(title: string, issues: RowIssue[]) {
+  if (issues.length === 0) return;
+  console.log(`${title}:`);
+  for (const { index, account, reason } of issues) console.log(`  row ${index + 1}${account ? ` ${account}` : ''}: ${reason}`);
+}
+
+task('coinbox:members:import', 'Registers the members of the CSV or JSON file through registerMembersBatchSkipDuplicates')
+  .addParam('file', 'The CSV (account,username,image,ipfsHash) or JSON file of the members')
+  .addOptionalParam('state', 'The file of the import progress, `<file>.import.json` by default')
+  .addOptionalParam('gasBudget', 'The max gas of a single batch transaction', 8_000_000, types.int)
+  .addOptionalParam('manifest', 'The path of the deployment manifest')
+  .addFlag('execute', 'Sends the batches')
+  .setAction(async (args, hre) => {
+    const manifest = loadManifest(hre.network.name, args.manifest);
+    const registration = await hre.ethers.getContractAt('Registration', manifest.proxies.Registration.proxy);
+    const gasBudget = BigInt(args.gasBudget);
+
+    const { rows, invalid } = validateMembers(readMembersFile(args.file));
+    const { rows: fresh, duplicates } = await findDuplicates(registration, rows);
+    printIssues('Invalid rows', invalid);
+    printIssues('Already registered', duplicates);
+
+    if (!args.execute) {
+      const batches = await chunkByGas(registration, fresh, gasBudget);
+      console.log(`${fresh.length} members in ${batches.length} batches. Dry run: pass --execute to register them`);
+      return { invalid, duplicates, batches };
+    }
+
+    const state = await importMembers(registration, fresh, {
+      gasBudget,
+      statePath: args.state ?? `${args.file}.import.json`,
+      onBatch: (batch, transaction) => console.log(`Registered the batch of ${batch.length} rows: ${transaction}`)
+    });
+    printIssues('Skipped by the contract', state.skipped);
+    return { invalid, duplicates, state };
+  });
+
+task('coinbox:members:export', 'Exports the registered members to the CSV or JSON file')
+  .addParam('out', 'The CSV or JSON file')
+  .addOptionalParam('pageSize', 'The amount of the members in a single getMembers call', 100, types.int)
+  .addOptionalParam('manifest', 'The path of the deployment manifest')
+  .setAction(async (args, hre) => {
+    const manifest = loadManifest(hre.network.name, args.manifest);
+    const registration = await hre.ethers.getContractAt('Registration', manifest.proxies.Registration.proxy);
+    const members = await exportMembers(registration, args.pageSize);
+    writeMembersFile(args.out, members);
+    console.log(`Exported ${members.length} members to ${args.out}`);
+    return members;
+  });
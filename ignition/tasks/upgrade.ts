@@ -0,0 +1,40 @@
+import { task } from 'hardhat/config';
+import { HardhatPluginError } from 'hardhat/plugins';
+import { getManifestPath, loadManifest, writeManifest } from '../helpers/manifest';
+import { withDecodedErrors } from '../helpers/admin';
+import { planUpgrade, upgradeProxy } from '../helpers/upgrade';
+
+task('coinbox:upgrade', 'Upgrades the proxy of the manifest to the new implementation after the storage layout check')
+  .addParam('proxy', 'The name of the proxy in the manifest, e.g. Staking')
+  .addParam('contract', 'The contract of the new implementation')
+  .addOptionalParam('reference', 'The contract whose storage layout is deployed, required if the manifest has no layout of the proxy')
+  .addOptionalParam('call', 'The migration of the new implementation called with the upgrade, e.g. initializeV2')
+  .addOptionalParam('args', 'The JSON array of the migration arguments', '[]')
+  .addOptionalParam('manifest', 'The path of the deployment manifest')
+  .addFlag('execute', 'Deploys the implementation and upgrades the proxy')
+  .setAction(async (args, hre) => {
+    const manifest = loadManifest(hre.network.name, args.manifest);
+    const plan = await planUpgrade(hre, manifest, args.proxy, args.contract, {
+      reference: args.reference,
+      call: args.call,
+      args: JSON.parse(args.args)
+    });
+
+    console.log(`${plan.name} proxy: ${plan.proxy}`);
+    console.log(`  ProxyAdmin: ${plan.proxyAdmin} (owner ${plan.owner})`);
+    console.log(`  implementation: ${plan.currentImplementation} -> new ${plan.contract}`);
+    console.log(`  migration: ${plan.call ?? 'none'}`);
+    console.log(`  storage layout against ${plan.reference}: ${plan.errors.length === 0 ? 'compatible' : 'incompatible'}`);
+    if (plan.errors.length > 0) {
+      throw new HardhatPluginError('coinbox', `Refused the upgrade of ${plan.name}:\n${plan.errors.map(error => `  ${error}`).join('\n')}`);
+    }
+    if (!args.execute) {
+      console.log('Dry run: pass --execute to deploy the implementation and upgrade the proxy');
+      return plan;
+    }
+
+    const record = await withDecodedErrors(hre, [plan.contract, 'ProxyAdmin'], () => upgradeProxy(hre, manifest, plan));
+    console.log(`Upgraded to ${record.to} in ${record.transaction}`);
+    console.log(`Deployment manifest: ${writeManifest(manifest, args.manifest ?? getManifestPath(manifest.network))}`);
+    return plan;
+  });
@@ -0,0 +1,159 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers, run } from 'hardhat';
+import { expect } from 'chai';
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import { CoinBoxToken, Staking } from '../typechain-types';
+import { days } from '@nomicfoundation/hardhat-network-helpers/dist/src/helpers/time/duration';
+import { deployUniswapV2 } from './helpers/uniswap';
+import { runSilently } from './helpers/console';
+import { DeploymentManifest } from '../ignition/helpers/manifest';
+import { decodeCustomError, getChanged, planFeeChanges } from '../ignition/helpers/admin';
+
+describe('CoinBox admin tasks', async () => {
+    const zeroAddress = ethers.ZeroAddress;
+    const emissionPerSecond = ethers.parseEther('0.01');
+
+    async function deployFixture() {
+        const [owner, user1] = await ethers.getSigners();
+        const { router, weth } = await deployUniswapV2();
+        const Proxy = await ethers.getContractFactory('CoinBoxProxy');
+
+        const TokenImpl = await (await ethers.getContractFactory('CoinBoxToken')).deploy();
+        const TokenProxy = await Proxy.deploy(
+            TokenImpl.target, owner.address, TokenImpl.interface.encodeFunctionData('initialize', [router.target, owner.address])
+        );
+        const token = TokenImpl.attach(TokenProxy.target) as CoinBoxToken;
+
+        const StakingImpl = await (await ethers.getContractFactory('Staking')).deploy();
+        const StakingProxy = await Proxy.deploy(
+            StakingImpl.target, owner.address, StakingImpl.interface.encodeFunctionData('initialize', [
+                weth.target, token.target, 1800, 900, owner.address, owner.address, days(90)
+            ])
+        );
+        const staking = StakingImpl.attach(StakingProxy.target) as Staking;
+        const stakeUIHelper = await (await ethers.getContractFactory('StakeUIHelper')).deploy(
+            weth.target, staking.target, router.target, zeroAddress
+        );
+
+        const { chainId } = await ethers.provider.getNetwork();
+        const manifestData: DeploymentManifest = {
+            network: 'hardhat',
+            chainId: Number(chainId),
+            updatedAt: new Date().toISOString(),
+            proxies: {
+                CoinBoxToken: { proxy: await token.getAddress(), implementation: await TokenImpl.getAddress(), proxyAdmin: zeroAddress },
+                Staking: { proxy: await staking.getAddress(), implementation: await StakingImpl.getAddress(), proxyAdmin: zeroAddress }
+            },
+            contracts: { StakeUIHelper: await stakeUIHelper.getAddress() }
+        };
+        const manifest = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'coinbox-tasks-')), 'hardhat.json');
+        fs.writeFileSync(manifest, JSON.stringify(manifestData));
+
+        return { token, staking, stakeUIHelper, manifest, owner, user1 };
+    };
+
+    /// Runs the task without its console output
+    async function runTask(name: string, args: Record<string, unknown>) {
+        return runSilently(() => run(name, args));
+    }
+
+    describe('CoinBox Fee Tasks Phase Test Cases', async () => {
+        it('should plan only the setters of the changed fees', async () => {
+            const { token } = await loadFixture(deployFixture);
+            const plan = await planFeeChanges(token, { transferTax: 5, swapLiquidity: 5 });
+
+            expect(getChanged(plan.diffs)).to.be.deep.equal([{ field: 'transferFee.tax', current: '0', proposed: '5' }]);
+            expect(plan.changes.map(change => change.method)).to.be.deep.equal(['setTransferFeePercent']);
+            expect(plan.changes[0].args).to.be.deep.equal([2, 5]);
+        });
+
+        it('should queue and execute the fees after the timelock delay', async () => {
+            const { token, manifest } = await loadFixture(deployFixture);
+            await runTask('coinbox:fees:set', { manifest, transferTax: 5, swapTax: 1 });
+            expect((await token.transferFee())._taxFee).to.be.equal(0);
+
+            await runTask('coinbox:fees:set', { manifest, transferTax: 5, swapTax: 1, queue: true });
+            await expect(runTask('coinbox:fees:set', { manifest, transferTax: 5, swapTax: 1, execute: true }))
+                .to.be.rejectedWith('isn\'t ready to execute: timelocked');
+
+            await time.increase(await token.timelockDelay());
+            await runTask('coinbox:fees:set', { manifest, transferTax: 5, swapTax: 1, execute: true });
+            expect((await token.transferFee())._taxFee).to.be.equal(5);
+            expect((await token.swapFee())._taxFee).to.be.equal(1);
+        });
+
+        it('should decode the custom error of the invalid fee before queueing', async () => {
+            const { token, manifest } = await loadFixture(deployFixture);
+            const plan = await planFeeChanges(token, { swapTax: 101 });
+
+            await expect(runTask('coinbox:fees:set', { manifest, swapTax: 101, queue: true }))
+                .to.be.rejectedWith('ExceededValue(): the value is out of the allowed range');
+            expect(await token.queuedChanges(plan.changes[0].id)).to.be.equal(0);
+        });
+    });
+
+    describe('CoinBox Exclusion Tasks Phase Test Cases', async () => {
+        it('should list the accounts excluded by the initialization and the timelocked changes', async () => {
+            const { token, manifest, owner, user1 } = await loadFixture(deployFixture);
+            let exclusions = await runTask('coinbox:exclusions:list', { manifest });
+            expect(exclusions.fee).to.have.members([owner.address, await token.getAddress()]);
+            expect(exclusions.reward).to.be.deep.equal([]);
+
+            await runTask('coinbox:exclusions:set', { manifest, account: user1.address, fee: true, reward: true, queue: true });
+            await time.increase(await token.timelockDelay());
+            await runTask('coinbox:exclusions:set', { manifest, account: user1.address, fee: true, reward: true, execute: true });
+
+            exclusions = await runTask('coinbox:exclusions:list', { manifest });
+            expect(exclusions.fee).to.include(user1.address);
+            expect(exclusions.reward).to.be.deep.equal([user1.address]);
+        });
+
+        it('should plan nothing if the account is already in the state', async () => {
+            const { manifest, owner } = await loadFixture(deployFixture);
+            const plan = await runTask('coinbox:exclusions:set', { manifest, account: owner.address, fee: true });
+            expect(plan.changes).to.have.length(0);
+        });
+    });
+
+    describe('CoinBox Staking Tasks Phase Test Cases', async () => {
+        it('should configure the emission of the WETH distribution with the total staked', async () => {
+            const { staking, manifest } = await loadFixture(deployFixture);
+            const plan = await runTask('coinbox:staking:configure', { manifest, asset: 'WETH', emission: '0.01' });
+            expect(plan.config.totalStaked).to.be.equal(await staking.totalSupply());
+            expect(plan.diffs[0].proposed).to.be.equal('0.01');
+            expect((await staking.assets(staking.target)).emissionPerSecond).to.be.equal(0);
+
+            await runTask('coinbox:staking:configure', { manifest, asset: 'WETH', emission: '0.01', execute: true });
+            expect((await staking.assets(staking.target)).emissionPerSecond).to.be.equal(emissionPerSecond);
+        });
+
+        it('should show the vault shortfall and approve the emissions until the end', async () => {
+            const { token, staking, manifest, owner } = await loadFixture(deployFixture);
+            await runTask('coinbox:staking:configure', { manifest, emission: '0.01', execute: true });
+
+            let status = await runTask('coinbox:vault:status', { manifest });
+            expect(status.vault).to.be.equal(owner.address);
+            expect(status.allowance).to.be.equal(0);
+            expect(status.shortfall).to.be.equal(status.emissionsUntilEnd);
+
+            await runTask('coinbox:vault:approve', { manifest, amount: '1000', execute: true });
+            expect(await token.allowance(owner.address, staking.target)).to.be.equal(ethers.parseEther('1000'));
+            await runTask('coinbox:vault:approve', { manifest, execute: true });
+
+            status = await runTask('coinbox:vault:status', { manifest });
+            expect(status.allowance).to.be.gte(status.emissionsUntilEnd);
+            expect(status.shortfall).to.be.equal(0);
+        });
+
+        it('should decode the custom errors and the revert reasons of the staking', async () => {
+            const { staking, user1 } = await loadFixture(deployFixture);
+            const error = await staking.connect(user1).stake(0).catch(error => error);
+            expect(decodeCustomError(error, [staking.interface])).to.be.equal('InvalidAmount(): the amount is zero');
+
+            const reason = await staking.connect(user1).configureAssets([]).catch(error => error);
+            expect(decodeCustomError(reason, [staking.interface])).to.be.equal('ONLY_EMISSION_MANAGER');
+        });
+    });
+});
@@ -0,0 +1,100 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import { days } from '@nomicfoundation/hardhat-network-helpers/dist/src/helpers/time/duration';
+
+describe('AssetFaucet', async () => {
+    const zeroAddress = ethers.ZeroAddress;
+    const drip = ethers.parseUnits('0.01', 8);
+    const window = days(1);
+
+    async function deployFixture() {
+        const [owner, user1, user2] = await ethers.getSigners();
+        const bitcoin = await (await ethers.getContractFactory('AssetToken')).deploy(
+            'Bitcoin', 'BTC', 8, ethers.parseUnits('1000', 8), owner.address
+        );
+        const faucet = await (await ethers.getContractFactory('AssetFaucet')).deploy(owner.address);
+        await bitcoin.grantRole(await bitcoin.MINTER_ROLE(), faucet.target);
+        await faucet.setDrip(bitcoin.target, drip, window);
+
+        return { bitcoin, faucet, owner, user1, user2 };
+    };
+
+    describe('AssetToken Phase Test Cases', async () => {
+        it('should deploy the asset with own decimals and the initial supply of the admin', async () => {
+            const { bitcoin, owner } = await loadFixture(deployFixture);
+            expect(await bitcoin.name()).to.be.equal('Bitcoin');
+            expect(await bitcoin.symbol()).to.be.equal('BTC');
+            expect(await bitcoin.decimals()).to.be.equal(8);
+            expect(await bitcoin.balanceOf(owner.address)).to.be.equal(ethers.parseUnits('1000', 8));
+            expect(await bitcoin.hasRole(await bitcoin.MINTER_ROLE(), owner.address)).to.be.equal(true);
+        });
+
+        it('should mint the tokens by the minter', async () => {
+            const { bitcoin, user1 } = await loadFixture(deployFixture);
+            await expect(bitcoin.mint(user1.address, drip))
+                .to.be.emit(bitcoin, 'Transfer').withArgs(zeroAddress, user1.address, drip);
+            expect(await bitcoin.balanceOf(user1.address)).to.be.equal(drip);
+        });
+
+        it('shouldn\'t mint the tokens if a caller isn\'t a minter', async () => {
+            const { bitcoin, user1 } = await loadFixture(deployFixture);
+            await expect(bitcoin.connect(user1).mint(user1.address, drip))
+                .to.be.revertedWithCustomError(bitcoin, 'AccessControlUnauthorizedAccount')
+                .withArgs(user1.address, await bitcoin.MINTER_ROLE());
+        });
+    });
+
+    describe('AssetFaucet Phase Test Cases', async () => {
+        it('should hand out the limited amount once per window', async () => {
+            const { bitcoin, faucet, user1 } = await loadFixture(deployFixture);
+            await expect(faucet.connect(user1).claim(bitcoin.target))
+                .to.be.emit(faucet, 'Claimed').withArgs(bitcoin.target, user1.address, drip);
+            const claimedAt = BigInt(await time.latest());
+            expect(await bitcoin.balanceOf(user1.address)).to.be.equal(drip);
+            expect(await faucet.lastClaims(bitcoin.target, user1.address)).to.be.equal(claimedAt);
+            expect(await faucet.nextClaimAt(bitcoin.target, user1.address)).to.be.equal(claimedAt + BigInt(window));
+
+            await expect(faucet.connect(user1).claim(bitcoin.target))
+                .to.be.revertedWithCustomError(faucet, 'ClaimTooEarly').withArgs(claimedAt + BigInt(window));
+            await time.increase(window);
+            await faucet.connect(user1).claim(bitcoin.target);
+            expect(await bitcoin.balanceOf(user1.address)).to.be.equal(drip * 2n);
+        });
+
+        it('should limit every account separately', async () => {
+            const { bitcoin, faucet, user1, user2 } = await loadFixture(deployFixture);
+            await faucet.connect(user1).claim(bitcoin.target);
+            await faucet.connect(user2).claim(bitcoin.target);
+            expect(await bitcoin.balanceOf(user2.address)).to.be.equal(drip);
+            expect(await faucet.nextClaimAt(bitcoin.target, user2.address)).to.be.gt(0);
+        });
+
+        it('shouldn\'t hand out the unsupported or removed asset', async () => {
+            const { bitcoin, faucet, user1 } = await loadFixture(deployFixture);
+            const ethereum = await (await ethers.getContractFactory('AssetToken')).deploy('Ethereum', 'ETH', 18, 0, user1.address);
+            await expect(faucet.connect(user1).claim(ethereum.target))
+                .to.be.revertedWithCustomError(faucet, 'UnsupportedAsset()');
+
+            await expect(faucet.setDrip(bitcoin.target, 0, window))
+                .to.be.emit(faucet, 'DripConfigured').withArgs(bitcoin.target, 0, window);
+            await expect(faucet.connect(user1).claim(bitcoin.target))
+                .to.be.revertedWithCustomError(faucet, 'UnsupportedAsset()');
+        });
+
+        it('shouldn\'t hand out the asset if the faucet isn\'t a minter', async () => {
+            const { bitcoin, faucet, user1 } = await loadFixture(deployFixture);
+            await bitcoin.revokeRole(await bitcoin.MINTER_ROLE(), faucet.target);
+            await expect(faucet.connect(user1).claim(bitcoin.target))
+                .to.be.revertedWithCustomError(bitcoin, 'AccessControlUnauthorizedAccount');
+        });
+
+        it('shouldn\'t set the drip if a caller isn\'t an owner or the asset is the zero\'s address', async () => {
+            const { bitcoin, faucet, user1 } = await loadFixture(deployFixture);
+            await expect(faucet.connect(user1).setDrip(bitcoin.target, drip, window))
+                .to.be.revertedWithCustomError(faucet, 'OwnableUnauthorizedAccount').withArgs(user1.address);
+            await expect(faucet.setDrip(zeroAddress, drip, window))
+                .to.be.revertedWithCustomError(faucet, 'ZeroAddress()');
+        });
+    });
+});
@@ -1,13 +1,13 @@
-import { ethers } from 'hardhat';
+import hre, { ethers } from 'hardhat';
 import { expect } from 'chai';
 import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
-import { CoinBoxToken } from '../typechain-types';
+import { CoinBoxToken, CoinBoxTokenV1 } from '../typechain-types';
 import { days } from '@nomicfoundation/hardhat-network-helpers/dist/src/helpers/time/duration';
-import * as IWETH from '../artifacts/contracts/token/mock/IWETH.sol/IWETH.json';
-import * as IUniswapV2Router02 from '../artifacts/contracts/token/interfaces/IUniswapV2Router02.sol/IUniswapV2Router02.json'
-
-const ROUTER_1 = '0xC532a74256D3Db42D0Bf7a0400fEFDbad7694008';
-const ROUTER_2 = '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D';
+import { deployUniswapV2 } from './helpers/uniswap';
+import { executeTimelocked, executeTimelockedBatch } from './helpers/timelock';
+import { relayTransfer } from './helpers/relayer';
+import { signPermit, signTransfer } from '../ignition/helpers/signatures';
+import { ADMIN_SLOT, readAddressSlot } from '../ignition/helpers/upgrade';
 
 describe('CoinBoxToken', async () => {
     const zeroAddress = ethers.ZeroAddress;
@@ -30,10 +30,11 @@ describe('CoinBoxToken', async () => {
 
     async function deployFixture() {
         const [owner, user1, user2] = await ethers.getSigners();
+        const { router, weth, factory } = await deployUniswapV2();
         
         const CoinBoxTokenImpl = await (await ethers.getContractFactory('CoinBoxToken')).deploy();
         const CBTokenEncodedInitialize = CoinBoxTokenImpl.interface.encodeFunctionData('initialize', [
-           ROUTER_1,
+           router.target,
            owner.address
         ]);
         const CBTokenProxy = await (await ethers.getContractFactory('CoinBoxProxy')).deploy(
@@ -41,13 +42,18 @@ describe('CoinBoxToken', async () => {
         );
         const CBToken = CoinBoxTokenImpl.attach(CBTokenProxy.target) as CoinBoxToken;
 
-        return { CBToken, owner, user1, user2 };
+        return { CBToken, router, weth, factory, owner, user1, user2 };
     };
 
     describe('CoinBoxToken Initializing Phase Test Cases', async () => {
         it('should set the router correctly', async () => {
-            const { CBToken } = await loadFixture(deployFixture);
-            expect(await CBToken.uniswapV2Router()).to.be.equal(ROUTER_1);
+            const { CBToken, router } = await loadFixture(deployFixture);
+            expect(await CBToken.uniswapV2Router()).to.be.equal(router.target);
+        });
+
+        it('should create the pair with WETH on the router\'s factory', async () => {
+            const { CBToken, factory, weth } = await loadFixture(deployFixture);
+            expect(await CBToken.uniswapV2Pair()).to.be.equal(await factory.getPair(CBToken.target, weth.target));
         });
 
         it('should set an owner correctly', async () => {
@@ -113,17 +119,17 @@ describe('CoinBoxToken', async () => {
         });
 
         it('should revert if the input\'\'s addresses are zero\'\s', async () => {
-            const [ owner ] = await ethers.getSigners();
+            const { router, owner } = await loadFixture(deployFixture);
             const token = await (await ethers.getContractFactory('CoinBoxToken')).deploy();
             await expect(token.initialize(zeroAddress, owner.address))
                 .to.be.revertedWithCustomError(token, 'ZeroAddress()');
-            await expect(token.initialize(ROUTER_1, zeroAddress))
+            await expect(token.initialize(router.target, zeroAddress))
                 .to.be.revertedWithCustomError(token, 'ZeroAddress()');
         });
 
         it('should revert if an owner want to initialize a SC twice', async () => {
-            const { CBToken, owner } = await loadFixture(deployFixture);
-            await expect(CBToken.initialize(ROUTER_1, owner.address))
+            const { CBToken, router, owner } = await loadFixture(deployFixture);
+            await expect(CBToken.initialize(router.target, owner.address))
                 .to.be.revertedWithCustomError(CBToken, 'InvalidInitialization()');
         });
     });
@@ -156,14 +162,14 @@ describe('CoinBoxToken', async () => {
 
         it('shouldn\'t deliver if an account isn\'t excluded', async () => {
             const { CBToken, owner, user1 } = await loadFixture(deployFixture);
-            await CBToken.connect(owner).excludeFromReward(user1.address);
+            await executeTimelocked(CBToken, 'excludeFromReward', [user1.address]);
             await expect(CBToken.connect(user1).deliver(ethers.parseEther('4')))
                 .to.be.revertedWithCustomError(CBToken, 'ExcludedAccount()');
         });
 
         it('should exclude an account from rewards without _rOwned correctly', async () => {
             const { CBToken, owner, user1 } = await loadFixture(deployFixture);
-            expect(await CBToken.connect(owner).excludeFromReward(user1))
+            expect(await executeTimelocked(CBToken, 'excludeFromReward', [user1.address]))
                 .to.be.emit(CBToken, 'ExcludeFromReward').withArgs(user1.address, 0);
             expect(await CBToken.isExcludedFromReward(user1.address)).to.be.equal(true);
             expect(await CBToken.balanceOf(user1.address)).to.be.equal(0);
@@ -178,7 +184,7 @@ describe('CoinBoxToken', async () => {
             currentRate = _rOwned / _tTotal;
             const balanceOwner = _rOwned / currentRate;
             await CBToken.connect(owner).deliver(tAmount);
-            expect(await CBToken.connect(owner).excludeFromReward(owner.address))
+            expect(await executeTimelocked(CBToken, 'excludeFromReward', [owner.address]))
                 .to.be.emit(CBToken, 'ExcludeFromReward').withArgs(owner.address, balanceOwner);
             expect(await CBToken.isExcludedFromReward(owner.address)).to.be.equal(true);
             expect(await CBToken.balanceOf(owner.address)).to.be.equal(balanceOwner);
@@ -186,51 +192,53 @@ describe('CoinBoxToken', async () => {
 
         it('shouldn\'t exclude an account from rewards if an account isn\'t excluded', async () => {
             const { CBToken, owner, user1 } = await loadFixture(deployFixture);
-            await CBToken.connect(owner).excludeFromReward(user1.address);
-            await expect(CBToken.connect(owner).excludeFromReward(user1.address))
+            await executeTimelocked(CBToken, 'excludeFromReward', [user1.address]);
+            await expect(executeTimelocked(CBToken, 'excludeFromReward', [user1.address]))
                 .to.be.revertedWithCustomError(CBToken, 'ExcludedAccount()');
         });
 
         it('shouldn\'t exclude an account from rewards if a caller isn\'t an owner', async () => {
             const { CBToken, user1, user2 } = await loadFixture(deployFixture);
-            await expect(CBToken.connect(user1).excludeFromReward(user2.address)).to.be.reverted;
+            await expect(CBToken.connect(user1).queueChange(CBToken.interface.encodeFunctionData('excludeFromReward', [user2.address])))
+                .to.be.revertedWithCustomError(CBToken, 'OwnableUnauthorizedAccount');
         });
 
         it('shouldn\'t exclude an account from rewards if zero\'s address', async () => {
             const { CBToken, owner } = await loadFixture(deployFixture);
-            await expect(CBToken.connect(owner).excludeFromReward(zeroAddress))
+            await expect(executeTimelocked(CBToken, 'excludeFromReward', [zeroAddress]))
                 .to.be.revertedWithCustomError(CBToken, 'ZeroAddress()');
         });
 
         it('should include an account in rewards correctly', async () => {
             const { CBToken, owner, user1 } = await loadFixture(deployFixture);
-            await CBToken.excludeFromReward(user1.address);
-            await CBToken.excludeFromReward(owner.address);
-            expect(await CBToken.includeInReward(owner.address))
+            await executeTimelocked(CBToken, 'excludeFromReward', [user1.address]);
+            await executeTimelocked(CBToken, 'excludeFromReward', [owner.address]);
+            expect(await executeTimelocked(CBToken, 'includeInReward', [owner.address]))
                 .to.be.emit(CBToken, 'IncludeInReward').withArgs(owner.address);
             expect(await CBToken.isExcludedFromReward(owner.address)).to.be.equal(false);
         });
 
         it('shouldn\'t include an account in rewards if an account is already excluded', async () => {
             const { CBToken, owner } = await loadFixture(deployFixture);
-            await expect(CBToken.includeInReward(owner.address))
+            await expect(executeTimelocked(CBToken, 'includeInReward', [owner.address]))
                 .to.be.revertedWithCustomError(CBToken, 'IncludedAccount()');
         });
 
         it('shouldn\'t include an account in rewards if zero\'s address', async () => {
             const { CBToken, owner } = await loadFixture(deployFixture);
-            await expect(CBToken.connect(owner).includeInReward(zeroAddress))
+            await expect(executeTimelocked(CBToken, 'includeInReward', [zeroAddress]))
                 .to.be.revertedWithCustomError(CBToken, 'ZeroAddress()');
         });
 
         it('shouldn\'t include an account in rewards if a caller isn\'t an owner', async () => {
             const { CBToken, user1, user2 } = await loadFixture(deployFixture);
-            await expect(CBToken.connect(user1).includeInReward(user2.address)).to.be.reverted;
+            await expect(CBToken.connect(user1).queueChange(CBToken.interface.encodeFunctionData('includeInReward', [user2.address])))
+                .to.be.revertedWithCustomError(CBToken, 'OwnableUnauthorizedAccount');
         });
 
         it('should set the transfer fee percents correctly', async () => {
             const { CBToken, owner } = await loadFixture(deployFixture);
-            expect(await CBToken.connect(owner).setTransferFeePercent(5, 10))
+            expect(await executeTimelocked(CBToken, 'setTransferFeePercent', [5, 10]))
                 .to.be.emit(CBToken, 'TranferFeePercents').withArgs(5, 10);
             expect((await CBToken.transferFee())._liquidityFee).to.be.equal(5);
             expect((await CBToken.transferFee())._taxFee).to.be.equal(10);
@@ -238,117 +246,124 @@ describe('CoinBoxToken', async () => {
 
         it('shouldn\'t set the transfer fee percents if the value more than 100', async () => {
             const { CBToken, owner } = await loadFixture(deployFixture);
-            await expect(CBToken.connect(owner).setTransferFeePercent(101, 1))
+            await expect(executeTimelocked(CBToken, 'setTransferFeePercent', [101, 1]))
                 .to.be.revertedWithCustomError(CBToken, 'ExceededValue()');
-            await expect(CBToken.connect(owner).setTransferFeePercent(1, 10111))
+            await expect(executeTimelocked(CBToken, 'setTransferFeePercent', [1, 10111]))
                 .to.be.revertedWithCustomError(CBToken, 'ExceededValue()');
         });
 
         it('shouldn\'t set the transfer fee percents if a caller isn\'t an owner', async () => {
             const { CBToken, user1 } = await loadFixture(deployFixture);
-            await expect(CBToken.connect(user1).setTransferFeePercent(10, 0)).to.be.reverted;
+            await expect(CBToken.connect(user1).queueChange(CBToken.interface.encodeFunctionData('setTransferFeePercent', [10, 0])))
+                .to.be.revertedWithCustomError(CBToken, 'OwnableUnauthorizedAccount');
         });
 
         it('should set the swap fee percents correctly', async () => {
             const { CBToken } = await loadFixture(deployFixture);
-            expect(await CBToken.setSwapFeePercent(10, 9)).to.be.emit(CBToken, 'SwapFeePercents').withArgs(10, 9);
+            expect(await executeTimelocked(CBToken, 'setSwapFeePercent', [10, 9])).to.be.emit(CBToken, 'SwapFeePercents').withArgs(10, 9);
             expect((await CBToken.swapFee())._liquidityFee).to.be.equal(10);
             expect((await CBToken.swapFee())._taxFee).to.be.equal(9);
         });
 
         it('shouldn\'t set the swap fee percents if the value more than 100', async () => {
             const { CBToken } = await loadFixture(deployFixture);
-            await expect(CBToken.setSwapFeePercent(101, 1)).to.be.revertedWithCustomError(CBToken, 'ExceededValue()');
-            await expect(CBToken.setSwapFeePercent(11, 991)).to.be.revertedWithCustomError(CBToken, 'ExceededValue()');
+            await expect(executeTimelocked(CBToken, 'setSwapFeePercent', [101, 1])).to.be.revertedWithCustomError(CBToken, 'ExceededValue()');
+            await expect(executeTimelocked(CBToken, 'setSwapFeePercent', [11, 991])).to.be.revertedWithCustomError(CBToken, 'ExceededValue()');
         });
 
         it('shouldn\'t set the swap fee percents if a caller isn\'t an owner', async () => {
             const { CBToken, user1 } = await loadFixture(deployFixture);
-            await expect(CBToken.connect(user1).setSwapFeePercent(10, 0)).to.be.reverted;
+            await expect(CBToken.connect(user1).queueChange(CBToken.interface.encodeFunctionData('setSwapFeePercent', [10, 0])))
+                .to.be.revertedWithCustomError(CBToken, 'OwnableUnauthorizedAccount');
         });
 
         it('should set the max tx percent correctly', async () => {
             const { CBToken } = await loadFixture(deployFixture);
             const maxTx = BigInt(10);
             const maxTxAmount = _tTotal * maxTx / BigInt(100);
-            expect(await CBToken.setMaxTxPercent(maxTx)).to.be.emit(CBToken, 'MaxTxPercent').withArgs(maxTxAmount);
+            expect(await executeTimelocked(CBToken, 'setMaxTxPercent', [maxTx])).to.be.emit(CBToken, 'MaxTxPercent').withArgs(maxTxAmount);
             expect(await CBToken.maxTxAmount()).to.be.equal(maxTxAmount);
         });
 
         it('shouldn\'t set the max tx percent if the value more than 100', async () => {
             const { CBToken } = await loadFixture(deployFixture);
-            await expect(CBToken.setMaxTxPercent(101)).revertedWithCustomError(CBToken, 'ExceededValue()');
+            await expect(executeTimelocked(CBToken, 'setMaxTxPercent', [101])).revertedWithCustomError(CBToken, 'ExceededValue()');
         });
 
         it('shouldn\'t set the max tx percent if a caller isn\'t an owner', async () => {
             const { CBToken, user1 } = await loadFixture(deployFixture);
-            await expect(CBToken.connect(user1).setMaxTxPercent(10)).to.be.reverted;
+            await expect(CBToken.connect(user1).queueChange(CBToken.interface.encodeFunctionData('setMaxTxPercent', [10])))
+                .to.be.revertedWithCustomError(CBToken, 'OwnableUnauthorizedAccount');
         });
 
         it('should update the router correctly', async () => {
             const { CBToken } = await loadFixture(deployFixture);
-            expect(await CBToken.setRouter(ROUTER_2)).to.be.emit(CBToken, 'ChangeRouter').withArgs(ROUTER_2);
-            expect(await CBToken.uniswapV2Router()).to.be.equal(ROUTER_2);
+            const { router: router2 } = await deployUniswapV2();
+            expect(await executeTimelocked(CBToken, 'setRouter', [router2.target])).to.be.emit(CBToken, 'ChangeRouter').withArgs(router2.target);
+            expect(await CBToken.uniswapV2Router()).to.be.equal(router2.target);
         });
 
         it('shouldn\'t update the router if zero\'s address', async () => {
             const { CBToken } = await loadFixture(deployFixture);
-            await expect(CBToken.setRouter(zeroAddress)).to.be.revertedWithCustomError(CBToken, 'ZeroAddress()');
+            await expect(executeTimelocked(CBToken, 'setRouter', [zeroAddress])).to.be.revertedWithCustomError(CBToken, 'ZeroAddress()');
         });
 
         it('shouldn\'t update the router if a caller isn\'t an owner', async () => {
-            const { CBToken, user1 } = await loadFixture(deployFixture);
-            await expect(CBToken.connect(user1).setRouter(ROUTER_2)).to.be.reverted;
+            const { CBToken, router, user1 } = await loadFixture(deployFixture);
+            await expect(CBToken.connect(user1).queueChange(CBToken.interface.encodeFunctionData('setRouter', [router.target])))
+                .to.be.revertedWithCustomError(CBToken, 'OwnableUnauthorizedAccount');
         });
 
         it('should exclude an account from the fee correctly', async () => {
             const { CBToken, user1 } = await loadFixture(deployFixture);
-            expect(await CBToken.excludeFromFee(user1.address))
+            expect(await executeTimelocked(CBToken, 'excludeFromFee', [user1.address]))
                 .to.be.emit(CBToken, 'ExcludeFromFee').withArgs(user1.address, true);
             expect(await CBToken.isExcludedFromFee(user1.address)).to.be.equal(true);
         });
 
         it('shouldn\'t exclude an account from the fee if an account isn\'t excluded', async () => {
             const { CBToken, owner, user1 } = await loadFixture(deployFixture);
-            await CBToken.connect(owner).excludeFromFee(user1.address);
-            await expect(CBToken.connect(owner).excludeFromFee(user1.address))
+            await executeTimelocked(CBToken, 'excludeFromFee', [user1.address]);
+            await expect(executeTimelocked(CBToken, 'excludeFromFee', [user1.address]))
                 .to.be.revertedWithCustomError(CBToken, 'ExcludedAccount()');
         });
 
         it('shouldn\'t exclude an account from the fee if zero\'s address', async () => {
             const { CBToken, owner } = await loadFixture(deployFixture);
-            await expect(CBToken.connect(owner).excludeFromFee(zeroAddress))
+            await expect(executeTimelocked(CBToken, 'excludeFromFee', [zeroAddress]))
                 .to.be.revertedWithCustomError(CBToken, 'ZeroAddress()');
         });
 
         it('shouldn\'t exclude an account from the fee if a caller isn\'t an owner', async () => {
             const { CBToken, user1, user2 } = await loadFixture(deployFixture);
-            await expect(CBToken.connect(user1).excludeFromFee(user2.address)).to.be.reverted;
+            await expect(CBToken.connect(user1).queueChange(CBToken.interface.encodeFunctionData('excludeFromFee', [user2.address])))
+                .to.be.revertedWithCustomError(CBToken, 'OwnableUnauthorizedAccount');
         });
 
         it('should include an account in the fee correctly', async () => {
             const { CBToken, owner } = await loadFixture(deployFixture);
-            expect(await CBToken.includeInFee(owner.address))
+            expect(await executeTimelocked(CBToken, 'includeInFee', [owner.address]))
                 .to.be.emit(CBToken, 'IncludeInFee').withArgs(owner.address, false);
             expect(await CBToken.isExcludedFromFee(owner.address)).to.be.equal(false);
         });
 
         it('shouldn\'t include an account in the fee if an account is already included', async () => {
             const { CBToken, owner } = await loadFixture(deployFixture);
-            await CBToken.includeInFee(owner.address);
-            await expect(CBToken.includeInFee(owner.address))
+            await executeTimelocked(CBToken, 'includeInFee', [owner.address]);
+            await expect(executeTimelocked(CBToken, 'includeInFee', [owner.address]))
                 .to.be.revertedWithCustomError(CBToken, 'IncludedAccount()');
         });
 
         it('shouldn\'t include an account in the fee if zero\'s address', async () => {
             const { CBToken, owner } = await loadFixture(deployFixture);
-            await expect(CBToken.connect(owner).includeInFee(zeroAddress))
+            await expect(executeTimelocked(CBToken, 'includeInFee', [zeroAddress]))
                 .to.be.revertedWithCustomError(CBToken, 'ZeroAddress()');
         });
 
         it('shouldn\'t include an account in the fee if a caller isn\'t an owner', async () => {
             const { CBToken, user1, user2 } = await loadFixture(deployFixture);
-            await expect(CBToken.connect(user1).includeInFee(user2.address)).to.be.reverted;
+            await expect(CBToken.connect(user1).queueChange(CBToken.interface.encodeFunctionData('includeInFee', [user2.address])))
+                .to.be.revertedWithCustomError(CBToken, 'OwnableUnauthorizedAccount');
         });
 
         it('should set enable for swap and liquify operation correctly', async () => {
@@ -363,38 +378,6 @@ describe('CoinBoxToken', async () => {
             await expect(CBToken.connect(user1).setSwapAndLiquifyEnabled(true)).to.be.reverted;
         });
 
-        it('should set the lock period correctly', async () => {
-            const { CBToken } = await loadFixture(deployFixture);
-            await CBToken.lock(days(1));
-            let period = (await time.latest())+ days(1);
-            expect(await CBToken.owner()).to.be.equal(zeroAddress);
-            expect(await CBToken.getUnlockTime()).to.be.equal(period);
-        });
-
-        it('shouldn\'t set the lock period if a caller isn\'t an owner', async () => {
-            const { CBToken, user1 } = await loadFixture(deployFixture);
-            await expect(CBToken.connect(user1).lock(days(1))).to.be.reverted;
-        });
-
-        it('should unlock the SC correctly', async () => {
-            const { CBToken, owner } = await loadFixture(deployFixture);
-            await CBToken.lock(1);
-            await time.increase(days(1));
-            await CBToken.unlock();
-            expect(await CBToken.owner()).to.be.equal(owner.address);
-        });
-
-        it('shouldn\'t unlock the SC if a caller hasn\'t permission', async () => {
-            const { CBToken, user2 } = await loadFixture(deployFixture);
-            await expect(CBToken.connect(user2).unlock()).to.be.revertedWithCustomError(CBToken, 'InvalidPermission()');
-        });
-
-        it('shouldn\'t unlock if `_lockTime` isn\'t exceeds', async () => {
-            const { CBToken } = await loadFixture(deployFixture);
-            await CBToken.lock(days(1));
-            await expect(CBToken.unlock()).to.be.revertedWithCustomError(CBToken, 'LockedContract()');
-        });
-
         it('should return the reflections per tokens correctly', async () => {
             const { CBToken } = await loadFixture(deployFixture);
             const taxFee = BigInt(0);
@@ -447,7 +430,7 @@ describe('CoinBoxToken', async () => {
 
         it('shouldn\'t transfer the amount of tokens if the amount exceeds the maxTxAmount', async () => {
             const { CBToken, user1, user2 } = await loadFixture(deployFixture);
-            await CBToken.setMaxTxPercent(0);
+            await executeTimelocked(CBToken, 'setMaxTxPercent', [0]);
             await expect(CBToken.connect(user2).transfer(user1.address, ethers.parseEther('1')))
                 .to.be.revertedWith('Transfer\'s amount exceeds the maxTxAmount');
         });
@@ -464,8 +447,8 @@ describe('CoinBoxToken', async () => {
             let balanceSender = rOwnedS / calculated.currentRate;
             let balanceRecipient = calculated.rTransferAmount / calculated.currentRate;
             
-            await CBToken.setMaxTxPercent(0);
-            await CBToken.excludeFromReward(owner.address);
+            await executeTimelocked(CBToken, 'setMaxTxPercent', [0]);
+            await executeTimelocked(CBToken, 'excludeFromReward', [owner.address]);
             expect(await CBToken.transfer(user1.address, amount))
                 .to.be.emit(CBToken, 'TransferFromExcluded')
                 .withArgs(owner.address, user1.address, tOwnedSNew, rOwnedS, calculated.rTransferAmount);
@@ -489,8 +472,8 @@ describe('CoinBoxToken', async () => {
             let balanceRecipient = rOwnedR / currentRate;
             let balanceContract = rOwnedC / currentRate;
             
-            await CBToken.excludeFromReward(owner.address);
-            await CBToken.excludeFromReward(CBToken.target);
+            await executeTimelocked(CBToken, 'excludeFromReward', [owner.address]);
+            await executeTimelocked(CBToken, 'excludeFromReward', [CBToken.target]);
             expect(await CBToken.transfer(user1.address, amount))
                 .to.be.emit(CBToken, 'Transfer')
                 .withArgs(owner.address, user1.address, calculated.tTransferAmount);
@@ -508,7 +491,7 @@ describe('CoinBoxToken', async () => {
             let rOwnedS = _rTotal - calculated.rAmount;
             let balanceSender = rOwnedS / calculated.currentRate;
             let balanceRecipient = calculated.rTransferAmount / calculated.currentRate;
-            await CBToken.excludeFromReward(user1.address);
+            await executeTimelocked(CBToken, 'excludeFromReward', [user1.address]);
             expect(await CBToken.transfer(user1.address, amount))
                 .to.be.emit(CBToken, 'TransferToExcluded')
                 .withArgs(owner.address, user1.address, rOwnedS, calculated.tTransferAmount, calculated.rTransferAmount);
@@ -530,8 +513,8 @@ describe('CoinBoxToken', async () => {
             let balanceSender = rOwnedS / calculated.currentRate;
             let balanceRecipient = rOwnedR / calculated.currentRate;
             
-            await CBToken.excludeFromReward(owner.address);
-            await CBToken.excludeFromReward(user1.address);
+            await executeTimelocked(CBToken, 'excludeFromReward', [owner.address]);
+            await executeTimelocked(CBToken, 'excludeFromReward', [user1.address]);
             expect(await CBToken.transfer(user1.address, amount))
                 .to.be.emit(CBToken, 'TransferFromSender').withArgs(owner.address, tOwnedSNew, rOwnedS)
                 .to.be.emit(CBToken, 'TransferToRecipient').withArgs(user1.address, calculated.tTransferAmount, rOwnedR);
@@ -583,7 +566,7 @@ describe('CoinBoxToken', async () => {
             const balanceUser2T2 = calculated2.rTransferAmount / currentRate;
             const balanceContractT2 = rOwnedCT2 / currentRate;
 
-            await CBToken.setTransferFeePercent(fee, fee);
+            await executeTimelocked(CBToken, 'setTransferFeePercent', [fee, fee]);
             await CBToken.transfer(user1.address, amount);
             await CBToken.connect(user1).transfer(user2.address, amount);
             expect(await CBToken.balanceOf(user1.address)).to.be.equal(balanceUser1T2);
@@ -605,8 +588,8 @@ describe('CoinBoxToken', async () => {
             const balanceRecipient = calculated.rTransferAmount / currentRate;
             const balanceContract = rOwnedC / currentRate;
             
-            await CBToken.includeInFee(owner.address);
-            await CBToken.setTransferFeePercent(fee, fee);
+            await executeTimelocked(CBToken, 'includeInFee', [owner.address]);
+            await executeTimelocked(CBToken, 'setTransferFeePercent', [fee, fee]);
             await CBToken.transfer(user1.address, amount);
             expect(await CBToken.totalFees()).to.be.equal(calculated.tFee);
             expect(await CBToken.balanceOf(owner.address)).to.be.equal(balanceSender);
@@ -615,7 +598,7 @@ describe('CoinBoxToken', async () => {
         });
 
         it('should standard transfer the amount of tokens correctly if satisfying the threshold', async () => {
-            const { CBToken, owner, user1, user2 } = await loadFixture(deployFixture);
+            const { CBToken, router, weth, owner, user1, user2 } = await loadFixture(deployFixture);
             const fee = BigInt(0);                        
             const amountPairE = ethers.parseEther('10000');
             const amountPairW = ethers.parseEther('10');
@@ -624,10 +607,6 @@ describe('CoinBoxToken', async () => {
             const amountT3 = ethers.parseEther('10');
             const deadline = (await time.latest()) + 100_000;
 
-            const provider = new ethers.JsonRpcProvider('https://ethereum-sepolia-rpc.publicnode.com');
-            const routerImpl = new ethers.Contract(ROUTER_1, IUniswapV2Router02.abi, provider);
-            const wethAddress = await routerImpl.WETH();
-            const newWeth = new ethers.Contract(wethAddress, IWETH.abi, provider);
             const pair = await CBToken.uniswapV2Pair();
 
             const calculatedEP = calculateValues(fee, amountPairE, _rTotal);
@@ -658,12 +637,12 @@ describe('CoinBoxToken', async () => {
             const balanceUser2T3 = rOwnedST3 / currentRate;
             const balanceUser1T3 = rOwnedRT3 / currentRate;
             
-            await CBToken.setTransferFeePercent(fee, fee);
-            await newWeth.deposit({ value: amountPairW, gas: 5500000 });
-            await newWeth.approve(routerImpl.address, amountPairW);
-            await CBToken.approve(ROUTER_1, amountPairE);
+            await executeTimelocked(CBToken, 'setTransferFeePercent', [fee, fee]);
+            await weth.deposit({ value: amountPairW });
+            await weth.approve(router.target, amountPairW);
+            await CBToken.approve(router.target, amountPairE);
             await CBToken.setThreshold(ethers.parseEther('0.01'));
-            await routerImpl.addLiquidity(CBToken.target, newWeth.address, amountPairE, amountPairW, 0, 0, owner.address, deadline);
+            await router.addLiquidity(CBToken.target, weth.target, amountPairE, amountPairW, 0, 0, owner.address, deadline);
             expect(await CBToken.balanceOf(pair)).to.be.equal(balancePairEP);
 
             await CBToken.transfer(user1.address, amountT1);
@@ -682,10 +661,657 @@ describe('CoinBoxToken', async () => {
 
     });
 
+    describe('CoinBoxToken Timelock Phase Test Cases', function () {
+        async function queuedFixture() {
+            const fixture = await deployFixture();
+            const data = fixture.CBToken.interface.encodeFunctionData('setSwapFeePercent', [10, 9]);
+            await fixture.CBToken.queueChange(data);
+            return { ...fixture, data, id: ethers.keccak256(data) };
+        };
+
+        it('should set the timelock delay while initializing', async () => {
+            const { CBToken } = await loadFixture(deployFixture);
+            expect(await CBToken.timelockDelay()).to.be.equal(await CBToken.MIN_TIMELOCK_DELAY());
+        });
+
+        it('should queue the change correctly', async () => {
+            const { CBToken } = await loadFixture(deployFixture);
+            const data = CBToken.interface.encodeFunctionData('setRouter', [zeroAddress]);
+            const eta = (await time.latest()) + 1 + days(1);
+            await expect(CBToken.queueChange(data))
+                .to.be.emit(CBToken, 'ChangeQueued').withArgs(ethers.keccak256(data), data, eta);
+            expect(await CBToken.queuedChanges(ethers.keccak256(data))).to.be.equal(eta);
+        });
+
+        it('shouldn\'t queue the change if the function isn\'t timelocked', async () => {
+            const { CBToken, owner, user1 } = await loadFixture(deployFixture);
+            await expect(CBToken.queueChange(CBToken.interface.encodeFunctionData('transfer', [user1.address, 1])))
+                .to.be.revertedWithCustomError(CBToken, 'InvalidChange()');
+            await expect(CBToken.queueChange(CBToken.interface.encodeFunctionData('transferOwnership', [owner.address])))
+                .to.be.revertedWithCustomError(CBToken, 'InvalidChange()');
+            await expect(CBToken.queueChange('0x1234')).to.be.revertedWithCustomError(CBToken, 'InvalidChange()');
+        });
+
+        it('shouldn\'t queue the same change twice', async () => {
+            const { CBToken, data } = await loadFixture(queuedFixture);
+            await expect(CBToken.queueChange(data)).to.be.revertedWithCustomError(CBToken, 'QueuedChange()');
+        });
+
+        it('shouldn\'t call the timelocked function directly', async () => {
+            const { CBToken } = await loadFixture(deployFixture);
+            await expect(CBToken.setSwapFeePercent(10, 9)).to.be.revertedWithCustomError(CBToken, 'OnlyTimelock()');
+        });
+
+        it('should execute the change after the timelock delay', async () => {
+            const { CBToken, data, id } = await loadFixture(queuedFixture);
+            await expect(CBToken.executeChange(data)).to.be.revertedWithCustomError(CBToken, 'LockedContract()');
+
+            await time.increase(days(1));
+            await expect(CBToken.executeChange(data))
+                .to.be.emit(CBToken, 'ChangeExecuted').withArgs(id, data)
+                .to.be.emit(CBToken, 'SwapFeePercents').withArgs(10, 9);
+            expect(await CBToken.queuedChanges(id)).to.be.equal(0);
+            await expect(CBToken.executeChange(data)).to.be.revertedWithCustomError(CBToken, 'UnknownChange()');
+        });
+
+        it('shouldn\'t execute the change after the grace period', async () => {
+            const { CBToken, data } = await loadFixture(queuedFixture);
+            await time.increase(days(1) + days(14) + 1);
+            await expect(CBToken.executeChange(data)).to.be.revertedWithCustomError(CBToken, 'ExpiredChange()');
+        });
+
+        it('shouldn\'t execute the change if a caller isn\'t an owner', async () => {
+            const { CBToken, data, user1 } = await loadFixture(queuedFixture);
+            await time.increase(days(1));
+            await expect(CBToken.connect(user1).executeChange(data))
+                .to.be.revertedWithCustomError(CBToken, 'OwnableUnauthorizedAccount');
+        });
+
+        it('should cancel the queued change', async () => {
+            const { CBToken, data, id, user1 } = await loadFixture(queuedFixture);
+            await expect(CBToken.connect(user1).cancelChange(id))
+                .to.be.revertedWithCustomError(CBToken, 'OwnableUnauthorizedAccount');
+            await expect(CBToken.cancelChange(id)).to.be.emit(CBToken, 'ChangeCancelled').withArgs(id);
+
+            await time.increase(days(1));
+            await expect(CBToken.executeChange(data)).to.be.revertedWithCustomError(CBToken, 'UnknownChange()');
+            await expect(CBToken.cancelChange(id)).to.be.revertedWithCustomError(CBToken, 'UnknownChange()');
+        });
+
+        it('should set the timelock delay through the timelock', async () => {
+            const { CBToken } = await loadFixture(deployFixture);
+            await expect(executeTimelocked(CBToken, 'setTimelockDelay', [days(2)]))
+                .to.be.emit(CBToken, 'TimelockDelay').withArgs(days(2));
+            expect(await CBToken.timelockDelay()).to.be.equal(days(2));
+
+            await expect(executeTimelocked(CBToken, 'setTimelockDelay', [days(31)]))
+                .to.be.revertedWithCustomError(CBToken, 'ExceededValue()');
+            await expect(executeTimelocked(CBToken, 'setTimelockDelay', [3600]))
+                .to.be.revertedWithCustomError(CBToken, 'ExceededValue()');
+        });
+
+        it('should transfer the ownership in two steps', async () => {
+            const { CBToken, owner, user1 } = await loadFixture(deployFixture);
+            await CBToken.transferOwnership(user1.address);
+            expect(await CBToken.owner()).to.be.equal(owner.address);
+            expect(await CBToken.pendingOwner()).to.be.equal(user1.address);
+
+            await CBToken.connect(user1).acceptOwnership();
+            expect(await CBToken.owner()).to.be.equal(user1.address);
+            expect(await CBToken.pendingOwner()).to.be.equal(zeroAddress);
+        });
+
+        it('should migrate the locked contract deployed with the previous implementation', async () => {
+            const { router, owner, user1, user2 } = await loadFixture(deployFixture);
+            const CoinBoxTokenV1Impl = await (await ethers.getContractFactory('CoinBoxTokenV1')).deploy();
+            const CBTokenProxy = await (await ethers.getContractFactory('CoinBoxProxy')).deploy(
+                CoinBoxTokenV1Impl.target, owner.address,
+                CoinBoxTokenV1Impl.interface.encodeFunctionData('initialize', [router.target, owner.address])
+            );
+            const CBTokenV1 = CoinBoxTokenV1Impl.attach(CBTokenProxy.target) as CoinBoxTokenV1;
+            const amount = ethers.parseEther('1000');
+            await CBTokenV1.setTransferFeePercent(2, 3);
+            await CBTokenV1.transfer(user1.address, amount);
+            await CBTokenV1.excludeFromReward(user2.address);
+            await CBTokenV1.connect(user1).transfer(user2.address, amount / 2n);
+            await CBTokenV1.lock(days(7));
+            expect(await CBTokenV1.owner()).to.be.equal(zeroAddress);
+
+            const accounts = [owner.address, user1.address, user2.address];
+            const balances = await Promise.all(accounts.map(account => CBTokenV1.balanceOf(account)));
+            const totalFees = await CBTokenV1.totalFees();
+            const CoinBoxTokenImpl = await (await ethers.getContractFactory('CoinBoxToken')).deploy();
+            const proxyAdmin = await ethers.getContractAt('ProxyAdmin', await readAddressSlot(hre, CBTokenProxy.target as string, ADMIN_SLOT));
+            await proxyAdmin.upgradeAndCall(
+                CBTokenProxy.target, CoinBoxTokenImpl.target, CoinBoxTokenImpl.interface.encodeFunctionData('initializeV2')
+            );
+            const CBToken = CoinBoxTokenImpl.attach(CBTokenProxy.target) as CoinBoxToken;
+
+            expect(await CBToken.owner()).to.be.equal(owner.address);
+            expect(await CBToken.timelockDelay()).to.be.equal(days(1));
+            expect(await CBToken.liquidityRecipient()).to.be.equal(owner.address);
+            expect(await Promise.all(accounts.map(account => CBToken.balanceOf(account)))).to.be.deep.equal(balances);
+            expect(await CBToken.totalFees()).to.be.equal(totalFees);
+            expect(await CBToken.transferFee()).to.be.deep.equal([2n, 3n]);
+            expect(await CBToken.swapFee()).to.be.deep.equal([5n, 0n]);
+            expect(await CBToken.charityFees()).to.be.deep.equal([0n, 0n]);
+            expect(await CBToken.isExcludedFromReward(user2.address)).to.be.equal(true);
+            // the deprecated `_previousOwner` and `_lockTime` (slots 15 and 16) are cleared
+            expect(await ethers.provider.getStorage(CBToken.target, 15)).to.be.equal(ethers.ZeroHash);
+            expect(await ethers.provider.getStorage(CBToken.target, 16)).to.be.equal(ethers.ZeroHash);
+
+            await executeTimelocked(CBToken, 'includeInReward', [user2.address]);
+            expect(await CBToken.isExcludedFromReward(user2.address)).to.be.equal(false);
+            expect(await CBToken.balanceOf(user2.address)).to.be.greaterThanOrEqual(balances[2]);
+            await CBToken.connect(user1).transfer(user2.address, amount / 4n);
+            expect(await CBToken.totalFees()).to.be.equal(totalFees + amount / 4n * 3n / 100n);
+        });
+
+        it('shouldn\'t migrate the contract twice', async () => {
+            const { CBToken, owner } = await loadFixture(deployFixture);
+            await CBToken.initializeV2();
+            expect(await CBToken.owner()).to.be.equal(owner.address);
+            await expect(CBToken.initializeV2()).to.be.revertedWithCustomError(CBToken, 'InvalidInitialization');
+        });
+    });
+
+    describe('CoinBoxToken Charity Fee Phase Test Cases', function () {
+        const amount = ethers.parseEther('1000');
+
+        async function charityFixture() {
+            const fixture = await deployFixture();
+            const { CBToken, user1 } = fixture;
+            const charity = (await ethers.getSigners())[3];
+            await executeTimelocked(CBToken, 'setCharityWallet', [charity.address]);
+            await executeTimelocked(CBToken, 'setCharityFeePercent', [4, 3]);
+            await CBToken.transfer(user1.address, amount);
+            return { ...fixture, charity };
+        };
+
+        it('should set the charity wallet and exclude it from rewards', async () => {
+            const { CBToken, user2 } = await loadFixture(deployFixture);
+            await expect(executeTimelocked(CBToken, 'setCharityWallet', [user2.address]))
+                .to.be.emit(CBToken, 'CharityWalletUpdated').withArgs(user2.address)
+                .to.be.emit(CBToken, 'ExcludeFromReward').withArgs(user2.address, 0);
+            expect(await CBToken.charityWallet()).to.be.equal(user2.address);
+            expect(await CBToken.isExcludedFromReward(user2.address)).to.be.equal(true);
+        });
+
+        it('shouldn\'t set the charity wallet if the address is invalid', async () => {
+            const { CBToken } = await loadFixture(deployFixture);
+            await expect(executeTimelocked(CBToken, 'setCharityWallet', [zeroAddress])).to.be.revertedWithCustomError(CBToken, 'ZeroAddress()');
+            await expect(executeTimelocked(CBToken, 'setCharityWallet', [CBToken.target]))
+                .to.be.revertedWithCustomError(CBToken, 'InvalidCharityWallet()');
+            await expect(executeTimelocked(CBToken, 'setCharityWallet', [await CBToken.uniswapV2Pair()]))
+                .to.be.revertedWithCustomError(CBToken, 'InvalidCharityWallet()');
+        });
+
+        it('shouldn\'t set the charity wallet if a caller isn\'t an owner', async () => {
+            const { CBToken, user1 } = await loadFixture(deployFixture);
+            await expect(CBToken.connect(user1).queueChange(CBToken.interface.encodeFunctionData('setCharityWallet', [user1.address])))
+                .to.be.revertedWithCustomError(CBToken, 'OwnableUnauthorizedAccount');
+        });
+
+        it('shouldn\'t include the charity wallet in rewards', async () => {
+            const { CBToken, charity } = await loadFixture(charityFixture);
+            await expect(executeTimelocked(CBToken, 'includeInReward', [charity.address]))
+                .to.be.revertedWithCustomError(CBToken, 'InvalidCharityWallet()');
+        });
+
+        it('should set the charity fee percents correctly', async () => {
+            const { CBToken, user2 } = await loadFixture(deployFixture);
+            await executeTimelocked(CBToken, 'setCharityWallet', [user2.address]);
+            await expect(executeTimelocked(CBToken, 'setCharityFeePercent', [4, 3])).to.be.emit(CBToken, 'CharityFeePercents').withArgs(4, 3);
+            expect(await CBToken.charityFees()).to.be.deep.equal([4n, 3n]);
+        });
+
+        it('shouldn\'t set the charity fee percents without the charity wallet or if the value more than 100', async () => {
+            const { CBToken, user1, user2 } = await loadFixture(deployFixture);
+            await expect(executeTimelocked(CBToken, 'setCharityFeePercent', [0, 1])).to.be.revertedWithCustomError(CBToken, 'ZeroAddress()');
+            await executeTimelocked(CBToken, 'setCharityWallet', [user2.address]);
+            await expect(executeTimelocked(CBToken, 'setCharityFeePercent', [101, 1])).to.be.revertedWithCustomError(CBToken, 'ExceededValue()');
+            await expect(CBToken.connect(user1).queueChange(CBToken.interface.encodeFunctionData('setCharityFeePercent', [1, 1])))
+                .to.be.revertedWithCustomError(CBToken, 'OwnableUnauthorizedAccount');
+        });
+
+        it('shouldn\'t set the fee percents if the total of the fee schedule more than 100', async () => {
+            const { CBToken, user2 } = await loadFixture(deployFixture);
+            await executeTimelocked(CBToken, 'setCharityWallet', [user2.address]);
+            await expect(executeTimelocked(CBToken, 'setTransferFeePercent', [60, 41])).to.be.revertedWithCustomError(CBToken, 'ExceededValue()');
+            await executeTimelocked(CBToken, 'setTransferFeePercent', [60, 30]);
+            await expect(executeTimelocked(CBToken, 'setCharityFeePercent', [0, 11])).to.be.revertedWithCustomError(CBToken, 'ExceededValue()');
+            await executeTimelocked(CBToken, 'setCharityFeePercent', [50, 10]);
+            await expect(executeTimelocked(CBToken, 'setSwapFeePercent', [41, 10])).to.be.revertedWithCustomError(CBToken, 'ExceededValue()');
+            await expect(executeTimelocked(CBToken, 'setTransferFeePercent', [60, 31])).to.be.revertedWithCustomError(CBToken, 'ExceededValue()');
+            await executeTimelocked(CBToken, 'setSwapFeePercent', [45, 5]);
+            expect((await CBToken.swapFee())._liquidityFee).to.be.equal(45);
+            expect(await CBToken.charityFees()).to.be.deep.equal([50n, 10n]);
+        });
+
+        it('should send the charity fee of the standard transfer to the charity wallet', async () => {
+            const { CBToken, charity, user1, user2 } = await loadFixture(charityFixture);
+            const tCharity = amount * 3n / 100n;
+            const tLiquidity = amount * 2n / 100n;
+
+            await expect(CBToken.connect(user1).transfer(user2.address, amount))
+                .to.be.emit(CBToken, 'TakeCharity').withArgs(user1.address, charity.address, tCharity, tCharity)
+                .to.be.emit(CBToken, 'Transfer').withArgs(user1.address, user2.address, amount - tCharity - tLiquidity);
+            expect(await CBToken.balanceOf(charity.address)).to.be.equal(tCharity);
+            expect(await CBToken.balanceOf(CBToken.target)).to.be.equal(tLiquidity);
+            expect(await CBToken.balanceOf(user2.address)).to.be.equal(amount - tCharity - tLiquidity);
+            expect(await CBToken.totalCharityFees()).to.be.equal(tCharity);
+        });
+
+        it('should send the charity fee if the accounts are excluded from rewards', async () => {
+            const { CBToken, charity, user1, user2 } = await loadFixture(charityFixture);
+            const tCharity = amount / 2n * 3n / 100n;
+            await executeTimelocked(CBToken, 'excludeFromReward', [user1.address]);
+            await executeTimelocked(CBToken, 'excludeFromReward', [user2.address]);
+
+            await CBToken.connect(user1).transfer(user2.address, amount / 2n);
+            await CBToken.connect(user2).transfer(user1.address, amount / 4n);
+            const tCharityBack = amount / 4n * 3n / 100n;
+            expect(await CBToken.balanceOf(charity.address)).to.be.equal(tCharity + tCharityBack);
+            expect(await CBToken.totalCharityFees()).to.be.equal(tCharity + tCharityBack);
+            expect(await CBToken.balanceOf(user1.address)).to.be.equal(amount / 2n + amount / 4n - amount / 4n * 5n / 100n);
+        });
+
+        it('shouldn\'t take the charity fee from the excluded from fee account and restore it after', async () => {
+            const { CBToken, user1, charity } = await loadFixture(charityFixture);
+            await expect(CBToken.transfer(user1.address, amount)).not.to.be.emit(CBToken, 'TakeCharity');
+            expect(await CBToken.balanceOf(charity.address)).to.be.equal(0);
+            expect(await CBToken.charityFees()).to.be.deep.equal([4n, 3n]);
+        });
+    });
+
+    describe('CoinBoxToken Permit Phase Test Cases', function () {
+        const amount = ethers.parseEther('100');
+
+        async function holderFixture() {
+            const fixture = await deployFixture();
+            // the holder without ETH: every transaction is submitted by the relayer
+            const holder = ethers.Wallet.createRandom(ethers.provider);
+            await fixture.CBToken.transfer(holder.address, amount);
+            const deadline = BigInt(await time.latest()) + BigInt(days(1));
+            return { ...fixture, holder, relayer: fixture.user2, deadline };
+        };
+
+        it('should approve the tokens with the permit', async () => {
+            const { CBToken, holder, user1, relayer, deadline } = await loadFixture(holderFixture);
+            const permit = await signPermit(CBToken, holder, user1.address, amount, deadline);
+
+            await expect(CBToken.connect(relayer).permit(
+                permit.owner, permit.spender, permit.value, permit.deadline, permit.v, permit.r, permit.s
+            )).to.be.emit(CBToken, 'Approval').withArgs(holder.address, user1.address, amount);
+            expect(await CBToken.allowance(holder.address, user1.address)).to.be.equal(amount);
+            expect(await CBToken.nonces(holder.address)).to.be.equal(1);
+            expect(await CBToken.balanceOf(holder.address)).to.be.equal(amount);
+            expect(await ethers.provider.getBalance(holder.address)).to.be.equal(0);
+        });
+
+        it('shouldn\'t approve the tokens with the expired or replayed permit', async () => {
+            const { CBToken, holder, user1, relayer, deadline } = await loadFixture(holderFixture);
+            const permit = await signPermit(CBToken, holder, user1.address, amount, deadline);
+            const args = [permit.owner, permit.spender, permit.value, permit.deadline, permit.v, permit.r, permit.s] as const;
+
+            await CBToken.connect(relayer).permit(...args);
+            await expect(CBToken.connect(relayer).permit(...args))
+                .to.be.revertedWithCustomError(CBToken, 'ERC2612InvalidSigner');
+            await time.increase(days(2));
+            const expired = await signPermit(CBToken, holder, user1.address, amount, deadline);
+            await expect(CBToken.connect(relayer).permit(
+                expired.owner, expired.spender, expired.value, expired.deadline, expired.v, expired.r, expired.s
+            )).to.be.revertedWithCustomError(CBToken, 'ERC2612ExpiredSignature');
+        });
+
+        it('should transfer the tokens signed by the holder and submitted by the relayer', async () => {
+            const { CBToken, holder, user1, relayer, deadline } = await loadFixture(holderFixture);
+            const transfer = await signTransfer(CBToken, holder, user1.address, amount, deadline);
+            const tLiquidity = amount * 2n / 100n;
+
+            await expect(relayTransfer(relayer, CBToken, transfer))
+                .to.be.emit(CBToken, 'RelayedTransfer').withArgs(holder.address, user1.address, amount, relayer.address)
+                .to.be.emit(CBToken, 'Transfer').withArgs(holder.address, user1.address, amount - tLiquidity);
+            expect(await CBToken.balanceOf(holder.address)).to.be.equal(0);
+            expect(await CBToken.balanceOf(user1.address)).to.be.equal(amount - tLiquidity);
+            expect(await CBToken.nonces(holder.address)).to.be.equal(1);
+        });
+
+        it('should share the nonces between the permit and the signed transfer', async () => {
+            const { CBToken, holder, user1, relayer, deadline } = await loadFixture(holderFixture);
+            const permit = await signPermit(CBToken, holder, user1.address, amount, deadline, 0n);
+            const transfer = await signTransfer(CBToken, holder, user1.address, amount / 2n, deadline, 1n);
+
+            await CBToken.connect(relayer).permit(
+                permit.owner, permit.spender, permit.value, permit.deadline, permit.v, permit.r, permit.s
+            );
+            await relayTransfer(relayer, CBToken, transfer);
+            expect(await CBToken.nonces(holder.address)).to.be.equal(2);
+        });
+
+        it('shouldn\'t transfer the tokens with the invalid, replayed or expired signature', async () => {
+            const { CBToken, holder, user1, relayer, deadline } = await loadFixture(holderFixture);
+            const transfer = await signTransfer(CBToken, holder, user1.address, amount / 2n, deadline);
+
+            await expect(relayTransfer(relayer, CBToken, { ...transfer, to: relayer.address }))
+                .to.be.revertedWithCustomError(CBToken, 'InvalidSignature()');
+            await relayTransfer(relayer, CBToken, transfer);
+            await expect(relayTransfer(relayer, CBToken, transfer))
+                .to.be.revertedWithCustomError(CBToken, 'InvalidSignature()');
+
+            const expired = await signTransfer(CBToken, holder, user1.address, amount / 2n, deadline);
+            await time.increase(days(2));
+            await expect(relayTransfer(relayer, CBToken, expired))
+                .to.be.revertedWithCustomError(CBToken, 'ExpiredSignature').withArgs(deadline);
+        });
+    });
+
+    describe('CoinBoxToken Liquify Phase Test Cases', function () {
+        const threshold = ethers.parseEther('10');
+        const amount = ethers.parseEther('1000');
+
+        async function liquidityFixture() {
+            const fixture = await deployFixture();
+            const { CBToken, router, weth, owner, user1, user2 } = fixture;
+            const deadline = (await time.latest()) + 100_000;
+            await weth.deposit({ value: ethers.parseEther('10') });
+            await weth.approve(router.target, ethers.MaxUint256);
+            await CBToken.approve(router.target, ethers.MaxUint256);
+            await router.addLiquidity(
+                CBToken.target, weth.target, ethers.parseEther('10000'), ethers.parseEther('10'), 0, 0, owner.address, deadline
+            );
+            await CBToken.setThreshold(threshold);
+            await CBToken.transfer(user1.address, amount);
+            await CBToken.transfer(user2.address, amount * 2n);
+            const pair = await ethers.getContractAt('IUniswapV2Pair', await CBToken.uniswapV2Pair());
+            const lpToken = await ethers.getContractAt('@openzeppelin/contracts/token/ERC20/IERC20.sol:IERC20', pair.target);
+            return { ...fixture, pair, lpToken, deadline };
+        };
+
+        async function getSpotPrice(CBToken: CoinBoxToken, pair: Awaited<ReturnType<typeof liquidityFixture>>['pair']) {
+            const [reserve0, reserve1] = await pair.getReserves();
+            const [reserveToken, reserveWeth] = (await pair.token0()) === CBToken.target ? [reserve0, reserve1] : [reserve1, reserve0];
+            return (reserveWeth << 112n) / reserveToken;
+        };
+
+        it('should set the default max slippage and the owner as the LP recipient', async () => {
+            const { CBToken, owner } = await loadFixture(deployFixture);
+            expect(await CBToken.maxSlippage()).to.be.equal(500);
+            expect(await CBToken.liquidityRecipient()).to.be.equal(owner.address);
+            expect(await CBToken.twapPrice()).to.be.equal(0);
+        });
+
+        it('should send the LP tokens of liquify to the LP recipient', async () => {
+            const { CBToken, lpToken, owner, user1, user2 } = await loadFixture(liquidityFixture);
+            const recipient = ethers.Wallet.createRandom().address;
+            expect(await executeTimelocked(CBToken, 'setLiquidityRecipient', [recipient]))
+                .to.be.emit(CBToken, 'LiquidityRecipient').withArgs(recipient);
+            const ownerLiquidity = await lpToken.balanceOf(owner.address);
+
+            await CBToken.transfer(CBToken.target, threshold);
+            await expect(CBToken.connect(user1).transfer(user2.address, amount))
+                .to.be.emit(CBToken, 'SwapAndLiquify')
+                .to.be.emit(CBToken, 'AddLiquidity');
+            expect(await lpToken.balanceOf(recipient)).to.be.gt(0);
+            expect(await lpToken.balanceOf(owner.address)).to.be.equal(ownerLiquidity);
+        });
+
+        it('should skip liquify instead of reverting the transfer if the swap output is below the min', async () => {
+            const { CBToken, router, pair, user1, user2 } = await loadFixture(liquidityFixture);
+            await executeTimelocked(CBToken, 'setMaxSlippage', [0]);
+            await CBToken.transfer(CBToken.target, threshold);
+            const minEthOut = (threshold / 2n) * (await getSpotPrice(CBToken, pair)) >> 112n;
+            const balanceUser2 = await CBToken.balanceOf(user2.address);
+
+            await expect(CBToken.connect(user1).transfer(user2.address, amount))
+                .to.be.emit(CBToken, 'SwapAndLiquifyFailed').withArgs(threshold / 2n, minEthOut)
+                .not.to.be.emit(CBToken, 'SwapAndLiquify');
+            expect(await CBToken.balanceOf(user2.address)).to.be.gt(balanceUser2);
+            expect(await CBToken.balanceOf(CBToken.target)).to.be.gte(threshold);
+            expect(await CBToken.allowance(CBToken.target, router.target)).to.be.equal(0);
+        });
+
+        it('should keep the TWAP and reject the liquify swap after the price is manipulated', async () => {
+            const { CBToken, router, weth, pair, user1, user2, deadline } = await loadFixture(liquidityFixture);
+            const spotPrice = await getSpotPrice(CBToken, pair);
+            await time.increase(await CBToken.TWAP_PERIOD());
+            await expect(CBToken.connect(user1).transfer(user2.address, ethers.parseEther('100')))
+                .to.be.emit(CBToken, 'TwapUpdated').withArgs(spotPrice);
+            expect(await CBToken.twapPrice()).to.be.equal(spotPrice);
+
+            // the front-running sell moves the spot price, the TWAP stays the same within the period
+            await CBToken.connect(user2).approve(router.target, amount * 2n);
+            await router.connect(user2).swapExactTokensForETHSupportingFeeOnTransferTokens(
+                amount * 2n, 0, [CBToken.target, weth.target], user2.address, deadline
+            );
+            await CBToken.transfer(CBToken.target, threshold);
+            await expect(CBToken.connect(user1).transfer(user2.address, ethers.parseEther('100')))
+                .to.be.emit(CBToken, 'SwapAndLiquifyFailed')
+                .not.to.be.emit(CBToken, 'TwapUpdated');
+            expect(await CBToken.twapPrice()).to.be.equal(spotPrice);
+        });
+
+        it('should set the max slippage correctly', async () => {
+            const { CBToken } = await loadFixture(deployFixture);
+            expect(await executeTimelocked(CBToken, 'setMaxSlippage', [100]))
+                .to.be.emit(CBToken, 'MaxSlippage').withArgs(100);
+            expect(await CBToken.maxSlippage()).to.be.equal(100);
+        });
+
+        it('shouldn\'t set the max slippage above the max or without the timelock', async () => {
+            const { CBToken } = await loadFixture(deployFixture);
+            await expect(executeTimelocked(CBToken, 'setMaxSlippage', [5_001]))
+                .to.be.revertedWithCustomError(CBToken, 'ExceededValue()');
+            await expect(CBToken.setMaxSlippage(100)).to.be.revertedWithCustomError(CBToken, 'OnlyTimelock()');
+        });
+
+        it('shouldn\'t set the zero\'s address as the LP recipient', async () => {
+            const { CBToken } = await loadFixture(deployFixture);
+            await expect(executeTimelocked(CBToken, 'setLiquidityRecipient', [zeroAddress]))
+                .to.be.revertedWithCustomError(CBToken, 'ZeroAddress()');
+        });
+    });
+
+    describe('CoinBoxToken Reward Exclusion Phase Test Cases', function () {
+        const amount = ethers.parseEther('1000');
+        // Far below the cost of a loop over the excluded accounts: two cold reads (4200 gas) per account
+        const gasTolerance = BigInt(5000);
+
+        async function excludeFunded(CBToken: CoinBoxToken, count: number) {
+            const accounts = Array.from({ length: count }, () => ethers.Wallet.createRandom().address);
+            for (const account of accounts) await CBToken.transfer(account, amount);
+            await executeTimelockedBatch(CBToken, accounts.map(account => ['excludeFromReward', [account]]));
+            return accounts;
+        }
+
+        async function transferGas(CBToken: CoinBoxToken, from: Awaited<ReturnType<typeof ethers.getSigners>>[number], to: string) {
+            const receipt = await (await CBToken.connect(from).transfer(to, ethers.parseEther('1'))).wait();
+            return receipt!.gasUsed;
+        }
+
+        it('should keep the transfer cost flat as the excluded accounts grow', async () => {
+            const { CBToken, user1, user2 } = await loadFixture(deployFixture);
+            await CBToken.transfer(user1.address, amount);
+            await CBToken.transfer(user2.address, amount);
+            const [excluded] = await excludeFunded(CBToken, 1);
+            await transferGas(CBToken, user1, user2.address);
+            await transferGas(CBToken, user1, excluded);
+
+            const standardGas = await transferGas(CBToken, user1, user2.address);
+            const toExcludedGas = await transferGas(CBToken, user1, excluded);
+            for (const count of [10, 40]) {
+                await excludeFunded(CBToken, count);
+                expect(await transferGas(CBToken, user1, user2.address)).to.be.lessThanOrEqual(standardGas + gasTolerance);
+                expect(await transferGas(CBToken, user1, excluded)).to.be.lessThanOrEqual(toExcludedGas + gasTolerance);
+            }
+        });
+
+        it('should keep the balances after including the account from the middle of the excluded accounts', async () => {
+            const { CBToken, user1, user2 } = await loadFixture(deployFixture);
+            await CBToken.transfer(user1.address, amount);
+            const accounts = await excludeFunded(CBToken, 3);
+            await executeTimelocked(CBToken, 'excludeFromReward', [user2.address]);
+            await CBToken.connect(user1).transfer(accounts[0], ethers.parseEther('100'));
+            const balances = await Promise.all(accounts.map(account => CBToken.balanceOf(account)));
+
+            await executeTimelocked(CBToken, 'includeInReward', [accounts[1]]);
+            expect(await CBToken.isExcludedFromReward(accounts[1])).to.be.equal(false);
+            for (const account of [accounts[0], accounts[2], user2.address]) {
+                expect(await CBToken.isExcludedFromReward(account)).to.be.equal(true);
+            }
+            expect(await CBToken.balanceOf(accounts[0])).to.be.equal(balances[0]);
+            expect(await CBToken.balanceOf(accounts[2])).to.be.equal(balances[2]);
+
+            await executeTimelocked(CBToken, 'includeInReward', [user2.address]);
+            await executeTimelocked(CBToken, 'includeInReward', [accounts[0]]);
+            expect(await CBToken.isExcludedFromReward(accounts[2])).to.be.equal(true);
+            await expect(executeTimelocked(CBToken, 'includeInReward', [accounts[1]]))
+                .to.be.revertedWithCustomError(CBToken, 'IncludedAccount()');
+        });
+
+        it('should reflect the fee only to the included accounts', async () => {
+            const { CBToken, user1, user2 } = await loadFixture(deployFixture);
+            await executeTimelocked(CBToken, 'setTransferFeePercent', [2, 2]);
+            await CBToken.transfer(user1.address, amount);
+            await CBToken.transfer(user2.address, amount);
+            const [excluded] = await excludeFunded(CBToken, 1);
+            const balanceUser2 = await CBToken.balanceOf(user2.address);
+
+            await CBToken.connect(user1).transfer(excluded, amount);
+            expect(await CBToken.balanceOf(excluded)).to.be.equal(amount * 2n - amount * 4n / 100n);
+            expect(await CBToken.balanceOf(user2.address)).to.be.gt(balanceUser2);
+        });
+    });
+
+    describe('CoinBoxToken Transfer Preview Phase Test Cases', function () {
+        const amount = ethers.parseEther('1000');
+
+        it('should preview the transfer fee and the received amount of the plain transfer', async () => {
+            const { CBToken, user1, user2 } = await loadFixture(deployFixture);
+            await executeTimelocked(CBToken, 'setTransferFeePercent', [2, 3]);
+            await CBToken.transfer(user1.address, amount);
+            const preview = await CBToken.previewTransfer(user1.address, user2.address, amount);
+
+            expect(preview.tax).to.be.equal(amount * 3n / 100n);
+            expect(preview.liquidity).to.be.equal(amount * 2n / 100n);
+            expect(preview.charity).to.be.equal(0);
+            expect(preview.received).to.be.equal(amount * 95n / 100n);
+            expect(preview.fees._liquidityFee).to.be.equal(2);
+            expect(preview.fees._taxFee).to.be.equal(3);
+            expect(preview.isSwap).to.be.equal(false);
+            expect(preview.takeFee).to.be.equal(true);
+            await expect(CBToken.connect(user1).transfer(user2.address, amount))
+                .to.be.emit(CBToken, 'Transfer').withArgs(user1.address, user2.address, preview.received);
+        });
+
+        it('should preview the swap fee if the pair is the recipient', async () => {
+            const { CBToken, user1 } = await loadFixture(deployFixture);
+            const preview = await CBToken.previewTransfer(user1.address, await CBToken.uniswapV2Pair(), amount);
+
+            expect(preview.isSwap).to.be.equal(true);
+            expect(preview.fees._liquidityFee).to.be.equal(5);
+            expect(preview.liquidity).to.be.equal(amount * 5n / 100n);
+            expect(preview.received).to.be.equal(amount * 95n / 100n);
+        });
+
+        it('should preview the charity fee', async () => {
+            const { CBToken, user1, user2 } = await loadFixture(deployFixture);
+            await executeTimelocked(CBToken, 'setCharityWallet', [user2.address]);
+            await executeTimelocked(CBToken, 'setCharityFeePercent', [0, 1]);
+            const preview = await CBToken.previewTransfer(user1.address, user2.address, amount);
+
+            expect(preview.fees._charityFee).to.be.equal(1);
+            expect(preview.charity).to.be.equal(amount / 100n);
+            expect(preview.received).to.be.equal(amount * 97n / 100n);
+        });
+
+        it('should preview the transfer without the fee if the account is excluded from fee', async () => {
+            const { CBToken, owner, user1 } = await loadFixture(deployFixture);
+            const preview = await CBToken.previewTransfer(owner.address, user1.address, amount);
+
+            expect(preview.takeFee).to.be.equal(false);
+            expect(preview.fees._liquidityFee).to.be.equal(0);
+            expect(preview.liquidity).to.be.equal(0);
+            expect(preview.received).to.be.equal(amount);
+        });
+
+        it('should track the principal and the reflection earnings of the account', async () => {
+            const { CBToken, user1, user2 } = await loadFixture(deployFixture);
+            await executeTimelocked(CBToken, 'setTransferFeePercent', [0, 2]);
+            await CBToken.transfer(user1.address, amount);
+            await CBToken.transfer(user2.address, amount);
+            expect(await CBToken.principalOf(user1.address)).to.be.equal(amount);
+            expect(await CBToken.reflectionEarnings(user1.address)).to.be.equal(0);
+
+            // the owner is excluded from fee, so the tax is reflected by the transfer to another holder
+            await CBToken.connect(user2).transfer(ethers.Wallet.createRandom().address, amount);
+            const earnings = await CBToken.reflectionEarnings(user1.address);
+            expect(earnings).to.be.gt(0);
+            expect(await CBToken.balanceOf(user1.address)).to.be.equal(amount + earnings);
+            expect(await CBToken.principalOf(user2.address)).to.be.equal(0);
+
+            await CBToken.connect(user1).transfer(user2.address, amount / 2n);
+            expect(await CBToken.principalOf(user1.address)).to.be.equal(amount / 2n);
+            expect(await CBToken.principalOf(user2.address)).to.be.equal(amount / 2n * 98n / 100n);
+            expect(await CBToken.reflectionEarnings(user1.address)).to.be.gte(earnings);
+        });
+
+        it('should spend the principal before the reflection earnings', async () => {
+            const { CBToken, user1, user2 } = await loadFixture(deployFixture);
+            await executeTimelocked(CBToken, 'setTransferFeePercent', [0, 2]);
+            await CBToken.transfer(user1.address, amount);
+            await CBToken.transfer(user2.address, amount);
+            await CBToken.connect(user2).transfer(ethers.Wallet.createRandom().address, amount);
+
+            await CBToken.connect(user1).transfer(user2.address, amount + 1n);
+            expect(await CBToken.principalOf(user1.address)).to.be.equal(0);
+            expect(await CBToken.reflectionEarnings(user1.address)).to.be.equal(await CBToken.balanceOf(user1.address));
+        });
+
+        it('should seed the principal of the holders from before the upgrade on their first transfer', async () => {
+            const { router, owner, user1, user2 } = await loadFixture(deployFixture);
+            const CoinBoxTokenV1Impl = await (await ethers.getContractFactory('CoinBoxTokenV1')).deploy();
+            const CBTokenProxy = await (await ethers.getContractFactory('CoinBoxProxy')).deploy(
+                CoinBoxTokenV1Impl.target, owner.address,
+                CoinBoxTokenV1Impl.interface.encodeFunctionData('initialize', [router.target, owner.address])
+            );
+            const CBTokenV1 = CoinBoxTokenV1Impl.attach(CBTokenProxy.target) as CoinBoxTokenV1;
+            await CBTokenV1.setTransferFeePercent(0, 2);
+            await CBTokenV1.transfer(user1.address, amount);
+            await CBTokenV1.transfer(user2.address, amount);
+            await CBTokenV1.connect(user2).transfer(ethers.Wallet.createRandom().address, amount / 2n);
+
+            const CoinBoxTokenImpl = await (await ethers.getContractFactory('CoinBoxToken')).deploy();
+            const proxyAdmin = await ethers.getContractAt('ProxyAdmin', await readAddressSlot(hre, CBTokenProxy.target as string, ADMIN_SLOT));
+            await proxyAdmin.upgradeAndCall(
+                CBTokenProxy.target, CoinBoxTokenImpl.target, CoinBoxTokenImpl.interface.encodeFunctionData('initializeV2')
+            );
+            const CBToken = CoinBoxTokenImpl.attach(CBTokenProxy.target) as CoinBoxToken;
+
+            // the reflections earned before the upgrade aren't known, the balance is the principal until the first transfer
+            const balance = await CBToken.balanceOf(user1.address);
+            expect(balance).to.be.greaterThan(amount);
+            expect(await CBToken.isPrincipalTracked(user1.address)).to.be.equal(false);
+            expect(await CBToken.principalOf(user1.address)).to.be.equal(balance);
+            expect(await CBToken.reflectionEarnings(user1.address)).to.be.equal(0);
+
+            const recipient = ethers.Wallet.createRandom().address;
+            await CBToken.connect(user1).transfer(recipient, amount / 2n);
+            expect(await CBToken.isPrincipalTracked(user1.address)).to.be.equal(true);
+            expect(await CBToken.principalOf(user1.address)).to.be.equal(balance - amount / 2n);
+            expect(await CBToken.principalOf(recipient)).to.be.equal(amount / 2n * 98n / 100n);
+
+            await CBToken.connect(user2).transfer(recipient, amount / 4n);
+            const earnings = await CBToken.reflectionEarnings(user1.address);
+            expect(earnings).to.be.greaterThan(0);
+            expect(await CBToken.principalOf(user1.address)).to.be.equal(balance - amount / 2n);
+        });
+    });
+
     describe('CoinBoxToken Withdraw Functions Phase Test Cases', function () {
 
         it('should withdraw leftovers correctly', async () => {
-            const { CBToken, owner, user1, user2 } = await loadFixture(deployFixture);
+            const { CBToken, router, weth, owner, user1, user2 } = await loadFixture(deployFixture);
 
             const amountPairE = ethers.parseEther('10000');
             const amountPairW = ethers.parseEther('10');
@@ -695,10 +1321,6 @@ describe('CoinBoxToken', async () => {
             const fee = BigInt(0);
             const deadline = (await time.latest()) + 100_000;
 
-            const provider = new ethers.JsonRpcProvider('https://ethereum-sepolia-rpc.publicnode.com');
-            const routerImpl = new ethers.Contract(ROUTER_1, IUniswapV2Router02.abi, provider);
-            const wethAddress = await routerImpl.WETH();
-            const newWeth = new ethers.Contract(wethAddress, IWETH.abi, provider);
 
             const calculatedT1 = calculateValues(fee, amountT1, _rTotal);
             _rTotal = _rTotal - calculatedT1.rFee;
@@ -715,18 +1337,19 @@ describe('CoinBoxToken', async () => {
             const balanceUser2T3 = rOwnedST3 / currentRate;
             const balanceUser1T3 = rOwnedRT3 / currentRate;
             
-            await CBToken.setTransferFeePercent(fee, fee);
-            await newWeth.deposit({ value: amountPairW, gas: 5500000 });
-            await newWeth.approve(routerImpl.address, amountPairW);
-            await CBToken.approve(ROUTER_1, amountPairE);
+            await executeTimelocked(CBToken, 'setTransferFeePercent', [fee, fee]);
+            await weth.deposit({ value: amountPairW });
+            await weth.approve(router.target, amountPairW);
+            await CBToken.approve(router.target, amountPairE);
             await CBToken.setThreshold(ethers.parseEther('0.01'));
-            await routerImpl.addLiquidity(CBToken.target, newWeth.address, amountPairE, amountPairW, 0, 0, owner.address, deadline);
+            await router.addLiquidity(CBToken.target, weth.target, amountPairE, amountPairW, 0, 0, owner.address, deadline);
             await CBToken.transfer(user1.address, amountT1);
             await CBToken.connect(user1).transfer(user2.address, amountT2);
             await CBToken.connect(user2).transfer(user1.address, amountT3);
             expect(await CBToken.balanceOf(user2)).to.be.equal(balanceUser2T3);
             expect(await CBToken.balanceOf(user1)).to.be.equal(balanceUser1T3);
             
+            await owner.sendTransaction({ to: CBToken.target, value: ethers.parseEther('0.1') });
             const beforeBalanceC = await ethers.provider.getBalance(CBToken.target);
             expect(await CBToken.withdrawLeftovers())
                 .to.be.emit(CBToken, 'WithdrawLeftovers').withArgs(owner.address, beforeBalanceC);
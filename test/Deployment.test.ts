@@ -0,0 +1,85 @@
+import { ethers, ignition } from 'hardhat';
+import { expect } from 'chai';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import CoinBoxModule from '../ignition/modules/CoinBox';
+import { deployUniswapV2 } from './helpers/uniswap';
+
+describe('CoinBox Ignition deployment', async () => {
+    const IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+
+    async function deployFixture() {
+        const [owner] = await ethers.getSigners();
+        const { router, weth } = await deployUniswapV2();
+
+        const deployed = await ignition.deploy(CoinBoxModule, {
+            parameters: {
+                CoinBoxTokenModule: { owner: owner.address, router: await router.getAddress() },
+                StakingModule: { owner: owner.address, weth: await weth.getAddress() },
+                StakeUIHelperModule: { weth: await weth.getAddress() }
+            }
+        });
+
+        return { ...deployed, router, weth, owner };
+    };
+
+    async function getImplementation(proxy: string) {
+        const slot = await ethers.provider.getStorage(proxy, IMPLEMENTATION_SLOT);
+        return ethers.getAddress(ethers.dataSlice(slot, 12));
+    }
+
+    it('should initialize the token behind the proxy', async () => {
+        const { coinBoxToken, coinBoxTokenImpl, coinBoxTokenProxy, router, owner } = await loadFixture(deployFixture);
+        expect(await coinBoxToken.uniswapV2Router()).to.be.equal(await router.getAddress());
+        expect(await coinBoxToken.owner()).to.be.equal(owner.address);
+        expect(await getImplementation(await coinBoxTokenProxy.getAddress()))
+            .to.be.equal(await coinBoxTokenImpl.getAddress());
+    });
+
+    it('should initialize the staking with the deployed token', async () => {
+        const { staking, coinBoxToken, weth, stakeUIHelper } = await loadFixture(deployFixture);
+        expect(await staking.REWARD_TOKEN()).to.be.equal(await coinBoxToken.getAddress());
+        expect(await staking.STAKED_TOKEN()).to.be.equal(await weth.getAddress());
+        expect(await stakeUIHelper.STAKED_WETH()).to.be.equal(await staking.getAddress());
+        expect(await staking.SWAP_ROUTER()).to.be.equal(await coinBoxToken.uniswapV2Router());
+    });
+
+    it('should deploy the price oracle registry behind the proxy for the UI helper', async () => {
+        const { priceOracleRegistry, priceOracleRegistryImpl, priceOracleRegistryProxy, stakeUIHelper, owner } = await loadFixture(deployFixture);
+        expect(await priceOracleRegistry.owner()).to.be.equal(owner.address);
+        expect(await stakeUIHelper.ORACLE()).to.be.equal(await priceOracleRegistry.getAddress());
+        expect(await getImplementation(await priceOracleRegistryProxy.getAddress()))
+            .to.be.equal(await priceOracleRegistryImpl.getAddress());
+    });
+
+    it('should add the staking pool for every asset', async () => {
+        const { staking, bitcoin, stakedBitcoin, toncoin, stakedToncoin } = await loadFixture(deployFixture);
+        expect(await staking.getPoolAssets()).to.have.length(5);
+        expect((await staking.pools(await bitcoin.getAddress())).receiptToken).to.be.equal(await stakedBitcoin.getAddress());
+        expect((await staking.pools(await toncoin.getAddress())).receiptToken).to.be.equal(await stakedToncoin.getAddress());
+        expect(await stakedBitcoin.symbol()).to.be.equal('stkBTC');
+    });
+
+    it('should deploy the assets with own decimals and let the faucet mint them', async () => {
+        const { bitcoin, toncoin, assetFaucet } = await loadFixture(deployFixture);
+        expect(await bitcoin.decimals()).to.be.equal(8);
+        expect(await toncoin.decimals()).to.be.equal(9);
+        expect(await bitcoin.hasRole(await bitcoin.MINTER_ROLE(), await assetFaucet.getAddress())).to.be.equal(true);
+        expect((await assetFaucet.drips(await bitcoin.getAddress())).amount).to.be.equal(ethers.parseUnits('0.01', 8));
+    });
+
+    it('should allow the deployed token and assets in the campaigns', async () => {
+        const { donationCampaigns, registration, coinBoxToken, bitcoin, toncoin } = await loadFixture(deployFixture);
+        expect(await donationCampaigns.registration()).to.be.equal(await registration.getAddress());
+        expect(await donationCampaigns.supportedTokens(await coinBoxToken.getAddress())).to.be.equal(true);
+        expect(await donationCampaigns.supportedTokens(await bitcoin.getAddress())).to.be.equal(true);
+        expect(await donationCampaigns.supportedTokens(await toncoin.getAddress())).to.be.equal(true);
+    });
+
+    it('should give the proxy admins to the owner', async () => {
+        const { coinBoxTokenProxyAdmin, stakingProxyAdmin, registrationProxyAdmin, donationCampaignsProxyAdmin, owner } =
+            await loadFixture(deployFixture);
+        for (const proxyAdmin of [coinBoxTokenProxyAdmin, stakingProxyAdmin, registrationProxyAdmin, donationCampaignsProxyAdmin]) {
+            expect(await proxyAdmin.owner()).to.be.equal(owner.address);
+        }
+    });
+});
@@ -0,0 +1,290 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import { CoinBoxToken, DonationCampaigns, Registration } from '../typechain-types';
+import { days } from '@nomicfoundation/hardhat-network-helpers/dist/src/helpers/time/duration';
+import { deployUniswapV2 } from './helpers/uniswap';
+import { relayDonation } from './helpers/relayer';
+import { signDonation, signPermit } from '../ignition/helpers/signatures';
+
+describe('DonationCampaigns', async () => {
+    const zeroAddress = ethers.ZeroAddress;
+    const ipfsHash = ethers.encodeBytes32String('ipfs');
+    const goal = ethers.parseEther('100');
+
+    async function deployFixture() {
+        const [owner, creator, beneficiary, donor1, donor2] = await ethers.getSigners();
+
+        const RegistrationImpl = await (await ethers.getContractFactory('Registration')).deploy();
+        const RegistrationProxy = await (await ethers.getContractFactory('CoinBoxProxy')).deploy(
+            RegistrationImpl.target, owner.address, RegistrationImpl.interface.encodeFunctionData('initialize')
+        );
+        const registry = RegistrationImpl.attach(RegistrationProxy.target) as Registration;
+        await registry.connect(creator).registerMember('image', 'creator', ipfsHash);
+
+        const token = await (await ethers.getContractFactory('MockERC20')).deploy(ethers.parseEther('1000'));
+        const bitcoin = await (await ethers.getContractFactory('AssetToken')).deploy('Bitcoin', 'BTC', 8, 0, owner.address);
+        await token.mint(donor1.address, ethers.parseEther('1000'));
+        await token.mint(donor2.address, ethers.parseEther('1000'));
+
+        const CampaignsImpl = await (await ethers.getContractFactory('DonationCampaigns')).deploy();
+        const CampaignsProxy = await (await ethers.getContractFactory('CoinBoxProxy')).deploy(
+            CampaignsImpl.target, owner.address,
+            CampaignsImpl.interface.encodeFunctionData('initialize', [registry.target, token.target, [bitcoin.target]])
+        );
+        const campaigns = CampaignsImpl.attach(CampaignsProxy.target) as DonationCampaigns;
+        await token.connect(donor1).approve(campaigns.target, ethers.MaxUint256);
+        await token.connect(donor2).approve(campaigns.target, ethers.MaxUint256);
+
+        return { campaigns, registry, token, bitcoin, owner, creator, beneficiary, donor1, donor2 };
+    };
+
+    async function campaignFixture() {
+        const fixture = await deployFixture();
+        const deadline = (await time.latest()) + days(7);
+        await fixture.campaigns.connect(fixture.creator).createCampaign(
+            fixture.token.target, fixture.beneficiary.address, goal, deadline, ipfsHash
+        );
+        return { ...fixture, deadline };
+    };
+
+    describe('DonationCampaigns Initializing Phase Test Cases', async () => {
+        it('should set the registration and supported tokens correctly', async () => {
+            const { campaigns, registry, token, bitcoin, owner } = await loadFixture(deployFixture);
+            expect(await campaigns.registration()).to.be.equal(registry.target);
+            expect(await campaigns.supportedTokens(token.target)).to.be.equal(true);
+            expect(await campaigns.supportedTokens(bitcoin.target)).to.be.equal(true);
+            expect(await campaigns.owner()).to.be.equal(owner.address);
+        });
+
+        it('should revert if an owner want to initialize a SC twice', async () => {
+            const { campaigns, registry, token } = await loadFixture(deployFixture);
+            await expect(campaigns.initialize(registry.target, token.target, []))
+                .to.be.revertedWithCustomError(campaigns, 'InvalidInitialization()');
+        });
+
+        it('should allow and disallow the token by an owner', async () => {
+            const { campaigns, bitcoin } = await loadFixture(deployFixture);
+            await expect(campaigns.setSupportedToken(bitcoin.target, false))
+                .to.be.emit(campaigns, 'SupportedToken').withArgs(bitcoin.target, false);
+            expect(await campaigns.supportedTokens(bitcoin.target)).to.be.equal(false);
+        });
+
+        it('shouldn\'t allow the token if a caller isn\'t an owner', async () => {
+            const { campaigns, bitcoin, donor1 } = await loadFixture(deployFixture);
+            await expect(campaigns.connect(donor1).setSupportedToken(bitcoin.target, true)).to.be.reverted;
+        });
+    });
+
+    describe('DonationCampaigns Creation Phase Test Cases', async () => {
+        it('should create the campaign correctly', async () => {
+            const { campaigns, token, creator, beneficiary } = await loadFixture(deployFixture);
+            const deadline = (await time.latest()) + days(7);
+            await expect(campaigns.connect(creator).createCampaign(
+                token.target, beneficiary.address, goal, deadline, ipfsHash
+            )).to.be.emit(campaigns, 'CampaignCreated')
+                .withArgs(0, creator.address, beneficiary.address, token.target, goal, deadline, ipfsHash);
+
+            const campaign = await campaigns.getCampaign(0);
+            expect(campaign.creator).to.be.equal(creator.address);
+            expect(campaign.goal).to.be.equal(goal);
+            expect(campaign.status).to.be.equal(0);
+            expect(await campaigns.campaignsCount()).to.be.equal(1);
+        });
+
+        it('shouldn\'t create the campaign if a caller isn\'t the registered member', async () => {
+            const { campaigns, token, donor1, beneficiary } = await loadFixture(deployFixture);
+            const deadline = (await time.latest()) + days(7);
+            await expect(campaigns.connect(donor1).createCampaign(
+                token.target, beneficiary.address, goal, deadline, ipfsHash
+            )).to.be.revertedWithCustomError(campaigns, 'UnregisteredAccount()');
+        });
+
+        it('shouldn\'t create the campaign if the creator is suspended', async () => {
+            const { campaigns, registry, token, owner, creator, beneficiary } = await loadFixture(deployFixture);
+            await registry.grantRole(await registry.MODERATOR_ROLE(), owner.address);
+            await registry.suspendMember(creator.address, ethers.encodeBytes32String('FRAUD'));
+            const deadline = (await time.latest()) + days(7);
+            await expect(campaigns.connect(creator).createCampaign(
+                token.target, beneficiary.address, goal, deadline, ipfsHash
+            )).to.be.revertedWithCustomError(campaigns, 'UnregisteredAccount()');
+        });
+
+        it('shouldn\'t create the campaign with the invalid params', async () => {
+            const { campaigns, token, registry, creator, beneficiary } = await loadFixture(deployFixture);
+            const deadline = (await time.latest()) + days(7);
+            await expect(campaigns.connect(creator).createCampaign(
+                registry.target, beneficiary.address, goal, deadline, ipfsHash
+            )).to.be.revertedWithCustomError(campaigns, 'UnsupportedToken()');
+            await expect(campaigns.connect(creator).createCampaign(
+                token.target, zeroAddress, goal, deadline, ipfsHash
+            )).to.be.revertedWithCustomError(campaigns, 'ZeroAddress()');
+            await expect(campaigns.connect(creator).createCampaign(
+                token.target, beneficiary.address, 0, deadline, ipfsHash
+            )).to.be.revertedWithCustomError(campaigns, 'InvalidAmount()');
+            await expect(campaigns.connect(creator).createCampaign(
+                token.target, beneficiary.address, goal, await time.latest(), ipfsHash
+            )).to.be.revertedWithCustomError(campaigns, 'InvalidDeadline()');
+        });
+
+        it('shouldn\'t return the unknown campaign', async () => {
+            const { campaigns } = await loadFixture(deployFixture);
+            await expect(campaigns.getCampaign(0)).to.be.revertedWithCustomError(campaigns, 'UnknownCampaign()');
+        });
+    });
+
+    describe('DonationCampaigns Donation Phase Test Cases', async () => {
+        it('should donate to the campaign correctly', async () => {
+            const { campaigns, token, donor1, donor2 } = await loadFixture(campaignFixture);
+            await expect(campaigns.connect(donor1).donate(0, ethers.parseEther('30')))
+                .to.be.emit(campaigns, 'Donated').withArgs(0, donor1.address, ethers.parseEther('30'), ethers.parseEther('30'));
+            await campaigns.connect(donor2).donate(0, ethers.parseEther('20'));
+            expect((await campaigns.getCampaign(0)).raised).to.be.equal(ethers.parseEther('50'));
+            expect(await campaigns.donations(0, donor1.address)).to.be.equal(ethers.parseEther('30'));
+            expect(await token.balanceOf(campaigns.target)).to.be.equal(ethers.parseEther('50'));
+        });
+
+        it('shouldn\'t donate if the amount is zero', async () => {
+            const { campaigns, donor1 } = await loadFixture(campaignFixture);
+            await expect(campaigns.connect(donor1).donate(0, 0)).to.be.revertedWithCustomError(campaigns, 'InvalidAmount()');
+        });
+
+        it('shouldn\'t donate after the deadline', async () => {
+            const { campaigns, donor1, deadline } = await loadFixture(campaignFixture);
+            await time.increaseTo(deadline + 1);
+            await expect(campaigns.connect(donor1).donate(0, ethers.parseEther('1')))
+                .to.be.revertedWithCustomError(campaigns, 'InactiveCampaign()');
+        });
+
+        it('shouldn\'t donate to the unknown campaign', async () => {
+            const { campaigns, donor1 } = await loadFixture(campaignFixture);
+            await expect(campaigns.connect(donor1).donate(1, ethers.parseEther('1')))
+                .to.be.revertedWithCustomError(campaigns, 'UnknownCampaign()');
+        });
+    });
+
+    describe('DonationCampaigns Payout & Refund Phase Test Cases', async () => {
+        it('should pay out the funds to the beneficiary once the goal is reached', async () => {
+            const { campaigns, token, creator, beneficiary, donor1 } = await loadFixture(campaignFixture);
+            await campaigns.connect(donor1).donate(0, goal);
+            await expect(campaigns.connect(creator).claimFunds(0))
+                .to.be.emit(campaigns, 'FundsClaimed').withArgs(0, beneficiary.address, goal);
+            expect(await token.balanceOf(beneficiary.address)).to.be.equal(goal);
+            expect((await campaigns.getCampaign(0)).status).to.be.equal(1);
+            await expect(campaigns.connect(donor1).donate(0, 1)).to.be.revertedWithCustomError(campaigns, 'InactiveCampaign()');
+        });
+
+        it('shouldn\'t pay out if the goal isn\'t reached', async () => {
+            const { campaigns, beneficiary, donor1 } = await loadFixture(campaignFixture);
+            await campaigns.connect(donor1).donate(0, ethers.parseEther('1'));
+            await expect(campaigns.connect(beneficiary).claimFunds(0))
+                .to.be.revertedWithCustomError(campaigns, 'GoalNotReached()');
+        });
+
+        it('shouldn\'t pay out if a caller isn\'t the creator or the beneficiary', async () => {
+            const { campaigns, donor1 } = await loadFixture(campaignFixture);
+            await campaigns.connect(donor1).donate(0, goal);
+            await expect(campaigns.connect(donor1).claimFunds(0))
+                .to.be.revertedWithCustomError(campaigns, 'InvalidPermission()');
+        });
+
+        it('should refund the donations if the campaign is failed', async () => {
+            const { campaigns, token, donor1, deadline } = await loadFixture(campaignFixture);
+            const amount = ethers.parseEther('10');
+            const balanceBefore = await token.balanceOf(donor1.address);
+            await campaigns.connect(donor1).donate(0, amount);
+            await expect(campaigns.connect(donor1).refund(0))
+                .to.be.revertedWithCustomError(campaigns, 'RefundUnavailable()');
+
+            await time.increaseTo(deadline + 1);
+            expect(await campaigns.isFailed(0)).to.be.equal(true);
+            await expect(campaigns.connect(donor1).refund(0))
+                .to.be.emit(campaigns, 'Refunded').withArgs(0, donor1.address, amount);
+            expect(await token.balanceOf(donor1.address)).to.be.equal(balanceBefore);
+            await expect(campaigns.connect(donor1).refund(0))
+                .to.be.revertedWithCustomError(campaigns, 'InvalidAmount()');
+        });
+
+        it('should refund the donations if the campaign is cancelled', async () => {
+            const { campaigns, creator, donor1 } = await loadFixture(campaignFixture);
+            const amount = ethers.parseEther('10');
+            await campaigns.connect(donor1).donate(0, amount);
+            await expect(campaigns.connect(creator).cancelCampaign(0))
+                .to.be.emit(campaigns, 'CampaignCancelled').withArgs(0);
+            await expect(campaigns.connect(donor1).refund(0))
+                .to.be.emit(campaigns, 'Refunded').withArgs(0, donor1.address, amount);
+            await expect(campaigns.connect(creator).claimFunds(0))
+                .to.be.revertedWithCustomError(campaigns, 'InactiveCampaign()');
+        });
+
+        it('shouldn\'t cancel the campaign if a caller isn\'t the creator', async () => {
+            const { campaigns, donor1 } = await loadFixture(campaignFixture);
+            await expect(campaigns.connect(donor1).cancelCampaign(0))
+                .to.be.revertedWithCustomError(campaigns, 'InvalidPermission()');
+        });
+    });
+
+    describe('DonationCampaigns Gasless Donation Phase Test Cases', async () => {
+        const amount = ethers.parseEther('50');
+
+        async function gaslessFixture() {
+            const fixture = await deployFixture();
+            const { campaigns, owner, creator, beneficiary } = fixture;
+            const { router } = await deployUniswapV2();
+            const CoinBoxTokenImpl = await (await ethers.getContractFactory('CoinBoxToken')).deploy();
+            const CBTokenProxy = await (await ethers.getContractFactory('CoinBoxProxy')).deploy(
+                CoinBoxTokenImpl.target, owner.address,
+                CoinBoxTokenImpl.interface.encodeFunctionData('initialize', [router.target, owner.address])
+            );
+            const coinBoxToken = CoinBoxTokenImpl.attach(CBTokenProxy.target) as CoinBoxToken;
+            await campaigns.setSupportedToken(coinBoxToken.target, true);
+            await campaigns.connect(creator).createCampaign(
+                coinBoxToken.target, beneficiary.address, goal, (await time.latest()) + days(7), ipfsHash
+            );
+
+            // the donor without ETH: every transaction is submitted by the relayer
+            const donor = ethers.Wallet.createRandom(ethers.provider);
+            await coinBoxToken.transfer(donor.address, amount);
+            const deadline = BigInt(await time.latest()) + BigInt(days(1));
+            return { ...fixture, coinBoxToken, donor, relayer: fixture.donor2, deadline };
+        };
+
+        it('should donate with the permit and the signed donation submitted by the relayer', async () => {
+            const { campaigns, coinBoxToken, donor, relayer, deadline } = await loadFixture(gaslessFixture);
+            const permit = await signPermit(coinBoxToken, donor, await campaigns.getAddress(), amount, deadline);
+            const donation = await signDonation(campaigns, donor, 0n, amount, deadline);
+            const received = amount - amount * 2n / 100n;
+
+            await expect(relayDonation(relayer, coinBoxToken, campaigns, permit, donation))
+                .to.be.emit(campaigns, 'Donated').withArgs(0, donor.address, received, received);
+            expect(await campaigns.donations(0, donor.address)).to.be.equal(received);
+            expect(await campaigns.nonces(donor.address)).to.be.equal(1);
+            expect(await coinBoxToken.balanceOf(donor.address)).to.be.equal(0);
+            expect(await ethers.provider.getBalance(donor.address)).to.be.equal(0);
+        });
+
+        it('shouldn\'t donate with the invalid or replayed signature', async () => {
+            const { campaigns, coinBoxToken, donor, relayer, deadline } = await loadFixture(gaslessFixture);
+            const permit = await signPermit(coinBoxToken, donor, await campaigns.getAddress(), amount, deadline);
+            const donation = await signDonation(campaigns, donor, 0n, amount / 2n, deadline);
+
+            await expect(relayDonation(relayer, coinBoxToken, campaigns, permit, { ...donation, amount }))
+                .to.be.revertedWithCustomError(campaigns, 'InvalidSignature()');
+            await campaigns.connect(relayer).donateBySig(0, donor.address, amount / 2n, deadline, donation.signature);
+            await expect(campaigns.connect(relayer).donateBySig(0, donor.address, amount / 2n, deadline, donation.signature))
+                .to.be.revertedWithCustomError(campaigns, 'InvalidSignature()');
+        });
+
+        it('shouldn\'t donate with the expired signature', async () => {
+            const { campaigns, coinBoxToken, donor, relayer, deadline } = await loadFixture(gaslessFixture);
+            const permit = await signPermit(coinBoxToken, donor, await campaigns.getAddress(), amount, deadline);
+            await coinBoxToken.connect(relayer).permit(
+                permit.owner, permit.spender, permit.value, permit.deadline, permit.v, permit.r, permit.s
+            );
+            const donation = await signDonation(campaigns, donor, 0n, amount, deadline);
+            await time.increase(days(2));
+            await expect(campaigns.connect(relayer).donateBySig(0, donor.address, amount, deadline, donation.signature))
+                .to.be.revertedWithCustomError(campaigns, 'ExpiredSignature').withArgs(deadline);
+        });
+    });
+});
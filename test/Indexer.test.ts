@@ -0,0 +1,175 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers, network } from 'hardhat';
+import { expect } from 'chai';
+import { loadFixture, mine, time } from '@nomicfoundation/hardhat-network-helpers';
+import { CoinBoxToken, Registration, Staking } from '../typechain-types';
+import { days } from '@nomicfoundation/hardhat-network-helpers/dist/src/helpers/time/duration';
+import { deployUniswapV2 } from './helpers/uniswap';
+import { executeTimelocked } from './helpers/timelock';
+import { CoinBoxIndexer } from '../ignition/helpers/indexer/indexer';
+import { JsonIndexerStore } from '../ignition/helpers/indexer/store';
+import { getFeesPerDay, getMemberStakingHistory, getMembers, getRewardExclusions } from '../ignition/helpers/indexer/queries';
+
+describe('CoinBoxIndexer', async () => {
+    const ipfsHash = ethers.encodeBytes32String('ipfs');
+    const amount = ethers.parseEther('10');
+    const tokens = ethers.parseEther('1000');
+
+    async function deployFixture() {
+        const [owner, user1, user2] = await ethers.getSigners();
+        const { router, weth } = await deployUniswapV2();
+        const Proxy = await ethers.getContractFactory('CoinBoxProxy');
+        const startBlock = await ethers.provider.getBlockNumber() + 1;
+
+        const TokenImpl = await (await ethers.getContractFactory('CoinBoxToken')).deploy();
+        const TokenProxy = await Proxy.deploy(
+            TokenImpl.target, owner.address, TokenImpl.interface.encodeFunctionData('initialize', [router.target, owner.address])
+        );
+        const token = TokenImpl.attach(TokenProxy.target) as CoinBoxToken;
+
+        const StakingImpl = await (await ethers.getContractFactory('Staking')).deploy();
+        const StakingProxy = await Proxy.deploy(
+            StakingImpl.target, owner.address, StakingImpl.interface.encodeFunctionData('initialize', [
+                weth.target, token.target, 1800, 900, owner.address, owner.address, days(90)
+            ])
+        );
+        const staking = StakingImpl.attach(StakingProxy.target) as Staking;
+        await staking.configureAssets([{ emissionPerSecond: ethers.parseEther('0.01'), totalStaked: 0, underlyingAsset: staking.target }]);
+        await token.approve(staking.target, ethers.MaxUint256);
+
+        const RegistrationImpl = await (await ethers.getContractFactory('Registration')).deploy();
+        const RegistrationProxy = await Proxy.deploy(
+            RegistrationImpl.target, owner.address, RegistrationImpl.interface.encodeFunctionData('initialize')
+        );
+        const registration = RegistrationImpl.attach(RegistrationProxy.target) as Registration;
+
+        await weth.connect(user1).deposit({ value: amount });
+        await weth.connect(user1).approve(staking.target, ethers.MaxUint256);
+
+        const createIndexer = (store = new JsonIndexerStore(), confirmations = 0) =>
+            new CoinBoxIndexer({ registration, staking, token }, store, { startBlock, confirmations, blockRange: 5 });
+
+        return { token, staking, registration, createIndexer, startBlock, owner, user1, user2 };
+    };
+
+    async function activityFixture() {
+        const fixture = await deployFixture();
+        const { token, staking, registration, user1, user2 } = fixture;
+
+        await registration.connect(user1).registerMember('image', 'alice', ipfsHash);
+        await staking.connect(user1).stake(amount);
+        await time.increase(3600);
+        await staking.connect(user1).cooldown();
+        await time.increase(1801);
+        await staking.connect(user1).redeem(user1.address, amount);
+        await staking.connect(user1).claimRewards(user2.address, ethers.MaxUint256);
+
+        await executeTimelocked(token, 'setTransferFeePercent', [2, 5]);
+        await token.transfer(user1.address, tokens);
+        await token.connect(user1).transfer(user2.address, tokens / 2n);
+        const feeDay = new Date((await time.latest()) * 1000).toISOString().slice(0, 10);
+        await executeTimelocked(token, 'excludeFromReward', [user2.address]);
+
+        return { ...fixture, feeDay };
+    };
+
+    describe('CoinBoxIndexer Sync Phase Test Cases', async () => {
+        it('should index the staking history of the member', async () => {
+            const { createIndexer, user1, user2 } = await loadFixture(activityFixture);
+            const indexer = createIndexer();
+            const result = await indexer.sync();
+            expect(result.lastBlock).to.be.equal(await ethers.provider.getBlockNumber());
+
+            const history = getMemberStakingHistory(indexer.store.getEvents(), user1.address.toLowerCase());
+            expect(history.member!.username).to.be.equal('alice');
+            expect(history.entries.map(entry => entry.event).filter(event => event !== 'RewardsAccrued'))
+                .to.be.deep.equal(['Staked', 'Cooldown', 'Redeem', 'RewardsClaimed']);
+            expect(history.staked).to.be.equal(amount);
+            expect(history.redeemed).to.be.equal(amount);
+            expect(history.entries.find(entry => entry.event === 'Redeem')!.to).to.be.equal(user1.address);
+
+            expect(history.entries.find(entry => entry.event === 'RewardsClaimed')!.to).to.be.equal(user2.address);
+            expect(history.rewardsClaimed).to.be.equal(history.rewardsAccrued);
+            expect(history.rewardsAccrued).to.be.gt(0);
+        });
+
+        it('should count the fees per day and the reward exclusions', async () => {
+            const { token, createIndexer, feeDay, user2 } = await loadFixture(activityFixture);
+            const indexer = createIndexer();
+            await indexer.sync();
+
+            const events = indexer.store.getEvents();
+            const fees = getFeesPerDay(events);
+            expect(fees.reduce((total, day) => total + day.reflectedFees, 0n)).to.be.equal(await token.totalFees());
+            expect(fees.find(day => day.day === feeDay)!.reflectedFees).to.be.equal(tokens / 2n * 5n / 100n);
+
+            const exclusions = getRewardExclusions(events);
+            expect(exclusions.map(exclusion => exclusion.account)).to.include(user2.address);
+            expect(exclusions[exclusions.length - 1].tOwned).to.be.equal((await token.balanceOf(user2.address)).toString());
+        });
+
+        it('should continue from the last indexed block of the JSON store', async () => {
+            const { registration, createIndexer, user2 } = await loadFixture(activityFixture);
+            const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'coinbox-indexer-')), `${network.name}.json`);
+            const indexed = (await createIndexer(new JsonIndexerStore(filePath)).sync()).events;
+
+            await registration.connect(user2).registerMember('image', 'bob', ipfsHash);
+            const indexer = createIndexer(new JsonIndexerStore(filePath));
+            const result = await indexer.sync();
+
+            expect(result.events).to.be.equal(1);
+            expect(indexer.store.getEvents()).to.have.length(indexed + 1);
+            expect(getMembers(indexer.store.getEvents()).map(member => member.username)).to.be.deep.equal(['alice', 'bob']);
+            fs.rmSync(path.dirname(filePath), { recursive: true });
+        });
+
+        it('should stay the confirmations behind the head', async () => {
+            const { registration, createIndexer, user1 } = await loadFixture(deployFixture);
+            await registration.connect(user1).registerMember('image', 'alice', ipfsHash);
+            const indexer = createIndexer(new JsonIndexerStore(), 2);
+
+            expect((await indexer.sync()).events).to.be.equal(0);
+            await mine(2);
+            expect((await indexer.sync()).events).to.be.equal(1);
+            expect(indexer.store.getState()!.lastBlock).to.be.equal(await ethers.provider.getBlockNumber() - 2);
+        });
+    });
+
+    describe('CoinBoxIndexer Reorg Phase Test Cases', async () => {
+        it('should roll back the events of the reorganized blocks', async () => {
+            const { registration, createIndexer, user1, user2 } = await loadFixture(deployFixture);
+            await registration.connect(user1).registerMember('image', 'alice', ipfsHash);
+            const indexer = createIndexer();
+            await indexer.sync();
+            const forkBlock = await ethers.provider.getBlockNumber();
+
+            const snapshot = await network.provider.send('evm_snapshot');
+            await registration.connect(user1).updateData('image', 'alice v2', ipfsHash);
+            await mine(3);
+            await indexer.sync();
+            expect(getMembers(indexer.store.getEvents())[0].username).to.be.equal('alice v2');
+
+            await network.provider.send('evm_revert', [snapshot]);
+            await registration.connect(user2).registerMember('image', 'bob', ipfsHash);
+            await mine(5);
+            const result = await indexer.sync();
+
+            expect(result.rolledBackTo).to.be.equal(forkBlock);
+            const events = indexer.store.getEvents();
+            expect(events.map(event => event.event)).to.be.deep.equal(['RegisteredMember', 'RegisteredMember']);
+            expect(getMembers(events).map(member => member.username)).to.be.deep.equal(['alice', 'bob']);
+            expect(indexer.store.getState()!.lastBlock).to.be.equal(await ethers.provider.getBlockNumber());
+        });
+
+        it('shouldn\'t sync the store of the other contracts', async () => {
+            const { createIndexer } = await loadFixture(deployFixture);
+            const store = new JsonIndexerStore();
+            await createIndexer(store).sync();
+
+            const { createIndexer: createOtherIndexer } = await deployFixture();
+            await expect(createOtherIndexer(store).sync()).to.be.rejectedWith('Indexer store belongs to another');
+        });
+    });
+});
@@ -0,0 +1,157 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers, run } from 'hardhat';
+import { expect } from 'chai';
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers';
+import { Registration } from '../typechain-types';
+import {
+    chunkByGas,
+    exportMembers,
+    findDuplicates,
+    importMembers,
+    readMembersFile,
+    validateMembers,
+    writeMembersFile
+} from '../ignition/helpers/members';
+import { runSilently } from './helpers/console';
+
+describe('Members import & export', async () => {
+    const zeroAddress = ethers.ZeroAddress;
+    const ipfsHash = ethers.encodeBytes32String('ipfs');
+
+    async function deployFixture() {
+        const [owner, user1] = await ethers.getSigners();
+
+        const RegistrationImpl = await (await ethers.getContractFactory('Registration')).deploy();
+        const RegistrationProxy = await (await ethers.getContractFactory('CoinBoxProxy')).deploy(
+            RegistrationImpl.target, owner.address, RegistrationImpl.interface.encodeFunctionData('initialize')
+        );
+        const registry = RegistrationImpl.attach(RegistrationProxy.target) as Registration;
+
+        const accounts = Array.from({ length: 6 }, () => ethers.Wallet.createRandom().address);
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'coinbox-members-'));
+        const file = path.join(dir, 'members.csv');
+        fs.writeFileSync(file, [
+            'account,username,image,ipfsHash',
+            `${accounts[0]},alice,"https://img/a.png?size=1,2",ipfs-a`,
+            `${accounts[1]},bob,https://img/b.png,${ipfsHash}`,
+            `${accounts[2]},carol,,`,
+            `0x1234,dave,,`,
+            `${accounts[3]},,,`,
+            `${accounts[4]},ALICE,,`,
+            `${accounts[5]},erin,,0x1234`,
+            ''
+        ].join('\r\n'));
+
+        const manifest = path.join(dir, 'hardhat.json');
+        fs.writeFileSync(manifest, JSON.stringify({
+            network: 'hardhat', chainId: 31337, updatedAt: '', contracts: {},
+            proxies: { Registration: { proxy: await registry.getAddress(), implementation: zeroAddress, proxyAdmin: zeroAddress } }
+        }));
+
+        return { registry, accounts, dir, file, manifest, owner, user1 };
+    };
+
+    describe('Members Import Phase Test Cases', async () => {
+        it('should validate the rows of the CSV file', async () => {
+            const { file, accounts } = await loadFixture(deployFixture);
+            const { rows, invalid } = validateMembers(readMembersFile(file));
+
+            expect(rows.map(row => row.username)).to.be.deep.equal(['alice', 'bob', 'carol']);
+            expect(rows[0].image).to.be.equal('https://img/a.png?size=1,2');
+            expect(rows[0].ipfsHash).to.be.equal(ethers.encodeBytes32String('ipfs-a'));
+            expect(rows[1].ipfsHash).to.be.equal(ipfsHash);
+            expect(rows[2].ipfsHash).to.be.equal(ethers.ZeroHash);
+            expect(invalid).to.be.deep.equal([
+                { index: 3, account: '0x1234', reason: 'invalid account' },
+                { index: 4, account: accounts[3], reason: 'empty username' },
+                { index: 5, account: accounts[4], reason: 'duplicate username in the file' },
+                { index: 6, account: accounts[5], reason: 'invalid ipfs hash' }
+            ]);
+        });
+
+        it('should find the registered accounts and the taken usernames', async () => {
+            const { registry, file, user1, accounts } = await loadFixture(deployFixture);
+            await registry.connect(user1).registerMember('image', 'Bob', ipfsHash);
+            await registry.registerMembersBatch(['image'], ['carol'], [accounts[2]], [ipfsHash]);
+
+            const { rows } = validateMembers(readMembersFile(file));
+            const { rows: fresh, duplicates } = await findDuplicates(registry, rows);
+            expect(fresh.map(row => row.username)).to.be.deep.equal(['alice']);
+            expect(duplicates).to.be.deep.equal([
+                { index: 1, account: accounts[1], reason: 'UsernameTaken' },
+                { index: 2, account: accounts[2], reason: 'RegisteredAccount' }
+            ]);
+        });
+
+        it('should split the rows into the batches within the gas budget', async () => {
+            const { registry, file } = await loadFixture(deployFixture);
+            const { rows } = validateMembers(readMembersFile(file));
+            const rowGas = await registry.registerMembersBatchSkipDuplicates.estimateGas(
+                [rows[1].image], [rows[1].username], [rows[1].account], [rows[1].ipfsHash]
+            );
+
+            const batches = await chunkByGas(registry, rows, rowGas * 2n);
+            expect(batches.map(batch => batch.length)).to.be.deep.equal([2, 1]);
+            expect((await chunkByGas(registry, rows, 30_000_000n)).map(batch => batch.length)).to.be.deep.equal([3]);
+            await expect(chunkByGas(registry, rows, 50_000n)).to.be.rejectedWith('doesn\'t fit the gas budget');
+        });
+
+        it('should continue the import from the saved progress and keep the rows skipped by the contract', async () => {
+            const { registry, file, dir, user1, accounts } = await loadFixture(deployFixture);
+            const statePath = path.join(dir, 'members.import.json');
+            const { rows } = validateMembers(readMembersFile(file));
+
+            let state = await importMembers(registry, rows.slice(0, 1), { statePath });
+            expect(state.done).to.be.deep.equal([0]);
+            // registered after the check of the duplicates
+            await registry.connect(user1).registerMember('image', 'carol', ipfsHash);
+
+            const batches: number[][] = [];
+            state = await importMembers(registry, rows, { statePath, onBatch: batch => batches.push(batch.map(row => row.index)) });
+            expect(batches).to.be.deep.equal([[1, 2]]);
+            expect(state.done).to.be.deep.equal([0, 1, 2]);
+            expect(state.transactions).to.have.length(2);
+            expect(state.skipped).to.be.deep.equal([{ index: 2, account: accounts[2], reason: 'UsernameTaken' }]);
+            expect(JSON.parse(fs.readFileSync(statePath, 'utf8'))).to.be.deep.equal(state);
+
+            expect(await registry.registeredMembers(accounts[0])).to.be.equal(true);
+            expect(await registry.registeredMembers(accounts[2])).to.be.equal(false);
+        });
+
+        it('should import the file with the task only with --execute', async () => {
+            const { registry, file, manifest } = await loadFixture(deployFixture);
+            const plan = await runSilently(() => run('coinbox:members:import', { file, manifest }));
+            expect(plan.invalid).to.have.length(4);
+            expect(await registry.membersCount()).to.be.equal(0);
+
+            const result = await runSilently(() => run('coinbox:members:import', { file, manifest, execute: true }));
+            expect(result.state.done).to.have.length(3);
+            expect(await registry.membersCount()).to.be.equal(3);
+        });
+    });
+
+    describe('Members Export Phase Test Cases', async () => {
+        it('should export the members page by page and import the export back', async () => {
+            const { registry, dir, file, user1 } = await loadFixture(deployFixture);
+            const { rows } = validateMembers(readMembersFile(file));
+            await importMembers(registry, rows);
+            await registry.connect(user1).registerMember('image', 'frank', ipfsHash);
+
+            const members = await exportMembers(registry, 2);
+            expect(members.map(member => member.username)).to.be.deep.equal(['alice', 'bob', 'carol', 'frank']);
+            expect(members[0].image).to.be.equal('https://img/a.png?size=1,2');
+            expect(members[3].status).to.be.equal('Active');
+
+            for (const name of ['export.csv', 'export.json']) {
+                const exportPath = path.join(dir, name);
+                writeMembersFile(exportPath, members);
+                const exported = validateMembers(readMembersFile(exportPath));
+                expect(exported.invalid).to.have.length(0);
+                expect(exported.rows.map(row => row.account)).to.be.deep.equal(members.map(member => member.account));
+                expect((await findDuplicates(registry, exported.rows)).rows).to.have.length(0);
+            }
+        });
+    });
+});
@@ -0,0 +1,211 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import { PriceOracleRegistry } from '../typechain-types';
+import { days } from '@nomicfoundation/hardhat-network-helpers/dist/src/helpers/time/duration';
+import { deployUniswapV2 } from './helpers/uniswap';
+
+describe('PriceOracleRegistry', async () => {
+    const zeroAddress = ethers.ZeroAddress;
+    const SourceType = { None: 0, Aggregator: 1, UniswapV2Twap: 2 };
+    const none = { sourceType: SourceType.None, source: zeroAddress, maxDelay: 0 };
+    const heartbeat = 3600;
+    const ethUsd = 3000n * 10n ** 8n;
+    const btcUsd = 60_000n * 10n ** 8n;
+
+    async function deployFixture() {
+        const [owner, user1] = await ethers.getSigners();
+        const { router, weth, factory } = await deployUniswapV2();
+
+        const RegistryImpl = await (await ethers.getContractFactory('PriceOracleRegistry')).deploy();
+        const RegistryProxy = await (await ethers.getContractFactory('CoinBoxProxy')).deploy(
+            RegistryImpl.target, owner.address, RegistryImpl.interface.encodeFunctionData('initialize', [owner.address])
+        );
+        const registry = RegistryImpl.attach(RegistryProxy.target) as PriceOracleRegistry;
+
+        const Aggregator = await ethers.getContractFactory('MockAggregator');
+        const ethAggregator = await Aggregator.deploy(8, 'ETH / USD', ethUsd);
+        const btcAggregator = await Aggregator.deploy(8, 'BTC / USD', btcUsd);
+        const btcFallbackAggregator = await Aggregator.deploy(18, 'BTC / USD', 59_000n * 10n ** 18n);
+        const bitcoin = await (await ethers.getContractFactory('AssetToken')).deploy(
+            'Bitcoin', 'BTC', 8, ethers.parseUnits('1000', 8), owner.address
+        );
+
+        await registry.setAssetSources(weth.target, { sourceType: SourceType.Aggregator, source: ethAggregator.target, maxDelay: heartbeat }, none);
+        await registry.setAssetSources(
+            bitcoin.target,
+            { sourceType: SourceType.Aggregator, source: btcAggregator.target, maxDelay: heartbeat },
+            { sourceType: SourceType.Aggregator, source: btcFallbackAggregator.target, maxDelay: heartbeat }
+        );
+
+        return { registry, router, weth, factory, ethAggregator, btcAggregator, btcFallbackAggregator, bitcoin, owner, user1 };
+    };
+
+    async function pairFixture() {
+        const fixture = await deployFixture();
+        const { router, weth, factory, owner } = fixture;
+        // 1 000 tokens against 10 WETH: 0.01 WETH (30 USD) per token
+        const token = await (await ethers.getContractFactory('MockERC20')).deploy(ethers.parseEther('1000'));
+        await weth.deposit({ value: ethers.parseEther('10') });
+        await weth.approve(router.target, ethers.MaxUint256);
+        await token.approve(router.target, ethers.MaxUint256);
+        await router.addLiquidity(
+            token.target, weth.target, ethers.parseEther('1000'), ethers.parseEther('10'),
+            0, 0, owner.address, (await time.latest()) + 3600
+        );
+        const pair = await factory.getPair(token.target, weth.target);
+        return { ...fixture, token, pair };
+    };
+
+    describe('PriceOracleRegistry Aggregator Phase Test Cases', async () => {
+        it('should scale the aggregator\'s answer to the price decimals', async () => {
+            const { registry, weth, bitcoin } = await loadFixture(deployFixture);
+            expect(await registry.PRICE_DECIMALS()).to.be.equal(18);
+            expect(await registry.getPrice(weth.target)).to.be.equal(ethUsd * 10n ** 10n);
+            expect(await registry.getPrice(bitcoin.target)).to.be.equal(btcUsd * 10n ** 10n);
+            expect(await registry.getValue(bitcoin.target, ethers.parseUnits('0.5', 8))).to.be.equal(ethers.parseEther('30000'));
+        });
+
+        it('should fall back to the second source if the primary answer is stale or invalid', async () => {
+            const { registry, bitcoin, btcAggregator, btcFallbackAggregator } = await loadFixture(deployFixture);
+            await time.increase(heartbeat + 1);
+            await btcFallbackAggregator.setAnswer(59_000n * 10n ** 18n);
+            expect(await registry.getPrice(bitcoin.target)).to.be.equal(ethers.parseEther('59000'));
+
+            await btcAggregator.setAnswer(0);
+            expect(await registry.getPrice(bitcoin.target)).to.be.equal(ethers.parseEther('59000'));
+            await btcAggregator.setAnswer(btcUsd);
+            expect(await registry.getPrice(bitcoin.target)).to.be.equal(btcUsd * 10n ** 10n);
+        });
+
+        it('should skip the aggregator whose calls revert instead of reverting', async () => {
+            const { registry, bitcoin, btcAggregator, btcFallbackAggregator } = await loadFixture(deployFixture);
+            await btcAggregator.setDecimalsReverting(true);
+            expect(await registry.getPrice(bitcoin.target)).to.be.equal(ethers.parseEther('59000'));
+
+            await btcFallbackAggregator.setDecimalsReverting(true);
+            expect(await registry.tryGetPrice(bitcoin.target)).to.be.deep.equal([0n, false]);
+            await expect(registry.getPrice(bitcoin.target)).to.be.revertedWithCustomError(registry, 'PriceUnavailable');
+        });
+
+        it('should revert if neither source has a fresh price', async () => {
+            const { registry, bitcoin } = await loadFixture(deployFixture);
+            await time.increase(heartbeat + 1);
+            await expect(registry.getPrice(bitcoin.target))
+                .to.be.revertedWithCustomError(registry, 'PriceUnavailable').withArgs(bitcoin.target);
+            const [price, available] = await registry.tryGetPrice(bitcoin.target);
+            expect(price).to.be.equal(0);
+            expect(available).to.be.equal(false);
+        });
+
+        it('shouldn\'t price the unknown or removed asset', async () => {
+            const { registry, bitcoin, user1 } = await loadFixture(deployFixture);
+            await expect(registry.getPrice(user1.address))
+                .to.be.revertedWithCustomError(registry, 'PriceUnavailable').withArgs(user1.address);
+            await expect(registry.removeAsset(bitcoin.target)).to.be.emit(registry, 'AssetRemoved').withArgs(bitcoin.target);
+            expect((await registry.tryGetPrice(bitcoin.target)).available).to.be.equal(false);
+            await expect(registry.removeAsset(bitcoin.target)).to.be.revertedWithCustomError(registry, 'InvalidSource()');
+        });
+    });
+
+    describe('PriceOracleRegistry TWAP Phase Test Cases', async () => {
+        async function twapFixture() {
+            const fixture = await pairFixture();
+            await fixture.registry.setAssetSources(
+                fixture.token.target, { sourceType: SourceType.UniswapV2Twap, source: fixture.pair, maxDelay: days(1) }, none
+            );
+            return fixture;
+        };
+
+        it('should price the asset by the TWAP in WETH multiplied by the WETH price', async () => {
+            const { registry, token, pair, ethAggregator } = await loadFixture(twapFixture);
+            expect((await registry.tryGetPrice(token.target)).available).to.be.equal(false);
+            await expect(registry.update(token.target)).not.to.be.emit(registry, 'TwapUpdated');
+
+            await time.increase(await registry.TWAP_PERIOD());
+            await expect(registry.update(token.target)).to.be.emit(registry, 'TwapUpdated');
+            const observation = await registry.getObservation(token.target, pair);
+            expect(observation.updatedAt).to.be.equal(await time.latest());
+
+            await ethAggregator.setAnswer(ethUsd);
+            const price = await registry.getPrice(token.target);
+            expect(price).to.be.closeTo(ethers.parseEther('30'), 10n ** 6n);
+            expect(await registry.getValue(token.target, ethers.parseEther('2'))).to.be.equal(price * 2n);
+        });
+
+        it('should restart the observation instead of averaging over more than the max window', async () => {
+            const { registry, token, pair, ethAggregator } = await loadFixture(twapFixture);
+            await time.increase(await registry.TWAP_PERIOD());
+            await registry.update(token.target);
+            const { updatedAt } = await registry.getObservation(token.target, pair);
+
+            await time.increase(days(3));
+            await ethAggregator.setAnswer(ethUsd);
+            await expect(registry.update(token.target)).not.to.be.emit(registry, 'TwapUpdated');
+            const observation = await registry.getObservation(token.target, pair);
+            expect(observation.timestamp).to.be.equal(await time.latest());
+            expect(observation.updatedAt).to.be.equal(updatedAt);
+            expect((await registry.tryGetPrice(token.target)).available).to.be.equal(false);
+
+            await time.increase(await registry.TWAP_PERIOD());
+            await expect(registry.update(token.target)).to.be.emit(registry, 'TwapUpdated');
+            expect((await registry.tryGetPrice(token.target)).available).to.be.equal(true);
+        });
+
+        it('should ignore the TWAP if it\'s older than the max delay or the quote token has no price', async () => {
+            const { registry, token, ethAggregator } = await loadFixture(twapFixture);
+            await time.increase(await registry.TWAP_PERIOD());
+            await registry.update(token.target);
+            await ethAggregator.setAnswer(ethUsd);
+            expect((await registry.tryGetPrice(token.target)).available).to.be.equal(true);
+
+            await ethAggregator.setRoundData(ethUsd, (await time.latest()) - heartbeat - 1);
+            expect((await registry.tryGetPrice(token.target)).available).to.be.equal(false);
+
+            await ethAggregator.setDecimalsReverting(true);
+            expect(await registry.tryGetPrice(token.target)).to.be.deep.equal([0n, false]);
+            await ethAggregator.setDecimalsReverting(false);
+
+            await ethAggregator.setAnswer(ethUsd);
+            await time.increase(days(1) + 1);
+            await ethAggregator.setAnswer(ethUsd);
+            await expect(registry.getPrice(token.target)).to.be.revertedWithCustomError(registry, 'PriceUnavailable');
+        });
+    });
+
+    describe('PriceOracleRegistry Sources Phase Test Cases', async () => {
+        it('should set the sources of the asset by an owner', async () => {
+            const { registry, bitcoin, btcAggregator } = await loadFixture(deployFixture);
+            const primary = { sourceType: SourceType.Aggregator, source: btcAggregator.target, maxDelay: heartbeat * 2 };
+            await expect(registry.setAssetSources(bitcoin.target, primary, none)).to.be.emit(registry, 'AssetSources');
+            const sources = await registry.getAssetSources(bitcoin.target);
+            expect(sources.primary.maxDelay).to.be.equal(heartbeat * 2);
+            expect(sources.fallbackSource.sourceType).to.be.equal(SourceType.None);
+        });
+
+        it('shouldn\'t set the invalid sources', async () => {
+            const { registry, bitcoin, btcAggregator, pair, token } = await loadFixture(pairFixture);
+            const aggregator = { sourceType: SourceType.Aggregator, source: btcAggregator.target, maxDelay: heartbeat };
+            await expect(registry.setAssetSources(zeroAddress, aggregator, none))
+                .to.be.revertedWithCustomError(registry, 'ZeroAddress()');
+            await expect(registry.setAssetSources(bitcoin.target, none, none))
+                .to.be.revertedWithCustomError(registry, 'InvalidSource()');
+            await expect(registry.setAssetSources(bitcoin.target, { ...aggregator, maxDelay: 0 }, none))
+                .to.be.revertedWithCustomError(registry, 'InvalidSource()');
+            await expect(registry.setAssetSources(bitcoin.target, aggregator, { ...none, source: btcAggregator.target }))
+                .to.be.revertedWithCustomError(registry, 'InvalidSource()');
+            await expect(registry.setAssetSources(bitcoin.target, { sourceType: SourceType.UniswapV2Twap, source: pair, maxDelay: heartbeat }, none))
+                .to.be.revertedWithCustomError(registry, 'InvalidSource()');
+            await registry.setAssetSources(token.target, { sourceType: SourceType.UniswapV2Twap, source: pair, maxDelay: heartbeat }, aggregator);
+        });
+
+        it('shouldn\'t set or remove the sources if a caller isn\'t an owner', async () => {
+            const { registry, bitcoin, btcAggregator, user1 } = await loadFixture(deployFixture);
+            const aggregator = { sourceType: SourceType.Aggregator, source: btcAggregator.target, maxDelay: heartbeat };
+            await expect(registry.connect(user1).setAssetSources(bitcoin.target, aggregator, none))
+                .to.be.revertedWithCustomError(registry, 'OwnableUnauthorizedAccount').withArgs(user1.address);
+            await expect(registry.connect(user1).removeAsset(bitcoin.target))
+                .to.be.revertedWithCustomError(registry, 'OwnableUnauthorizedAccount').withArgs(user1.address);
+        });
+    });
+});
@@ -0,0 +1,325 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import { Signer } from 'ethers';
+import { Registration } from '../typechain-types';
+
+describe('Registration', async () => {
+    const zeroAddress = ethers.ZeroAddress;
+    const ipfsHash = ethers.encodeBytes32String('ipfs');
+    const newIpfsHash = ethers.encodeBytes32String('new ipfs');
+
+    async function deployFixture() {
+        const [owner, user1, user2, relayer] = await ethers.getSigners();
+
+        const RegistrationImpl = await (await ethers.getContractFactory('Registration')).deploy();
+        const RegistrationProxy = await (await ethers.getContractFactory('CoinBoxProxy')).deploy(
+            RegistrationImpl.target, owner.address, RegistrationImpl.interface.encodeFunctionData('initialize')
+        );
+        const registry = RegistrationImpl.attach(RegistrationProxy.target) as Registration;
+
+        return { registry, owner, user1, user2, relayer };
+    };
+
+    /// Signs the EIP-712 `Register` or `UpdateData` message of the account
+    async function sign(
+        registry: Registration, signer: Signer, primaryType: 'Register' | 'UpdateData',
+        image: string, username: string, hash: string, deadline: number
+    ) {
+        const { chainId } = await ethers.provider.getNetwork();
+        const account = await signer.getAddress();
+        const domain = { name: 'CoinBox Registration', version: '1', chainId, verifyingContract: await registry.getAddress() };
+        const types = {
+            [primaryType]: [
+                { name: 'account', type: 'address' },
+                { name: 'image', type: 'string' },
+                { name: 'username', type: 'string' },
+                { name: 'ipfsHash', type: 'bytes32' },
+                { name: 'nonce', type: 'uint256' },
+                { name: 'deadline', type: 'uint256' }
+            ]
+        };
+        const message = { account, image, username, ipfsHash: hash, nonce: await registry.nonces(account), deadline };
+        return signer.signTypedData(domain, types, message);
+    }
+
+    describe('Registration Sign Up Phase Test Cases', async () => {
+        it('should register the member by the wallet correctly', async () => {
+            const { registry, user1 } = await loadFixture(deployFixture);
+            await expect(registry.connect(user1).registerMember('image', 'user1', ipfsHash))
+                .to.be.emit(registry, 'RegisteredMember');
+
+            const member = await registry.getMemberData(user1.address);
+            expect(member.username).to.be.equal('user1');
+            expect(member.accountETH).to.be.equal(user1.address);
+            expect(member.ipfsHash).to.be.equal(ipfsHash);
+            expect(await registry.registeredMembers(user1.address)).to.be.equal(true);
+        });
+
+        it('shouldn\'t register the same wallet twice', async () => {
+            const { registry, user1 } = await loadFixture(deployFixture);
+            await registry.connect(user1).registerMember('image', 'user1', ipfsHash);
+            await expect(registry.connect(user1).registerMember('image', 'user1', ipfsHash))
+                .to.be.revertedWithCustomError(registry, 'AlreadyRegisteredAccount()');
+        });
+
+        it('should register the member by the signature submitted by a relayer', async () => {
+            const { registry, user1, relayer } = await loadFixture(deployFixture);
+            const deadline = (await time.latest()) + 3600;
+            const signature = await sign(registry, user1, 'Register', 'image', 'user1', ipfsHash, deadline);
+
+            await registry.connect(relayer).registerMemberBySig('image', 'user1', user1.address, ipfsHash, deadline, signature);
+            expect(await registry.registeredMembers(user1.address)).to.be.equal(true);
+            expect(await registry.registeredMembers(relayer.address)).to.be.equal(false);
+            expect(await registry.nonces(user1.address)).to.be.equal(1);
+        });
+
+        it('shouldn\'t register the member by the invalid, replayed or expired signature', async () => {
+            const { registry, user1, user2, relayer } = await loadFixture(deployFixture);
+            const deadline = (await time.latest()) + 3600;
+            const signature = await sign(registry, user2, 'Register', 'image', 'user1', ipfsHash, deadline);
+            await expect(registry.connect(relayer).registerMemberBySig('image', 'user1', user1.address, ipfsHash, deadline, signature))
+                .to.be.revertedWithCustomError(registry, 'InvalidSignature()');
+
+            const validSignature = await sign(registry, user1, 'Register', 'image', 'user1', ipfsHash, deadline);
+            await expect(registry.connect(relayer).registerMemberBySig('image', 'user2', user1.address, ipfsHash, deadline, validSignature))
+                .to.be.revertedWithCustomError(registry, 'InvalidSignature()');
+
+            await time.increaseTo(deadline + 1);
+            await expect(registry.connect(relayer).registerMemberBySig('image', 'user1', user1.address, ipfsHash, deadline, validSignature))
+                .to.be.revertedWithCustomError(registry, 'ExpiredSignature').withArgs(deadline);
+        });
+
+        it('should register the members in batch by an admin', async () => {
+            const { registry, user1, user2 } = await loadFixture(deployFixture);
+            await registry.registerMembersBatch(['image1', 'image2'], ['user1', 'user2'], [user1.address, user2.address], [ipfsHash, ipfsHash]);
+            expect(await registry.registeredMembers(user1.address)).to.be.equal(true);
+            expect(await registry.registeredMembers(user2.address)).to.be.equal(true);
+
+            await expect(registry.registerMembersBatch(['image'], ['user'], [zeroAddress], [ipfsHash]))
+                .to.be.revertedWithCustomError(registry, 'InvalidAccount()');
+            await expect(registry.registerMembersBatch(['image'], [], [user1.address], [ipfsHash]))
+                .to.be.revertedWith('Parameters length are mismatch');
+        });
+
+        it('shouldn\'t register the members in batch if a caller isn\'t an admin', async () => {
+            const { registry, user1 } = await loadFixture(deployFixture);
+            await expect(registry.connect(user1).registerMembersBatch(['image'], ['user1'], [user1.address], [ipfsHash]))
+                .to.be.revertedWithCustomError(registry, 'AccessControlUnauthorizedAccount');
+        });
+
+        it('should skip the duplicate rows of the batch and report them', async () => {
+            const { registry, owner, user1, user2, relayer } = await loadFixture(deployFixture);
+            const SkipReason = { RegisteredAccount: 1, RemovedAccount: 2, UsernameTaken: 3 };
+            await registry.connect(user1).registerMember('image', 'user1', ipfsHash);
+            await registry.grantRole(await registry.MODERATOR_ROLE(), owner.address);
+            await registry.connect(relayer).registerMember('image', 'relayer', ipfsHash);
+            await registry.removeMember(relayer.address, ethers.encodeBytes32String('SPAM'));
+
+            const rows = [
+                ['image', 'user1 again', user1.address],
+                ['image', 'USER1', user2.address],
+                ['image', 'user2', user2.address],
+                ['image', 'user2 again', user2.address],
+                ['image', 'relayer again', relayer.address]
+            ];
+            const args = [rows.map(row => row[0]), rows.map(row => row[1]), rows.map(row => row[2]), rows.map(() => ipfsHash)] as const;
+
+            expect(await registry.registerMembersBatchSkipDuplicates.staticCall(...args)).to.be.deep.equal([0n, 1n, 3n, 4n]);
+            await expect(registry.registerMembersBatchSkipDuplicates(...args))
+                .to.be.emit(registry, 'SkippedMember').withArgs(0, user1.address, SkipReason.RegisteredAccount)
+                .and.to.be.emit(registry, 'SkippedMember').withArgs(1, user2.address, SkipReason.UsernameTaken)
+                .and.to.be.emit(registry, 'SkippedMember').withArgs(3, user2.address, SkipReason.RegisteredAccount)
+                .and.to.be.emit(registry, 'SkippedMember').withArgs(4, relayer.address, SkipReason.RemovedAccount)
+                .and.to.be.emit(registry, 'RegisteredMember');
+            expect((await registry.getMemberData(user2.address)).username).to.be.equal('user2');
+            expect(await registry.membersCount()).to.be.equal(2);
+        });
+
+        it('shouldn\'t skip the invalid rows of the batch', async () => {
+            const { registry, user1 } = await loadFixture(deployFixture);
+            await expect(registry.registerMembersBatchSkipDuplicates(['image'], [''], [user1.address], [ipfsHash]))
+                .to.be.revertedWithCustomError(registry, 'InvalidUsername');
+            await expect(registry.registerMembersBatchSkipDuplicates(['image'], [], [user1.address], [ipfsHash]))
+                .to.be.revertedWith('Parameters length are mismatch');
+            await expect(registry.connect(user1).registerMembersBatchSkipDuplicates(['image'], ['user1'], [user1.address], [ipfsHash]))
+                .to.be.revertedWithCustomError(registry, 'AccessControlUnauthorizedAccount');
+        });
+    });
+
+    describe('Registration Update & Verification Phase Test Cases', async () => {
+        it('should update the personal data by the wallet and by the signature', async () => {
+            const { registry, user1, relayer } = await loadFixture(deployFixture);
+            await registry.connect(user1).registerMember('image', 'user1', ipfsHash);
+            await expect(registry.connect(user1).updateData('image2', 'user1', newIpfsHash))
+                .to.be.emit(registry, 'UpdatedMemberData');
+            expect((await registry.getMemberData(user1.address)).image).to.be.equal('image2');
+
+            const deadline = (await time.latest()) + 3600;
+            const signature = await sign(registry, user1, 'UpdateData', 'image3', 'user1', ipfsHash, deadline);
+            await registry.connect(relayer).updateDataBySig('image3', 'user1', user1.address, ipfsHash, deadline, signature);
+
+            const member = await registry.getMemberData(user1.address);
+            expect(member.image).to.be.equal('image3');
+            expect(member.ipfsHash).to.be.equal(ipfsHash);
+        });
+
+        it('shouldn\'t update the personal data of the unregistered account', async () => {
+            const { registry, user1 } = await loadFixture(deployFixture);
+            await expect(registry.connect(user1).updateData('image', 'user1', ipfsHash))
+                .to.be.revertedWithCustomError(registry, 'UnregisteredAccount()');
+        });
+
+        it('should verify the member by the signed message', async () => {
+            const { registry, user1, user2 } = await loadFixture(deployFixture);
+            await registry.connect(user1).registerMember('image', 'user1', ipfsHash);
+            const challenge = 'Sign in to CoinBox: 42';
+            const hash = ethers.hashMessage(challenge);
+
+            expect((await registry.verificateMember(user1.address, hash, await user1.signMessage(challenge))).verificate).to.be.equal(true);
+            expect((await registry.verificateMember(user1.address, hash, await user2.signMessage(challenge))).verificate).to.be.equal(false);
+            expect((await registry.verificateMember(user2.address, hash, await user2.signMessage(challenge))).verificate).to.be.equal(false);
+        });
+    });
+
+    describe('Registration Moderation Phase Test Cases', async () => {
+        const reason = ethers.encodeBytes32String('SPAM');
+        const kyc = ethers.encodeBytes32String('KYC_PASSED');
+        const MemberStatus = { None: 0, Active: 1, Suspended: 2, Removed: 3 };
+
+        async function moderationFixture() {
+            const fixture = await deployFixture();
+            const { registry, owner, user1 } = fixture;
+            await registry.grantRole(await registry.MODERATOR_ROLE(), owner.address);
+            await registry.grantRole(await registry.VERIFIER_ROLE(), owner.address);
+            await registry.connect(user1).registerMember('image', 'user1', ipfsHash);
+            return fixture;
+        };
+
+        it('should suspend and reinstate the member by a moderator', async () => {
+            const { registry, owner, user1 } = await loadFixture(moderationFixture);
+            await expect(registry.suspendMember(user1.address, reason))
+                .to.be.emit(registry, 'MemberStatusUpdated').withArgs(user1.address, MemberStatus.Suspended, reason, owner.address);
+            expect((await registry.getMemberData(user1.address)).status).to.be.equal(MemberStatus.Suspended);
+            expect(await registry.isActiveMember(user1.address)).to.be.equal(false);
+            expect(await registry.registeredMembers(user1.address)).to.be.equal(true);
+
+            const challenge = 'Sign in to CoinBox: 42';
+            const result = await registry.verificateMember(user1.address, ethers.hashMessage(challenge), await user1.signMessage(challenge));
+            expect(result.verificate).to.be.equal(false);
+            expect(result.status).to.be.equal(MemberStatus.Suspended);
+            await expect(registry.connect(user1).updateData('image', 'user1', ipfsHash))
+                .to.be.revertedWithCustomError(registry, 'InvalidMemberStatus').withArgs(MemberStatus.Suspended);
+
+            await expect(registry.reinstateMember(user1.address, reason))
+                .to.be.emit(registry, 'MemberStatusUpdated').withArgs(user1.address, MemberStatus.Active, reason, owner.address);
+            expect(await registry.isActiveMember(user1.address)).to.be.equal(true);
+        });
+
+        it('shouldn\'t suspend or reinstate the member with the invalid status', async () => {
+            const { registry, user1, user2 } = await loadFixture(moderationFixture);
+            await expect(registry.reinstateMember(user1.address, reason))
+                .to.be.revertedWithCustomError(registry, 'InvalidMemberStatus').withArgs(MemberStatus.Active);
+            await expect(registry.suspendMember(user2.address, reason))
+                .to.be.revertedWithCustomError(registry, 'UnregisteredAccount()');
+        });
+
+        it('should remove the member and forbid signing up again', async () => {
+            const { registry, user1 } = await loadFixture(moderationFixture);
+            await registry.setVerifiedOrganisation(user1.address, true, kyc);
+            await expect(registry.removeMember(user1.address, reason)).to.be.emit(registry, 'MemberStatusUpdated');
+
+            const member = await registry.getMemberData(user1.address);
+            expect(member.status).to.be.equal(MemberStatus.Removed);
+            expect(member.username).to.be.equal('');
+            expect(member.verifiedOrganisation).to.be.equal(false);
+            expect(await registry.registeredMembers(user1.address)).to.be.equal(false);
+            await expect(registry.connect(user1).registerMember('image', 'user1', ipfsHash))
+                .to.be.revertedWithCustomError(registry, 'RemovedAccount()');
+            await expect(registry.removeMember(user1.address, reason))
+                .to.be.revertedWithCustomError(registry, 'UnregisteredAccount()');
+        });
+
+        it('should grant and revoke the verified organisation status by a verifier', async () => {
+            const { registry, owner, user1 } = await loadFixture(moderationFixture);
+            await expect(registry.setVerifiedOrganisation(user1.address, true, kyc))
+                .to.be.emit(registry, 'OrganisationVerificationUpdated').withArgs(user1.address, true, kyc, owner.address);
+            expect((await registry.getMemberData(user1.address)).verifiedOrganisation).to.be.equal(true);
+
+            const challenge = 'Sign in to CoinBox: 42';
+            const result = await registry.verificateMember(user1.address, ethers.hashMessage(challenge), await user1.signMessage(challenge));
+            expect(result.verificate).to.be.equal(true);
+            expect(result.verifiedOrganisation).to.be.equal(true);
+
+            await registry.setVerifiedOrganisation(user1.address, false, ethers.encodeBytes32String('KYC_EXPIRED'));
+            expect((await registry.getMemberData(user1.address)).verifiedOrganisation).to.be.equal(false);
+        });
+
+        it('shouldn\'t moderate or verify the members without the roles', async () => {
+            const { registry, user1, user2 } = await loadFixture(moderationFixture);
+            await expect(registry.connect(user2).suspendMember(user1.address, reason))
+                .to.be.revertedWithCustomError(registry, 'AccessControlUnauthorizedAccount');
+            await expect(registry.connect(user2).removeMember(user1.address, reason))
+                .to.be.revertedWithCustomError(registry, 'AccessControlUnauthorizedAccount');
+            await expect(registry.connect(user2).setVerifiedOrganisation(user1.address, true, kyc))
+                .to.be.revertedWithCustomError(registry, 'AccessControlUnauthorizedAccount');
+        });
+    });
+
+    describe('Registration Usernames & Enumeration Phase Test Cases', async () => {
+        it('should reserve the username case-insensitively', async () => {
+            const { registry, user1, user2 } = await loadFixture(deployFixture);
+            await registry.connect(user1).registerMember('image', 'Alice', ipfsHash);
+            await expect(registry.connect(user2).registerMember('image', 'aLICE', ipfsHash))
+                .to.be.revertedWithCustomError(registry, 'UsernameTaken').withArgs('aLICE');
+            await expect(registry.connect(user2).registerMember('image', '', ipfsHash))
+                .to.be.revertedWithCustomError(registry, 'InvalidUsername()');
+
+            expect(await registry.getAccountByUsername('alice')).to.be.equal(user1.address);
+            expect((await registry.getMemberByUsername('ALICE')).accountETH).to.be.equal(user1.address);
+            expect(await registry.getAccountByUsername('bob')).to.be.equal(zeroAddress);
+        });
+
+        it('should release the old username while update', async () => {
+            const { registry, user1, user2 } = await loadFixture(deployFixture);
+            await registry.connect(user1).registerMember('image', 'alice', ipfsHash);
+            await registry.connect(user2).registerMember('image', 'bob', ipfsHash);
+            await registry.connect(user1).updateData('image', 'ALICE', ipfsHash);
+            await expect(registry.connect(user1).updateData('image', 'Bob', ipfsHash))
+                .to.be.revertedWithCustomError(registry, 'UsernameTaken').withArgs('Bob');
+
+            await registry.connect(user1).updateData('image', 'carol', ipfsHash);
+            expect(await registry.getAccountByUsername('alice')).to.be.equal(zeroAddress);
+            expect(await registry.getAccountByUsername('Carol')).to.be.equal(user1.address);
+            await registry.connect(user2).updateData('image', 'Alice', ipfsHash);
+            expect(await registry.getAccountByUsername('alice')).to.be.equal(user2.address);
+        });
+
+        it('should enumerate the members page by page', async () => {
+            const { registry, owner, user1, user2, relayer } = await loadFixture(deployFixture);
+            const accounts = [owner, user1, user2, relayer].map((signer) => signer.address);
+            await registry.registerMembersBatch(
+                ['1', '2', '3', '4'], ['user0', 'user1', 'user2', 'user3'], accounts, Array(4).fill(ipfsHash)
+            );
+            expect(await registry.membersCount()).to.be.equal(4);
+
+            const firstPage = await registry.getMembers(0, 3);
+            expect(firstPage.map((member) => member.accountETH)).to.be.deep.equal(accounts.slice(0, 3));
+            const lastPage = await registry.getMembers(3, 3);
+            expect(lastPage.map((member) => member.username)).to.be.deep.equal(['user3']);
+            expect(await registry.getMembers(4, 3)).to.be.deep.equal([]);
+        });
+
+        it('should exclude the removed member from the enumeration and release its username', async () => {
+            const { registry, owner, user1, user2 } = await loadFixture(deployFixture);
+            await registry.grantRole(await registry.MODERATOR_ROLE(), owner.address);
+            await registry.connect(user1).registerMember('image', 'alice', ipfsHash);
+            await registry.connect(user2).registerMember('image', 'bob', ipfsHash);
+            await registry.removeMember(user1.address, ethers.encodeBytes32String('SPAM'));
+
+            expect(await registry.membersCount()).to.be.equal(1);
+            expect((await registry.getMembers(0, 10))[0].accountETH).to.be.equal(user2.address);
+            expect(await registry.getAccountByUsername('alice')).to.be.equal(zeroAddress);
+        });
+    });
+});
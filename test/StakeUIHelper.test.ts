@@ -0,0 +1,251 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import { PriceOracleRegistry, Staking } from '../typechain-types';
+import { days } from '@nomicfoundation/hardhat-network-helpers/dist/src/helpers/time/duration';
+import { deployUniswapV2 } from './helpers/uniswap';
+import { buildStakersReport } from '../ignition/helpers/stakersReport';
+
+describe('StakeUIHelper', async () => {
+    const zeroAddress = ethers.ZeroAddress;
+    const SECONDS_PER_YEAR = BigInt(days(365));
+    const PRECISION = 10_000n;
+    const emissionPerSecond = ethers.parseEther('0.01');
+    const amount = ethers.parseEther('10');
+
+    async function deployFixture() {
+        const [owner, user1, user2, user3] = await ethers.getSigners();
+        const { router, weth } = await deployUniswapV2();
+        const rewardToken = await (await ethers.getContractFactory('MockERC20')).deploy(ethers.parseEther('1000000'));
+
+        const StakingImpl = await (await ethers.getContractFactory('Staking')).deploy();
+        const StakingProxy = await (await ethers.getContractFactory('CoinBoxProxy')).deploy(
+            StakingImpl.target, owner.address, StakingImpl.interface.encodeFunctionData('initialize', [
+                weth.target, rewardToken.target, 1800, 900, owner.address, owner.address, days(90)
+            ])
+        );
+        const staking = StakingImpl.attach(StakingProxy.target) as Staking;
+        await staking.configureAssets([{ emissionPerSecond, totalStaked: 0, underlyingAsset: staking.target }]);
+
+        const stakeUIHelper = await (await ethers.getContractFactory('StakeUIHelper')).deploy(
+            weth.target, staking.target, router.target, zeroAddress
+        );
+
+        for (const user of [user1, user2, user3]) {
+            await weth.connect(user).deposit({ value: amount });
+            await weth.connect(user).approve(staking.target, ethers.MaxUint256);
+        }
+
+        return { staking, stakeUIHelper, router, weth, rewardToken, owner, user1, user2, user3 };
+    };
+
+    async function pricedFixture() {
+        const fixture = await deployFixture();
+        const { router, weth, rewardToken, owner, user1, staking } = fixture;
+        // 1 000 reward tokens against 10 WETH: ~0.01 WETH per reward token
+        await weth.deposit({ value: ethers.parseEther('10') });
+        await weth.approve(router.target, ethers.MaxUint256);
+        await rewardToken.approve(router.target, ethers.MaxUint256);
+        await router.addLiquidity(
+            rewardToken.target, weth.target, ethers.parseEther('1000'), ethers.parseEther('10'),
+            0, 0, owner.address, (await time.latest()) + 3600
+        );
+        await staking.connect(user1).stake(amount);
+        return fixture;
+    };
+
+    describe('StakeUIHelper APY Phase Test Cases', async () => {
+        it('should calculate the APY from the rewards value against the staked value', async () => {
+            const { stakeUIHelper, router, weth, rewardToken, user1 } = await loadFixture(pricedFixture);
+            const data = await stakeUIHelper.getUserUIData(user1.address);
+            const [, rewardPrice] = await router.getAmountsOut(ethers.parseEther('1'), [rewardToken.target, weth.target]);
+
+            expect(data.priceAvailable).to.be.equal(true);
+            expect(data.stakedTokenPriceInWeth).to.be.equal(ethers.parseEther('1'));
+            expect(data.rewardTokenPriceInWeth).to.be.equal(rewardPrice);
+            const rewardsValuePerSecond = emissionPerSecond * rewardPrice / ethers.parseEther('1');
+            expect(data.stakeApy).to.be.equal(rewardsValuePerSecond * SECONDS_PER_YEAR * PRECISION / amount);
+        });
+
+        it('should fall back to the zero APY if the reward token has no price', async () => {
+            const { staking, stakeUIHelper, user1 } = await loadFixture(deployFixture);
+            await staking.connect(user1).stake(amount);
+
+            const data = await stakeUIHelper.getUserUIData(user1.address);
+            expect(data.priceAvailable).to.be.equal(false);
+            expect(data.rewardTokenPriceInWeth).to.be.equal(0);
+            expect(data.stakeApy).to.be.equal(0);
+        });
+
+        it('should fall back to the zero APY instead of reverting if the reward token has no decimals', async () => {
+            const { router, weth, owner, user1 } = await loadFixture(deployFixture);
+            const rewardToken = await (await ethers.getContractFactory('MockERC20WithoutDecimals')).deploy(ethers.parseEther('1000000'));
+            const StakingImpl = await (await ethers.getContractFactory('Staking')).deploy();
+            const StakingProxy = await (await ethers.getContractFactory('CoinBoxProxy')).deploy(
+                StakingImpl.target, owner.address, StakingImpl.interface.encodeFunctionData('initialize', [
+                    weth.target, rewardToken.target, 1800, 900, owner.address, owner.address, days(90)
+                ])
+            );
+            const staking = StakingImpl.attach(StakingProxy.target) as Staking;
+            await staking.configureAssets([{ emissionPerSecond, totalStaked: 0, underlyingAsset: staking.target }]);
+            await weth.connect(user1).approve(staking.target, ethers.MaxUint256);
+            await staking.connect(user1).stake(amount);
+            // the pair has the liquidity, but the router can't be asked for the price of one whole token
+            await weth.deposit({ value: ethers.parseEther('10') });
+            await weth.approve(router.target, ethers.MaxUint256);
+            await rewardToken.approve(router.target, ethers.MaxUint256);
+            await router.addLiquidity(
+                rewardToken.target, weth.target, ethers.parseEther('1000'), ethers.parseEther('10'),
+                0, 0, owner.address, (await time.latest()) + 3600
+            );
+            const stakeUIHelper = await (await ethers.getContractFactory('StakeUIHelper')).deploy(
+                weth.target, staking.target, router.target, zeroAddress
+            );
+
+            const data = await stakeUIHelper.getUserUIData(user1.address);
+            expect(data.stakeTokenUserBalance).to.be.equal(amount);
+            expect(data.priceAvailable).to.be.equal(false);
+            expect(data.rewardTokenPriceInWeth).to.be.equal(0);
+            expect(data.stakeApy).to.be.equal(0);
+            const { pools } = await stakeUIHelper.getPoolsUIData(user1.address);
+            expect(pools[0].priceAvailable).to.be.equal(false);
+            expect(pools[0].stakeApy).to.be.equal(0);
+            expect((await stakeUIHelper.getGlobalUIData()).totalStaked).to.be.equal(amount);
+        });
+
+        it('should fall back to the zero APY instead of reverting if nothing is staked', async () => {
+            const { stakeUIHelper, staking, user1 } = await loadFixture(pricedFixture);
+            await staking.connect(user1).cooldown();
+            await time.increase(1801);
+            await staking.connect(user1).redeem(user1.address, amount);
+
+            const data = await stakeUIHelper.getUserUIData(zeroAddress);
+            expect(data.stakeTokenTotalSupply).to.be.equal(0);
+            expect(data.priceAvailable).to.be.equal(true);
+            expect(data.stakeApy).to.be.equal(0);
+        });
+
+        it('should price the APY through the price oracle registry before the router', async () => {
+            const { staking, router, weth, rewardToken, owner, user1 } = await loadFixture(pricedFixture);
+            const RegistryImpl = await (await ethers.getContractFactory('PriceOracleRegistry')).deploy();
+            const RegistryProxy = await (await ethers.getContractFactory('CoinBoxProxy')).deploy(
+                RegistryImpl.target, owner.address, RegistryImpl.interface.encodeFunctionData('initialize', [owner.address])
+            );
+            const registry = RegistryImpl.attach(RegistryProxy.target) as PriceOracleRegistry;
+            const Aggregator = await ethers.getContractFactory('MockAggregator');
+            // ETH at 3 000 USD, the reward token at 15 USD: 0.005 WETH per reward token against ~0.01 WETH by the router
+            const ethAggregator = await Aggregator.deploy(8, 'ETH / USD', 3000n * 10n ** 8n);
+            const rewardAggregator = await Aggregator.deploy(8, 'CBT / USD', 15n * 10n ** 8n);
+            const none = { sourceType: 0, source: zeroAddress, maxDelay: 0 };
+            await registry.setAssetSources(weth.target, { sourceType: 1, source: ethAggregator.target, maxDelay: 3600 }, none);
+
+            const stakeUIHelper = await (await ethers.getContractFactory('StakeUIHelper')).deploy(
+                weth.target, staking.target, router.target, registry.target
+            );
+            const [, routerPrice] = await router.getAmountsOut(ethers.parseEther('1'), [rewardToken.target, weth.target]);
+            expect((await stakeUIHelper.getUserUIData(user1.address)).rewardTokenPriceInWeth).to.be.equal(routerPrice);
+
+            await registry.setAssetSources(rewardToken.target, { sourceType: 1, source: rewardAggregator.target, maxDelay: 3600 }, none);
+            const data = await stakeUIHelper.getUserUIData(user1.address);
+            expect(await stakeUIHelper.ORACLE()).to.be.equal(registry.target);
+            expect(data.rewardTokenPriceInWeth).to.be.equal(ethers.parseEther('0.005'));
+            expect(data.priceAvailable).to.be.equal(true);
+            const rewardsValuePerSecond = emissionPerSecond * ethers.parseEther('0.005') / ethers.parseEther('1');
+            expect(data.stakeApy).to.be.equal(rewardsValuePerSecond * SECONDS_PER_YEAR * PRECISION / amount);
+
+            // the broken feed is skipped: the helper falls back to the router
+            await rewardAggregator.setDecimalsReverting(true);
+            expect((await stakeUIHelper.getUserUIData(user1.address)).rewardTokenPriceInWeth).to.be.equal(routerPrice);
+        });
+
+        it('shouldn\'t deploy the helper without the router', async () => {
+            const { staking, weth } = await loadFixture(deployFixture);
+            await expect((await ethers.getContractFactory('StakeUIHelper')).deploy(weth.target, staking.target, zeroAddress, zeroAddress))
+                .to.be.revertedWith('InvalidAddress');
+        });
+    });
+
+    describe('StakeUIHelper Batch Phase Test Cases', async () => {
+        async function stakersFixture() {
+            const fixture = await deployFixture();
+            const { staking, user1, user2, user3 } = fixture;
+            for (const user of [user1, user2, user3]) await staking.connect(user).stake(amount);
+            await staking.connect(user2).cooldown();
+            await staking.connect(user3).cooldown();
+            await time.increase(1801);
+            await staking.connect(user2).cooldown();
+            return fixture;
+        };
+
+        it('should return the users\' data in the same order', async () => {
+            const { staking, stakeUIHelper, user1, user2 } = await loadFixture(stakersFixture);
+            const data = await stakeUIHelper.getUsersUIData([user2.address, zeroAddress, user1.address]);
+
+            expect(data.length).to.be.equal(3);
+            expect(data[0].userCooldown).to.be.equal(await staking.stakersCooldowns(user2.address));
+            expect(data[0].stakeTokenUserBalance).to.be.equal(amount);
+            expect(data[1].stakeTokenUserBalance).to.be.equal(0);
+            expect(data[1].stakeTokenTotalSupply).to.be.equal(amount * 3n);
+            expect(data[2].userCooldown).to.be.equal(0);
+            expect(data[2].userIncentivesToClaim).to.be.equal(await staking.getTotalRewardsBalance(user1.address));
+        });
+
+        it('should count the stakers in cooldown and in the unstake window', async () => {
+            const { stakeUIHelper, owner, user1, user2, user3 } = await loadFixture(stakersFixture);
+            const summary = await stakeUIHelper.getStakersSummary([owner.address, user1.address, user2.address, user3.address]);
+
+            expect(summary.stakers).to.be.equal(3);
+            expect(summary.inCooldown).to.be.equal(1);
+            expect(summary.inUnstakeWindow).to.be.equal(1);
+            expect(summary.stakedByStakers).to.be.equal(amount * 3n);
+        });
+
+        it('should compare the rewards vault with the emissions until the distribution end', async () => {
+            const { staking, stakeUIHelper, rewardToken, owner } = await loadFixture(stakersFixture);
+            let data = await stakeUIHelper.getGlobalUIData();
+            const distributionEnd = await staking.DISTRIBUTION_END();
+            const emissions = emissionPerSecond * (distributionEnd - BigInt(await time.latest()));
+
+            expect(data.totalStaked).to.be.equal(amount * 3n);
+            expect(data.distributionEnd).to.be.equal(distributionEnd);
+            expect(data.rewardsVaultBalance).to.be.equal(0);
+            expect(data.emissionsUntilEnd).to.be.equal(emissions);
+            expect(data.rewardsShortfall).to.be.equal(emissions);
+
+            await rewardToken.approve(staking.target, ethers.MaxUint256);
+            data = await stakeUIHelper.getGlobalUIData();
+            expect(data.rewardsVaultBalance).to.be.equal(await rewardToken.balanceOf(owner.address));
+            expect(data.rewardsShortfall).to.be.equal(0);
+        });
+
+        it('should count the queued epochs in the emissions until the distribution end', async () => {
+            const { staking, stakeUIHelper } = await loadFixture(stakersFixture);
+            const start = BigInt(await time.latest()) + BigInt(days(10));
+            await staking.queueEpoch(staking.target, emissionPerSecond * 2n, start);
+
+            const now = BigInt(await time.latest());
+            const distributionEnd = await staking.DISTRIBUTION_END();
+            const data = await stakeUIHelper.getGlobalUIData();
+            expect(data.emissionsUntilEnd).to.be.equal(
+                emissionPerSecond * (start - now) + emissionPerSecond * 2n * (distributionEnd - start)
+            );
+        });
+
+        it('should build the stakers report page by page', async () => {
+            const { staking, stakeUIHelper, user1, user2, user3 } = await loadFixture(stakersFixture);
+            await staking.connect(user3).transfer(user1.address, amount);
+
+            const report = await buildStakersReport(stakeUIHelper, staking, { pageSize: 2 });
+            expect(report.totalStaked).to.be.equal(amount * 3n);
+            expect(report.stakers).to.be.equal(2);
+            expect(report.inCooldown).to.be.equal(1);
+            expect(report.inUnstakeWindow).to.be.equal(0);
+            expect(report.rows.map(row => row.account)).to.have.members([user1.address, user2.address]);
+
+            const row = report.rows.find(row => row.account === user1.address)!;
+            expect(row.stakeTokenBalance).to.be.equal(amount * 2n);
+            expect(row.cooldownState).to.be.equal('none');
+            expect(report.rows.find(row => row.account === user2.address)!.cooldownState).to.be.equal('cooldown');
+        });
+    });
+});
@@ -0,0 +1,514 @@
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import { CoinBoxToken, Staking } from '../typechain-types';
+import { days } from '@nomicfoundation/hardhat-network-helpers/dist/src/helpers/time/duration';
+import { deployUniswapV2 } from './helpers/uniswap';
+
+describe('Staking', async () => {
+    const zeroAddress = ethers.ZeroAddress;
+    const COOLDOWN_SECONDS = 1800;
+    const UNSTAKE_WINDOW = 900;
+    const DISTRIBUTION_DURATION = days(90);
+    const emissionPerSecond = ethers.parseEther('0.01');
+    const amount = ethers.parseEther('10');
+
+    async function deployFixture() {
+        const [owner, user1, user2] = await ethers.getSigners();
+
+        const weth = await (await ethers.getContractFactory('MockERC20')).deploy(ethers.parseEther('1000'));
+        const rewardToken = await (await ethers.getContractFactory('MockERC20')).deploy(ethers.parseEther('1000000'));
+
+        const StakingImpl = await (await ethers.getContractFactory('Staking')).deploy();
+        const StakingEncodedInitialize = StakingImpl.interface.encodeFunctionData('initialize', [
+            weth.target, rewardToken.target, COOLDOWN_SECONDS, UNSTAKE_WINDOW,
+            owner.address, owner.address, DISTRIBUTION_DURATION
+        ]);
+        const StakingProxy = await (await ethers.getContractFactory('CoinBoxProxy')).deploy(
+            StakingImpl.target, owner.address, StakingEncodedInitialize
+        );
+        const staking = StakingImpl.attach(StakingProxy.target) as Staking;
+
+        await staking.configureAssets([{ emissionPerSecond, totalStaked: 0, underlyingAsset: staking.target }]);
+        await rewardToken.approve(staking.target, ethers.MaxUint256);
+        for (const user of [user1, user2]) {
+            await weth.mint(user.address, ethers.parseEther('100'));
+            await weth.connect(user).approve(staking.target, ethers.MaxUint256);
+        }
+        await staking.connect(user1).stake(amount);
+
+        return { staking, weth, rewardToken, owner, user1, user2 };
+    };
+
+    describe('Staking Redeem Phase Test Cases', async () => {
+        it('should redeem the staked tokens in the unstake window correctly', async () => {
+            const { staking, weth, user1 } = await loadFixture(deployFixture);
+            await staking.connect(user1).cooldown();
+            await time.increase(COOLDOWN_SECONDS + 1);
+
+            const wethBefore = await weth.balanceOf(user1.address);
+            await expect(staking.connect(user1).redeem(user1.address, amount))
+                .to.be.emit(staking, 'Redeem').withArgs(user1.address, user1.address, amount);
+            expect(await staking.balanceOf(user1.address)).to.be.equal(0);
+            expect(await staking.stakedAmount(user1.address)).to.be.equal(0);
+            expect(await staking.stakersCooldowns(user1.address)).to.be.equal(0);
+            expect(await staking.totalSupply()).to.be.equal(0);
+            expect(await weth.balanceOf(user1.address)).to.be.equal(wethBefore + amount);
+        });
+
+        it('should settle the accrued rewards while redeem', async () => {
+            const { staking, user1 } = await loadFixture(deployFixture);
+            await staking.connect(user1).cooldown();
+            await time.increase(COOLDOWN_SECONDS + 1);
+            await staking.connect(user1).redeem(user1.address, amount);
+
+            const rewards = await staking.stakerRewardsToClaim(user1.address);
+            expect(rewards).to.be.greaterThan(0);
+            await time.increase(100);
+            expect(await staking.getTotalRewardsBalance(user1.address)).to.be.equal(rewards);
+        });
+
+        it('should redeem a part of the stake and keep the cooldown', async () => {
+            const { staking, weth, user1, user2 } = await loadFixture(deployFixture);
+            await staking.connect(user1).cooldown();
+            const cooldown = await staking.stakersCooldowns(user1.address);
+            await time.increase(COOLDOWN_SECONDS + 1);
+
+            await staking.connect(user1).redeem(user2.address, amount / 2n);
+            expect(await staking.balanceOf(user1.address)).to.be.equal(amount / 2n);
+            expect(await staking.stakedAmount(user1.address)).to.be.equal(amount / 2n);
+            expect(await staking.stakersCooldowns(user1.address)).to.be.equal(cooldown);
+            expect(await weth.balanceOf(user2.address)).to.be.equal(ethers.parseEther('100') + amount / 2n);
+        });
+
+        it('shouldn\'t redeem without the cooldown', async () => {
+            const { staking, user1 } = await loadFixture(deployFixture);
+            await expect(staking.connect(user1).redeem(user1.address, amount)).to.be.revertedWith('INSUFFICIENT_COOLDOWN');
+            await staking.connect(user1).cooldown();
+            await expect(staking.connect(user1).redeem(user1.address, amount)).to.be.revertedWith('INSUFFICIENT_COOLDOWN');
+        });
+
+        it('shouldn\'t redeem after the unstake window', async () => {
+            const { staking, user1 } = await loadFixture(deployFixture);
+            await staking.connect(user1).cooldown();
+            await time.increase(COOLDOWN_SECONDS + UNSTAKE_WINDOW + 2);
+            await expect(staking.connect(user1).redeem(user1.address, amount)).to.be.revertedWith('UNSTAKE_WINDOW_FINISHED');
+        });
+
+        it('shouldn\'t redeem if the amount is zero or the recipient is zero\'s address', async () => {
+            const { staking, user1 } = await loadFixture(deployFixture);
+            await expect(staking.connect(user1).redeem(user1.address, 0)).to.be.revertedWithCustomError(staking, 'InvalidAmount()');
+            await expect(staking.connect(user1).redeem(zeroAddress, amount)).to.be.revertedWithCustomError(staking, 'InvalidAddress()');
+        });
+    });
+
+    describe('Staking Claim Phase Test Cases', async () => {
+        it('should claim the rewards at any time to the recipient without the cooldown', async () => {
+            const { staking, rewardToken, user1, user2 } = await loadFixture(deployFixture);
+            await time.increase(100);
+
+            const receipt = await (await staking.connect(user1).claimRewards(user2.address, ethers.MaxUint256)).wait();
+            const claimed = receipt!.logs.map(log => staking.interface.parseLog(log)).find(log => log?.name === 'RewardsClaimed')!;
+            expect(claimed.args.from).to.be.equal(user1.address);
+            expect(claimed.args.to).to.be.equal(user2.address);
+            expect(claimed.args.amount).to.be.equal(emissionPerSecond * 101n);
+            expect(await rewardToken.balanceOf(user2.address)).to.be.equal(claimed.args.amount);
+            expect(await staking.stakerRewardsToClaim(user1.address)).to.be.equal(0);
+            expect(await staking.stakersCooldowns(user1.address)).to.be.equal(0);
+        });
+
+        it('should keep the rest of the rewards and the cooldown of the principal', async () => {
+            const { staking, rewardToken, user1 } = await loadFixture(deployFixture);
+            await staking.connect(user1).cooldown();
+            const cooldown = await staking.stakersCooldowns(user1.address);
+            await time.increase(100);
+
+            const part = emissionPerSecond * 10n;
+            await expect(staking.connect(user1).claimRewards(user1.address, part))
+                .to.be.emit(staking, 'RewardsClaimed').withArgs(user1.address, user1.address, part);
+            expect(await rewardToken.balanceOf(user1.address)).to.be.equal(part);
+            expect(await staking.stakerRewardsToClaim(user1.address)).to.be.equal(emissionPerSecond * 102n - part);
+            expect(await staking.stakersCooldowns(user1.address)).to.be.equal(cooldown);
+            await expect(staking.connect(user1).redeem(user1.address, amount)).to.be.revertedWith('INSUFFICIENT_COOLDOWN');
+        });
+
+        it('should claim on behalf of the staker only by the approved claimer', async () => {
+            const { staking, rewardToken, user1, user2 } = await loadFixture(deployFixture);
+            await expect(staking.connect(user2).claimRewardsOnBehalf(user1.address, user2.address, ethers.MaxUint256))
+                .to.be.revertedWithCustomError(staking, 'UnauthorizedClaimer');
+
+            await expect(staking.connect(user1).setClaimer(user2.address, true))
+                .to.be.emit(staking, 'ClaimerUpdated').withArgs(user1.address, user2.address, true);
+            expect(await staking.approvedClaimers(user1.address, user2.address)).to.be.equal(true);
+            await staking.connect(user2).claimRewardsOnBehalf(user1.address, user1.address, ethers.MaxUint256);
+            expect(await rewardToken.balanceOf(user1.address)).to.be.greaterThan(0);
+            expect(await staking.stakerRewardsToClaim(user1.address)).to.be.equal(0);
+
+            await staking.connect(user1).setClaimer(user2.address, false);
+            await expect(staking.connect(user2).claimRewardsOnBehalf(user1.address, user2.address, ethers.MaxUint256))
+                .to.be.revertedWithCustomError(staking, 'UnauthorizedClaimer');
+        });
+
+        it('should revert the claim with the invalid params or without the rewards', async () => {
+            const { staking, user1, user2 } = await loadFixture(deployFixture);
+            await expect(staking.connect(user1).claimRewards(zeroAddress, 1)).to.be.revertedWithCustomError(staking, 'InvalidAddress');
+            await expect(staking.connect(user1).claimRewards(user1.address, 0)).to.be.revertedWithCustomError(staking, 'InvalidAmount');
+            await expect(staking.connect(user2).claimRewards(user2.address, 1)).to.be.revertedWithCustomError(staking, 'InvalidAmount');
+            await expect(staking.connect(user1).setClaimer(zeroAddress, true)).to.be.revertedWithCustomError(staking, 'InvalidAddress');
+        });
+    });
+
+    describe('Staking Emergency Phase Test Cases', async () => {
+        it('should withdraw only the surplus above the principal', async () => {
+            const { staking, weth, owner, user1 } = await loadFixture(deployFixture);
+            await weth.mint(staking.target, ethers.parseEther('3'));
+            await expect(staking.emergencyWithdraw(owner.address, amount))
+                .to.be.emit(staking, 'EmergencyWithdraw').withArgs(owner.address, ethers.parseEther('3'));
+            expect(await weth.balanceOf(staking.target)).to.be.equal(await staking.totalSupply());
+            await expect(staking.emergencyWithdraw(owner.address, amount))
+                .to.be.revertedWithCustomError(staking, 'InvalidAmount()');
+            expect(await staking.balanceOf(user1.address)).to.be.equal(amount);
+        });
+
+        it('should keep the principal and allow instant redeem in the emergency mode', async () => {
+            const { staking, weth, owner, user1 } = await loadFixture(deployFixture);
+            await expect(staking.setEmergencyMode(true)).to.be.emit(staking, 'EmergencyModeUpdated').withArgs(true);
+            await expect(staking.connect(user1).stake(amount)).to.be.revertedWithCustomError(staking, 'EmergencyMode()');
+
+            await staking.connect(user1).redeem(user1.address, amount / 2n);
+            await expect(staking.emergencyWithdraw(owner.address, amount))
+                .to.be.revertedWithCustomError(staking, 'InvalidAmount()');
+            await weth.mint(staking.target, ethers.parseEther('1'));
+            await expect(staking.emergencyWithdraw(owner.address, amount))
+                .to.be.emit(staking, 'EmergencyWithdraw').withArgs(owner.address, ethers.parseEther('1'));
+
+            await staking.connect(user1).redeem(user1.address, amount / 2n);
+            expect(await staking.balanceOf(user1.address)).to.be.equal(0);
+            expect(await weth.balanceOf(staking.target)).to.be.equal(await staking.totalSupply());
+        });
+
+        it('shouldn\'t use the emergency path if a caller isn\'t an owner', async () => {
+            const { staking, user1 } = await loadFixture(deployFixture);
+            await expect(staking.connect(user1).setEmergencyMode(true)).to.be.reverted;
+            await expect(staking.connect(user1).emergencyWithdraw(user1.address, amount)).to.be.reverted;
+        });
+    });
+
+    describe('Staking Pools Phase Test Cases', async () => {
+        async function poolFixture() {
+            const fixture = await deployFixture();
+            const { staking, user1, user2 } = fixture;
+
+            const bitcoin = await (await ethers.getContractFactory('AssetToken')).deploy('Bitcoin', 'BTC', 8, 0, fixture.owner.address);
+            const stkBTC = await (await ethers.getContractFactory('StakedAssetToken')).deploy(
+                'Staked Bitcoin', 'stkBTC', staking.target, bitcoin.target
+            );
+            await staking.addPool(stkBTC.target, COOLDOWN_SECONDS * 2, UNSTAKE_WINDOW);
+            await staking.configureAssets([{ emissionPerSecond: emissionPerSecond * 2n, totalStaked: 0, underlyingAsset: stkBTC.target }]);
+            for (const user of [user1, user2]) {
+                await bitcoin.mint(user.address, ethers.parseEther('100'));
+                await bitcoin.connect(user).approve(staking.target, ethers.MaxUint256);
+            }
+            const { router } = await deployUniswapV2();
+            const stakeUIHelper = await (await ethers.getContractFactory('StakeUIHelper')).deploy(
+                fixture.weth.target, staking.target, router.target, ethers.ZeroAddress
+            );
+
+            return { ...fixture, bitcoin, stkBTC, stakeUIHelper };
+        };
+
+        it('should add the pool by an owner', async () => {
+            const { staking, bitcoin, stkBTC } = await loadFixture(poolFixture);
+            const pool = await staking.pools(bitcoin.target);
+            expect(pool.receiptToken).to.be.equal(stkBTC.target);
+            expect(pool.cooldownSeconds).to.be.equal(COOLDOWN_SECONDS * 2);
+            expect(await staking.receiptAssets(stkBTC.target)).to.be.equal(bitcoin.target);
+            expect(await staking.getPoolAssets()).to.be.deep.equal([bitcoin.target]);
+            expect(await stkBTC.decimals()).to.be.equal(8);
+            await expect(staking.addPool(stkBTC.target, COOLDOWN_SECONDS, UNSTAKE_WINDOW))
+                .to.be.revertedWithCustomError(staking, 'PoolAlreadyExists()');
+        });
+
+        it('shouldn\'t add the pool with the foreign receipt token or if a caller isn\'t an owner', async () => {
+            const { staking, bitcoin, user1 } = await loadFixture(poolFixture);
+            const foreign = await (await ethers.getContractFactory('StakedAssetToken')).deploy(
+                'Staked Bitcoin', 'stkBTC', user1.address, bitcoin.target
+            );
+            await expect(staking.addPool(foreign.target, COOLDOWN_SECONDS, UNSTAKE_WINDOW))
+                .to.be.revertedWithCustomError(staking, 'InvalidReceiptToken()');
+            await expect(staking.connect(user1).addPool(foreign.target, COOLDOWN_SECONDS, UNSTAKE_WINDOW)).to.be.reverted;
+            await expect(staking.setPoolConfig(user1.address, COOLDOWN_SECONDS, UNSTAKE_WINDOW))
+                .to.be.revertedWithCustomError(staking, 'UnknownPool()');
+        });
+
+        it('should stake to the pool and accrue the rewards by the pool\'s emission', async () => {
+            const { staking, bitcoin, stkBTC, user2 } = await loadFixture(poolFixture);
+            await expect(staking.connect(user2).stakeAsset(bitcoin.target, amount))
+                .to.be.emit(staking, 'PoolStaked').withArgs(bitcoin.target, user2.address, amount);
+            expect(await stkBTC.balanceOf(user2.address)).to.be.equal(amount);
+            expect(await staking.poolStakedAmount(bitcoin.target, user2.address)).to.be.equal(amount);
+            expect(await staking.balanceOf(user2.address)).to.be.equal(0);
+
+            await time.increase(100);
+            const rewards = await staking.getTotalRewardsBalance(user2.address);
+            expect(rewards).to.be.equal(emissionPerSecond * 2n * 100n);
+
+            await staking.connect(user2).stakeAsset(bitcoin.target, amount);
+            expect(await staking.stakerRewardsToClaim(user2.address)).to.be.equal(emissionPerSecond * 2n * 101n);
+        });
+
+        it('should redeem from the pool with its own cooldown', async () => {
+            const { staking, bitcoin, stkBTC, user2 } = await loadFixture(poolFixture);
+            await staking.connect(user2).stakeAsset(bitcoin.target, amount);
+            await staking.connect(user2).cooldownAsset(bitcoin.target);
+            await time.increase(COOLDOWN_SECONDS + 1);
+            await expect(staking.connect(user2).redeemAsset(bitcoin.target, user2.address, amount))
+                .to.be.revertedWith('INSUFFICIENT_COOLDOWN');
+
+            await time.increase(COOLDOWN_SECONDS);
+            const balanceBefore = await bitcoin.balanceOf(user2.address);
+            await expect(staking.connect(user2).redeemAsset(bitcoin.target, user2.address, amount))
+                .to.be.emit(staking, 'PoolRedeem').withArgs(bitcoin.target, user2.address, user2.address, amount);
+            expect(await bitcoin.balanceOf(user2.address)).to.be.equal(balanceBefore + amount);
+            expect(await stkBTC.totalSupply()).to.be.equal(0);
+            expect(await staking.poolCooldowns(bitcoin.target, user2.address)).to.be.equal(0);
+        });
+
+        it('should settle the rewards of both parties on the receipt token\'s transfer', async () => {
+            const { staking, bitcoin, stkBTC, user1, user2 } = await loadFixture(poolFixture);
+            await staking.connect(user2).stakeAsset(bitcoin.target, amount);
+            await time.increase(100);
+            await stkBTC.connect(user2).transfer(user1.address, amount);
+
+            const accrued = await staking.stakerRewardsToClaim(user2.address);
+            expect(accrued).to.be.greaterThan(0);
+            await time.increase(100);
+            expect(await staking.getTotalRewardsBalance(user2.address)).to.be.equal(accrued);
+            await expect(stkBTC.mint(user1.address, amount)).to.be.revertedWithCustomError(stkBTC, 'OnlyStaking()');
+            await expect(staking.handleReceiptTransfer(user1.address, user2.address, amount))
+                .to.be.revertedWithCustomError(staking, 'InvalidReceiptToken()');
+        });
+
+        it('should report every pool in the UI helper', async () => {
+            const { staking, stakeUIHelper, weth, bitcoin, stkBTC, user2 } = await loadFixture(poolFixture);
+            await staking.connect(user2).stakeAsset(bitcoin.target, amount);
+            await time.increase(100);
+
+            const { pools: [wethPool, bitcoinPool], userIncentivesToClaim } = await stakeUIHelper.getPoolsUIData(user2.address);
+            expect(wethPool.underlyingToken).to.be.equal(weth.target);
+            expect(wethPool.stakeToken).to.be.equal(staking.target);
+            expect(bitcoinPool.underlyingToken).to.be.equal(bitcoin.target);
+            expect(bitcoinPool.stakeToken).to.be.equal(stkBTC.target);
+            expect(bitcoinPool.stakeCooldownSeconds).to.be.equal(COOLDOWN_SECONDS * 2);
+            expect(bitcoinPool.distributionPerSecond).to.be.equal(emissionPerSecond * 2n);
+            expect(bitcoinPool.stakeTokenUserBalance).to.be.equal(amount);
+            // the rewards of all pools are reported once
+            expect(userIncentivesToClaim).to.be.equal(await staking.getTotalRewardsBalance(user2.address)).and.to.be.greaterThan(0);
+            expect(wethPool.userIncentivesToClaim).to.be.equal(0);
+            expect(bitcoinPool.userIncentivesToClaim).to.be.equal(0);
+            // the local router has no pairs for the mocked tokens, so the APY falls back to zero
+            expect(bitcoinPool.priceAvailable).to.be.equal(false);
+            expect(bitcoinPool.stakeApy).to.be.equal(0);
+        });
+    });
+
+    describe('Staking Epochs Phase Test Cases', async () => {
+        it('should extend the distribution by the emission manager', async () => {
+            const { staking, user1 } = await loadFixture(deployFixture);
+            const distributionEnd = await staking.DISTRIBUTION_END();
+            await expect(staking.extendDistribution(distributionEnd + BigInt(days(30))))
+                .to.be.emit(staking, 'DistributionExtended').withArgs(distributionEnd, distributionEnd + BigInt(days(30)));
+            await expect(staking.extendDistribution(distributionEnd))
+                .to.be.revertedWithCustomError(staking, 'InvalidDuration()');
+            await expect(staking.connect(user1).extendDistribution(distributionEnd + BigInt(days(60))))
+                .to.be.revertedWith('ONLY_EMISSION_MANAGER');
+        });
+
+        it('shouldn\'t reward the pause if the distribution is extended after the end', async () => {
+            const { staking, user1 } = await loadFixture(deployFixture);
+            const stakedAt = BigInt(await time.latest());
+            const distributionEnd = await staking.DISTRIBUTION_END();
+            await time.increaseTo(distributionEnd + BigInt(days(1)));
+            const expected = emissionPerSecond * (distributionEnd - stakedAt);
+            expect(await staking.getTotalRewardsBalance(user1.address)).to.be.equal(expected);
+
+            await staking.extendDistribution(distributionEnd + BigInt(days(30)));
+            const extendedAt = BigInt(await time.latest());
+            await time.increase(100);
+            expect(await staking.getTotalRewardsBalance(user1.address))
+                .to.be.equal(expected + emissionPerSecond * (BigInt(await time.latest()) - extendedAt));
+        });
+
+        it('should apply the queued epoch at its start', async () => {
+            const { staking, user1, user2 } = await loadFixture(deployFixture);
+            const stakedAt = BigInt(await time.latest());
+            const start = stakedAt + 1000n;
+            await expect(staking.queueEpoch(staking.target, emissionPerSecond * 3n, start))
+                .to.be.emit(staking, 'EpochQueued').withArgs(staking.target, emissionPerSecond * 3n, start);
+
+            let [current, next] = await staking.getAssetEpochs(staking.target);
+            expect(current.emissionPerSecond).to.be.equal(emissionPerSecond);
+            expect(next.startTimestamp).to.be.equal(start);
+
+            await time.increaseTo(start + 500n);
+            const expected = emissionPerSecond * (start - stakedAt) + emissionPerSecond * 3n * 500n;
+            expect(await staking.getTotalRewardsBalance(user1.address)).to.be.equal(expected);
+            [current, next] = await staking.getAssetEpochs(staking.target);
+            expect(current.emissionPerSecond).to.be.equal(emissionPerSecond * 3n);
+            expect(current.startTimestamp).to.be.equal(start);
+            expect(next.startTimestamp).to.be.equal(0);
+
+            await expect(staking.connect(user2).stake(amount))
+                .to.be.emit(staking, 'EpochStarted').withArgs(staking.target, emissionPerSecond * 3n, start);
+            expect((await staking.assets(staking.target)).emissionPerSecond).to.be.equal(emissionPerSecond * 3n);
+        });
+
+        it('shouldn\'t queue the invalid epoch', async () => {
+            const { staking, user1 } = await loadFixture(deployFixture);
+            const now = BigInt(await time.latest());
+            const distributionEnd = await staking.DISTRIBUTION_END();
+            await expect(staking.queueEpoch(staking.target, emissionPerSecond, now))
+                .to.be.revertedWithCustomError(staking, 'InvalidEpoch()');
+            await expect(staking.queueEpoch(staking.target, emissionPerSecond, distributionEnd))
+                .to.be.revertedWithCustomError(staking, 'InvalidEpoch()');
+            await staking.queueEpoch(staking.target, emissionPerSecond, now + 1000n);
+            await expect(staking.queueEpoch(staking.target, emissionPerSecond, now + 1000n))
+                .to.be.revertedWithCustomError(staking, 'InvalidEpoch()');
+            await expect(staking.connect(user1).queueEpoch(staking.target, emissionPerSecond, now + 2000n))
+                .to.be.revertedWith('ONLY_EMISSION_MANAGER');
+        });
+
+        it('should cancel the epochs which haven\'t started yet', async () => {
+            const { staking } = await loadFixture(deployFixture);
+            const now = BigInt(await time.latest());
+            await staking.queueEpoch(staking.target, emissionPerSecond * 2n, now + 100n);
+            await staking.queueEpoch(staking.target, emissionPerSecond * 3n, now + 1000n);
+            await time.increaseTo(now + 500n);
+
+            await expect(staking.cancelEpochs(staking.target)).to.be.emit(staking, 'EpochsCancelled').withArgs(staking.target);
+            const [current, next] = await staking.getAssetEpochs(staking.target);
+            expect(current.emissionPerSecond).to.be.equal(emissionPerSecond * 2n);
+            expect(next.startTimestamp).to.be.equal(0);
+        });
+
+        it('should show the current and the next epoch in the UI helper', async () => {
+            const { staking, weth, user1 } = await loadFixture(deployFixture);
+            const { router } = await deployUniswapV2();
+            const stakeUIHelper = await (await ethers.getContractFactory('StakeUIHelper')).deploy(weth.target, staking.target, router.target, ethers.ZeroAddress);
+            const start = BigInt(await time.latest()) + 1000n;
+            await staking.queueEpoch(staking.target, emissionPerSecond / 2n, start);
+
+            const data = await stakeUIHelper.getUserUIData(user1.address);
+            expect(data.currentEpoch.emissionPerSecond).to.be.equal(emissionPerSecond);
+            expect(data.currentEpoch.endTimestamp).to.be.equal(start);
+            expect(data.nextEpoch.emissionPerSecond).to.be.equal(emissionPerSecond / 2n);
+            expect(data.nextEpoch.startTimestamp).to.be.equal(start);
+            expect(data.nextEpoch.endTimestamp).to.be.equal(await staking.DISTRIBUTION_END());
+        });
+    });
+
+    describe('Staking Restake Phase Test Cases', async () => {
+        async function restakeFixture() {
+            const [owner, user1, user2] = await ethers.getSigners();
+            const { router, weth } = await deployUniswapV2();
+            const Proxy = await ethers.getContractFactory('CoinBoxProxy');
+
+            const TokenImpl = await (await ethers.getContractFactory('CoinBoxToken')).deploy();
+            const TokenProxy = await Proxy.deploy(
+                TokenImpl.target, owner.address, TokenImpl.interface.encodeFunctionData('initialize', [router.target, owner.address])
+            );
+            const token = TokenImpl.attach(TokenProxy.target) as CoinBoxToken;
+
+            const StakingImpl = await (await ethers.getContractFactory('Staking')).deploy();
+            const StakingProxy = await Proxy.deploy(
+                StakingImpl.target, owner.address, StakingImpl.interface.encodeFunctionData('initialize', [
+                    weth.target, token.target, COOLDOWN_SECONDS, UNSTAKE_WINDOW, owner.address, owner.address, DISTRIBUTION_DURATION
+                ])
+            );
+            const staking = StakingImpl.attach(StakingProxy.target) as Staking;
+            await staking.configureAssets([{ emissionPerSecond, totalStaked: 0, underlyingAsset: staking.target }]);
+            await staking.setSwapRouter(router.target);
+            await token.approve(staking.target, ethers.MaxUint256);
+
+            // 1 000 000 CBT against 100 WETH: 0.0001 WETH per CBT
+            await weth.deposit({ value: ethers.parseEther('100') });
+            await weth.approve(router.target, ethers.MaxUint256);
+            await token.approve(router.target, ethers.MaxUint256);
+            await router.addLiquidity(
+                token.target, weth.target, ethers.parseEther('1000000'), ethers.parseEther('100'),
+                0, 0, owner.address, (await time.latest()) + 3600
+            );
+            for (const user of [user1, user2]) {
+                await weth.connect(user).deposit({ value: amount });
+                await weth.connect(user).approve(staking.target, ethers.MaxUint256);
+            }
+            await staking.connect(user1).stake(amount);
+            await time.increase(days(1));
+
+            return { staking, token, router, weth, owner, user1, user2 };
+        };
+
+        it('should swap the rewards with the swap fee of the token and stake the received WETH', async () => {
+            const { staking, token, router, user1, ...fixture } = await loadFixture(restakeFixture);
+            const weth = await ethers.getContractAt('@openzeppelin/contracts/token/ERC20/IERC20.sol:IERC20', fixture.weth.target);
+            const pair = await token.uniswapV2Pair();
+            const [reserveToken, reserveWeth] = await Promise.all([token.balanceOf(pair), weth.balanceOf(pair)]);
+
+            const receipt = await (await staking.connect(user1).claimAndRestake(1)).wait();
+            const restaked = receipt!.logs.map(log => staking.interface.parseLog(log)).find(log => log?.name === 'RewardsRestaked')!;
+            const [, rewards, amountOut] = restaked.args;
+
+            const { received, liquidity } = await token.previewTransfer(staking.target, pair, rewards);
+            expect(liquidity).to.be.greaterThan(0);
+            expect(amountOut).to.be.equal(await router.getAmountOut(received, reserveToken, reserveWeth));
+            expect(await staking.balanceOf(user1.address)).to.be.equal(amount + amountOut);
+            expect(await staking.stakedAmount(user1.address)).to.be.equal(amount + amountOut);
+            expect(await weth.balanceOf(staking.target)).to.be.equal(amount + amountOut);
+            expect(await token.balanceOf(staking.target)).to.be.equal(0);
+            expect(await staking.stakerRewardsToClaim(user1.address)).to.be.equal(0);
+            expect(await staking.getTotalRewardsBalance(user1.address)).to.be.equal(0);
+            await expect(receipt).to.be.emit(staking, 'RewardsClaimed').withArgs(user1.address, staking.target, rewards);
+            await expect(receipt).to.be.emit(staking, 'Staked').withArgs(user1.address, amountOut);
+        });
+
+        it('should weight the cooldown with the restaked amount', async () => {
+            const { staking, user1 } = await loadFixture(restakeFixture);
+            await staking.connect(user1).cooldown();
+            const cooldown = await staking.stakersCooldowns(user1.address);
+            await time.increase(100);
+
+            const receipt = await (await staking.connect(user1).claimAndRestake(1)).wait();
+            const { timestamp } = (await ethers.provider.getBlock(receipt!.blockNumber))!;
+            const amountOut = await staking.balanceOf(user1.address) - amount;
+            expect(await staking.stakersCooldowns(user1.address))
+                .to.be.equal((amountOut * BigInt(timestamp) + amount * cooldown) / (amountOut + amount));
+        });
+
+        it('should revert the restake below the min WETH out', async () => {
+            const { staking, user1 } = await loadFixture(restakeFixture);
+            await expect(staking.connect(user1).claimAndRestake(ethers.parseEther('1')))
+                .to.be.revertedWith('UniswapV2Router: INSUFFICIENT_OUTPUT_AMOUNT');
+            await expect(staking.connect(user1).claimAndRestake(0)).to.be.revertedWithCustomError(staking, 'InvalidAmount');
+        });
+
+        it('should revert the restake without the rewards, the router or in the emergency mode', async () => {
+            const { staking, user2 } = await loadFixture(restakeFixture);
+            await expect(staking.connect(user2).claimAndRestake(1)).to.be.revertedWithCustomError(staking, 'InvalidAmount');
+            await staking.setEmergencyMode(true);
+            await expect(staking.connect(user2).claimAndRestake(1)).to.be.revertedWithCustomError(staking, 'EmergencyMode');
+
+            const { staking: stakingWithoutRouter, user1 } = await loadFixture(deployFixture);
+            await expect(stakingWithoutRouter.connect(user1).claimAndRestake(1))
+                .to.be.revertedWithCustomError(stakingWithoutRouter, 'InvalidAddress');
+        });
+
+        it('should set the swap router only by an owner', async () => {
+            const { staking, router, user1 } = await loadFixture(restakeFixture);
+            await expect(staking.connect(user1).setSwapRouter(router.target))
+                .to.be.revertedWithCustomError(staking, 'OwnableUnauthorizedAccount');
+            await expect(staking.setSwapRouter(zeroAddress)).to.be.revertedWithCustomError(staking, 'InvalidAddress');
+            await expect(staking.setSwapRouter(router.target)).to.be.emit(staking, 'SwapRouterUpdated').withArgs(router.target);
+            expect(await staking.SWAP_ROUTER()).to.be.equal(router.target);
+        });
+    });
+});
@@ -0,0 +1,343 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import hre, { ethers, run } from 'hardhat';
+import { expect } from 'chai';
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers';
+import { CoinBoxToken, CoinBoxTokenV1, Registration, Staking, StakingV1 } from '../typechain-types';
+import { days } from '@nomicfoundation/hardhat-network-helpers/dist/src/helpers/time/duration';
+import { deployUniswapV2 } from './helpers/uniswap';
+import { runSilently } from './helpers/console';
+import { DeploymentManifest } from '../ignition/helpers/manifest';
+import {
+    IMPLEMENTATION_SLOT,
+    StorageLayout,
+    compareStorageLayouts,
+    getStorageLayout,
+    planUpgrade
+} from '../ignition/helpers/upgrade';
+
+describe('Proxy upgrades', async () => {
+    const zeroAddress = ethers.ZeroAddress;
+    const ipfsHash = ethers.encodeBytes32String('ipfs');
+
+    async function deployFixture() {
+        const [owner, user1] = await ethers.getSigners();
+        const { router, weth } = await deployUniswapV2();
+        const Proxy = await ethers.getContractFactory('CoinBoxProxy');
+
+        const TokenImpl = await (await ethers.getContractFactory('CoinBoxToken')).deploy();
+        const TokenProxy = await Proxy.deploy(
+            TokenImpl.target, owner.address, TokenImpl.interface.encodeFunctionData('initialize', [router.target, owner.address])
+        );
+        const token = TokenImpl.attach(TokenProxy.target) as CoinBoxToken;
+
+        const StakingImpl = await (await ethers.getContractFactory('Staking')).deploy();
+        const StakingProxy = await Proxy.deploy(
+            StakingImpl.target, owner.address, StakingImpl.interface.encodeFunctionData('initialize', [
+                weth.target, token.target, 1800, 900, owner.address, owner.address, days(90)
+            ])
+        );
+        const staking = StakingImpl.attach(StakingProxy.target) as Staking;
+
+        const RegistrationImpl = await (await ethers.getContractFactory('Registration')).deploy();
+        const RegistrationProxy = await Proxy.deploy(
+            RegistrationImpl.target, owner.address, RegistrationImpl.interface.encodeFunctionData('initialize')
+        );
+        const registry = RegistrationImpl.attach(RegistrationProxy.target) as Registration;
+
+        const manifestData: DeploymentManifest = {
+            network: 'hardhat',
+            chainId: 31337,
+            updatedAt: new Date().toISOString(),
+            proxies: {
+                CoinBoxToken: { proxy: await token.getAddress(), implementation: await TokenImpl.getAddress(), proxyAdmin: zeroAddress },
+                Staking: { proxy: await staking.getAddress(), implementation: await StakingImpl.getAddress(), proxyAdmin: zeroAddress },
+                Registration: {
+                    proxy: await registry.getAddress(), implementation: await RegistrationImpl.getAddress(), proxyAdmin: zeroAddress
+                }
+            },
+            contracts: {}
+        };
+        // the deployment records the layouts of the implementations
+        for (const [name, deployment] of Object.entries(manifestData.proxies)) {
+            deployment.contract = name;
+            deployment.storageLayout = await getStorageLayout(hre, name);
+        }
+
+        return { token, staking, registry, weth, manifestData, owner, user1 };
+    };
+
+    /// Loads the fixture with a new manifest file, the upgrades write to it
+    async function deployWithManifest() {
+        const fixture = await loadFixture(deployFixture);
+        const manifest = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'coinbox-upgrade-')), 'hardhat.json');
+        fs.writeFileSync(manifest, JSON.stringify(fixture.manifestData));
+        return { ...fixture, manifest };
+    }
+
+    /// Deploys the proxies with the implementations that are deployed on the networks and their manifest without the layouts
+    async function deployV1Fixture() {
+        const [owner, user1] = await ethers.getSigners();
+        const { router, weth } = await deployUniswapV2();
+        const Proxy = await ethers.getContractFactory('CoinBoxProxy');
+
+        const TokenImpl = await (await ethers.getContractFactory('CoinBoxTokenV1')).deploy();
+        const TokenProxy = await Proxy.deploy(
+            TokenImpl.target, owner.address, TokenImpl.interface.encodeFunctionData('initialize', [router.target, owner.address])
+        );
+        const tokenV1 = TokenImpl.attach(TokenProxy.target) as CoinBoxTokenV1;
+
+        const StakingImpl = await (await ethers.getContractFactory('StakingV1')).deploy();
+        const StakingProxy = await Proxy.deploy(
+            StakingImpl.target, owner.address, StakingImpl.interface.encodeFunctionData('initialize', [
+                weth.target, tokenV1.target, 1800, 900, owner.address, owner.address, days(90)
+            ])
+        );
+        const stakingV1 = StakingImpl.attach(StakingProxy.target) as StakingV1;
+
+        const manifestData: DeploymentManifest = {
+            network: 'hardhat',
+            chainId: 31337,
+            updatedAt: new Date().toISOString(),
+            proxies: {
+                CoinBoxToken: { proxy: await tokenV1.getAddress(), implementation: await TokenImpl.getAddress(), proxyAdmin: zeroAddress },
+                Staking: { proxy: await stakingV1.getAddress(), implementation: await StakingImpl.getAddress(), proxyAdmin: zeroAddress }
+            },
+            contracts: {}
+        };
+
+        return { tokenV1, stakingV1, weth, manifestData, owner, user1 };
+    };
+
+    /// Loads the fixture of the deployed implementations with a new manifest file
+    async function deployV1WithManifest() {
+        const fixture = await loadFixture(deployV1Fixture);
+        const manifest = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'coinbox-upgrade-')), 'hardhat.json');
+        fs.writeFileSync(manifest, JSON.stringify(fixture.manifestData));
+        return { ...fixture, manifest };
+    }
+
+    /// Runs the task without its console output
+    async function runTask(name: string, args: Record<string, unknown>) {
+        return runSilently(() => run(name, args));
+    }
+
+    function readManifestFile(manifest: string): DeploymentManifest {
+        return JSON.parse(fs.readFileSync(manifest, 'utf8'));
+    }
+
+    /// Returns the variable of the layout by its label
+    function findEntry(layout: StorageLayout, label: string) {
+        return layout.storage.find(entry => entry.label === label)!;
+    }
+
+    describe('Storage Layout Phase Test Cases', async () => {
+        it('should accept the appended variables of the v2 implementations', async () => {
+            for (const [contract, next] of [
+                ['CoinBoxToken', 'MockCoinBoxTokenV2'],
+                ['Staking', 'MockStakingV2'],
+                ['Registration', 'MockRegistrationV2']
+            ]) {
+                const errors = compareStorageLayouts(await getStorageLayout(hre, contract), await getStorageLayout(hre, next));
+                expect(errors, next).to.be.deep.equal([]);
+            }
+        });
+
+        it('should reserve the storage gaps', async () => {
+            for (const [contract, slots] of [['CoinBoxToken', 59n], ['Staking', 34n], ['Registration', 45n]] as const) {
+                const layout = await getStorageLayout(hre, contract);
+                const gap = layout.storage[layout.storage.length - 1];
+                expect(gap.label).to.be.equal('__gap');
+                expect(BigInt(layout.types![gap.type].numberOfBytes) / 32n).to.be.equal(slots);
+            }
+            // the DistributionManager keeps its new state in the namespaced storage, Staking's variables follow its own
+            const staking = await getStorageLayout(hre, 'Staking');
+            expect(staking.storage.filter(entry => entry.label === '__gap').map(entry => entry.slot)).to.be.deep.equal(['19']);
+        });
+
+        it('should keep the layouts of the deployed implementations', async () => {
+            for (const [deployed, contract] of [['CoinBoxTokenV1', 'CoinBoxToken'], ['StakingV1', 'Staking']]) {
+                const errors = compareStorageLayouts(await getStorageLayout(hre, deployed), await getStorageLayout(hre, contract));
+                expect(errors, contract).to.be.deep.equal([]);
+            }
+        });
+
+        it('should allow the new variables to take the slots of the gap', async () => {
+            const original = await getStorageLayout(hre, 'Registration');
+            const gap = findEntry(original, '__gap');
+            const updated: StorageLayout = structuredClone(original);
+            const types = updated.types!;
+            types.t_array_shrunk = { ...types[gap.type], label: 'uint256[44]', numberOfBytes: String(44 * 32) };
+            updated.storage = [
+                ...updated.storage.filter(entry => entry.label !== '__gap'),
+                { ...gap, label: 'newVariable', type: 't_uint256' },
+                { ...gap, slot: String(Number(gap.slot) + 1), type: 't_array_shrunk' }
+            ];
+            types.t_uint256 = { label: 'uint256', encoding: 'inplace', numberOfBytes: '32' };
+            expect(compareStorageLayouts(original, updated)).to.be.deep.equal([]);
+
+            // the gap isn't shrunk: the storage after it moves
+            updated.storage[updated.storage.length - 1].type = gap.type;
+            expect(compareStorageLayouts(original, updated)).to.be.deep.equal([`the gap at slot ${Number(gap.slot) + 1} ends at slot 51 instead of 50`]);
+        });
+
+        it('should report the renamed, retyped and deleted variables', async () => {
+            const original = await getStorageLayout(hre, 'Staking');
+            const renamed: StorageLayout = structuredClone(original);
+            findEntry(renamed, 'REWARDS_VAULT').label = 'newVariable';
+            expect(compareStorageLayouts(original, renamed)).to.be.deep.equal(['REWARDS_VAULT (slot 5) is replaced by newVariable']);
+
+            const retyped: StorageLayout = structuredClone(original);
+            findEntry(retyped, 'emergencyMode').type = findEntry(retyped, 'COOLDOWN_SECONDS').type;
+            expect(compareStorageLayouts(original, retyped)).to.be.deep.equal(['emergencyMode (slot 11): bool is changed to uint256 (1 bytes to 32)']);
+
+            const deleted: StorageLayout = structuredClone(original);
+            deleted.storage = deleted.storage.filter(entry => entry.label !== 'pools');
+            expect(compareStorageLayouts(original, deleted)).to.be.deep.equal(['pools (slot 12) is deleted or moved']);
+
+            const errors = compareStorageLayouts(await getStorageLayout(hre, 'Registration'), original);
+            expect(errors[0]).to.be.equal('members (slot 0) is replaced by DISTRIBUTION_END');
+        });
+    });
+
+    describe('Upgrade Task Phase Test Cases', async () => {
+        it('should find the ProxyAdmin of the proxy and change nothing in the dry run', async () => {
+            const { registry, manifest, owner } = await deployWithManifest();
+            const before = await ethers.provider.getStorage(registry.target, IMPLEMENTATION_SLOT);
+
+            const plan = await runTask('coinbox:upgrade', { proxy: 'Registration', contract: 'MockRegistrationV2', call: 'initializeV2', manifest });
+            const proxyAdmin = await ethers.getContractAt('ProxyAdmin', plan.proxyAdmin);
+            expect(await proxyAdmin.owner()).to.be.equal(owner.address);
+            expect(plan.owner).to.be.equal(owner.address);
+            expect(plan.reference).to.be.equal('manifest');
+            expect(plan.call).to.be.equal('initializeV2()');
+            expect(await ethers.provider.getStorage(registry.target, IMPLEMENTATION_SLOT))
+                .to.be.equal(before);
+        });
+
+        it('should refuse the upgrade to the incompatible storage layout', async () => {
+            const { manifest } = await deployWithManifest();
+            await expect(runTask('coinbox:upgrade', { proxy: 'Registration', contract: 'Staking', manifest, execute: true }))
+                .to.be.rejectedWith('Refused the upgrade of Registration:\n  members (slot 0) is replaced by DISTRIBUTION_END');
+            expect(readManifestFile(manifest).proxies.Registration.upgrades).to.be.equal(undefined);
+        });
+
+        it('should upgrade every contract to v2 with the migration and keep the state', async () => {
+            const { token, staking, registry, weth, manifest, owner, user1 } = await deployWithManifest();
+            await registry.connect(user1).registerMember('image', 'alice', ipfsHash);
+            await token.transfer(user1.address, ethers.parseEther('100'));
+            await weth.connect(user1).deposit({ value: ethers.parseEther('1') });
+            await weth.connect(user1).approve(staking.target, ethers.parseEther('1'));
+            await staking.connect(user1).stake(ethers.parseEther('1'));
+
+            await runTask('coinbox:upgrade', {
+                proxy: 'CoinBoxToken', contract: 'MockCoinBoxTokenV2', call: 'initializeV3', args: JSON.stringify([owner.address]), manifest, execute: true
+            });
+            await runTask('coinbox:upgrade', {
+                proxy: 'Staking', contract: 'MockStakingV2', call: 'initializeV2', args: '["1000"]', manifest, execute: true
+            });
+            await runTask('coinbox:upgrade', { proxy: 'Registration', contract: 'MockRegistrationV2', call: 'initializeV2', manifest, execute: true });
+
+            const tokenV2 = await ethers.getContractAt('MockCoinBoxTokenV2', token.target);
+            expect(await tokenV2.VERSION()).to.be.equal(2);
+            expect(await tokenV2.treasury()).to.be.equal(owner.address);
+            expect(await token.balanceOf(user1.address)).to.be.equal(ethers.parseEther('100'));
+
+            const stakingV2 = await ethers.getContractAt('MockStakingV2', staking.target);
+            expect(await stakingV2.maxStakePerUser()).to.be.equal(1000);
+            expect(await staking.balanceOf(user1.address)).to.be.equal(ethers.parseEther('1'));
+            expect(await staking.COOLDOWN_SECONDS()).to.be.equal(1800);
+
+            const registryV2 = await ethers.getContractAt('MockRegistrationV2', registry.target);
+            expect(await registryV2.migratedMembers()).to.be.equal(1);
+            expect((await registry.members(user1.address)).username).to.be.equal('alice');
+
+            const { proxies } = readManifestFile(manifest);
+            for (const [name, contract] of [['CoinBoxToken', 'MockCoinBoxTokenV2'], ['Staking', 'MockStakingV2'], ['Registration', 'MockRegistrationV2']]) {
+                const deployment = proxies[name];
+                expect(deployment.contract).to.be.equal(contract);
+                expect(deployment.upgrades).to.have.length(1);
+                expect(deployment.upgrades![0].contract).to.be.equal(contract);
+                expect(deployment.implementation).to.be.equal(deployment.upgrades![0].to);
+                expect(deployment.proxyAdmin).to.not.be.equal(zeroAddress);
+                expect(deployment.storageLayout).to.be.deep.equal(await getStorageLayout(hre, contract));
+            }
+            expect(proxies.Staking.upgrades![0].call).to.be.equal('initializeV2(uint256)');
+        });
+
+        it('should upgrade the proxies running the deployed implementations and keep the state', async () => {
+            const { tokenV1, stakingV1, weth, manifest, owner, user1 } = await deployV1WithManifest();
+            const amount = ethers.parseEther('1');
+            await tokenV1.transfer(user1.address, ethers.parseEther('100'));
+            await tokenV1.approve(stakingV1.target, ethers.MaxUint256);
+            await stakingV1.configureAssets([{ emissionPerSecond: ethers.parseEther('0.01'), totalStaked: 0, underlyingAsset: stakingV1.target }]);
+            await weth.connect(user1).deposit({ value: amount });
+            await weth.connect(user1).approve(stakingV1.target, amount);
+            await stakingV1.connect(user1).stake(amount);
+            await time.increase(days(1));
+
+            const tokenPlan = await runTask('coinbox:upgrade', {
+                proxy: 'CoinBoxToken', contract: 'CoinBoxToken', reference: 'CoinBoxTokenV1', call: 'initializeV2', manifest, execute: true
+            });
+            const stakingPlan = await runTask('coinbox:upgrade', {
+                proxy: 'Staking', contract: 'Staking', reference: 'StakingV1', manifest, execute: true
+            });
+            expect(tokenPlan.reference).to.be.equal('CoinBoxTokenV1');
+            expect(stakingPlan.errors).to.be.deep.equal([]);
+
+            const token = await ethers.getContractAt('CoinBoxToken', tokenV1.target);
+            const staking = await ethers.getContractAt('Staking', stakingV1.target);
+            expect(await token.owner()).to.be.equal(owner.address);
+            expect(await token.balanceOf(user1.address)).to.be.equal(ethers.parseEther('100'));
+            expect(await token.transferFee()).to.be.deep.equal([2n, 0n]);
+            expect(await staking.balanceOf(user1.address)).to.be.equal(amount);
+            expect(await staking.stakedAmount(user1.address)).to.be.equal(amount);
+            expect(await staking.REWARDS_VAULT()).to.be.equal(owner.address);
+            expect(await staking.COOLDOWN_SECONDS()).to.be.equal(1800);
+            expect((await staking.assets(staking.target)).emissionPerSecond).to.be.equal(ethers.parseEther('0.01'));
+
+            // the rewards accrued by the previous implementation are claimed through the new one
+            const rewards = await staking.getTotalRewardsBalance(user1.address);
+            expect(rewards).to.be.greaterThanOrEqual(ethers.parseEther('0.01') * BigInt(days(1)));
+            await expect(staking.connect(user1).claimRewards(user1.address, ethers.MaxUint256))
+                .to.be.emit(staking, 'RewardsClaimed');
+            expect(await token.balanceOf(user1.address)).to.be.greaterThan(ethers.parseEther('100') + rewards);
+
+            const { proxies } = readManifestFile(manifest);
+            expect(proxies.CoinBoxToken.upgrades![0].call).to.be.equal('initializeV2()');
+            expect(proxies.Staking.storageLayout).to.be.deep.equal(await getStorageLayout(hre, 'Staking'));
+        });
+
+        it('should refuse the upgrade without the reference if the manifest has no layout of the proxy', async () => {
+            const { tokenV1, manifest } = await deployV1WithManifest();
+            const implementation = await ethers.provider.getStorage(tokenV1.target, IMPLEMENTATION_SLOT);
+            await expect(runTask('coinbox:upgrade', { proxy: 'CoinBoxToken', contract: 'CoinBoxToken', manifest, execute: true }))
+                .to.be.rejectedWith('The storage layout of CoinBoxToken isn\'t recorded in the manifest');
+            expect(await ethers.provider.getStorage(tokenV1.target, IMPLEMENTATION_SLOT)).to.be.equal(implementation);
+            expect(readManifestFile(manifest).proxies.CoinBoxToken.upgrades).to.be.equal(undefined);
+        });
+
+        it('should check the next upgrade against the layout recorded in the manifest', async () => {
+            const { manifest } = await deployWithManifest();
+            await runTask('coinbox:upgrade', { proxy: 'Registration', contract: 'MockRegistrationV2', manifest, execute: true });
+
+            const plan = await planUpgrade(hre, readManifestFile(manifest), 'Registration', 'Registration');
+            expect(plan.reference).to.be.equal('manifest');
+            expect(plan.errors).to.be.deep.equal(['migratedMembers (slot 50) is deleted or moved']);
+        });
+
+        it('should decode the revert of the migration and refuse the signer that isn\'t the admin owner', async () => {
+            const { manifest, user1 } = await deployWithManifest();
+            await expect(runTask('coinbox:upgrade', { proxy: 'Registration', contract: 'Registration', call: 'initialize', manifest, execute: true }))
+                .to.be.rejectedWith('InvalidInitialization(): the initializer or the migration has already run');
+
+            const plan = await runTask('coinbox:upgrade', { proxy: 'Registration', contract: 'MockRegistrationV2', manifest });
+            const proxyAdmin = await ethers.getContractAt('ProxyAdmin', plan.proxyAdmin);
+            await proxyAdmin.transferOwnership(user1.address);
+            await expect(runTask('coinbox:upgrade', { proxy: 'Registration', contract: 'MockRegistrationV2', manifest, execute: true }))
+                .to.be.rejectedWith(`isn't the owner ${user1.address} of the ProxyAdmin of Registration`);
+            expect(readManifestFile(manifest).proxies.Registration.upgrades).to.be.equal(undefined);
+        });
+    });
+});
@@ -0,0 +1,10 @@
+/// Runs the function without its console output, e.g. the logs of the hardhat tasks
+export async function runSilently<T>(fn: () => Promise<T>): Promise<T> {
+    const log = console.log;
+    console.log = () => {};
+    try {
+        return await fn();
+    } finally {
+        console.log = log;
+    }
+}
@@ -0,0 +1,22 @@
+import { Signer } from 'ethers';
+import { CoinBoxToken, DonationCampaigns } from '../../typechain-types';
+import { SignedDonation, SignedPermit, SignedTransfer } from '../../ignition/helpers/signatures';
+
+/// The local stand-in of the relayer: submits the signed transfer from its own account
+export async function relayTransfer(relayer: Signer, token: CoinBoxToken, transfer: SignedTransfer) {
+    return token.connect(relayer).transferBySig(
+        transfer.from, transfer.to, transfer.amount, transfer.deadline, transfer.signature
+    );
+}
+
+/// The local stand-in of the relayer: submits the signed permit and then the signed donation from its own account
+export async function relayDonation(
+    relayer: Signer, token: CoinBoxToken, campaigns: DonationCampaigns, permit: SignedPermit, donation: SignedDonation
+) {
+    await token.connect(relayer).permit(
+        permit.owner, permit.spender, permit.value, permit.deadline, permit.v, permit.r, permit.s
+    );
+    return campaigns.connect(relayer).donateBySig(
+        donation.campaignId, donation.donor, donation.amount, donation.deadline, donation.signature
+    );
+}
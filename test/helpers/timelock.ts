@@ -0,0 +1,21 @@
+import { Interface } from 'ethers';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { CoinBoxToken } from '../../typechain-types';
+
+/// Queues the change of the timelocked CoinBoxToken setter, waits for the timelock delay
+/// and returns the transaction that executes the change
+export async function executeTimelocked(token: CoinBoxToken, method: string, args: unknown[]) {
+    const data = (token.interface as Interface).encodeFunctionData(method, args);
+    await token.queueChange(data);
+    await time.increase(await token.timelockDelay());
+    return token.executeChange(data);
+}
+
+/// Queues the changes of the timelocked CoinBoxToken setters at once, waits for the timelock delay
+/// and executes them in the same order
+export async function executeTimelockedBatch(token: CoinBoxToken, changes: [method: string, args: unknown[]][]) {
+    const data = changes.map(([method, args]) => (token.interface as Interface).encodeFunctionData(method, args));
+    for (const change of data) await token.queueChange(change);
+    await time.increase(await token.timelockDelay());
+    for (const change of data) await token.executeChange(change);
+}
@@ -0,0 +1,29 @@
+import { ethers } from 'hardhat';
+import { InterfaceAbi, Signer } from 'ethers';
+import { IUniswapV2Factory__factory, IUniswapV2Router02__factory, IWETH__factory } from '../../typechain-types';
+import * as UniswapV2Factory from '@uniswap/v2-core/build/UniswapV2Factory.json';
+import * as UniswapV2Router02 from '@uniswap/v2-periphery/build/UniswapV2Router02.json';
+import * as WETH9 from '@uniswap/v2-periphery/build/WETH9.json';
+
+/// Deploys the contract from the precompiled Uniswap artifact
+async function deployArtifact(artifact: { abi: InterfaceAbi, bytecode: string }, deployer: Signer, ...args: unknown[]) {
+    const factory = new ethers.ContractFactory(artifact.abi, `0x${artifact.bytecode}`, deployer);
+    const contract = await factory.deploy(...args);
+    await contract.waitForDeployment();
+    return contract.getAddress();
+}
+
+/// Deploys the local Uniswap V2 stack (WETH, factory and router) instead of forking a live network
+export async function deployUniswapV2() {
+    const [deployer] = await ethers.getSigners();
+
+    const wethAddress = await deployArtifact(WETH9, deployer);
+    const factoryAddress = await deployArtifact(UniswapV2Factory, deployer, deployer.address);
+    const routerAddress = await deployArtifact(UniswapV2Router02, deployer, factoryAddress, wethAddress);
+
+    const weth = IWETH__factory.connect(wethAddress, deployer);
+    const factory = IUniswapV2Factory__factory.connect(factoryAddress, deployer);
+    const router = IUniswapV2Router02__factory.connect(routerAddress, deployer);
+
+    return { weth, factory, router };
+}